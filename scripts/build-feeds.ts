@@ -0,0 +1,36 @@
+import { existsSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { SITE_POSTS } from '../src/app/blog/posts.ts';
+import { atomFeed, FEED_FILES, type FeedSite, jsonFeed, rssFeed } from './feeds.ts';
+
+// Runs after `ng build`, writing the feeds next to the app in the directory Amplify publishes. They list the
+// posts read on the site, from the same registry the blog does; those only linked to are in their own site's feed.
+const OUTPUT_DIR = 'dist/Website/browser';
+
+if (!existsSync(OUTPUT_DIR)) {
+  console.error(`${OUTPUT_DIR} is missing; build the app before the feeds`);
+  process.exit(1);
+}
+
+// SITE_URL is where the site is served, such as https://example.com; feeds need absolute links
+const siteUrl = process.env['SITE_URL'] ?? 'http://localhost:4200';
+if (!process.env['SITE_URL']) {
+  // A deploy must not publish feeds that point at localhost
+  if (process.env['CI']) {
+    console.error('SITE_URL is not set; set it to the address the site is served from');
+    process.exit(1);
+  }
+  console.warn(`SITE_URL is not set, so the feeds link to ${siteUrl}`);
+}
+
+const site: FeedSite = {
+  url: siteUrl.replace(/\/+$/, ''),
+  title: 'Inam Ahmad Saleh · Technical Articles',
+  description: 'Sharing knowledge and insights from real-world AWS and serverless development',
+  author: 'Inam Ahmad Saleh'
+};
+
+writeFileSync(join(OUTPUT_DIR, FEED_FILES.rss), rssFeed(site, SITE_POSTS));
+writeFileSync(join(OUTPUT_DIR, FEED_FILES.atom), atomFeed(site, SITE_POSTS));
+writeFileSync(join(OUTPUT_DIR, FEED_FILES.json), jsonFeed(site, SITE_POSTS));
+console.log(`Wrote ${Object.values(FEED_FILES).join(', ')} with ${SITE_POSTS.length} posts to ${OUTPUT_DIR}`);
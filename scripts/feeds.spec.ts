@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { describe, it } from 'node:test';
+import { parsePost, sortPosts } from '../src/app/blog/post.ts';
+import { atomFeed, escapeXml, type FeedSite, jsonFeed, rssFeed } from './feeds.ts';
+
+const site: FeedSite = {
+  url: 'https://example.com',
+  title: 'Notes & <Thoughts>',
+  description: 'About "things"',
+  author: 'Ada'
+};
+
+const posts = sortPosts([
+  parsePost(
+    'older',
+    [
+      '---',
+      'title: Older',
+      'date: 2024-01-02',
+      'description: <b>Bold</b> & "quoted"',
+      'tags: [A & B]',
+      '---',
+      '',
+      'See [the chart](/chart.png) and <script>.'
+    ].join('\n')
+  ),
+  parsePost(
+    'newer',
+    '---\ntitle: Newer\ndate: 2024-02-03\ncanonical: https://medium.com/@ada/newer\n---\n\n## Hello\n\nBody.'
+  )
+]);
+
+/** Checks that every tag closes in order, which is what a feed reader's XML parser needs first. */
+function assertWellFormed(xml: string): void {
+  assert.match(xml, /^<\?xml version="1\.0" encoding="UTF-8"\?>\n/);
+  const open: string[] = [];
+  for (const [tag, closing, name, selfClosing] of xml.matchAll(/<(\/?)([\w:]+)[^>]*?(\/?)>/g)) {
+    if (tag.startsWith('<?')) continue;
+    if (closing) {
+      assert.equal(open.pop(), name, `${tag} closes the wrong element`);
+    } else if (!selfClosing) {
+      open.push(name);
+    }
+  }
+  assert.deepEqual(open, [], 'every element is closed');
+  // Any & left in the text must start an entity
+  assert.doesNotMatch(xml, /&(?!(amp|lt|gt|quot|apos);)/);
+}
+
+describe('blog feeds', () => {
+  it('should write an RSS 2.0 channel with one item per post, newest first', () => {
+    const rss = rssFeed(site, posts);
+
+    assertWellFormed(rss);
+    assert.match(rss, /<rss version="2\.0"/);
+    assert.match(rss, /<title>Notes &amp; &lt;Thoughts&gt;<\/title>/);
+    assert.equal(rss.match(/<item>/g)?.length, 2);
+    assert.ok(rss.indexOf('<title>Newer</title>') < rss.indexOf('<title>Older</title>'));
+    assert.match(rss, /<guid isPermaLink="true">https:\/\/example\.com\/blog\/newer<\/guid>/);
+    assert.match(rss, /<pubDate>Sat, 03 Feb 2024 00:00:00 GMT<\/pubDate>/);
+    assert.match(rss, /<lastBuildDate>Sat, 03 Feb 2024 00:00:00 GMT<\/lastBuildDate>/);
+  });
+
+  it('should escape HTML in descriptions rather than let it through', () => {
+    const rss = rssFeed(site, posts);
+    const atom = atomFeed(site, posts);
+
+    const escaped = '&lt;b&gt;Bold&lt;/b&gt; &amp; &quot;quoted&quot;';
+    assert.ok(rss.includes(`<description>${escaped}</description>`));
+    assert.ok(atom.includes(`<summary>${escaped}</summary>`));
+    assert.ok(rss.includes('<category>A &amp; B</category>'));
+    assert.ok(!rss.includes('<b>'));
+    assert.equal(JSON.parse(jsonFeed(site, posts)).items[1].summary, '<b>Bold</b> & "quoted"');
+  });
+
+  it('should write an Atom feed with each post as escaped HTML content', () => {
+    const atom = atomFeed(site, posts);
+
+    assertWellFormed(atom);
+    assert.match(atom, /<feed xmlns="http:\/\/www\.w3\.org\/2005\/Atom">/);
+    assert.equal(atom.match(/<entry>/g)?.length, 2);
+    assert.match(atom, /<updated>2024-02-03T00:00:00\.000Z<\/updated>/);
+    assert.match(atom, /<link href="https:\/\/example\.com\/atom\.xml" rel="self"/);
+    assert.ok(atom.includes('<content type="html">&lt;p&gt;See &lt;a href=&quot;https://example.com/chart.png&quot;'));
+    // The post's own <script> text was escaped once by the renderer and again for XML
+    assert.ok(atom.includes('&amp;lt;script&amp;gt;'));
+  });
+
+  it('should write a JSON Feed 1.1', () => {
+    const feed = JSON.parse(jsonFeed(site, posts));
+
+    assert.equal(feed.version, 'https://jsonfeed.org/version/1.1');
+    assert.equal(feed.feed_url, 'https://example.com/feed.json');
+    assert.deepEqual(feed.authors, [{ name: 'Ada' }]);
+    assert.deepEqual(
+      feed.items.map((item: { id: string }) => item.id),
+      ['https://example.com/blog/newer', 'https://example.com/blog/older']
+    );
+    assert.equal(feed.items[0].external_url, 'https://medium.com/@ada/newer');
+    assert.equal(feed.items[1].external_url, undefined);
+    assert.equal(feed.items[0].date_published, '2024-02-03T00:00:00.000Z');
+    assert.match(feed.items[0].content_html, /<h2 id="hello">Hello<\/h2>/);
+    assert.deepEqual(feed.items[1].tags, ['A & B']);
+  });
+
+  it('should escape every XML special character', () => {
+    assert.equal(escapeXml(`<a href="x">'&'</a>`), '&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;');
+  });
+
+  it('should read the posts the site publishes from its registry', async () => {
+    // The feeds import posts.ts as the blog does, Markdown and all, so they cannot list a post the site does not
+    const { POSTS, SITE_POSTS } = await import('../src/app/blog/posts.ts');
+    const registry = readFileSync('src/app/blog/posts.ts', 'utf8');
+    assert.ok(POSTS.length > 0);
+    for (const { article } of POSTS) {
+      assert.ok(registry.includes(`'${article.slug}':`), `${article.slug} is registered in posts.ts`);
+    }
+    assert.deepEqual(SITE_POSTS, POSTS.filter(post => !post.article.external));
+  });
+});
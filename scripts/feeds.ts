@@ -0,0 +1,129 @@
+import type { Post } from '../src/app/blog/post.ts';
+
+/** Who and what the feeds describe; `url` is the site's address without a trailing slash. */
+export interface FeedSite {
+  url: string;
+  title: string;
+  description: string;
+  author: string;
+}
+
+export const FEED_FILES = { rss: 'feed.xml', atom: 'atom.xml', json: 'feed.json' } as const;
+
+/** An RSS 2.0 feed of `posts`, newest first as given. */
+export function rssFeed(site: FeedSite, posts: Post[]): string {
+  const items = posts.map(({ article }) => {
+    const url = `${site.url}${article.url}`;
+    return [
+      '    <item>',
+      `      <title>${escapeXml(article.title)}</title>`,
+      `      <link>${escapeXml(url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(url)}</guid>`,
+      `      <pubDate>${publishedAt(article.date).toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(article.description)}</description>`,
+      ...article.tags.map(tag => `      <category>${escapeXml(tag)}</category>`),
+      '    </item>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(site.title)}</title>`,
+    `    <link>${escapeXml(`${site.url}/blog`)}</link>`,
+    `    <description>${escapeXml(site.description)}</description>`,
+    '    <language>en</language>',
+    `    <lastBuildDate>${updatedAt(posts).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(`${site.url}/${FEED_FILES.rss}`)}" rel="self" type="application/rss+xml"/>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+}
+
+/** An Atom feed of `posts`, with each post's full text. */
+export function atomFeed(site: FeedSite, posts: Post[]): string {
+  const entries = posts.map(post => {
+    const { article } = post;
+    const url = `${site.url}${article.url}`;
+    const published = publishedAt(article.date).toISOString();
+    return [
+      '  <entry>',
+      `    <title>${escapeXml(article.title)}</title>`,
+      `    <link href="${escapeXml(url)}"/>`,
+      `    <id>${escapeXml(url)}</id>`,
+      `    <published>${published}</published>`,
+      `    <updated>${published}</updated>`,
+      `    <summary>${escapeXml(article.description)}</summary>`,
+      `    <content type="html">${escapeXml(absoluteLinks(site, post.html))}</content>`,
+      ...article.tags.map(tag => `    <category term="${escapeXml(tag)}"/>`),
+      '  </entry>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(site.title)}</title>`,
+    `  <subtitle>${escapeXml(site.description)}</subtitle>`,
+    `  <link href="${escapeXml(`${site.url}/blog`)}"/>`,
+    `  <link href="${escapeXml(`${site.url}/${FEED_FILES.atom}`)}" rel="self" type="application/atom+xml"/>`,
+    `  <id>${escapeXml(`${site.url}/blog`)}</id>`,
+    `  <updated>${updatedAt(posts).toISOString()}</updated>`,
+    `  <author><name>${escapeXml(site.author)}</name></author>`,
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n');
+}
+
+/** A JSON Feed 1.1 of `posts`; posts first published elsewhere link to the original as their external URL. */
+export function jsonFeed(site: FeedSite, posts: Post[]): string {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: site.title,
+    home_page_url: `${site.url}/blog`,
+    feed_url: `${site.url}/${FEED_FILES.json}`,
+    description: site.description,
+    language: 'en',
+    authors: [{ name: site.author }],
+    items: posts.map(post => {
+      const { article } = post;
+      const url = `${site.url}${article.url}`;
+      return {
+        id: url,
+        url,
+        ...(article.canonical ? { external_url: article.canonical } : {}),
+        title: article.title,
+        summary: article.description,
+        content_html: absoluteLinks(site, post.html),
+        date_published: publishedAt(article.date).toISOString(),
+        tags: article.tags
+      };
+    })
+  };
+  return `${JSON.stringify(feed, null, 2)}\n`;
+}
+
+/** Text made safe for XML content and attribute values. */
+export function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, char => XML_ENTITIES[char]);
+}
+
+const XML_ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+
+// Posts are dated by day; feeds want a moment, so they are published at midnight UTC
+function publishedAt(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function updatedAt(posts: Post[]): Date {
+  return posts.length > 0 ? publishedAt(posts[0].article.date) : new Date(0);
+}
+
+/** Feed readers show posts away from the site, so links and images relative to it need its address. */
+function absoluteLinks(site: FeedSite, html: string): string {
+  return html.replace(/(href|src)="\//g, `$1="${site.url}/`);
+}
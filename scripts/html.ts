@@ -0,0 +1,115 @@
+/** An element of a parsed HTML document; text is kept as strings between the elements. */
+export interface HtmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set(['area', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'wbr']);
+const RAW_TEXT_TAGS = new Set(['script', 'style']);
+
+const TOKENS =
+  /<!--[\s\S]*?-->|<!\w[^>]*>|<(\/?)([a-zA-Z][\w-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*\/?>|[^<]+|</g;
+const ATTRIBUTES = /([^\s=>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”'
+};
+
+/**
+ * Parses HTML into a tree, forgivingly: unclosed elements close with their
+ * parent, stray closing tags are dropped, and script and style contents are
+ * skipped. Enough for well-formed exports such as Medium's; not a browser.
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#document', attributes: {}, children: [] };
+  const open: HtmlElement[] = [root];
+  let skipUntil: string | null = null;
+
+  for (const [token, closing, name, attributes] of html.matchAll(TOKENS)) {
+    const tag = name?.toLowerCase();
+    if (skipUntil) {
+      if (closing && tag === skipUntil) skipUntil = null;
+      continue;
+    }
+    if (token.startsWith('<!')) continue;
+
+    const parent = open[open.length - 1];
+    if (!tag) {
+      parent.children.push(decodeEntities(token));
+    } else if (closing) {
+      const index = open.map(element => element.tag).lastIndexOf(tag);
+      if (index > 0) open.length = index;
+    } else if (RAW_TEXT_TAGS.has(tag)) {
+      skipUntil = tag;
+    } else {
+      const element: HtmlElement = { tag, attributes: parseAttributes(attributes ?? ''), children: [] };
+      parent.children.push(element);
+      if (!VOID_TAGS.has(tag) && !token.endsWith('/>')) {
+        open.push(element);
+      }
+    }
+  }
+  return root;
+}
+
+/** The first element under `node`, depth first, that `test` accepts. */
+export function findElement(node: HtmlElement, test: (element: HtmlElement) => boolean): HtmlElement | null {
+  for (const child of node.children) {
+    if (typeof child === 'string') continue;
+    if (test(child)) return child;
+    const found = findElement(child, test);
+    if (found) return found;
+  }
+  return null;
+}
+
+/** Every element under `node` that `test` accepts, in document order. */
+export function findElements(node: HtmlElement, test: (element: HtmlElement) => boolean): HtmlElement[] {
+  return node.children.flatMap(child =>
+    typeof child === 'string' ? [] : [...(test(child) ? [child] : []), ...findElements(child, test)]
+  );
+}
+
+export function hasClass(element: HtmlElement, name: string): boolean {
+  return (element.attributes['class'] ?? '').split(/\s+/).includes(name);
+}
+
+/** The text inside `node`, with line breaks for `<br>`. */
+export function textContent(node: HtmlNode): string {
+  if (typeof node === 'string') return node;
+  if (node.tag === 'br') return '\n';
+  return node.children.map(textContent).join('');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, double, single, bare] of source.matchAll(ATTRIBUTES)) {
+    attributes[name.toLowerCase()] = decodeEntities(double ?? single ?? bare ?? '');
+  }
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
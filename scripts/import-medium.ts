@@ -0,0 +1,93 @@
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { type FrontMatter, parseFrontMatter } from '../src/app/blog/front-matter.ts';
+import {
+  convertMediumPost,
+  isMediumDraft,
+  localSlug,
+  mediumPostSource,
+  registerPost,
+  withLocalFields
+} from './medium.ts';
+import { readZip } from './zip.ts';
+
+// Imports the posts of a Medium export, the zip Medium emails or its unpacked folder, into the blog.
+// Posts already here are matched by their canonical link and keep their file, tags and thumbnail.
+const POSTS_DIR = 'src/app/blog/posts';
+const REGISTRY = 'src/app/blog/posts.ts';
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const exportPath = args.find(arg => !arg.startsWith('--'));
+if (!exportPath || !existsSync(exportPath)) {
+  console.error('Usage: npm run import:medium -- <medium-export.zip or folder> [--dry-run]');
+  process.exit(1);
+}
+
+/** The export's posts folder, by path; the rest of it is the profile, claps, lists and so on. */
+function readExport(path: string): Map<string, string> {
+  const files = statSync(path).isDirectory()
+    ? (readdirSync(path, { recursive: true }) as string[]).map(file => [
+        `${basename(path)}/${file.split('\\').join('/')}`,
+        () => readFileSync(join(path, file))
+      ])
+    : [...readZip(readFileSync(path))].map(([file, content]) => [file, () => content]);
+  return new Map(
+    (files as [string, () => Buffer][])
+      .filter(([file]) => /(^|\/)posts\/[^/]+\.html$/.test(file))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([file, read]) => [file, read().toString('utf8')])
+  );
+}
+
+const local = new Map<string, FrontMatter>(
+  readdirSync(POSTS_DIR)
+    .filter(file => file.endsWith('.md'))
+    .map(file => [file.slice(0, -'.md'.length), parseFrontMatter(readFileSync(join(POSTS_DIR, file), 'utf8')).data])
+);
+
+const report = { added: [] as string[], updated: [] as string[], unchanged: 0, drafts: 0 };
+const review: string[] = [];
+const skipped: string[] = [];
+let registry = readFileSync(REGISTRY, 'utf8');
+
+for (const [file, html] of readExport(exportPath)) {
+  if (isMediumDraft(file)) {
+    report.drafts++;
+    continue;
+  }
+  try {
+    const converted = convertMediumPost(file, html);
+    const slug = localSlug(converted, local);
+    const existing = local.get(slug);
+
+    const post = withLocalFields({ ...converted, slug }, existing);
+    const path = join(POSTS_DIR, `${slug}.md`);
+    const source = mediumPostSource(post);
+    if (existing && readFileSync(path, 'utf8') === source) {
+      report.unchanged++;
+    } else {
+      (existing ? report.updated : report.added).push(slug);
+      if (!dryRun) writeFileSync(path, source);
+    }
+    local.set(slug, post.data);
+    registry = registerPost(registry, slug);
+    if (post.problems.length > 0) {
+      review.push(`${slug}.md\n${post.problems.map(problem => `      - ${problem}`).join('\n')}`);
+    }
+  } catch (error) {
+    skipped.push(`${file}: ${(error as Error).message}`);
+  }
+}
+if (!dryRun) writeFileSync(REGISTRY, registry);
+
+const list = (items: string[]) => items.map(item => `\n    ${item}`).join('');
+console.log(`${dryRun ? 'Would import' : 'Imported'} from ${exportPath}:`);
+console.log(`  ${report.added.length} new${list(report.added)}`);
+console.log(`  ${report.updated.length} updated${list(report.updated)}`);
+console.log(`  ${report.unchanged} unchanged\n  ${report.drafts} left out as drafts`);
+if (review.length > 0) console.warn(`  ${review.length} to check, which did not convert cleanly${list(review)}`);
+if (skipped.length > 0) {
+  console.error(`  ${skipped.length} skipped, which could not be converted${list(skipped)}`);
+  process.exitCode = 1;
+}
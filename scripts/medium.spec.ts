@@ -0,0 +1,168 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { describe, it } from 'node:test';
+import { parsePost } from '../src/app/blog/post.ts';
+import {
+  convertMediumPost,
+  isMediumDraft,
+  localSlug,
+  mediumPostSource,
+  registerPost,
+  withLocalFields
+} from './medium.ts';
+
+const FILE = 'posts/2024-05-06_Cold-Starts--Measured-0123456789ab.html';
+
+/** Trimmed down from a real export: the markup Medium writes for each kind of paragraph. */
+const EXPORT = `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Cold Starts, Measured</title>
+<style>body { color: red; }</style></head><body><article class="h-entry">
+<header><h1 class="p-name">Cold Starts, Measured</h1></header>
+<section data-field="subtitle" class="p-summary">How long &amp; why &#8212; with numbers</section>
+<section data-field="body" class="e-content">
+<section name="a1" class="section section--body section--first"><div class="section-divider"><hr class="section-divider"></div>
+<div class="section-content"><div class="section-inner sectionLayout--insetColumn">
+<h3 class="graf graf--h3 graf--leading graf--title">Cold Starts, Measured</h3>
+<h4 class="graf graf--h4 graf--subtitle">How long &amp; why</h4>
+<p class="graf graf--p">Lambda is <strong class="markup--strong">fast </strong>until it is <em>not</em>. See
+<a href="https://aws.amazon.com/lambda/" class="markup--anchor">the docs</a> and <code class="markup--code">init</code>.</p>
+<h3 class="graf graf--h3">Setup</h3>
+<figure class="graf graf--figure"><img class="graf-image" data-image-id="1*abc.png" src="https://cdn-images-1.medium.com/max/800/1*abc.png">
+<figcaption class="imageCaption">Init time by <em>memory</em></figcaption></figure>
+<pre class="graf graf--pre" data-code-block-lang="python"><span class="pre--content">def handler(event, context):<br>    return &quot;ok&quot;</span></pre>
+<pre class="graf graf--pre"><span class="pre--content">handler(None, None)</span></pre>
+<ul class="postList"><li class="graf graf--li">Python</li><li class="graf graf--li">Node.js</li></ul>
+</div></div></section>
+<section name="b2" class="section section--body"><div class="section-divider"><hr class="section-divider"></div>
+<div class="section-content"><div class="section-inner sectionLayout--insetColumn">
+<blockquote class="graf graf--blockquote">Measure, then tune.</blockquote>
+<figure class="graf graf--figure graf--iframe"><iframe src="https://medium.com/media/f00?postId=0123456789ab"></iframe></figure>
+<table><tr><td>Odd</td></tr></table>
+</div></div></section>
+</section>
+<footer><p>By <a href="https://medium.com/@ada" class="p-author h-card">Ada</a> on
+<a href="https://medium.com/p/0123456789ab"><time class="dt-published" datetime="2024-05-06T21:40:00.123Z">May 6, 2024</time></a>.</p>
+<p><a href="https://medium.com/@ada/cold-starts-measured-0123456789ab" class="p-canonical">Canonical link</a></p>
+</footer></article></body></html>`;
+
+describe('convertMediumPost', () => {
+  const post = convertMediumPost(FILE, EXPORT);
+
+  it('should read the front matter from the export', () => {
+    assert.equal(post.slug, 'cold-starts-measured');
+    assert.deepEqual(post.data, {
+      title: 'Cold Starts, Measured',
+      date: '2024-05-06',
+      description: 'How long & why — with numbers',
+      canonical: 'https://medium.com/@ada/cold-starts-measured-0123456789ab'
+    });
+  });
+
+  it('should turn the body into Markdown', () => {
+    assert.equal(
+      post.body,
+      [
+        'Lambda is **fast** until it is *not*. See [the docs](https://aws.amazon.com/lambda/) and `init`.',
+        '## Setup',
+        '![Init time by memory](https://cdn-images-1.medium.com/max/800/1*abc.png)',
+        'Init time by *memory*',
+        '```python\ndef handler(event, context):\n    return "ok"\nhandler(None, None)\n```',
+        '- Python\n- Node.js',
+        '---',
+        '> Measure, then tune.',
+        '[Embedded content](https://medium.com/media/f00?postId=0123456789ab)',
+        'Odd'
+      ].join('\n\n')
+    );
+  });
+
+  it('should flag what it could not carry over', () => {
+    assert.deepEqual(post.problems, [
+      'An embed, such as a gist or video, became a link; paste in its content',
+      'Kept only the text of a <table>'
+    ]);
+  });
+
+  it('should make a post the blog can read', () => {
+    const { article, headings } = parsePost(post.slug, mediumPostSource(withLocalFields(post)));
+    assert.equal(article.title, 'Cold Starts, Measured');
+    assert.equal(article.canonical, 'https://medium.com/@ada/cold-starts-measured-0123456789ab');
+    assert.deepEqual(headings.map(heading => heading.text), ['Setup']);
+  });
+
+  it('should fall back to the file name for the date and slug', () => {
+    const bare = convertMediumPost(FILE, '<h1 class="p-name">Bare</h1><section data-field="body"><p>Hi</p></section>');
+    assert.equal(bare.slug, 'cold-starts-measured');
+    assert.equal(bare.data['date'], '2024-05-06');
+    assert.equal(bare.body, 'Hi');
+    assert.ok(bare.problems.includes('No canonical link to the post on Medium'));
+  });
+
+  it('should refuse files that are not posts', () => {
+    assert.throws(() => convertMediumPost('profile/profile.html', '<h1>Ada</h1>'), /not a Medium post/);
+  });
+
+  it('should tell drafts apart', () => {
+    assert.ok(isMediumDraft('export/posts/draft_Idea-0123456789ab.html'));
+    assert.ok(!isMediumDraft(FILE));
+  });
+});
+
+describe('withLocalFields', () => {
+  const post = convertMediumPost(FILE, EXPORT);
+
+  it('should keep the tags and thumbnail of the post on the site', () => {
+    const merged = withLocalFields(post, { title: 'Old title', tags: ['AWS Lambda'], thumbnail: '⚡' });
+    assert.equal(merged.data['title'], 'Cold Starts, Measured');
+    assert.deepEqual(merged.data['tags'], ['AWS Lambda']);
+    assert.equal(merged.data['thumbnail'], '⚡');
+    assert.deepEqual(merged.problems, post.problems);
+  });
+
+  it('should flag a new post without tags', () => {
+    assert.ok(withLocalFields(post).problems.includes('No tags; Medium leaves them out of its export'));
+  });
+});
+
+describe('localSlug', () => {
+  const post = convertMediumPost(FILE, EXPORT);
+  const canonical = 'https://medium.com/@ada/cold-starts-measured-0123456789ab';
+
+  it('should find the post on the site with the same canonical link', () => {
+    const local = new Map([['cold-starts', { title: 'Cold starts', canonical }]]);
+    assert.equal(localSlug(post, local), 'cold-starts');
+    assert.equal(localSlug(post, new Map()), 'cold-starts-measured');
+  });
+
+  it('should never take a post written here for an import', () => {
+    const written = new Map([['cold-starts-measured', { title: 'Mine', date: '2024-01-01' }]]);
+    assert.throws(() => localSlug(post, written), /already a different post/);
+
+    const bare = convertMediumPost(FILE, '<h1 class="p-name">Bare</h1><section data-field="body"><p>Hi</p></section>');
+    assert.throws(() => localSlug(bare, written), /already a different post/);
+    assert.equal(localSlug(bare, new Map([['mine', { title: 'Mine' }]])), 'cold-starts-measured');
+  });
+});
+
+describe('registerPost', () => {
+  const registry = readFileSync('src/app/blog/posts.ts', 'utf8');
+
+  it('should import the post and add it to the sources in order', () => {
+    const updated = registerPost(registry, 'cold-starts-measured');
+    const lines = updated.split('\n');
+    const importLine = "import coldStartsMeasured from './posts/cold-starts-measured.md';";
+    assert.equal(lines[0], importLine);
+    const entry = lines.indexOf("  'cold-starts-measured': coldStartsMeasured,");
+    assert.ok(entry !== -1 && entry < lines.indexOf("  'install-ffmpeg-on-aws-lambda': ffmpegOnLambda,"));
+    assert.equal(lines.length, registry.split('\n').length + 2);
+  });
+
+  it('should leave a registered post alone', () => {
+    assert.equal(registerPost(registry, 'install-ffmpeg-on-aws-lambda'), registry);
+  });
+
+  it('should not reuse a name', () => {
+    const updated = registerPost(registry, 'ffmpeg-on-lambda');
+    assert.match(updated, /^import ffmpegOnLambda2 from '\.\/posts\/ffmpeg-on-lambda\.md';$/m);
+    assert.match(updated, /^ {2}'ffmpeg-on-lambda': ffmpegOnLambda2,$/m);
+  });
+});
@@ -0,0 +1,338 @@
+import { type FrontMatter, stringifyFrontMatter } from '../src/app/blog/front-matter.ts';
+import { slugify } from '../src/app/blog/markdown.ts';
+import { findElement, findElements, hasClass, type HtmlElement, type HtmlNode, parseHtml, textContent } from './html.ts';
+
+/** A post from a Medium export, converted to the blog's Markdown. */
+export interface MediumPost {
+  slug: string;
+  data: FrontMatter;
+  body: string;
+  /** What did not convert cleanly, for someone to look over before publishing. */
+  problems: string[];
+}
+
+/** What the conversion keeps track of across a post's body. */
+interface Conversion {
+  sections: number;
+  problems: Set<string>;
+}
+
+/** Medium's export names drafts draft_<title>-<id>.html, next to the published posts. */
+export function isMediumDraft(fileName: string): boolean {
+  return /(^|\/)draft_[^/]*$/.test(fileName);
+}
+
+/**
+ * Converts one post of a Medium export, where each is an HTML file named
+ * <date>_<title>-<id>.html. Reads the title, publish date, subtitle,
+ * canonical link and any tags, and turns the body into Markdown; images
+ * keep their Medium addresses. Throws when the file has no title or date,
+ * as it is then not a post.
+ */
+export function convertMediumPost(fileName: string, html: string): MediumPost {
+  const document = parseHtml(html);
+  const problems = new Set<string>();
+
+  const titleElement = findElement(document, element => hasClass(element, 'p-name'));
+  const title = clean(textContent(titleElement ?? findElement(document, element => element.tag === 'title') ?? ''));
+  const published = findElement(document, element => hasClass(element, 'dt-published'))?.attributes['datetime'];
+  const date = published?.slice(0, 10) ?? /^(\d{4}-\d{2}-\d{2})_/.exec(baseName(fileName))?.[1] ?? '';
+  if (!title || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error('No title or publish date; not a Medium post');
+  }
+  if (!published) problems.add('No publish date in the file; took the one in its name');
+
+  const summary = findElement(document, element => hasClass(element, 'p-summary'));
+  const description = summary ? clean(textContent(summary)) : '';
+  if (!description) problems.add('No subtitle to describe the post with');
+
+  const canonical = findElement(document, element => hasClass(element, 'p-canonical'))?.attributes['href'] ?? '';
+  if (!canonical) problems.add('No canonical link to the post on Medium');
+
+  const tags = findElements(document, element => hasClass(element, 'p-category') || element.attributes['rel'] === 'tag')
+    .map(element => clean(textContent(element)))
+    .filter(tag => tag !== '');
+
+  const content = findElement(document, element => element.attributes['data-field'] === 'body');
+  if (!content) problems.add('No body found');
+  const body = content ? blocks(content.children, { sections: 0, problems }).join('\n\n') : '';
+
+  return {
+    slug: mediumSlug(fileName, canonical, title),
+    data: {
+      title,
+      date,
+      ...(description ? { description } : {}),
+      ...(tags.length > 0 ? { tags: [...new Set(tags)] } : {}),
+      ...(canonical ? { canonical } : {})
+    },
+    body,
+    problems: [...problems]
+  };
+}
+
+/**
+ * Carries over what a post already on the site has and the export leaves out,
+ * its tags and thumbnail, and flags a post that still has no tags.
+ */
+export function withLocalFields(post: MediumPost, local: FrontMatter = {}): MediumPost {
+  const { title, date, description, tags, canonical } = post.data;
+  const keptTags = tags ?? local['tags'];
+  const thumbnail = local['thumbnail'];
+  const hasTags = Array.isArray(keptTags) ? keptTags.length > 0 : !!keptTags;
+  return {
+    ...post,
+    data: {
+      title,
+      date,
+      ...(description ? { description } : {}),
+      ...(hasTags ? { tags: keptTags } : {}),
+      ...(thumbnail ? { thumbnail } : {}),
+      ...(canonical ? { canonical } : {})
+    },
+    problems: hasTags ? post.problems : [...post.problems, 'No tags; Medium leaves them out of its export']
+  };
+}
+
+/**
+ * The slug a converted post is kept under among the site's `local` posts:
+ * that of the post with the same canonical link, else its own. Posts without
+ * a canonical link, such as those written here, never match, and throws when
+ * the slug is already a different post's.
+ */
+export function localSlug(post: MediumPost, local: Map<string, FrontMatter>): string {
+  const canonical = post.data['canonical'];
+  if (canonical) {
+    for (const [slug, data] of local) {
+      if (data['canonical'] === canonical) return slug;
+    }
+  }
+  if (local.has(post.slug)) throw new Error(`${post.slug}.md is already a different post`);
+  return post.slug;
+}
+
+/** The Markdown file for a converted post, as the blog keeps it in src/app/blog/posts. */
+export function mediumPostSource(post: MediumPost): string {
+  return `${stringifyFrontMatter(post.data)}\n${post.body}\n`;
+}
+
+/**
+ * Adds the post `slug` to the registry in posts.ts: an import of its Markdown
+ * and an entry in SOURCES, each in order. Leaves a registered post alone, and
+ * throws when posts.ts is no longer laid out that way.
+ */
+export function registerPost(registry: string, slug: string): string {
+  if (registry.includes(`'${slug}':`)) return registry;
+  const lines = registry.split('\n');
+  const imports = lines.flatMap((line, index) => (/^import \w+ from '\.\/posts\/.+\.md';$/.test(line) ? [index] : []));
+  const start = lines.findIndex(line => /^const SOURCES\b.*\{$/.test(line));
+  const end = lines.indexOf('};', start);
+  if (imports.length === 0 || start === -1 || end === -1) {
+    throw new Error('posts.ts no longer imports its posts the way the importer expects; add the post by hand');
+  }
+
+  const camelCase = slug.replace(/-+(\w)/g, (_, letter: string) => letter.toUpperCase()).replace(/\W/g, '');
+  const base = /^\d/.test(camelCase) ? `post${camelCase}` : camelCase;
+  let name = base;
+  for (let n = 2; new RegExp(`\\b${name}\\b`).test(registry); n++) {
+    name = `${base}${n}`;
+  }
+
+  const entries = [...lines.slice(start + 1, end).map(line => line.replace(/,$/, '')), `  '${slug}': ${name}`].sort();
+  const importLine = `import ${name} from './posts/${slug}.md';`;
+  const at = imports.find(index => lines[index] > importLine) ?? imports[imports.length - 1] + 1;
+  return [
+    ...lines.slice(0, at),
+    importLine,
+    ...lines.slice(at, start + 1),
+    ...entries.map((entry, index) => (index < entries.length - 1 ? `${entry},` : entry)),
+    ...lines.slice(end)
+  ].join('\n');
+}
+
+/** The post's address on Medium without the id at its end, else the same from the file name, else the title. */
+function mediumSlug(fileName: string, canonical: string, title: string): string {
+  const fromUrl = canonical.replace(/[?#].*$/, '').split('/').pop() ?? '';
+  const fromFile = baseName(fileName)
+    .replace(/\.html$/, '')
+    .replace(/^\d{4}-\d{2}-\d{2}_/, '');
+  for (const candidate of [fromUrl, fromFile]) {
+    const slug = slugify(candidate.replace(/-[\da-f]{8,12}$/, ''));
+    if (slug) return slug;
+  }
+  return slugify(title);
+}
+
+function blocks(nodes: HtmlNode[], conversion: Conversion): string[] {
+  const output: string[] = [];
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    if (typeof node === 'string') {
+      const text = clean(node);
+      if (text) output.push(text);
+      continue;
+    }
+
+    // Medium splits a code block into a <pre> for each paragraph, so neighbours join back into one
+    if (node.tag === 'pre') {
+      const run = [node];
+      while (isElement(nodes[i + 1], 'pre') || (isBlank(nodes[i + 1]) && isElement(nodes[i + 2], 'pre'))) {
+        i += isBlank(nodes[i + 1]) ? 2 : 1;
+        run.push(nodes[i] as HtmlElement);
+      }
+      output.push(codeBlock(run, conversion));
+      continue;
+    }
+    output.push(...block(node, conversion));
+  }
+  return output;
+}
+
+function block(element: HtmlElement, conversion: Conversion): string[] {
+  const { tag } = element;
+  if (tag === 'section' && hasClass(element, 'section')) {
+    // Each section after the first opens with a divider in the post
+    return [...(conversion.sections++ > 0 ? ['---'] : []), ...blocks(element.children, conversion)];
+  }
+  if (hasClass(element, 'graf--title') || hasClass(element, 'graf--subtitle')) return [];
+  if (hasClass(element, 'graf--mixtapeEmbed')) return [embedLink(element)];
+
+  switch (tag) {
+    case 'div':
+    case 'section':
+    case 'span':
+      return blocks(element.children, conversion);
+    case 'hr':
+      return hasClass(element, 'section-divider') ? [] : ['---'];
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      // The post title stands in for h1, so Medium's large headings become h2 and small ones h3
+      const text = inline(element.children);
+      return text ? [`${Number(tag[1]) <= 3 ? '##' : '###'} ${text}`] : [];
+    }
+    case 'p': {
+      const text = inline(element.children);
+      return text ? [text] : [];
+    }
+    case 'blockquote': {
+      const text = inline(element.children);
+      return text ? [`> ${text}`] : [];
+    }
+    case 'ul':
+    case 'ol': {
+      const items = element.children.filter(child => isElement(child, 'li')) as HtmlElement[];
+      return [items.map((item, index) => `${tag === 'ol' ? `${index + 1}.` : '-'} ${inline(item.children)}`).join('\n')];
+    }
+    case 'figure':
+      return figure(element, conversion);
+    case 'iframe':
+      return embed(element, conversion);
+    default: {
+      conversion.problems.add(`Kept only the text of a <${tag}>`);
+      const text = clean(textContent(element));
+      return text ? [text] : [];
+    }
+  }
+}
+
+function figure(element: HtmlElement, conversion: Conversion): string[] {
+  const caption = findElement(element, child => child.tag === 'figcaption');
+  const captionText = caption ? inline(caption.children) : '';
+  // Captions go in italics under their figure, unless they have emphasis of their own the italics would break
+  const captions = captionText ? [captionText.includes('*') ? captionText : `*${captionText}*`] : [];
+  const iframe = findElement(element, child => child.tag === 'iframe');
+  if (iframe) return [...embed(iframe, conversion), ...captions];
+
+  const image = findElement(element, child => child.tag === 'img');
+  const src = image?.attributes['src'];
+  if (!image || !src) {
+    conversion.problems.add('A figure had no image');
+    return captions;
+  }
+  const alt = clean(image.attributes['alt'] || (caption ? textContent(caption) : '')).replace(/[[\]]/g, '');
+  return [`![${alt}](${src})`, ...captions];
+}
+
+/** Gists, videos and tweets come through as Medium's iframes, which the blog has no place for. */
+function embed(iframe: HtmlElement, conversion: Conversion): string[] {
+  const src = iframe.attributes['src'];
+  conversion.problems.add('An embed, such as a gist or video, became a link; paste in its content');
+  return src ? [`[Embedded content](${src})`] : [];
+}
+
+/** Medium's link previews: a title, a description and the site, all inside one link. */
+function embedLink(element: HtmlElement): string {
+  const anchor = findElement(element, child => child.tag === 'a' && !!child.attributes['href']);
+  if (!anchor) return clean(textContent(element));
+  const strong = findElement(anchor, child => child.tag === 'strong');
+  const label = clean(textContent(strong ?? anchor)) || anchor.attributes['href'];
+  return `[${label}](${anchor.attributes['href']})`;
+}
+
+function codeBlock(run: HtmlElement[], conversion: Conversion): string {
+  const language = run[0].attributes['data-code-block-lang'] ?? '';
+  const code = run.map(pre => textContent(pre).replace(/ /g, ' ').replace(/\s+$/, '')).join('\n');
+  if (code.includes('```')) conversion.problems.add('A code block holds ``` and needs its fence fixing');
+  return ['```' + (language === 'none' ? '' : language), code, '```'].join('\n');
+}
+
+/** A paragraph's content as one line of Markdown. */
+function inline(nodes: HtmlNode[]): string {
+  return clean(nodes.map(inlineNode).join(''));
+}
+
+function inlineNode(node: HtmlNode): string {
+  if (typeof node === 'string') return node.replace(/\s+/g, ' ');
+  const content = node.children.map(inlineNode).join('');
+  switch (node.tag) {
+    case 'br':
+      return ' ';
+    case 'strong':
+    case 'b':
+      return wrap(content, '**');
+    case 'em':
+    case 'i':
+      return wrap(content, '*');
+    case 'code': {
+      const code = textContent(node);
+      return code.includes('`') ? `\`\` ${code} \`\`` : `\`${code}\``;
+    }
+    case 'a': {
+      const href = node.attributes['href'];
+      const label = clean(content);
+      return href && label ? `[${label}](${href})` : content;
+    }
+    case 'img': {
+      const src = node.attributes['src'];
+      return src ? `![${(node.attributes['alt'] ?? '').replace(/[[\]]/g, '')}](${src})` : '';
+    }
+    default:
+      return content;
+  }
+}
+
+/** Emphasis markers hug their text in Markdown, so spaces inside the element move outside them. */
+function wrap(content: string, marker: string): string {
+  const [, before, text, after] = /^(\s*)(.*?)(\s*)$/s.exec(content)!;
+  return text ? `${before}${marker}${text}${marker}${after}` : content;
+}
+
+function clean(text: string): string {
+  return text.replace(/[\s ]+/g, ' ').trim();
+}
+
+function isElement(node: HtmlNode | undefined, tag: string): node is HtmlElement {
+  return typeof node === 'object' && node.tag === tag;
+}
+
+function isBlank(node: HtmlNode | undefined): boolean {
+  return typeof node === 'string' && node.trim() === '';
+}
+
+function baseName(fileName: string): string {
+  return fileName.split('/').pop() ?? fileName;
+}
@@ -0,0 +1,21 @@
+import { registerHooks } from 'node:module';
+
+// The scripts share the blog's modules with the Angular app, whose imports leave off the .ts extension Node needs
+registerHooks({
+  resolve(specifier, context, nextResolve) {
+    if (/^\.{1,2}\//.test(specifier) && !/\.\w+$/.test(specifier)) {
+      try {
+        return nextResolve(`${specifier}.ts`, context);
+      } catch {
+        // Not a TypeScript module; let Node report it as it would
+      }
+    }
+    return nextResolve(specifier, context);
+  },
+  // Markdown is imported as its text, as the app's build does with the loader option in angular.json
+  load(url, context, nextLoad) {
+    if (!url.endsWith('.md')) return nextLoad(url, context);
+    const { source } = nextLoad(url, { ...context, format: 'module' });
+    return { format: 'module', source: `export default ${JSON.stringify(String(source))};`, shortCircuit: true };
+  }
+});
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { crc32, deflateRawSync } from 'node:zlib';
+import { readZip } from './zip.ts';
+
+/** A zip of `files` as an archiver writes it: local headers and data, then the directory and its end record. */
+function zip(files: { name: string; content: string; deflate?: boolean }[], comment = ''): Buffer {
+  const locals: Buffer[] = [];
+  const entries: Buffer[] = [];
+  let offset = 0;
+  for (const { name, content, deflate } of files) {
+    const data = Buffer.from(content);
+    const stored = deflate ? deflateRawSync(data) : data;
+    const fields = (header: Buffer, at: number) => {
+      header.writeUInt16LE(deflate ? 8 : 0, at);
+      header.writeUInt32LE(crc32(data), at + 6);
+      header.writeUInt32LE(stored.length, at + 10);
+      header.writeUInt32LE(data.length, at + 14);
+      header.writeUInt16LE(Buffer.byteLength(name), at + 18);
+    };
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    fields(local, 8);
+    locals.push(local, Buffer.from(name), stored);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    fields(entry, 10);
+    entry.writeUInt32LE(offset, 42);
+    entries.push(entry, Buffer.from(name));
+    offset += local.length + Buffer.byteLength(name) + stored.length;
+  }
+
+  const directory = Buffer.concat(entries);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  end.writeUInt16LE(Buffer.byteLength(comment), 20);
+  return Buffer.concat([...locals, directory, end, Buffer.from(comment)]);
+}
+
+describe('readZip', () => {
+  it('should read stored and deflated files and leave out folders', () => {
+    const files = readZip(
+      zip(
+        [
+          { name: 'posts/', content: '' },
+          { name: 'posts/one.html', content: '<p>One</p>' },
+          { name: 'posts/two.html', content: '<p>Two, twice</p>'.repeat(50), deflate: true }
+        ],
+        'Exported from Medium'
+      )
+    );
+
+    assert.deepEqual([...files.keys()], ['posts/one.html', 'posts/two.html']);
+    assert.equal(files.get('posts/one.html')?.toString(), '<p>One</p>');
+    assert.equal(files.get('posts/two.html')?.toString(), '<p>Two, twice</p>'.repeat(50));
+  });
+
+  it('should refuse what is not a zip', () => {
+    assert.throws(() => readZip(Buffer.from('<html></html>'.repeat(4))), /Not a zip archive/);
+  });
+});
@@ -0,0 +1,58 @@
+import { inflateRawSync } from 'node:zlib';
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+/**
+ * The files in a zip archive by path, folders left out. Reads the archives
+ * that exports such as Medium's come in: stored or deflated entries, without
+ * encryption or the 64-bit extensions for archives over 4 GB. Throws when
+ * `data` is not such an archive.
+ */
+export function readZip(data: Buffer): Map<string, Buffer> {
+  // The end of directory record is the last thing in the file, before a comment of up to 64 KB
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('Not a zip archive');
+
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+  for (let i = 0; i < count; i++) {
+    if (data.readUInt32LE(offset) !== DIRECTORY_ENTRY) throw new Error('Corrupt zip directory');
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const headerOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 1) throw new Error(`${name} is encrypted`);
+    if (data.readUInt32LE(headerOffset) !== LOCAL_HEADER) throw new Error(`Corrupt zip entry ${name}`);
+
+    // The local header repeats the name, and may carry different extra data
+    const start = headerOffset + 30 + data.readUInt16LE(headerOffset + 26) + data.readUInt16LE(headerOffset + 28);
+    const content = data.subarray(start, start + compressedSize);
+    if (method === STORED) {
+      files.set(name, content);
+    } else if (method === DEFLATED) {
+      files.set(name, inflateRawSync(content));
+    } else {
+      throw new Error(`${name} uses an unsupported compression method (${method})`);
+    }
+  }
+  return files;
+}
@@ -0,0 +1,13 @@
+import { startRelayServer } from './relay-server.ts';
+
+// PORT and HOST pick where the relay listens; HOST=0.0.0.0 lets other machines on the network join
+const port = Number(process.env['PORT'] ?? 8787);
+const host = process.env['HOST'] ?? '127.0.0.1';
+
+const relay = await startRelayServer({ port, host, log: line => console.log(line) });
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    relay.close().then(() => process.exit(0));
+  });
+}
@@ -0,0 +1,229 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import type { ClientMessage, ServerMessage } from '../src/app/shared/multiplayer-protocol.ts';
+import { type RelayServer, startRelayServer } from './relay-server.ts';
+
+/** A browser-style client that queues what the relay sends until a test asks for it. */
+class TestClient {
+  readonly socket: WebSocket;
+  private readonly inbox: ServerMessage[] = [];
+  private waiting: ((message: ServerMessage) => void) | null = null;
+
+  constructor(port: number) {
+    this.socket = new WebSocket(`ws://127.0.0.1:${port}`);
+    this.socket.addEventListener('message', event => {
+      const message = JSON.parse(String(event.data)) as ServerMessage;
+      if (this.waiting) {
+        this.waiting(message);
+        this.waiting = null;
+      } else {
+        this.inbox.push(message);
+      }
+    });
+  }
+
+  static async connect(port: number): Promise<TestClient> {
+    const client = new TestClient(port);
+    await new Promise(resolve => client.socket.addEventListener('open', resolve, { once: true }));
+    return client;
+  }
+
+  send(message: ClientMessage | Record<string, unknown>): void {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  next(): Promise<ServerMessage> {
+    const queued = this.inbox.shift();
+    if (queued) return Promise.resolve(queued);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('No message from the relay')), 2000);
+      this.waiting = message => {
+        clearTimeout(timer);
+        resolve(message);
+      };
+    });
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+}
+
+describe('relay server', () => {
+  let relay: RelayServer;
+  const clients: TestClient[] = [];
+
+  const connect = async () => {
+    const client = await TestClient.connect(relay.port);
+    clients.push(client);
+    return client;
+  };
+
+  /** Opens a Tetris room with two players in it and returns them host first. */
+  const fullRoom = async () => {
+    const host = await connect();
+    host.send({ type: 'create', game: 'tetris', name: 'Ada' });
+    const joined = await host.next();
+    assert.equal(joined.type, 'joined');
+    const code = joined.type === 'joined' ? joined.code : '';
+
+    const guest = await connect();
+    guest.send({ type: 'join', code, name: 'Grace' });
+    await guest.next();
+    await host.next();
+    return { host, guest, code };
+  };
+
+  before(async () => {
+    relay = await startRelayServer({ port: 0 });
+  });
+
+  after(async () => {
+    clients.forEach(client => client.close());
+    await relay.close();
+  });
+
+  it('puts a joining player in the host room', async () => {
+    const host = await connect();
+    host.send({ type: 'create', game: 'snake', name: 'Ada' });
+    const created = await host.next();
+    assert.equal(created.type, 'joined');
+    if (created.type !== 'joined') return;
+    assert.equal(created.player, 0);
+    assert.match(created.code, /^[A-Z]{4}$/);
+
+    const guest = await connect();
+    guest.send({ type: 'join', code: created.code.toLowerCase(), name: 'Grace' });
+    assert.deepEqual(await guest.next(), {
+      type: 'joined',
+      code: created.code,
+      game: 'snake',
+      player: 1,
+      players: ['Ada', 'Grace']
+    });
+    assert.deepEqual(await host.next(), { type: 'peerJoined', player: 1, name: 'Grace' });
+  });
+
+  it('lists only rooms that are still open', async () => {
+    const { code } = await fullRoom();
+    const host = await connect();
+    host.send({ type: 'create', game: 'tetris', name: 'Linus' });
+    const created = await host.next();
+
+    const browser = await connect();
+    browser.send({ type: 'list', game: 'tetris' });
+    const list = await browser.next();
+    assert.equal(list.type, 'rooms');
+    if (list.type !== 'rooms' || created.type !== 'joined') return;
+    const codes = list.rooms.map(room => room.code);
+    assert.ok(codes.includes(created.code));
+    assert.ok(!codes.includes(code));
+  });
+
+  it('turns away a third player', async () => {
+    const { code } = await fullRoom();
+    const late = await connect();
+    late.send({ type: 'join', code, name: 'Late' });
+    const reply = await late.next();
+    assert.equal(reply.type === 'error' && reply.code, 'roomFull');
+  });
+
+  it('gives a seat left empty in the lobby to the next player to join', async () => {
+    const { host, guest, code } = await fullRoom();
+    guest.send({ type: 'leave' });
+    assert.deepEqual(await host.next(), { type: 'peerLeft', player: 1 });
+
+    const browser = await connect();
+    browser.send({ type: 'list', game: 'tetris' });
+    const list = await browser.next();
+    assert.ok(list.type === 'rooms' && list.rooms.some(room => room.code === code && room.players === 1));
+
+    const next = await connect();
+    next.send({ type: 'join', code, name: 'Linus' });
+    assert.deepEqual(await next.next(), { type: 'joined', code, game: 'tetris', player: 1, players: ['Ada', 'Linus'] });
+    assert.deepEqual(await host.next(), { type: 'peerJoined', player: 1, name: 'Linus' });
+
+    host.send({ type: 'start' });
+    const [hostStart, nextStart] = await Promise.all([host.next(), next.next()]);
+    assert.equal(hostStart.type, 'start');
+    assert.deepEqual(nextStart, hostStart);
+  });
+
+  it('makes whoever takes the host seat the host once the host leaves the lobby', async () => {
+    const { host, guest, code } = await fullRoom();
+    host.send({ type: 'leave' });
+    assert.deepEqual(await guest.next(), { type: 'peerLeft', player: 0 });
+
+    const next = await connect();
+    next.send({ type: 'join', code, name: 'Linus' });
+    assert.deepEqual(await next.next(), {
+      type: 'joined',
+      code,
+      game: 'tetris',
+      player: 0,
+      players: ['Linus', 'Grace']
+    });
+    assert.deepEqual(await guest.next(), { type: 'peerJoined', player: 0, name: 'Linus' });
+
+    next.send({ type: 'start' });
+    const [nextStart, guestStart] = await Promise.all([next.next(), guest.next()]);
+    assert.equal(nextStart.type, 'start');
+    assert.deepEqual(guestStart, nextStart);
+  });
+
+  it('keeps a player who joins their own room in it, open to others', async () => {
+    const host = await connect();
+    host.send({ type: 'create', game: 'snake', name: 'Ada' });
+    const created = await host.next();
+    const code = created.type === 'joined' ? created.code : '';
+
+    host.send({ type: 'join', code, name: 'Ada' });
+    assert.deepEqual(await host.next(), { type: 'joined', code, game: 'snake', player: 0, players: ['Ada'] });
+
+    const guest = await connect();
+    guest.send({ type: 'join', code, name: 'Grace' });
+    assert.deepEqual(await guest.next(), { type: 'joined', code, game: 'snake', player: 1, players: ['Ada', 'Grace'] });
+    assert.deepEqual(await host.next(), { type: 'peerJoined', player: 1, name: 'Grace' });
+  });
+
+  it('reports unknown rooms and malformed messages', async () => {
+    const client = await connect();
+    client.send({ type: 'join', code: 'ZZZZ', name: 'Ada' });
+    const missing = await client.next();
+    assert.equal(missing.type === 'error' && missing.code, 'roomNotFound');
+
+    client.send({ type: 'garbage', lines: 'lots' });
+    const bad = await client.next();
+    assert.equal(bad.type === 'error' && bad.code, 'badMessage');
+  });
+
+  it('only lets the host start, and deals everyone the same seed', async () => {
+    const { host, guest } = await fullRoom();
+    guest.send({ type: 'start' });
+    const refused = await guest.next();
+    assert.equal(refused.type === 'error' && refused.code, 'notHost');
+
+    host.send({ type: 'start' });
+    const [hostStart, guestStart] = await Promise.all([host.next(), guest.next()]);
+    assert.equal(hostStart.type, 'start');
+    assert.deepEqual(guestStart, hostStart);
+  });
+
+  it('relays game messages to the other player, tagged with the sender', async () => {
+    const { host, guest } = await fullRoom();
+    host.send({ type: 'start' });
+    await Promise.all([host.next(), guest.next()]);
+
+    host.send({ type: 'garbage', lines: 2, gap: 7 });
+    assert.deepEqual(await guest.next(), { type: 'garbage', player: 0, lines: 2, gap: 7 });
+
+    guest.send({ type: 'input', tick: 12, input: 'left' });
+    assert.deepEqual(await host.next(), { type: 'input', player: 1, tick: 12, input: 'left' });
+  });
+
+  it('tells the room when a player disconnects', async () => {
+    const { host, guest } = await fullRoom();
+    guest.close();
+    assert.deepEqual(await host.next(), { type: 'peerLeft', player: 1 });
+  });
+});
@@ -0,0 +1,252 @@
+import { randomInt } from 'node:crypto';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  type ClientMessage,
+  MAX_MESSAGE_BYTES,
+  MAX_PLAYERS,
+  type OnlineGame,
+  parseClientMessage,
+  type RelayErrorCode,
+  ROOM_CODE_ALPHABET,
+  ROOM_CODE_LENGTH,
+  type RoomInfo,
+  type ServerMessage
+} from '../src/app/shared/multiplayer-protocol.ts';
+import { acceptWebSocket, type WebSocketConnection } from './websocket.ts';
+
+export interface RelayServerOptions {
+  /** 0 picks a free port, which `RelayServer.port` then reports. */
+  port?: number;
+  host?: string;
+  /** How often to ping clients; one that misses a ping is dropped. */
+  heartbeatMs?: number;
+  log?: (line: string) => void;
+}
+
+export interface RelayServer {
+  readonly port: number;
+  close(): Promise<void>;
+}
+
+interface Client {
+  connection: WebSocketConnection;
+  room: Room | null;
+  alive: boolean;
+}
+
+interface Room {
+  code: string;
+  game: OnlineGame;
+  /**
+   * Seats in join order; whoever sits in seat 0 is the host. A seat empties
+   * when its player leaves, and is taken by the next to join until the game starts.
+   */
+  players: (Client | null)[];
+  names: string[];
+  started: boolean;
+}
+
+/**
+ * Reference relay for online games. It keeps rooms behind short join codes,
+ * deals both players the same seed, and passes inputs, snapshots, garbage and
+ * game overs between the players in a room. The games themselves run in the
+ * browsers; the relay never simulates anything.
+ */
+export async function startRelayServer(options: RelayServerOptions = {}): Promise<RelayServer> {
+  const log = options.log ?? (() => {});
+  const rooms = new Map<string, Room>();
+  const clients = new Set<Client>();
+
+  const server: Server = createServer((_request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('This is a WebSocket relay for the arcade games.\n');
+  });
+
+  server.on('upgrade', (request, socket) => {
+    const connection = acceptWebSocket(request, socket, MAX_MESSAGE_BYTES);
+    if (!connection) return;
+
+    const client: Client = { connection, room: null, alive: true };
+    clients.add(client);
+    connection.on('message', (data: string) => handleMessage(client, data));
+    connection.on('pong', () => (client.alive = true));
+    connection.on('close', () => {
+      leaveRoom(client);
+      clients.delete(client);
+    });
+  });
+
+  // Drop clients whose connection died without a close, such as a laptop lid shutting
+  const heartbeat = setInterval(() => {
+    for (const client of clients) {
+      if (!client.alive) {
+        client.connection.terminate();
+        continue;
+      }
+      client.alive = false;
+      client.connection.ping();
+    }
+  }, options.heartbeatMs ?? 15_000);
+
+  function send(client: Client, message: ServerMessage): void {
+    client.connection.send(JSON.stringify(message));
+  }
+
+  function fail(client: Client, code: RelayErrorCode, message: string): void {
+    send(client, { type: 'error', code, message });
+  }
+
+  function broadcast(room: Room, message: ServerMessage, except?: Client): void {
+    room.players.forEach(player => {
+      if (player && player !== except) {
+        send(player, message);
+      }
+    });
+  }
+
+  function newCode(): string {
+    let code = '';
+    do {
+      code = Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)]).join('');
+    } while (rooms.has(code));
+    return code;
+  }
+
+  function openRooms(game: OnlineGame): RoomInfo[] {
+    return [...rooms.values()]
+      .filter(room => room.game === game && !room.started && room.players.filter(Boolean).length < MAX_PLAYERS)
+      .map(room => ({
+        code: room.code,
+        game: room.game,
+        host: room.names.find(Boolean) ?? '',
+        players: room.players.filter(Boolean).length
+      }));
+  }
+
+  /** The seat a new player would take, or -1 when there is none. */
+  function freeSeat(room: Room): number {
+    // Anyone who dropped out mid-game can't take their seat back; late joiners start fresh
+    if (room.started) return -1;
+    const empty = room.players.indexOf(null);
+    if (empty !== -1) return empty;
+    return room.players.length < MAX_PLAYERS ? room.players.length : -1;
+  }
+
+  function leaveRoom(client: Client): void {
+    const room = client.room;
+    if (!room) return;
+
+    const player = room.players.indexOf(client);
+    room.players[player] = null;
+    room.names[player] = '';
+    client.room = null;
+    broadcast(room, { type: 'peerLeft', player });
+
+    if (room.players.every(seat => seat === null)) {
+      rooms.delete(room.code);
+      log(`room ${room.code} closed`);
+    }
+  }
+
+  function handleMessage(client: Client, data: string): void {
+    const message = parseClientMessage(data);
+    if (!message) {
+      fail(client, 'badMessage', 'That message could not be understood.');
+      return;
+    }
+    handle(client, message);
+  }
+
+  function handle(client: Client, message: ClientMessage): void {
+    switch (message.type) {
+      case 'list':
+        send(client, { type: 'rooms', rooms: openRooms(message.game) });
+        return;
+
+      case 'create': {
+        leaveRoom(client);
+        const room: Room = { code: newCode(), game: message.game, players: [client], names: [message.name], started: false };
+        rooms.set(room.code, room);
+        client.room = room;
+        send(client, { type: 'joined', code: room.code, game: room.game, player: 0, players: room.names });
+        log(`room ${room.code} opened for ${room.game}`);
+        return;
+      }
+
+      case 'join': {
+        const room = rooms.get(message.code);
+        if (!room) {
+          fail(client, 'roomNotFound', `There is no room ${message.code}.`);
+          return;
+        }
+        if (client.room === room) {
+          // Leaving first would close a room its only player is in, and leave them seated in it alone
+          const player = room.players.indexOf(client);
+          send(client, { type: 'joined', code: room.code, game: room.game, player, players: room.names });
+          return;
+        }
+        const seat = freeSeat(room);
+        if (seat === -1) {
+          fail(client, 'roomFull', `Room ${message.code} is full.`);
+          return;
+        }
+        leaveRoom(client);
+        room.players[seat] = client;
+        room.names[seat] = message.name;
+        client.room = room;
+        send(client, { type: 'joined', code: room.code, game: room.game, player: seat, players: room.names });
+        broadcast(room, { type: 'peerJoined', player: seat, name: message.name }, client);
+        return;
+      }
+
+      case 'leave':
+        leaveRoom(client);
+        return;
+
+      case 'start': {
+        const room = client.room;
+        if (!room) {
+          fail(client, 'notInRoom', 'Join a room first.');
+        } else if (room.players[0] !== client) {
+          fail(client, 'notHost', 'Only the host can start the game.');
+        } else if (room.players.length < MAX_PLAYERS || room.players.some(player => player === null)) {
+          fail(client, 'notReady', 'Waiting for another player.');
+        } else {
+          room.started = true;
+          broadcast(room, { type: 'start', seed: randomInt(2 ** 32 - 1) });
+        }
+        return;
+      }
+
+      case 'input':
+      case 'state':
+      case 'garbage':
+      case 'gameOver': {
+        const room = client.room;
+        if (!room?.started) {
+          fail(client, 'notInRoom', 'There is no game running.');
+          return;
+        }
+        const player = room.players.indexOf(client);
+        broadcast(room, { ...message, player }, client);
+        return;
+      }
+    }
+  }
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 8787, options.host ?? '127.0.0.1', resolve));
+  const port = (server.address() as AddressInfo).port;
+  log(`relay listening on ws://${options.host ?? '127.0.0.1'}:${port}`);
+
+  return {
+    port,
+    close: () => {
+      clearInterval(heartbeat);
+      for (const client of clients) {
+        client.connection.close();
+      }
+      return new Promise(resolve => server.close(() => resolve()));
+    }
+  };
+}
@@ -0,0 +1,203 @@
+import { createHash } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+// RFC 6455 constants
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+export const CLOSE_NORMAL = 1000;
+export const CLOSE_PROTOCOL_ERROR = 1002;
+export const CLOSE_UNSUPPORTED = 1003;
+export const CLOSE_TOO_BIG = 1009;
+
+/**
+ * Just enough of the WebSocket protocol for the relay: text messages, ping
+ * and pong, and the closing handshake, with no dependencies. Emits
+ * `message` (string), `pong` and `close`.
+ */
+export class WebSocketConnection extends EventEmitter {
+  private readonly socket: Duplex;
+  private readonly maxMessageBytes: number;
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private closed = false;
+
+  constructor(socket: Duplex, maxMessageBytes: number) {
+    super();
+    this.socket = socket;
+    this.maxMessageBytes = maxMessageBytes;
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('close', () => this.finish());
+    socket.on('error', () => this.finish());
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  send(text: string): void {
+    this.write(OPCODE_TEXT, Buffer.from(text, 'utf8'));
+  }
+
+  ping(): void {
+    this.write(OPCODE_PING, Buffer.alloc(0));
+  }
+
+  /** Starts the closing handshake; the socket ends once the client answers or shortly after. */
+  close(code = CLOSE_NORMAL): void {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.write(OPCODE_CLOSE, payload);
+    this.socket.end();
+    this.finish();
+  }
+
+  /** Drops the connection without a closing handshake, for clients that stopped answering. */
+  terminate(): void {
+    this.socket.destroy();
+    this.finish();
+  }
+
+  private finish(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit('close');
+  }
+
+  private write(opcode: number, payload: Buffer): void {
+    if (this.closed) return;
+
+    // Server frames are never masked
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 0x10000) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (!this.closed) {
+      const frame = this.readFrame();
+      if (!frame) return;
+      this.handleFrame(frame.fin, frame.opcode, frame.payload);
+    }
+  }
+
+  /** Takes one whole frame off the front of the buffer, or returns null until one has arrived. */
+  private readFrame(): { fin: boolean; opcode: number; payload: Buffer } | null {
+    if (this.buffer.length < 2) return null;
+
+    const fin = (this.buffer[0] & 0x80) !== 0;
+    const opcode = this.buffer[0] & 0x0f;
+    const masked = (this.buffer[1] & 0x80) !== 0;
+    let length = this.buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (this.buffer.length < 4) return null;
+      length = this.buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (this.buffer.length < 10) return null;
+      const long = this.buffer.readBigUInt64BE(2);
+      length = long > BigInt(this.maxMessageBytes) ? Infinity : Number(long);
+      offset = 10;
+    }
+
+    // Clients must mask everything they send
+    if (!masked) {
+      this.close(CLOSE_PROTOCOL_ERROR);
+      return null;
+    }
+    if (length > this.maxMessageBytes) {
+      this.close(CLOSE_TOO_BIG);
+      return null;
+    }
+    if (this.buffer.length < offset + 4 + length) return null;
+
+    const mask = this.buffer.subarray(offset, offset + 4);
+    const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= mask[i % 4];
+    }
+    this.buffer = this.buffer.subarray(offset + 4 + length);
+    return { fin, opcode, payload };
+  }
+
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case OPCODE_TEXT:
+      case OPCODE_CONTINUATION: {
+        this.fragments.push(payload);
+        const size = this.fragments.reduce((total, part) => total + part.length, 0);
+        if (size > this.maxMessageBytes) {
+          this.close(CLOSE_TOO_BIG);
+        } else if (fin) {
+          const text = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          this.emit('message', text);
+        }
+        break;
+      }
+      case OPCODE_BINARY:
+        this.close(CLOSE_UNSUPPORTED);
+        break;
+      case OPCODE_PING:
+        this.write(OPCODE_PONG, payload);
+        break;
+      case OPCODE_PONG:
+        this.emit('pong');
+        break;
+      case OPCODE_CLOSE:
+        this.close(payload.length >= 2 ? payload.readUInt16BE(0) : CLOSE_NORMAL);
+        break;
+      default:
+        this.close(CLOSE_PROTOCOL_ERROR);
+    }
+  }
+}
+
+/**
+ * Completes the opening handshake for an HTTP upgrade request. Returns null,
+ * after turning the request away, when it is not a WebSocket upgrade.
+ */
+export function acceptWebSocket(
+  request: IncomingMessage,
+  socket: Duplex,
+  maxMessageBytes: number
+): WebSocketConnection | null {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  return new WebSocketConnection(socket, maxMessageBytes);
+}
@@ -1,12 +1,24 @@
-import { ApplicationConfig, provideBrowserGlobalErrorListeners, provideZoneChangeDetection } from '@angular/core';
-import { provideRouter } from '@angular/router';
+import {
+  ApplicationConfig,
+  isDevMode,
+  provideBrowserGlobalErrorListeners,
+  provideZoneChangeDetection
+} from '@angular/core';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { provideRouter, withInMemoryScrolling } from '@angular/router';
 
 import { routes } from './app.routes';
+import { LEADERBOARD_API_URL, MOCK_LEADERBOARD_URL } from './shared/leaderboard-api';
+import { mockLeaderboardBackend } from './shared/mock-leaderboard-backend';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
     provideZoneChangeDetection({ eventCoalescing: true }),
-    provideRouter(routes)
+    // Contents links jump to their heading; the page is otherwise left where it is, so filtering the blog doesn't jump
+    provideRouter(routes, withInMemoryScrolling({ anchorScrolling: 'enabled' })),
+    // There is no leaderboard server yet: development builds answer its API in memory, and production goes without
+    provideHttpClient(withInterceptors(isDevMode() ? [mockLeaderboardBackend] : [])),
+    ...(isDevMode() ? [{ provide: LEADERBOARD_API_URL, useValue: MOCK_LEADERBOARD_URL }] : [])
   ]
 };
@@ -2,9 +2,6 @@ import { Routes } from '@angular/router';
 import { About } from './about/about';
 import { Projects } from './projects/projects';
 import { Contact } from './contact/contact';
-import { Snake } from './snake/snake';
-import { Tetris } from './tetris/tetris';
-import { Blog } from './blog/blog';
 
 export const routes: Routes = [
   { path: '', redirectTo: '/home', pathMatch: 'full' },
@@ -13,9 +10,46 @@ export const routes: Routes = [
     loadComponent: () => import('./home/home').then(m => m.Home)
   },
   { path: 'about', component: About },
-  { path: 'blog', component: Blog },
+  {
+    path: 'blog',
+    loadComponent: () => import('./blog/blog').then(m => m.Blog)
+  },
+  {
+    path: 'blog/:slug',
+    loadComponent: () => import('./blog/blog-post/blog-post').then(m => m.BlogPost)
+  },
   { path: 'projects', component: Projects },
   { path: 'contact', component: Contact },
-  { path: 'snake', component: Snake },
-  { path: 'tetris', component: Tetris }
+  {
+    path: 'snake',
+    loadComponent: () => import('./snake/snake').then(m => m.Snake)
+  },
+  {
+    path: 'snake/versus',
+    loadComponent: () => import('./snake/snake-versus/snake-versus').then(m => m.SnakeVersus)
+  },
+  {
+    path: 'snake/online',
+    loadComponent: () => import('./snake/snake-online/snake-online').then(m => m.SnakeOnline)
+  },
+  {
+    path: 'tetris',
+    loadComponent: () => import('./tetris/tetris').then(m => m.Tetris)
+  },
+  {
+    path: 'tetris/versus',
+    loadComponent: () => import('./tetris/tetris-versus/tetris-versus').then(m => m.TetrisVersus)
+  },
+  {
+    path: 'tetris/online',
+    loadComponent: () => import('./tetris/tetris-online/tetris-online').then(m => m.TetrisOnline)
+  },
+  {
+    path: 'leaderboard',
+    loadComponent: () => import('./leaderboard/leaderboard').then(m => m.Leaderboard)
+  },
+  {
+    path: 'stats',
+    loadComponent: () => import('./stats/stats').then(m => m.Stats)
+  }
 ];
@@ -0,0 +1,71 @@
+import { Component, computed, effect, inject, OnDestroy, ViewEncapsulation } from '@angular/core';
+import { CommonModule, DOCUMENT, ViewportScroller } from '@angular/common';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { DomSanitizer } from '@angular/platform-browser';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { map } from 'rxjs';
+import { adjacentPosts, siteName } from '../post';
+import { SITE_POSTS } from '../posts';
+
+/**
+ * Reads one blog post, with a table of contents, links to the posts either
+ * side of it, and a canonical link to the original when it was first
+ * published elsewhere.
+ */
+@Component({
+  selector: 'app-blog-post',
+  imports: [CommonModule, RouterLink],
+  templateUrl: './blog-post.html',
+  styleUrl: './blog-post.css',
+  // The rendered Markdown is inserted as HTML, which scoped styles would not reach
+  encapsulation: ViewEncapsulation.None,
+  standalone: true
+})
+export class BlogPost implements OnDestroy {
+  private readonly route = inject(ActivatedRoute);
+  private readonly document = inject(DOCUMENT);
+  private readonly sanitizer = inject(DomSanitizer);
+  private readonly scroller = inject(ViewportScroller);
+  private canonicalLink: HTMLLinkElement | null = null;
+
+  // The previous and next links reuse this component, so the slug is followed rather than read once
+  private readonly slug = toSignal(this.route.paramMap.pipe(map(params => params.get('slug') ?? '')), {
+    initialValue: ''
+  });
+
+  protected readonly post = computed(() => SITE_POSTS.find(post => post.article.slug === this.slug()) ?? null);
+  protected readonly adjacent = computed(() => adjacentPosts(SITE_POSTS, this.slug()));
+
+  /** The post's HTML, trusted as it is: the Markdown renderer escapes everything the author wrote. */
+  protected readonly html = computed(() => this.sanitizer.bypassSecurityTrustHtml(this.post()?.html ?? ''));
+
+  /** Where the post first appeared, such as medium.com, for the note linking to it. */
+  protected readonly origin = computed(() => {
+    const canonical = this.post()?.article.canonical;
+    return canonical ? siteName(canonical) : null;
+  });
+
+  constructor() {
+    effect(() => this.setCanonical(this.post()?.article.canonical ?? null));
+  }
+
+  ngOnDestroy(): void {
+    this.setCanonical(null);
+  }
+
+  /** The previous and next links sit at the bottom, so the post they open starts from the top. */
+  protected scrollToTop(): void {
+    this.scroller.scrollToPosition([0, 0]);
+  }
+
+  private setCanonical(url: string | null): void {
+    this.canonicalLink?.remove();
+    this.canonicalLink = null;
+    if (!url) return;
+
+    this.canonicalLink = this.document.createElement('link');
+    this.canonicalLink.rel = 'canonical';
+    this.canonicalLink.href = url;
+    this.document.head.appendChild(this.canonicalLink);
+  }
+}
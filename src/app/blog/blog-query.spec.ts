@@ -0,0 +1,78 @@
+import { blogQueryParams, BlogQuery, filterArticles, paginate, parseBlogQuery, tagCounts } from './blog-query';
+import { Article } from './post';
+
+describe('blogQuery', () => {
+  const article = (slug: string, date: string, readMinutes: number, tags: string[], title = slug): Article => ({
+    slug,
+    title,
+    description: `All about ${slug}`,
+    url: `/blog/${slug}`,
+    date,
+    tags,
+    readTime: `${readMinutes} min read`,
+    readMinutes,
+    thumbnail: '📝'
+  });
+  const articles = [
+    article('ffmpeg', '2024-03-12', 5, ['AWS Lambda', 'FFmpeg'], 'FFmpeg on Lambda'),
+    article('layers', '2024-04-02', 6, ['AWS Lambda', 'Python']),
+    article('cafe', '2023-01-01', 2, ['Life'], 'Café notes')
+  ];
+  const query = (change: Partial<BlogQuery> = {}): BlogQuery => ({
+    q: '',
+    tag: null,
+    sort: 'newest',
+    page: 1,
+    ...change
+  });
+  const slugs = (list: Article[]) => list.map(entry => entry.slug);
+
+  it('should read query parameters and fall back to the defaults', () => {
+    const params = (values: Record<string, string>) => new URLSearchParams(values);
+
+    expect(parseBlogQuery(params({ q: ' ffmpeg ', tag: 'AWS Lambda', sort: 'longest', page: '2' }))).toEqual({
+      q: 'ffmpeg',
+      tag: 'AWS Lambda',
+      sort: 'longest',
+      page: 2
+    });
+    expect(parseBlogQuery(params({ sort: 'random', page: '-3' }))).toEqual(query());
+    expect(parseBlogQuery(params({ page: 'two' })).page).toBe(1);
+  });
+
+  it('should leave the defaults out of the URL', () => {
+    expect(blogQueryParams(query())).toEqual({ q: null, tag: null, sort: null, page: null });
+    expect(blogQueryParams(query({ q: 'x', tag: 'Python', sort: 'oldest', page: 3 }))).toEqual({
+      q: 'x',
+      tag: 'Python',
+      sort: 'oldest',
+      page: 3
+    });
+  });
+
+  it('should search titles, descriptions and tags for every word, ignoring case and accents', () => {
+    expect(slugs(filterArticles(articles, query({ q: 'LAMBDA' })))).toEqual(['layers', 'ffmpeg']);
+    expect(slugs(filterArticles(articles, query({ q: 'lambda python' })))).toEqual(['layers']);
+    expect(slugs(filterArticles(articles, query({ q: 'cafe' })))).toEqual(['cafe']);
+    expect(filterArticles(articles, query({ q: 'kubernetes' }))).toEqual([]);
+  });
+
+  it('should filter by tag and sort by date or read time', () => {
+    expect(slugs(filterArticles(articles, query({ tag: 'AWS Lambda', sort: 'oldest' })))).toEqual(['ffmpeg', 'layers']);
+    expect(slugs(filterArticles(articles, query({ sort: 'shortest' })))).toEqual(['cafe', 'ffmpeg', 'layers']);
+    expect(slugs(filterArticles(articles, query({ sort: 'longest' })))).toEqual(['layers', 'ffmpeg', 'cafe']);
+  });
+
+  it('should split into pages and keep the page in range', () => {
+    const items = Array.from({ length: 7 }, (_, i) => i);
+
+    expect(paginate(items, 2, 3)).toEqual({ items: [3, 4, 5], page: 2, pages: 3 });
+    expect(paginate(items, 9, 3)).toEqual({ items: [6], page: 3, pages: 3 });
+    expect(paginate([], 1, 3)).toEqual({ items: [], page: 1, pages: 1 });
+  });
+
+  it('should count tags, most used first', () => {
+    expect(tagCounts(articles)[0]).toEqual({ tag: 'AWS Lambda', count: 2 });
+    expect(tagCounts(articles).length).toBe(4);
+  });
+});
@@ -0,0 +1,89 @@
+import { Article } from './post';
+
+export type BlogSort = 'newest' | 'oldest' | 'shortest' | 'longest';
+
+/** What the blog index is showing, as kept in its query parameters so the view can be linked. */
+export interface BlogQuery {
+  /** Words that must all appear in an article's title, description or tags. */
+  q: string;
+  tag: string | null;
+  sort: BlogSort;
+  /** From 1. */
+  page: number;
+}
+
+export const BLOG_SORTS: { id: BlogSort; name: string }[] = [
+  { id: 'newest', name: 'Newest first' },
+  { id: 'oldest', name: 'Oldest first' },
+  { id: 'shortest', name: 'Quickest read' },
+  { id: 'longest', name: 'Longest read' }
+];
+
+export const PAGE_SIZE = 6;
+
+/** Reads the query parameters of a blog URL, falling back to the defaults for anything missing or unknown. */
+export function parseBlogQuery(params: { get(name: string): string | null }): BlogQuery {
+  const sort = params.get('sort');
+  const page = Number(params.get('page'));
+  return {
+    q: params.get('q')?.trim() ?? '',
+    tag: params.get('tag') || null,
+    sort: BLOG_SORTS.some(option => option.id === sort) ? (sort as BlogSort) : 'newest',
+    page: Number.isInteger(page) && page > 1 ? page : 1
+  };
+}
+
+/** Query parameters for `query`, leaving out the defaults; null removes a parameter when merged into the URL. */
+export function blogQueryParams(query: BlogQuery): Record<string, string | number | null> {
+  return {
+    q: query.q || null,
+    tag: query.tag,
+    sort: query.sort === 'newest' ? null : query.sort,
+    page: query.page > 1 ? query.page : null
+  };
+}
+
+/** The articles matching the search and tag, in the chosen order. */
+export function filterArticles(articles: Article[], query: BlogQuery): Article[] {
+  const terms = normalize(query.q).split(/\s+/).filter(Boolean);
+  const matches = articles.filter(article => {
+    if (query.tag && !article.tags.includes(query.tag)) return false;
+    const text = normalize([article.title, article.description, ...article.tags].join(' '));
+    return terms.every(term => text.includes(term));
+  });
+
+  const byDate = (a: Article, b: Article) => b.date.localeCompare(a.date);
+  const compare: Record<BlogSort, (a: Article, b: Article) => number> = {
+    newest: byDate,
+    oldest: (a, b) => byDate(b, a),
+    shortest: (a, b) => a.readMinutes - b.readMinutes || byDate(a, b),
+    longest: (a, b) => b.readMinutes - a.readMinutes || byDate(a, b)
+  };
+  return matches.sort(compare[query.sort]);
+}
+
+/** One page of `items`; a page past the end shows the last one. */
+export function paginate<T>(items: T[], page: number, size = PAGE_SIZE): { items: T[]; page: number; pages: number } {
+  const pages = Math.max(1, Math.ceil(items.length / size));
+  const current = Math.min(Math.max(1, page), pages);
+  return { items: items.slice((current - 1) * size, current * size), page: current, pages };
+}
+
+/** Every tag in use, with how many articles carry it, most used first. */
+export function tagCounts(articles: Article[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const tag of articles.flatMap(article => article.tags)) {
+    counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/** Lower case without accents, so "cafe" finds "Café". */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
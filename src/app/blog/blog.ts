@@ -1,42 +1,84 @@
-import { Component, signal } from '@angular/core';
-import { CommonModule } from '@angular/common';
-
-interface Article {
-  title: string;
-  description: string;
-  url: string;
-  date: string;
-  tags: string[];
-  readTime: string;
-  thumbnail: string;
-}
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule, ViewportScroller } from '@angular/common';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { map } from 'rxjs';
+import {
+  BLOG_SORTS,
+  BlogQuery,
+  blogQueryParams,
+  BlogSort,
+  filterArticles,
+  paginate,
+  parseBlogQuery,
+  tagCounts
+} from './blog-query';
+import { Article, siteName } from './post';
+import { POSTS } from './posts';
 
+/**
+ * The blog index, with search, tag filters, sorting and pages. What it shows
+ * lives in the query parameters, such as `/blog?tag=AWS%20Lambda&q=ffmpeg&page=2`,
+ * so any view can be linked and bookmarked.
+ */
 @Component({
   selector: 'app-blog',
-  imports: [CommonModule],
+  imports: [CommonModule, RouterLink],
   templateUrl: './blog.html',
   styleUrl: './blog.css',
   standalone: true
 })
 export class Blog {
-  protected readonly articles = signal<Article[]>([
-    {
-      title: 'How to Install FFmpeg on AWS Lambda and Make It Work',
-      description: 'A comprehensive guide to installing and configuring FFmpeg on AWS Lambda for serverless video processing. Learn how to overcome the challenges of packaging FFmpeg for Lambda and get it running smoothly.',
-      url: 'https://medium.com/@inamsaleh2024/how-to-install-ffmpeg-on-aws-lambda-and-make-it-work-cecbc76f2d0e',
-      date: 'Published on Medium',
-      tags: ['AWS Lambda', 'FFmpeg', 'Serverless', 'Video Processing'],
-      readTime: '5 min read',
-      thumbnail: '📹'
-    },
-    {
-      title: 'How to Package a Library for Lambda Layer (Python)',
-      description: 'Step-by-step tutorial on creating and packaging Python libraries as Lambda Layers. Master the art of dependency management in AWS Lambda to reduce deployment package size and improve code reusability.',
-      url: 'https://medium.com/@inamsaleh2024/how-to-package-a-library-for-lambda-layer-python-eee36c288cb8',
-      date: 'Published on Medium',
-      tags: ['AWS Lambda', 'Python', 'Lambda Layers', 'DevOps'],
-      readTime: '6 min read',
-      thumbnail: '🐍'
-    }
-  ]);
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly scroller = inject(ViewportScroller);
+
+  protected readonly articles = signal<Article[]>(POSTS.map(post => post.article));
+  protected readonly sorts = BLOG_SORTS;
+  protected readonly siteName = siteName;
+  protected readonly tags = computed(() => tagCounts(this.articles()));
+
+  protected readonly query = toSignal(this.route.queryParamMap.pipe(map(parseBlogQuery)), {
+    initialValue: parseBlogQuery(this.route.snapshot.queryParamMap)
+  });
+  protected readonly matches = computed(() => filterArticles(this.articles(), this.query()));
+  protected readonly page = computed(() => paginate(this.matches(), this.query().page));
+  protected readonly pageNumbers = computed(() => Array.from({ length: this.page().pages }, (_, i) => i + 1));
+  protected readonly filtered = computed(() => this.query().q !== '' || this.query().tag !== null);
+
+  protected search(event: Event): void {
+    // Typing replaces the URL rather than leaving a history entry per key
+    this.navigate({ q: (event.target as HTMLInputElement).value, page: 1 }, true);
+  }
+
+  protected selectSort(event: Event): void {
+    this.navigate({ sort: (event.target as HTMLSelectElement).value as BlogSort, page: 1 });
+  }
+
+  /** Query parameters that filter by `tag`, or clear the filter when it is already on. */
+  protected tagParams(tag: string): Record<string, string | number | null> {
+    return blogQueryParams({ ...this.query(), tag: tag === this.query().tag ? null : tag, page: 1 });
+  }
+
+  protected pageParams(page: number): Record<string, string | number | null> {
+    return blogQueryParams({ ...this.query(), page });
+  }
+
+  protected clearParams(): Record<string, string | number | null> {
+    return blogQueryParams({ ...this.query(), q: '', tag: null, page: 1 });
+  }
+
+  /** The page links sit below the list, so the next page starts from the top. */
+  protected scrollToTop(): void {
+    this.scroller.scrollToPosition([0, 0]);
+  }
+
+  private navigate(change: Partial<BlogQuery>, replaceUrl = false): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: blogQueryParams({ ...this.query(), ...change }),
+      queryParamsHandling: 'merge',
+      replaceUrl
+    });
+  }
 }
@@ -0,0 +1,55 @@
+import { FrontMatter, parseFrontMatter, stringifyFrontMatter } from './front-matter';
+
+describe('parseFrontMatter', () => {
+  it('should read text, quoted text and both kinds of list', () => {
+    const { data, body } = parseFrontMatter(
+      [
+        '---',
+        'title: "Colons: they need quotes"',
+        'date: 2024-03-12',
+        'tags: [AWS Lambda, "Python"]',
+        'topics:',
+        '  - one',
+        '  - two',
+        '---',
+        '',
+        '# Body'
+      ].join('\n')
+    );
+
+    expect(data).toEqual({
+      title: 'Colons: they need quotes',
+      date: '2024-03-12',
+      tags: ['AWS Lambda', 'Python'],
+      topics: ['one', 'two']
+    });
+    expect(body).toBe('\n# Body');
+  });
+
+  it('should leave files without front matter alone', () => {
+    expect(parseFrontMatter('# Just a body')).toEqual({ data: {}, body: '# Just a body' });
+    expect(parseFrontMatter('---\ntitle: never closed')).toEqual({ data: {}, body: '---\ntitle: never closed' });
+  });
+
+  it('should accept Windows line endings and a byte order mark', () => {
+    expect(parseFrontMatter('\uFEFF---\r\ntitle: Hi\r\n---\r\nText').data).toEqual({ title: 'Hi' });
+  });
+});
+
+describe('stringifyFrontMatter', () => {
+  it('should write front matter that reads back the same', () => {
+    const data: FrontMatter = {
+      title: 'Colons: fine bare',
+      description: '"Quoted" on Medium',
+      tags: ['AWS Lambda', 'Python'],
+      topics: ['Ready, set, go'],
+      thumbnail: '[x]',
+      empty: []
+    };
+    const source = stringifyFrontMatter(data);
+
+    expect(source).toContain('tags: [AWS Lambda, Python]\n');
+    expect(source).toContain('topics:\n  - Ready, set, go\n');
+    expect(parseFrontMatter(`${source}\nBody`)).toEqual({ data, body: '\nBody' });
+  });
+});
@@ -0,0 +1,65 @@
+/** Values a post's front matter can hold: plain text, or a list such as its tags. */
+export type FrontMatter = Record<string, string | string[]>;
+
+/**
+ * Splits a Markdown file into its front matter and body. The front matter is
+ * the `key: value` block between `---` lines at the top of the file; a value
+ * is text, optionally quoted, or a list written `[a, b]` or as `- item`
+ * lines under an empty key. Files without a block have empty front matter.
+ * Never throws.
+ */
+export function parseFrontMatter(source: string): { data: FrontMatter; body: string } {
+  const lines = source.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const end = lines.indexOf('---', 1);
+  if (lines[0] !== '---' || end === -1) return { data: {}, body: source };
+
+  const data: FrontMatter = {};
+  let listKey: string | null = null;
+  for (const line of lines.slice(1, end)) {
+    const item = /^\s*-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+
+    const field = /^([\w-]+):\s*(.*)$/.exec(line);
+    if (!field) continue;
+    const [, key, value] = field;
+    listKey = null;
+    if (value === '') {
+      data[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      data[key] = value
+        .slice(1, -1)
+        .split(',')
+        .map(unquote)
+        .filter(entry => entry !== '');
+    } else {
+      data[key] = unquote(value);
+    }
+  }
+  return { data, body: lines.slice(end + 1).join('\n') };
+}
+
+/** Writes front matter that `parseFrontMatter` reads back as `data`, quoting text that would not survive bare. */
+export function stringifyFrontMatter(data: FrontMatter): string {
+  const lines = Object.entries(data).flatMap(([key, value]) => {
+    if (!Array.isArray(value)) return [`${key}: ${quote(value)}`];
+    // Commas would split an item of an inline list, so those lists go one item a line
+    return value.some(item => item.includes(',')) || value.length === 0
+      ? [`${key}:`, ...value.map(item => `  - ${quote(item)}`)]
+      : [`${key}: [${value.map(quote).join(', ')}]`];
+  });
+  return ['---', ...lines, '---', ''].join('\n');
+}
+
+function quote(value: string): string {
+  return value === '' || /^[\s"'[]|\s$/.test(value) ? `"${value}"` : value;
+}
+
+function unquote(value: string): string {
+  const text = value.trim();
+  const quoted = /^(["'])(.*)\1$/.exec(text);
+  return quoted ? quoted[2] : text;
+}
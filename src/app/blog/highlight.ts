@@ -0,0 +1,78 @@
+interface Grammar {
+  comment?: string;
+  string: string;
+  keywords: string[];
+}
+
+const C_STRINGS = String.raw`'(?:\\.|[^'\\\n])*'|"(?:\\.|[^"\\\n])*"`;
+
+const SCRIPT: Grammar = {
+  comment: String.raw`\/\/[^\n]*|\/\*[\s\S]*?\*\/`,
+  string: String.raw`${C_STRINGS}|\x60(?:\\.|[^\x60\\])*\x60`,
+  keywords: (
+    'as async await break case catch class const continue default do else export extends false ' +
+    'finally for from function if implements import in instanceof interface let new null of private ' +
+    'protected public readonly return static super switch this throw true try type typeof undefined ' +
+    'var void while yield'
+  ).split(' ')
+};
+
+const GRAMMARS: Record<string, Grammar> = {
+  typescript: SCRIPT,
+  javascript: SCRIPT,
+  json: { string: C_STRINGS, keywords: 'true false null'.split(' ') },
+  python: {
+    comment: '#[^\\n]*',
+    string: String.raw`"""[\s\S]*?"""|'''[\s\S]*?'''|${C_STRINGS}`,
+    keywords: (
+      'and as assert async await break class continue def del elif else except False finally for from ' +
+      'global if import in is lambda None nonlocal not or pass raise return True try while with yield'
+    ).split(' ')
+  },
+  bash: {
+    // A # only starts a comment at the start of a word, so $# and URLs with fragments are left alone
+    comment: String.raw`(?<![^\s])#[^\n]*`,
+    string: C_STRINGS,
+    keywords: 'case do done elif else esac export fi for function if in local return then until while'.split(' ')
+  }
+};
+
+const ALIASES: Record<string, string> = {
+  ts: 'typescript',
+  js: 'javascript',
+  py: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash'
+};
+
+/**
+ * Code escaped for HTML, with its comments, strings, numbers and keywords
+ * wrapped in `tok-*` spans when `language` is one the blog knows.
+ */
+export function highlightCode(code: string, language: string): string {
+  const grammar = GRAMMARS[ALIASES[language.toLowerCase()] ?? language.toLowerCase()];
+  if (!grammar) return escapeHtml(code);
+
+  const keywords = new Set(grammar.keywords);
+  const tokens = new RegExp(
+    `(${grammar.comment ?? '(?!)'})|(${grammar.string})|(\\b\\d+(?:\\.\\d+)?\\b)|([A-Za-z_$][\\w$]*)`,
+    'g'
+  );
+  let html = '';
+  let last = 0;
+  for (const match of code.matchAll(tokens)) {
+    const [text, comment, string, number] = match;
+    const kind = comment ? 'comment' : string ? 'string' : number ? 'number' : keywords.has(text) ? 'keyword' : null;
+    html += escapeHtml(code.slice(last, match.index));
+    html += kind ? `<span class="tok-${kind}">${escapeHtml(text)}</span>` : escapeHtml(text);
+    last = match.index + text.length;
+  }
+  return html + escapeHtml(code.slice(last));
+}
+
+const ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => ENTITIES[char]);
+}
@@ -0,0 +1,92 @@
+import { highlightCode } from './highlight';
+import { renderMarkdown, slugify } from './markdown';
+
+describe('renderMarkdown', () => {
+  it('should render headings with ids and list level 2 and 3 for the contents', () => {
+    const { html, headings } = renderMarkdown('# Title\n\n## Getting *Started*\n\n### Step one\n\n## Getting Started');
+
+    expect(html).toContain('<h2 id="getting-started">Getting <em>Started</em></h2>');
+    expect(headings).toEqual([
+      { id: 'getting-started', text: 'Getting Started', level: 2 },
+      { id: 'step-one', text: 'Step one', level: 3 },
+      { id: 'getting-started-2', text: 'Getting Started', level: 2 }
+    ]);
+  });
+
+  it('should render paragraphs, lists, quotes and rules', () => {
+    const { html } = renderMarkdown('One\nparagraph.\n\n- a\n- b\n  carried on\n\n1. first\n\n> quoted\n\n---');
+
+    expect(html).toBe(
+      [
+        '<p>One paragraph.</p>',
+        '<ul><li>a</li><li>b carried on</li></ul>',
+        '<ol><li>first</li></ol>',
+        '<blockquote><p>quoted</p></blockquote>',
+        '<hr>'
+      ].join('\n')
+    );
+  });
+
+  it('should format inline code, links, images and emphasis', () => {
+    const { html } = renderMarkdown(
+      'Use `a_b_c` with **care**, see [the docs](https://example.com/a_b_c) and ![a chart](/chart.png).'
+    );
+
+    expect(html).toBe(
+      '<p>Use <code>a_b_c</code> with <strong>care</strong>, see ' +
+        '<a href="https://example.com/a_b_c" target="_blank" rel="noopener noreferrer">the docs</a> and ' +
+        '<img src="/chart.png" alt="a chart" loading="lazy">.</p>'
+    );
+  });
+
+  it('should escape raw HTML and refuse script links', () => {
+    const { html } = renderMarkdown('<script>alert(1)</script> [click](javascript:alert(1))');
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).not.toContain('javascript:');
+  });
+
+  it('should only link to web pages, mail and this site', () => {
+    const href = (url: string) => /href="([^"]*)"/.exec(renderMarkdown(`[link](${url})`).html)?.[1];
+
+    expect(href('\u0001javascript:alert(1)')).toBe('#');
+    expect(href('java\tscript:alert(1)')).toBeUndefined();
+    expect(href('jav\u0000ascript:alert(1)')).toBe('#');
+    expect(href('data:text/html,hi')).toBe('#');
+    expect(href('vbscript:msgbox')).toBe('#');
+    expect(href('HTTPS://example.com/a')).toBe('HTTPS://example.com/a');
+    expect(href('mailto:me@example.com')).toBe('mailto:me@example.com');
+    expect(href('/blog#top')).toBe('/blog#top');
+    expect(href('#intro')).toBe('#intro');
+    expect(href('other-post')).toBe('other-post');
+    expect(renderMarkdown('![x](\u0002javascript:alert(1))').html).toContain('src="#"');
+  });
+
+  it('should highlight fenced code blocks', () => {
+    const { html } = renderMarkdown('```python\nimport os  # why not\n```');
+
+    expect(html).toBe(
+      '<pre><code class="language-python"><span class="tok-keyword">import</span> os  ' +
+        '<span class="tok-comment"># why not</span></code></pre>'
+    );
+  });
+
+  it('should make URL-friendly ids', () => {
+    expect(slugify('Why FFmpeg is awkward on Lambda!')).toBe('why-ffmpeg-is-awkward-on-lambda');
+    expect(slugify('  Café & crème  ')).toBe('cafe-creme');
+  });
+});
+
+describe('highlightCode', () => {
+  it('should mark strings, numbers and keywords but not words inside strings', () => {
+    expect(highlightCode("const x = 'if' + 42;", 'ts')).toBe(
+      '<span class="tok-keyword">const</span> x = <span class="tok-string">&#39;if&#39;</span> + ' +
+        '<span class="tok-number">42</span>;'
+    );
+  });
+
+  it('should only escape code in languages it does not know', () => {
+    expect(highlightCode('if <x>', 'brainfuck')).toBe('if &lt;x&gt;');
+  });
+});
@@ -0,0 +1,181 @@
+import { escapeHtml, highlightCode } from './highlight';
+
+/** A section heading of a post, for its table of contents. */
+export interface Heading {
+  id: string;
+  text: string;
+  level: number;
+}
+
+export interface RenderedMarkdown {
+  html: string;
+  /** Level 2 and 3 headings in order; the post title stands in for level 1. */
+  headings: Heading[];
+}
+
+/**
+ * Renders the Markdown the blog is written in: headings, paragraphs, lists,
+ * block quotes, rules, fenced code blocks with syntax highlighting, images,
+ * links, code spans, bold and italics. Raw HTML is shown as text rather than
+ * passed through, so the output is safe to insert into the page as it is.
+ */
+export function renderMarkdown(markdown: string): RenderedMarkdown {
+  const lines = markdown.split(/\r?\n/);
+  const headings: Heading[] = [];
+  const ids = new Set<string>();
+  const blocks: string[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fence = /^(```|~~~)\s*([\w+-]*)/.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].startsWith(fence[1]); i++) {
+        code.push(lines[i]);
+      }
+      i++;
+      const language = fence[2];
+      const attribute = language ? ` class="language-${escapeHtml(language)}"` : '';
+      blocks.push(`<pre><code${attribute}>${highlightCode(code.join('\n'), language)}</code></pre>`);
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      const text = heading[2];
+      const id = uniqueId(slugify(plainText(text)), ids);
+      if (level === 2 || level === 3) {
+        headings.push({ id, text: plainText(text), level });
+      }
+      blocks.push(`<h${level} id="${id}">${renderInline(text)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      blocks.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quote: string[] = [];
+      for (; i < lines.length && lines[i].startsWith('>'); i++) {
+        quote.push(lines[i].replace(/^>\s?/, ''));
+      }
+      blocks.push(`<blockquote>${renderMarkdown(quote.join('\n')).html}</blockquote>`);
+      continue;
+    }
+
+    const list = listItem(line);
+    if (list) {
+      const items: string[] = [];
+      for (; i < lines.length && lines[i].trim() !== ''; i++) {
+        const item = listItem(lines[i]);
+        if (item && item.ordered === list.ordered) {
+          items.push(item.text);
+        } else if (items.length > 0) {
+          // A line that is not a new item carries on the one before
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        }
+      }
+      const tag = list.ordered ? 'ol' : 'ul';
+      blocks.push(`<${tag}>${items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${tag}>`);
+      continue;
+    }
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    for (; i < lines.length && lines[i].trim() !== '' && !startsBlock(lines[i]); i++) {
+      paragraph.push(lines[i].trim());
+    }
+    blocks.push(`<p>${renderInline(paragraph.join(' '))}</p>`);
+  }
+
+  return { html: blocks.join('\n'), headings };
+}
+
+/** Markdown with the formatting taken out, such as heading text for the table of contents. */
+export function plainText(markdown: string): string {
+  return markdown
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]/g, '');
+}
+
+/** A URL-friendly id made from `text`, such as `getting-started` from "Getting Started!". */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/[\s_-]+/g, '-');
+}
+
+function uniqueId(base: string, ids: Set<string>): string {
+  let id = base || 'section';
+  for (let n = 2; ids.has(id); n++) {
+    id = `${base || 'section'}-${n}`;
+  }
+  ids.add(id);
+  return id;
+}
+
+function listItem(line: string): { ordered: boolean; text: string } | null {
+  const match = /^\s*(?:([-*+])|\d+[.)])\s+(.*)$/.exec(line);
+  return match ? { ordered: !match[1], text: match[2] } : null;
+}
+
+function startsBlock(line: string): boolean {
+  return /^(```|~~~|#{1,6}\s|>)/.test(line) || listItem(line) !== null;
+}
+
+function renderInline(text: string): string {
+  // Code spans are split off first so nothing inside them is formatted
+  return text
+    .split(/(`[^`]+`)/)
+    .map((part, i) => (i % 2 === 1 ? `<code>${escapeHtml(part.slice(1, -1))}</code>` : formatText(part)))
+    .join('');
+}
+
+function formatText(text: string): string {
+  // Images and links are set aside while emphasis is applied, so underscores in their URLs are left alone
+  const held: string[] = [];
+  const hold = (html: string) => `\u0000${held.push(html) - 1}\u0000`;
+  const html = escapeHtml(text)
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_, alt, src) =>
+      hold(`<img src="${safeUrl(src)}" alt="${alt}" loading="lazy">`)
+    )
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label, href) => {
+      const url = safeUrl(href);
+      const external = /^https?:/i.test(url) ? ' target="_blank" rel="noopener noreferrer"' : '';
+      return hold(`<a href="${url}"${external}>${emphasis(label)}</a>`);
+    });
+  return emphasis(html).replace(/\u0000(\d+)\u0000/g, (_, index) => held[Number(index)]);
+}
+
+function emphasis(html: string): string {
+  return html
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/(^|[^\w*])\*(?!\s)(.+?)\*(?!\w)|(^|\W)_(?!\s)(.+?)_(?!\w)/g, (_, a, b, c, d) =>
+      a === undefined ? `${c}<em>${d}</em>` : `${a}<em>${b}</em>`
+    );
+}
+
+/**
+ * Links to web pages, mail and this site only; anything else, such as
+ * javascript:, goes nowhere. Browsers skip control characters in a URL, so
+ * they are taken out before the check rather than let one hide a scheme.
+ */
+function safeUrl(url: string): string {
+  const clean = url.replace(/[\u0000-\u001f\u007f-\u009f]/g, '');
+  return /^(https?:|mailto:|[/#])/i.test(clean) || !clean.includes(':') ? clean : '#';
+}
@@ -0,0 +1,87 @@
+import { adjacentPosts, DEFAULT_THUMBNAIL, parsePost, readingMinutes, sortPosts } from './post';
+
+describe('post', () => {
+  const source = (title: string, date: string, extra = '') =>
+    `---\ntitle: ${title}\ndate: ${date}\n${extra}---\n\n## Intro\n\nHello there.`;
+
+  it('should read front matter into an article', () => {
+    const post = parsePost(
+      'hello',
+      source('Hello', '2024-03-12', 'tags: [A, B]\nthumbnail: 🐍\ncanonical: https://medium.com/@me/hello\n')
+    );
+
+    expect(post.article).toEqual({
+      slug: 'hello',
+      title: 'Hello',
+      description: '',
+      url: '/blog/hello',
+      date: '2024-03-12',
+      tags: ['A', 'B'],
+      readTime: '1 min read',
+      readMinutes: 1,
+      thumbnail: '🐍',
+      canonical: 'https://medium.com/@me/hello'
+    });
+    expect(post.headings).toEqual([{ id: 'intro', text: 'Intro', level: 2 }]);
+  });
+
+  it('should fill in optional fields and reject posts without a title or date', () => {
+    const post = parsePost('plain', source('Plain', '2024-01-01', 'tags: solo\n'));
+    expect(post.article.tags).toEqual(['solo']);
+    expect(post.article.thumbnail).toBe(DEFAULT_THUMBNAIL);
+    expect(post.article.canonical).toBeUndefined();
+
+    expect(() => parsePost('untitled', '# No front matter')).toThrowError(/untitled/);
+    expect(() => parsePost('undated', source('Undated', 'last week'))).toThrowError(/undated/);
+  });
+
+  it('should reject dates that are not on the calendar', () => {
+    expect(parsePost('leap', source('Leap', '2024-02-29')).article.date).toBe('2024-02-29');
+    expect(() => parsePost('month', source('Month', '2024-13-01'))).toThrowError(/month/);
+    expect(() => parsePost('day', source('Day', '2024-04-31'))).toThrowError(/day/);
+    expect(() => parsePost('not-leap', source('Not leap', '2023-02-29'))).toThrowError(/not-leap/);
+  });
+
+  it('should reject canonical links that are not web addresses', () => {
+    const post = (canonical: string) => () =>
+      parsePost('linked', source('Linked', '2024-01-01', `canonical: ${canonical}\n`));
+    expect(post('http://example.com/a')).not.toThrow();
+    expect(post('medium.com/@me/hello')).toThrowError(/linked/);
+    expect(post('htps//medium.com')).toThrowError(/linked/);
+    expect(post('javascript:alert(1)')).toThrowError(/linked/);
+  });
+
+  it('should link a post without text to where it was published', () => {
+    const canonical = 'https://medium.com/@me/elsewhere';
+    const post = parsePost('elsewhere', `---\ntitle: Elsewhere\nminutes: 6\ncanonical: ${canonical}\n---\n`);
+    expect(post.article.url).toBe(canonical);
+    expect(post.article.external).toBeTrue();
+    expect(post.article.date).toBe('');
+    expect(post.article.readTime).toBe('6 min read');
+    expect(parsePost('hello', source('Hello', '2024-03-12')).article.external).toBeUndefined();
+
+    expect(() => parsePost('unlinked', '---\ntitle: Unlinked\ndate: 2024-01-01\n---\n')).toThrowError(/unlinked/);
+    const misdated = `---\ntitle: Misdated\ndate: soon\ncanonical: ${canonical}\n---\n`;
+    expect(() => parsePost('misdated', misdated)).toThrowError(/misdated/);
+  });
+
+  it('should estimate reading time from the word count', () => {
+    expect(readingMinutes('word '.repeat(1000))).toBe(5);
+    expect(readingMinutes('')).toBe(1);
+  });
+
+  it('should link each post to the older and newer ones', () => {
+    const posts = sortPosts([
+      parsePost('middle', source('Middle', '2024-02-01')),
+      parsePost('oldest', source('Oldest', '2024-01-01')),
+      parsePost('newest', source('Newest', '2024-03-01'))
+    ]);
+
+    expect(posts.map(post => post.article.slug)).toEqual(['newest', 'middle', 'oldest']);
+    const { previous, next } = adjacentPosts(posts, 'middle');
+    expect(previous?.article.slug).toBe('oldest');
+    expect(next?.article.slug).toBe('newest');
+    expect(adjacentPosts(posts, 'newest').next).toBeNull();
+    expect(adjacentPosts(posts, 'missing')).toEqual({ previous: null, next: null });
+  });
+});
@@ -0,0 +1,120 @@
+import { parseFrontMatter } from './front-matter';
+import { type Heading, renderMarkdown } from './markdown';
+
+/** What the blog lists a post by. */
+export interface Article {
+  slug: string;
+  title: string;
+  description: string;
+  /** Where the post is read: on this site, or where it was published for a post only linked to. */
+  url: string;
+  /** Day it was published, as YYYY-MM-DD; empty for a post only linked to whose date is not given. */
+  date: string;
+  tags: string[];
+  readTime: string;
+  /** The same estimate as a number, for sorting. */
+  readMinutes: number;
+  thumbnail: string;
+  /** The original, for posts first published elsewhere such as Medium, which search engines should credit. */
+  canonical?: string;
+  /** Set for a post whose text is not on this site, only a link to where it was published. */
+  external?: true;
+}
+
+export interface Post {
+  article: Article;
+  html: string;
+  headings: Heading[];
+}
+
+export const WORDS_PER_MINUTE = 200;
+export const DEFAULT_THUMBNAIL = '📝';
+
+/** Minutes it takes to read a post of this length; never less than one. */
+export function readingMinutes(markdown: string): number {
+  const words = markdown.split(/\s+/).filter(word => /\w/.test(word)).length;
+  return Math.max(1, Math.round(words / WORDS_PER_MINUTE));
+}
+
+/**
+ * Reads a post written as Markdown with front matter: `title` and `date`
+ * (YYYY-MM-DD) are required, and `description`, `tags`, `thumbnail` and
+ * `canonical` (an http or https URL) optional. A post with front matter and
+ * no text links to its `canonical` instead, such as a Medium article not
+ * imported yet; it needs no date, and gives its reading time as `minutes`.
+ * Throws when a required field is missing or a date or URL is not real; the
+ * posts spec reads every post, so that shows up in the tests.
+ */
+export function parsePost(slug: string, source: string): Post {
+  const { data, body } = parseFrontMatter(source);
+  const text = (key: string) => (typeof data[key] === 'string' ? data[key] : '');
+  const title = text('title');
+  const date = text('date');
+  const canonical = text('canonical');
+  const external = body.trim() === '';
+  if (!title || !(isCalendarDate(date) || (external && !date))) {
+    throw new Error(`Blog post "${slug}" needs a title and a YYYY-MM-DD date in its front matter`);
+  }
+  if (canonical && !isWebUrl(canonical)) {
+    throw new Error(`Blog post "${slug}" has a canonical link that is not an http or https URL: ${canonical}`);
+  }
+  if (external && !canonical) {
+    throw new Error(`Blog post "${slug}" has no text, so needs a canonical link to where it can be read`);
+  }
+
+  const tags = data['tags'];
+  const { html, headings } = renderMarkdown(body);
+  const minutes = external && /^[1-9]\d*$/.test(text('minutes')) ? Number(text('minutes')) : readingMinutes(body);
+  return {
+    article: {
+      slug,
+      title,
+      description: text('description'),
+      url: external ? canonical : `/blog/${slug}`,
+      date,
+      tags: Array.isArray(tags) ? tags : tags ? [tags] : [],
+      readTime: `${minutes} min read`,
+      readMinutes: minutes,
+      thumbnail: text('thumbnail') || DEFAULT_THUMBNAIL,
+      ...(canonical ? { canonical } : {}),
+      ...(external ? { external: true as const } : {})
+    },
+    html,
+    headings
+  };
+}
+
+/** Where a link goes, such as medium.com, to name the site it opens. */
+export function siteName(url: string): string {
+  return new URL(url).hostname.replace(/^www\./, '');
+}
+
+/** Newest first; posts from the same day go by title. */
+export function sortPosts(posts: Post[]): Post[] {
+  return [...posts].sort(
+    (a, b) => b.article.date.localeCompare(a.article.date) || a.article.title.localeCompare(b.article.title)
+  );
+}
+
+/** The posts either side of `slug` in `posts`, newest first: the older one is previous, the newer one next. */
+export function adjacentPosts(posts: Post[], slug: string): { previous: Post | null; next: Post | null } {
+  const index = posts.findIndex(post => post.article.slug === slug);
+  if (index === -1) return { previous: null, next: null };
+  return { previous: posts[index + 1] ?? null, next: posts[index - 1] ?? null };
+}
+
+/** Whether `date` is YYYY-MM-DD and a day that exists, which rules out the likes of 2024-13-45 or 2023-02-29. */
+function isCalendarDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+}
+
+function isWebUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname !== '';
+  } catch {
+    return false;
+  }
+}
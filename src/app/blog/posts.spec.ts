@@ -0,0 +1,15 @@
+import { POSTS } from './posts';
+
+describe('POSTS', () => {
+  it('should publish every post with a description and contents, or a link to them', () => {
+    expect(POSTS.length).toBeGreaterThan(0);
+    for (const { article, headings } of POSTS) {
+      expect(article.description).withContext(article.slug).not.toBe('');
+      if (article.external) {
+        expect(article.url).withContext(article.slug).toBe(article.canonical!);
+      } else {
+        expect(headings.length).withContext(article.slug).toBeGreaterThan(0);
+      }
+    }
+  });
+});
@@ -0,0 +1,15 @@
+import ffmpegOnLambda from './posts/install-ffmpeg-on-aws-lambda.md';
+import lambdaLayerPython from './posts/package-a-library-for-lambda-layer-python.md';
+import { parsePost, type Post, sortPosts } from './post';
+
+/** Each post's Markdown by slug, the name of its file and its address under /blog. Adding one here publishes it. */
+const SOURCES: Record<string, string> = {
+  'install-ffmpeg-on-aws-lambda': ffmpegOnLambda,
+  'package-a-library-for-lambda-layer-python': lambdaLayerPython
+};
+
+/** Every post, newest first. */
+export const POSTS: Post[] = sortPosts(Object.entries(SOURCES).map(([slug, source]) => parsePost(slug, source)));
+
+/** The posts read on this site, leaving out those only linked to where they were published. */
+export const SITE_POSTS: Post[] = POSTS.filter(post => !post.article.external);
@@ -0,0 +1,92 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { DEFAULT_MODE, GameId, isTimeRanked, ScoreEntry, ScoreService } from '../shared/score-service';
+import { formatGameTime } from '../tetris/tetris-modes';
+
+type Period = 'all' | 'week' | 'today';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Component({
+  selector: 'app-leaderboard',
+  imports: [CommonModule, RouterLink],
+  templateUrl: './leaderboard.html',
+  styleUrl: './leaderboard.css',
+  standalone: true
+})
+export class Leaderboard {
+  private readonly scores = inject(ScoreService);
+  private readonly route = inject(ActivatedRoute);
+
+  protected readonly games: { id: GameId; name: string }[] = [
+    { id: 'snake', name: 'Snake' },
+    { id: 'tetris', name: 'Tetris' }
+  ];
+  protected readonly periods: { id: Period; name: string }[] = [
+    { id: 'all', name: 'All time' },
+    { id: 'week', name: 'This week' },
+    { id: 'today', name: 'Today' }
+  ];
+
+  protected readonly game = signal<GameId>(
+    this.route.snapshot.queryParamMap.get('game') === 'tetris' ? 'tetris' : 'snake'
+  );
+  protected readonly mode = signal(DEFAULT_MODE);
+  protected readonly period = signal<Period>('all');
+
+  /** Modes with scores for the selected game; classic is always offered. */
+  protected readonly modes = computed(() => {
+    this.scores.tables();
+    const modes = this.scores.modes(this.game());
+    return modes.includes(DEFAULT_MODE) ? modes : [DEFAULT_MODE, ...modes];
+  });
+
+  protected readonly entries = computed(() => {
+    const table = this.scores.tables()[`${this.game()}:${this.mode()}`] ?? [];
+    const since = this.periodStart(this.period());
+    return table.filter(entry => Date.parse(entry.date) >= since);
+  });
+
+  protected readonly showLines = computed(() => this.entries().some(entry => entry.lines !== undefined));
+
+  protected selectGame(game: GameId): void {
+    this.game.set(game);
+    this.mode.set(DEFAULT_MODE);
+  }
+
+  protected selectMode(event: Event): void {
+    this.mode.set((event.target as HTMLSelectElement).value);
+  }
+
+  protected selectPeriod(event: Event): void {
+    this.period.set((event.target as HTMLSelectElement).value as Period);
+  }
+
+  protected clearTable(): void {
+    if (confirm(`Clear the ${this.game()} ${this.mode()} leaderboard?`)) {
+      this.scores.clear(this.game(), this.mode());
+    }
+  }
+
+  protected formatDuration(entry: ScoreEntry): string {
+    if (!entry.durationMs) return '—';
+    // Sprint times are the ranking, so they are shown to the millisecond
+    if (isTimeRanked(this.game(), this.mode())) return formatGameTime(entry.durationMs, true);
+    const seconds = Math.round(entry.durationMs / 1000);
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+  }
+
+  protected formatDate(entry: ScoreEntry): string {
+    // Migrated scores have no real date
+    return Date.parse(entry.date) === 0 ? '—' : new Date(entry.date).toLocaleDateString();
+  }
+
+  private periodStart(period: Period): number {
+    const now = Date.now();
+    // Today starts at the player's midnight, the same day the dates in the table and the stats go by
+    if (period === 'today') return new Date(now).setHours(0, 0, 0, 0);
+    if (period === 'week') return now - 7 * DAY_MS;
+    return -Infinity;
+  }
+}
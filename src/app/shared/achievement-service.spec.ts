@@ -0,0 +1,38 @@
+import { TestBed } from '@angular/core/testing';
+import { AchievementService, STATS_KEY } from './achievement-service';
+
+describe('AchievementService', () => {
+  let service: AchievementService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(AchievementService);
+  });
+
+  afterEach(() => localStorage.clear());
+
+  it('should unlock an achievement once and show a toast for it', () => {
+    service.record({ type: 'linesCleared', lines: 4 });
+    service.record({ type: 'linesCleared', lines: 4 });
+
+    expect(service.stats().unlocked['tetris-four']).toBeDefined();
+    expect(service.toasts().map(toast => toast.achievement.id)).toEqual(['tetris-four']);
+    expect(service.unlockedCount()).toBe(1);
+  });
+
+  it('should dismiss toasts', () => {
+    service.record({ type: 'gameEnd', game: 'tetris', score: 100, durationMs: 1000 });
+    service.dismiss(service.toasts()[0].id);
+    expect(service.toasts()).toEqual([]);
+  });
+
+  it('should save the stats for the next visit and reset them', () => {
+    service.record({ type: 'piecePlaced' });
+    expect(JSON.parse(localStorage.getItem(STATS_KEY)!).piecesPlaced).toBe(1);
+
+    service.reset();
+    expect(service.stats().piecesPlaced).toBe(0);
+    expect(JSON.parse(localStorage.getItem(STATS_KEY)!).piecesPlaced).toBe(0);
+  });
+});
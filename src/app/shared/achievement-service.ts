@@ -0,0 +1,85 @@
+import { computed, Injectable, signal } from '@angular/core';
+import {
+  Achievement,
+  ACHIEVEMENTS,
+  emptyStats,
+  meetsRule,
+  parseStats,
+  PlayEvent,
+  PlayerStats,
+  recordPlayEvent
+} from './achievements';
+
+export const STATS_KEY = 'playerStats';
+
+/** How long an unlock toast stays up, in ms. */
+export const TOAST_MS = 5000;
+
+export interface AchievementToast {
+  id: number;
+  achievement: Achievement;
+}
+
+/**
+ * Lifetime stats and achievements for every game. The games report what
+ * happens as they are played; each report is counted into the stats, saved
+ * to localStorage, and checked against the achievements still locked, which
+ * pop up as toasts when they unlock.
+ */
+@Injectable({ providedIn: 'root' })
+export class AchievementService {
+  private readonly state = signal<PlayerStats>(parseStats(readStorage()));
+  private nextToastId = 0;
+
+  readonly stats = this.state.asReadonly();
+  readonly toasts = signal<AchievementToast[]>([]);
+  readonly unlockedCount = computed(() => Object.keys(this.state().unlocked).length);
+
+  record(event: PlayEvent): void {
+    let stats = recordPlayEvent(this.state(), event, new Date());
+    const unlocked = ACHIEVEMENTS.filter(
+      achievement => !stats.unlocked[achievement.id] && meetsRule(achievement.rule, stats, event)
+    );
+    if (unlocked.length > 0) {
+      const date = new Date().toISOString();
+      const dates = Object.fromEntries(unlocked.map(({ id }) => [id, date]));
+      stats = { ...stats, unlocked: { ...stats.unlocked, ...dates } };
+      unlocked.forEach(achievement => this.toast(achievement));
+    }
+
+    this.state.set(stats);
+    this.save();
+  }
+
+  dismiss(id: number): void {
+    this.toasts.update(toasts => toasts.filter(toast => toast.id !== id));
+  }
+
+  /** Forgets every total and achievement. */
+  reset(): void {
+    this.state.set(emptyStats());
+    this.save();
+  }
+
+  private toast(achievement: Achievement): void {
+    const id = this.nextToastId++;
+    this.toasts.update(toasts => [...toasts, { id, achievement }]);
+    setTimeout(() => this.dismiss(id), TOAST_MS);
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(STATS_KEY, JSON.stringify(this.state()));
+    } catch {
+      // Storage can be full or disabled; the stats still count for this session
+    }
+  }
+}
+
+function readStorage(): string | null {
+  try {
+    return localStorage.getItem(STATS_KEY);
+  } catch {
+    return null;
+  }
+}
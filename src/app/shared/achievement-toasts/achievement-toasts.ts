@@ -0,0 +1,15 @@
+import { Component, inject } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { AchievementService } from '../achievement-service';
+
+/** Pops up newly unlocked achievements in a corner of any page. */
+@Component({
+  selector: 'app-achievement-toasts',
+  imports: [RouterLink],
+  templateUrl: './achievement-toasts.html',
+  styleUrl: './achievement-toasts.css',
+  standalone: true
+})
+export class AchievementToasts {
+  protected readonly achievements = inject(AchievementService);
+}
@@ -0,0 +1,85 @@
+import { ACHIEVEMENTS, emptyStats, lifetimeTotals, meetsRule, parseStats, PlayEvent, recordPlayEvent } from './achievements';
+
+describe('achievements', () => {
+  const day = (date: number) => new Date(2025, 0, date, 12);
+  const gameEnd: PlayEvent = { type: 'gameEnd', game: 'snake', score: 120, durationMs: 60000 };
+
+  function achievement(id: string) {
+    return ACHIEVEMENTS.find(candidate => candidate.id === id)!;
+  }
+
+  it('should count games, time and scores per game', () => {
+    let stats = recordPlayEvent(emptyStats(), gameEnd, day(1));
+    stats = recordPlayEvent(stats, { ...gameEnd, score: 80 }, day(1));
+
+    expect(stats.games.snake).toEqual({
+      gamesPlayed: 2,
+      timePlayedMs: 120000,
+      totalScore: 200,
+      bestScore: 120,
+      recentScores: [120, 80]
+    });
+    expect(stats.games.tetris.gamesPlayed).toBe(0);
+    expect(lifetimeTotals(stats).gamesPlayed).toBe(2);
+  });
+
+  it('should count Tetris clears by type and lines in total', () => {
+    let stats = emptyStats();
+    for (const lines of [1, 4, 4, 2]) {
+      stats = recordPlayEvent(stats, { type: 'linesCleared', lines }, day(1));
+    }
+
+    expect(stats.linesByType).toEqual([1, 1, 0, 2]);
+    expect(lifetimeTotals(stats).linesCleared).toBe(11);
+  });
+
+  it('should keep a streak of days in a row and start over after a gap', () => {
+    let stats = emptyStats();
+    for (const date of [1, 2, 2, 3]) {
+      stats = recordPlayEvent(stats, gameEnd, day(date));
+    }
+    expect(stats.streak).toBe(3);
+
+    stats = recordPlayEvent(stats, gameEnd, day(5));
+    expect(stats.streak).toBe(1);
+    expect(stats.bestStreak).toBe(3);
+  });
+
+  it('should carry a streak across the end of a month', () => {
+    let stats = recordPlayEvent(emptyStats(), gameEnd, new Date(2025, 0, 31, 23));
+    stats = recordPlayEvent(stats, gameEnd, new Date(2025, 1, 1, 1));
+    expect(stats.streak).toBe(2);
+  });
+
+  it('should unlock event achievements on the matching event only', () => {
+    const stats = emptyStats();
+    const four = achievement('tetris-four').rule;
+
+    expect(meetsRule(four, stats, { type: 'linesCleared', lines: 4 })).toBeTrue();
+    expect(meetsRule(four, stats, { type: 'linesCleared', lines: 3 })).toBeFalse();
+    expect(meetsRule(four, stats, { type: 'levelUp', level: 4 })).toBeFalse();
+
+    const snakeScore = achievement('snake-score-500').rule;
+    expect(meetsRule(snakeScore, stats, { ...gameEnd, score: 500 })).toBeTrue();
+    expect(meetsRule(snakeScore, stats, { ...gameEnd, game: 'tetris', score: 500 })).toBeFalse();
+  });
+
+  it('should unlock total achievements once the total is reached', () => {
+    const rule = achievement('streak-7').rule;
+    expect(meetsRule(rule, { ...emptyStats(), streak: 6 }, gameEnd)).toBeFalse();
+    expect(meetsRule(rule, { ...emptyStats(), streak: 7 }, gameEnd)).toBeTrue();
+  });
+
+  it('should read back stored stats and drop anything malformed', () => {
+    const stats = recordPlayEvent(emptyStats(), gameEnd, day(1));
+    stats.unlocked = { 'first-game': '2025-01-01T12:00:00.000Z' };
+    expect(parseStats(JSON.stringify(stats))).toEqual(stats);
+
+    const broken = { ...stats, foodEaten: -3, linesByType: [1, 2], unlocked: { unknown: 'x' } };
+    const parsed = parseStats(JSON.stringify(broken));
+    expect(parsed.foodEaten).toBe(0);
+    expect(parsed.linesByType).toEqual([0, 0, 0, 0]);
+    expect(parsed.unlocked).toEqual({});
+    expect(parseStats('{oops')).toEqual(emptyStats());
+  });
+});
@@ -0,0 +1,271 @@
+import { GameId } from './score-service';
+
+/** What the games report as they are played, for the lifetime stats and achievements. */
+export type PlayEvent =
+  | { type: 'piecePlaced' }
+  | { type: 'linesCleared'; lines: number }
+  | { type: 'levelUp'; level: number }
+  | { type: 'foodEaten'; length: number }
+  | { type: 'gameEnd'; game: GameId; score: number; durationMs: number };
+
+export interface GameStats {
+  gamesPlayed: number;
+  timePlayedMs: number;
+  totalScore: number;
+  bestScore: number;
+  /** Scores of the last few games, oldest first. */
+  recentScores: number[];
+}
+
+/** Lifetime totals across every game on this device. */
+export interface PlayerStats {
+  version: 1;
+  games: Record<GameId, GameStats>;
+  piecesPlaced: number;
+  /** Tetris clears of one, two, three and four lines. */
+  linesByType: [number, number, number, number];
+  foodEaten: number;
+  longestSnake: number;
+  /** Local calendar day of the last game, as YYYY-MM-DD. */
+  lastPlayed: string | null;
+  /** Days in a row with a game, up to and including `lastPlayed`. */
+  streak: number;
+  bestStreak: number;
+  /** When each achievement was unlocked, as ISO timestamps, by id. */
+  unlocked: Record<string, string>;
+}
+
+export const RECENT_SCORES = 20;
+
+export function emptyStats(): PlayerStats {
+  const game = (): GameStats => ({ gamesPlayed: 0, timePlayedMs: 0, totalScore: 0, bestScore: 0, recentScores: [] });
+  return {
+    version: 1,
+    games: { snake: game(), tetris: game() },
+    piecesPlaced: 0,
+    linesByType: [0, 0, 0, 0],
+    foodEaten: 0,
+    longestSnake: 0,
+    lastPlayed: null,
+    streak: 0,
+    bestStreak: 0,
+    unlocked: {}
+  };
+}
+
+/** Counts `event` into `stats`, returning new stats; `now` dates the day streak. */
+export function recordPlayEvent(stats: PlayerStats, event: PlayEvent, now: Date): PlayerStats {
+  switch (event.type) {
+    case 'piecePlaced':
+      return { ...stats, piecesPlaced: stats.piecesPlaced + 1 };
+    case 'linesCleared': {
+      const linesByType = [...stats.linesByType] as PlayerStats['linesByType'];
+      linesByType[Math.min(4, Math.max(1, event.lines)) - 1]++;
+      return { ...stats, linesByType };
+    }
+    case 'foodEaten':
+      return { ...stats, foodEaten: stats.foodEaten + 1, longestSnake: Math.max(stats.longestSnake, event.length) };
+    case 'levelUp':
+      return stats;
+    case 'gameEnd': {
+      const game = stats.games[event.game];
+      const today = localDay(now);
+      const streak =
+        stats.lastPlayed === today ? stats.streak : stats.lastPlayed === previousDay(today) ? stats.streak + 1 : 1;
+      return {
+        ...stats,
+        games: {
+          ...stats.games,
+          [event.game]: {
+            gamesPlayed: game.gamesPlayed + 1,
+            timePlayedMs: game.timePlayedMs + event.durationMs,
+            totalScore: game.totalScore + event.score,
+            bestScore: Math.max(game.bestScore, event.score),
+            recentScores: [...game.recentScores, event.score].slice(-RECENT_SCORES)
+          }
+        },
+        lastPlayed: today,
+        streak,
+        bestStreak: Math.max(stats.bestStreak, streak)
+      };
+    }
+  }
+}
+
+export type TotalName = 'gamesPlayed' | 'timePlayedMs' | 'piecesPlaced' | 'linesCleared' | 'foodEaten' | 'streak';
+
+export function lifetimeTotals(stats: PlayerStats): Record<TotalName, number> {
+  const games = Object.values(stats.games);
+  return {
+    gamesPlayed: games.reduce((total, game) => total + game.gamesPlayed, 0),
+    timePlayedMs: games.reduce((total, game) => total + game.timePlayedMs, 0),
+    piecesPlaced: stats.piecesPlaced,
+    linesCleared: stats.linesByType.reduce((total, count, i) => total + count * (i + 1), 0),
+    foodEaten: stats.foodEaten,
+    streak: stats.streak
+  };
+}
+
+/**
+ * When an achievement unlocks: on an event whose `field` reaches `atLeast`,
+ * such as a four line clear, or once a lifetime total does.
+ */
+export type AchievementRule =
+  | { event: PlayEvent['type']; game?: GameId; field: 'lines' | 'level' | 'length' | 'score'; atLeast: number }
+  | { total: TotalName; atLeast: number };
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  /** The game it belongs to, or none for achievements across games. */
+  game?: GameId;
+  rule: AchievementRule;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first-game',
+    name: 'Insert Coin',
+    description: 'Finish your first game',
+    rule: { total: 'gamesPlayed', atLeast: 1 }
+  },
+  {
+    id: 'tetris-four',
+    name: 'Tetris!',
+    description: 'Clear 4 lines at once',
+    game: 'tetris',
+    rule: { event: 'linesCleared', field: 'lines', atLeast: 4 }
+  },
+  {
+    id: 'tetris-level-10',
+    name: 'Speed Demon',
+    description: 'Reach level 10 in Tetris',
+    game: 'tetris',
+    rule: { event: 'levelUp', field: 'level', atLeast: 10 }
+  },
+  {
+    id: 'tetris-score-10000',
+    name: 'Five Figures',
+    description: 'Score 10,000 in one Tetris game',
+    game: 'tetris',
+    rule: { event: 'gameEnd', game: 'tetris', field: 'score', atLeast: 10000 }
+  },
+  {
+    id: 'tetris-lines-1000',
+    name: 'Line Worker',
+    description: 'Clear 1,000 lines in total',
+    game: 'tetris',
+    rule: { total: 'linesCleared', atLeast: 1000 }
+  },
+  {
+    id: 'snake-length-50',
+    name: 'Long Boi',
+    description: 'Grow a snake to length 50',
+    game: 'snake',
+    rule: { event: 'foodEaten', field: 'length', atLeast: 50 }
+  },
+  {
+    id: 'snake-score-500',
+    name: 'Hungry',
+    description: 'Score 500 in one Snake game',
+    game: 'snake',
+    rule: { event: 'gameEnd', game: 'snake', field: 'score', atLeast: 500 }
+  },
+  {
+    id: 'snake-food-1000',
+    name: 'All You Can Eat',
+    description: 'Eat 1,000 food in total',
+    game: 'snake',
+    rule: { total: 'foodEaten', atLeast: 1000 }
+  },
+  {
+    id: 'streak-7',
+    name: 'Regular',
+    description: 'Play 7 days in a row',
+    rule: { total: 'streak', atLeast: 7 }
+  },
+  {
+    id: 'hours-1',
+    name: 'Arcade Rat',
+    description: 'Play for an hour in total',
+    rule: { total: 'timePlayedMs', atLeast: 60 * 60 * 1000 }
+  }
+];
+
+/** Whether `rule` is met by `event`, given the stats with the event already counted. */
+export function meetsRule(rule: AchievementRule, stats: PlayerStats, event: PlayEvent): boolean {
+  if ('total' in rule) {
+    return lifetimeTotals(stats)[rule.total] >= rule.atLeast;
+  }
+  if (event.type !== rule.event || (rule.game && 'game' in event && event.game !== rule.game)) return false;
+  const value = (event as Partial<Record<typeof rule.field, number>>)[rule.field];
+  return value !== undefined && value >= rule.atLeast;
+}
+
+/** Parses stored stats, keeping only well-formed values. Never throws. */
+export function parseStats(raw: string | null): PlayerStats {
+  const stats = emptyStats();
+  let data: unknown;
+  try {
+    data = raw ? JSON.parse(raw) : null;
+  } catch {
+    return stats;
+  }
+  if (!isRecord(data) || data['version'] !== 1) return stats;
+
+  const count = (value: unknown, fallback: number) => (isCount(value) ? value : fallback);
+  for (const id of Object.keys(stats.games) as GameId[]) {
+    const game = isRecord(data['games']) ? data['games'][id] : null;
+    if (!isRecord(game)) continue;
+    stats.games[id] = {
+      gamesPlayed: count(game['gamesPlayed'], 0),
+      timePlayedMs: count(game['timePlayedMs'], 0),
+      totalScore: count(game['totalScore'], 0),
+      bestScore: count(game['bestScore'], 0),
+      recentScores: Array.isArray(game['recentScores'])
+        ? game['recentScores'].filter(isCount).slice(-RECENT_SCORES)
+        : []
+    };
+  }
+
+  const lines = data['linesByType'];
+  if (Array.isArray(lines) && lines.length === 4 && lines.every(isCount)) {
+    stats.linesByType = lines as PlayerStats['linesByType'];
+  }
+  stats.piecesPlaced = count(data['piecesPlaced'], 0);
+  stats.foodEaten = count(data['foodEaten'], 0);
+  stats.longestSnake = count(data['longestSnake'], 0);
+  stats.streak = count(data['streak'], 0);
+  stats.bestStreak = count(data['bestStreak'], 0);
+  if (typeof data['lastPlayed'] === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(data['lastPlayed'])) {
+    stats.lastPlayed = data['lastPlayed'];
+  }
+  if (isRecord(data['unlocked'])) {
+    for (const [id, date] of Object.entries(data['unlocked'])) {
+      if (typeof date === 'string' && ACHIEVEMENTS.some(achievement => achievement.id === id)) {
+        stats.unlocked[id] = date;
+      }
+    }
+  }
+  return stats;
+}
+
+/** The calendar day `date` falls on where the player is, as YYYY-MM-DD. */
+export function localDay(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function previousDay(day: string): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return localDay(new Date(year, month - 1, date - 1));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
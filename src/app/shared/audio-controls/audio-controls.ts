@@ -0,0 +1,22 @@
+import { Component, inject, input } from '@angular/core';
+import { AudioService, AudioSettings } from '../audio-service';
+
+type Level = keyof Omit<AudioSettings, 'muted'>;
+
+/** Mute button and volume sliders; unlike the game settings they work mid-game. */
+@Component({
+  selector: 'app-audio-controls',
+  templateUrl: './audio-controls.html',
+  styleUrl: './audio-controls.css',
+  standalone: true
+})
+export class AudioControls {
+  protected readonly audio = inject(AudioService);
+
+  /** Games without a soundtrack leave the music slider out. */
+  readonly music = input(true);
+
+  protected setLevel(level: Level, event: Event): void {
+    this.audio.setVolumes({ [level]: Number((event.target as HTMLInputElement).value) });
+  }
+}
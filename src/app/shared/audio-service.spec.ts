@@ -0,0 +1,142 @@
+import { TestBed } from '@angular/core/testing';
+import { AUDIO_CONTEXT_FACTORY, AUDIO_SETTINGS_KEY, AudioService } from './audio-service';
+
+/** Records the parameter changes made on a fake audio node. */
+class FakeParam {
+  value = 1;
+  setValueAtTime(value: number): void {
+    this.value = value;
+  }
+  linearRampToValueAtTime(): void {}
+  exponentialRampToValueAtTime(): void {}
+}
+
+/** Just enough of an AudioContext to count the tones the service starts. */
+class FakeContext {
+  state: AudioContextState = 'running';
+  currentTime = 0;
+  readonly destination = {};
+  readonly gains: { gain: FakeParam }[] = [];
+  readonly started: { type: string; frequency: FakeParam }[] = [];
+
+  createGain() {
+    const node = { gain: new FakeParam(), connect: () => {} };
+    this.gains.push(node);
+    return node;
+  }
+
+  createOscillator() {
+    const oscillator = {
+      type: 'sine',
+      frequency: new FakeParam(),
+      connect: () => {},
+      start: () => this.started.push(oscillator),
+      stop: () => {}
+    };
+    return oscillator;
+  }
+
+  suspend() {
+    this.state = 'suspended';
+    return Promise.resolve();
+  }
+
+  resume() {
+    this.state = 'running';
+    return Promise.resolve();
+  }
+
+  close() {
+    return Promise.resolve();
+  }
+}
+
+describe('AudioService', () => {
+  let context: FakeContext;
+
+  const create = () => TestBed.inject(AudioService);
+  // The first gain node is the master volume
+  const masterGain = () => context.gains[0].gain.value;
+
+  beforeEach(() => {
+    localStorage.clear();
+    context = new FakeContext();
+    TestBed.configureTestingModule({
+      providers: [{ provide: AUDIO_CONTEXT_FACTORY, useValue: () => context as unknown as AudioContext }]
+    });
+  });
+
+  afterEach(() => {
+    TestBed.resetTestingModule();
+    localStorage.clear();
+  });
+
+  it('should synthesize every tone of a sound effect', () => {
+    create().play('lineClear');
+    expect(context.started.length).toBe(3);
+    expect(context.started.every(oscillator => oscillator.type === 'square')).toBeTrue();
+  });
+
+  it('should stay silent while muted and remember the mute', () => {
+    const audio = create();
+    audio.play('eat');
+    audio.toggleMute();
+    audio.play('eat');
+
+    expect(context.started.length).toBe(1);
+    expect(masterGain()).toBe(0);
+    expect(JSON.parse(localStorage.getItem(AUDIO_SETTINGS_KEY)!).muted).toBeTrue();
+  });
+
+  it('should keep volume levels between 0 and 1', () => {
+    const audio = create();
+    audio.play('move');
+    audio.setVolumes({ master: 3, sfx: -1 });
+
+    expect(audio.volumes().master).toBe(1);
+    expect(audio.volumes().sfx).toBe(0);
+    expect(masterGain()).toBe(1);
+  });
+
+  it('should queue music ahead and stop when asked', () => {
+    jasmine.clock().install();
+    try {
+      const audio = create();
+      audio.startMusic();
+      const queued = context.started.length;
+      expect(queued).toBeGreaterThan(0);
+
+      context.currentTime = 1;
+      jasmine.clock().tick(50);
+      expect(context.started.length).toBeGreaterThan(queued);
+
+      audio.stopMusic();
+      const stopped = context.started.length;
+      context.currentTime = 2;
+      jasmine.clock().tick(200);
+      expect(context.started.length).toBe(stopped);
+    } finally {
+      jasmine.clock().uninstall();
+    }
+  });
+
+  it('should suspend the audio while the tab is in the background', () => {
+    create().play('eat');
+    window.dispatchEvent(new Event('blur'));
+    expect(context.state).toBe('suspended');
+
+    window.dispatchEvent(new Event('focus'));
+    expect(context.state).toBe('running');
+  });
+
+  it('should cope without Web Audio', () => {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({ providers: [{ provide: AUDIO_CONTEXT_FACTORY, useValue: () => null }] });
+    const audio = create();
+    expect(() => {
+      audio.play('die');
+      audio.startMusic();
+      audio.stopMusic();
+    }).not.toThrow();
+  });
+});
@@ -0,0 +1,244 @@
+import { computed, DestroyRef, inject, Injectable, InjectionToken } from '@angular/core';
+import { KOROBEINIKI, SOUND_EFFECTS, SoundName, Tone, Track } from './chiptune';
+import { PersistedSettings } from './settings';
+
+/** Makes the audio context, or returns null where there is no Web Audio; tests swap in a fake. */
+export const AUDIO_CONTEXT_FACTORY = new InjectionToken<() => AudioContext | null>('AUDIO_CONTEXT_FACTORY', {
+  providedIn: 'root',
+  factory: () => () => (typeof AudioContext === 'undefined' ? null : new AudioContext())
+});
+
+/** Volume levels from 0 to 1, shared by every game. */
+export interface AudioSettings {
+  master: number;
+  music: number;
+  sfx: number;
+  muted: boolean;
+}
+
+export const AUDIO_SETTINGS_KEY = 'audioSettings';
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { master: 0.8, music: 0.5, sfx: 0.8, muted: false };
+
+export function normalizeAudioSettings(settings: AudioSettings): AudioSettings {
+  const level = (value: number) => Math.min(1, Math.max(0, value));
+  return { ...settings, master: level(settings.master), music: level(settings.music), sfx: level(settings.sfx) };
+}
+
+// How far ahead music notes are queued, and how often the queue is topped up, in seconds
+const LOOKAHEAD = 0.2;
+const SCHEDULE_MS = 50;
+// Fade in and out over this long so notes don't click
+const RAMP = 0.005;
+
+interface MusicVoice {
+  index: number;
+  /** Audio clock time the next note starts at. */
+  time: number;
+}
+
+/**
+ * Retro sound for the games, synthesized with the Web Audio API so no audio
+ * files need loading. Effects and music go through their own volume, then a
+ * master volume and the remembered mute. Nothing plays while the tab is in
+ * the background, and players who ask their system for reduced motion start
+ * with the music turned down to nothing.
+ */
+@Injectable({ providedIn: 'root' })
+export class AudioService {
+  private readonly createContext = inject(AUDIO_CONTEXT_FACTORY);
+  private readonly settings = new PersistedSettings(
+    AUDIO_SETTINGS_KEY,
+    { ...DEFAULT_AUDIO_SETTINGS, music: prefersReducedMotion() ? 0 : DEFAULT_AUDIO_SETTINGS.music },
+    normalizeAudioSettings
+  );
+
+  private context: AudioContext | null = null;
+  private masterGain: GainNode | null = null;
+  private musicGain: GainNode | null = null;
+  private sfxGain: GainNode | null = null;
+  /** False once creating the context has failed, so it isn't retried every sound. */
+  private available = true;
+  private hidden = false;
+
+  private track: Track | null = null;
+  private musicLevel = 1;
+  private voices: MusicVoice[] = [];
+  private musicTimer: ReturnType<typeof setInterval> | undefined;
+  private musicPaused = false;
+
+  readonly volumes = this.settings.value;
+  readonly muted = computed(() => this.settings.value().muted);
+
+  constructor() {
+    if (typeof document !== 'undefined') {
+      const onVisibility = () => this.setHidden(document.visibilityState === 'hidden');
+      const onBlur = () => this.setHidden(true);
+      const onFocus = () => this.setHidden(false);
+      document.addEventListener('visibilitychange', onVisibility);
+      window.addEventListener('blur', onBlur);
+      window.addEventListener('focus', onFocus);
+      inject(DestroyRef).onDestroy(() => {
+        document.removeEventListener('visibilitychange', onVisibility);
+        window.removeEventListener('blur', onBlur);
+        window.removeEventListener('focus', onFocus);
+        this.stopMusic();
+        void this.context?.close();
+      });
+    }
+  }
+
+  toggleMute(): void {
+    this.setVolumes({ muted: !this.muted() });
+  }
+
+  setVolumes(patch: Partial<AudioSettings>): void {
+    this.settings.update(patch);
+    this.applyVolumes();
+  }
+
+  /** Plays a sound effect; `gain` scales it, for a game's own volume setting. */
+  play(name: SoundName, gain = 1): void {
+    const context = this.ready();
+    if (!context || !this.sfxGain || this.muted() || gain <= 0) return;
+
+    for (const tone of SOUND_EFFECTS[name]) {
+      this.playTone(context, this.sfxGain, tone, context.currentTime + (tone.delay ?? 0), gain);
+    }
+  }
+
+  /** Loops `track` until `stopMusic`; starting it again restarts it from the top. */
+  startMusic(track: Track = KOROBEINIKI, gain = 1): void {
+    this.stopMusic();
+    const context = this.ready();
+    if (!context) return;
+
+    this.track = track;
+    this.musicLevel = gain;
+    this.applyVolumes();
+    const start = context.currentTime + 0.05;
+    this.voices = track.voices.map(() => ({ index: 0, time: start }));
+    this.musicTimer = setInterval(() => this.scheduleMusic(), SCHEDULE_MS);
+    this.scheduleMusic();
+  }
+
+  stopMusic(): void {
+    clearInterval(this.musicTimer);
+    this.musicTimer = undefined;
+    this.track = null;
+    this.musicPaused = false;
+  }
+
+  /** Holds the music where it is, for a paused game. */
+  pauseMusic(): void {
+    this.musicPaused = true;
+  }
+
+  resumeMusic(): void {
+    if (!this.musicPaused || !this.context) return;
+    this.musicPaused = false;
+    const now = this.context.currentTime + 0.05;
+    this.voices.forEach(voice => (voice.time = Math.max(voice.time, now)));
+  }
+
+  /** The context, created on first use (which is inside a key press or tap, as browsers require). */
+  private ready(): AudioContext | null {
+    if (!this.context && this.available) {
+      try {
+        this.context = this.createContext();
+      } catch {
+        this.context = null;
+      }
+      if (!this.context) {
+        this.available = false;
+        return null;
+      }
+
+      this.masterGain = this.context.createGain();
+      this.masterGain.connect(this.context.destination);
+      this.musicGain = this.context.createGain();
+      this.musicGain.connect(this.masterGain);
+      this.sfxGain = this.context.createGain();
+      this.sfxGain.connect(this.masterGain);
+      this.applyVolumes();
+    }
+    if (this.context?.state === 'suspended' && !this.hidden) {
+      void this.context.resume();
+    }
+    return this.context;
+  }
+
+  private applyVolumes(): void {
+    if (!this.context) return;
+    const { master, music, sfx, muted } = this.settings.value();
+    const now = this.context.currentTime;
+    this.masterGain?.gain.setValueAtTime(muted ? 0 : master, now);
+    this.musicGain?.gain.setValueAtTime(music * this.musicLevel, now);
+    this.sfxGain?.gain.setValueAtTime(sfx, now);
+  }
+
+  private setHidden(hidden: boolean): void {
+    this.hidden = hidden;
+    if (!this.context) return;
+    if (hidden) {
+      void this.context.suspend();
+    } else {
+      // Notes queued before the tab was hidden would all play at once
+      this.resumeMusic();
+      void this.context.resume();
+    }
+  }
+
+  private scheduleMusic(): void {
+    const context = this.context;
+    const track = this.track;
+    if (!context || !track || !this.musicGain) return;
+
+    const horizon = context.currentTime + LOOKAHEAD;
+    if (this.musicPaused || this.hidden) {
+      // Keep the tune from falling behind so it picks up where it stopped
+      this.voices.forEach(voice => (voice.time = Math.max(voice.time, horizon)));
+      return;
+    }
+
+    const beat = 60 / track.bpm;
+    track.voices.forEach((voice, v) => {
+      const state = this.voices[v];
+      while (state.time < horizon) {
+        const note = voice.notes[state.index];
+        const duration = note.beats * beat;
+        if (note.frequency !== null) {
+          const tone: Tone = { frequency: note.frequency, duration: duration * 0.9, wave: voice.wave, volume: voice.volume };
+          this.playTone(context, this.musicGain!, tone, state.time, 1);
+        }
+        state.time += duration;
+        state.index = (state.index + 1) % voice.notes.length;
+      }
+    });
+  }
+
+  private playTone(context: AudioContext, output: AudioNode, tone: Tone, start: number, gain: number): void {
+    const oscillator = context.createOscillator();
+    oscillator.type = tone.wave;
+    oscillator.frequency.setValueAtTime(tone.frequency, start);
+    if (tone.endFrequency) {
+      oscillator.frequency.exponentialRampToValueAtTime(tone.endFrequency, start + tone.duration);
+    }
+
+    const envelope = context.createGain();
+    const level = (tone.volume ?? 1) * gain;
+    envelope.gain.setValueAtTime(0, start);
+    envelope.gain.linearRampToValueAtTime(level, start + RAMP);
+    envelope.gain.setValueAtTime(level, start + tone.duration - RAMP);
+    envelope.gain.linearRampToValueAtTime(0, start + tone.duration);
+
+    oscillator.connect(envelope);
+    envelope.connect(output);
+    oscillator.start(start);
+    oscillator.stop(start + tone.duration);
+  }
+}
+
+function prefersReducedMotion(): boolean {
+  return typeof matchMedia === 'function' && matchMedia('(prefers-reduced-motion: reduce)').matches;
+}
@@ -0,0 +1,20 @@
+import { backingSize } from './canvas-renderer';
+
+describe('backingSize', () => {
+  it('matches the drawing size on an ordinary screen', () => {
+    expect(backingSize(400, 400, 400, 1)).toEqual({ pixelWidth: 400, pixelHeight: 400, scale: 1 });
+  });
+
+  it('doubles the bitmap on a retina screen', () => {
+    expect(backingSize(300, 600, 300, 2)).toEqual({ pixelWidth: 600, pixelHeight: 1200, scale: 2 });
+  });
+
+  it('shrinks with the displayed width and keeps the shape', () => {
+    expect(backingSize(300, 600, 150, 2)).toEqual({ pixelWidth: 300, pixelHeight: 600, scale: 1 });
+    expect(backingSize(400, 400, 333, 1.5)).toEqual({ pixelWidth: 500, pixelHeight: 500, scale: 1.25 });
+  });
+
+  it('never makes an empty bitmap', () => {
+    expect(backingSize(400, 400, 0, 1).pixelWidth).toBe(1);
+  });
+});
@@ -0,0 +1,109 @@
+export interface BackingSize {
+  /** Size of the canvas bitmap, in device pixels. */
+  pixelWidth: number;
+  pixelHeight: number;
+  /** Device pixels per unit of the game's drawing coordinates. */
+  scale: number;
+}
+
+/**
+ * Bitmap size for a canvas drawn in `width` × `height` units and shown
+ * `cssWidth` CSS pixels wide on a screen with `pixelRatio` device pixels per
+ * CSS pixel. The height follows the width so the picture keeps its shape.
+ */
+export function backingSize(width: number, height: number, cssWidth: number, pixelRatio: number): BackingSize {
+  const pixelWidth = Math.max(1, Math.round(cssWidth * pixelRatio));
+  const scale = pixelWidth / width;
+  return { pixelWidth, pixelHeight: Math.max(1, Math.round(height * scale)), scale };
+}
+
+/**
+ * Keeps a game canvas sharp at any size and pixel ratio. The game goes on
+ * drawing in its own fixed coordinates; the canvas is shown as wide as its
+ * container allows, up to that size, and its bitmap follows the displayed
+ * size times `devicePixelRatio`. After a resize the old picture is scaled
+ * into place until the game next draws, so static screens don't go blank.
+ */
+export class CanvasRenderer {
+  readonly ctx: CanvasRenderingContext2D;
+
+  private observer: ResizeObserver | null = null;
+  private cssWidth: number;
+  private logicalWidth: number;
+  private logicalHeight: number;
+
+  constructor(
+    private readonly canvas: HTMLCanvasElement,
+    width: number,
+    height: number
+  ) {
+    this.ctx = canvas.getContext('2d')!;
+    this.logicalWidth = width;
+    this.logicalHeight = height;
+    this.cssWidth = width;
+    canvas.style.width = '100%';
+    canvas.style.height = 'auto';
+    this.resize(width, height);
+  }
+
+  get width(): number {
+    return this.logicalWidth;
+  }
+
+  get height(): number {
+    return this.logicalHeight;
+  }
+
+  /** Changes the drawing size, such as when a game switches board size. */
+  resize(width: number, height: number): void {
+    this.logicalWidth = width;
+    this.logicalHeight = height;
+    this.canvas.style.maxWidth = `${width}px`;
+    this.cssWidth = Math.min(this.cssWidth, width) || width;
+    this.fit(true);
+  }
+
+  /** Starts following the size the canvas is shown at. */
+  attach(): void {
+    if (typeof ResizeObserver === 'undefined' || this.observer) return;
+    this.observer = new ResizeObserver(entries => {
+      const width = entries[entries.length - 1].contentRect.width;
+      if (width > 0) {
+        this.cssWidth = width;
+        this.fit(false);
+      }
+    });
+    this.observer.observe(this.canvas);
+  }
+
+  detach(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+  }
+
+  private fit(force: boolean): void {
+    const pixelRatio = typeof devicePixelRatio === 'number' && devicePixelRatio > 0 ? devicePixelRatio : 1;
+    const size = backingSize(this.logicalWidth, this.logicalHeight, this.cssWidth, pixelRatio);
+    if (!force && size.pixelWidth === this.canvas.width && size.pixelHeight === this.canvas.height) return;
+
+    // Setting the size wipes the bitmap, so keep a copy to stretch back in
+    const copy = !force && this.canvas.width > 0 ? this.snapshot() : null;
+    this.canvas.width = size.pixelWidth;
+    this.canvas.height = size.pixelHeight;
+    this.canvas.style.aspectRatio = `${this.logicalWidth} / ${this.logicalHeight}`;
+    this.ctx.setTransform(size.scale, 0, 0, size.scale, 0, 0);
+    if (copy) {
+      this.ctx.drawImage(copy, 0, 0, this.logicalWidth, this.logicalHeight);
+    }
+  }
+
+  private snapshot(): HTMLCanvasElement | null {
+    const copy = document.createElement('canvas');
+    copy.width = this.canvas.width;
+    copy.height = this.canvas.height;
+    const ctx = copy.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(this.canvas, 0, 0);
+    return copy;
+  }
+}
@@ -0,0 +1,32 @@
+import { KOROBEINIKI, noteFrequency, parseNotes, SOUND_EFFECTS, voiceBeats } from './chiptune';
+
+describe('chiptune', () => {
+  it('should tune notes to A4 = 440 Hz', () => {
+    expect(noteFrequency('A4')).toBe(440);
+    expect(noteFrequency('A5')).toBe(880);
+    expect(noteFrequency('C5')).toBeCloseTo(523.25, 2);
+    expect(noteFrequency('C#5')).toBeCloseTo(noteFrequency('Db5'), 6);
+    expect(() => noteFrequency('H2')).toThrowError(/Not a note/);
+  });
+
+  it('should read lengths, rests and bar lines', () => {
+    expect(parseNotes('A4 -:.5 | A5:2')).toEqual([
+      { frequency: 440, beats: 1 },
+      { frequency: null, beats: 0.5 },
+      { frequency: 880, beats: 2 }
+    ]);
+  });
+
+  it('should keep every voice of the Tetris theme in step', () => {
+    const lengths = KOROBEINIKI.voices.map(voiceBeats);
+    expect(lengths[0]).toBe(32);
+    expect(new Set(lengths).size).toBe(1);
+  });
+
+  it('should give every sound effect at least one audible tone', () => {
+    for (const tones of Object.values(SOUND_EFFECTS)) {
+      expect(tones.length).toBeGreaterThan(0);
+      tones.forEach(tone => expect(tone.frequency).toBeGreaterThan(20));
+    }
+  });
+});
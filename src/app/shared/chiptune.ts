@@ -0,0 +1,140 @@
+export type Waveform = 'square' | 'triangle' | 'sawtooth' | 'sine';
+
+/** One synthesized beep. Times are in seconds. */
+export interface Tone {
+  frequency: number;
+  /** Slides to this pitch over the tone. */
+  endFrequency?: number;
+  duration: number;
+  /** Start, after the sound is triggered. */
+  delay?: number;
+  wave: Waveform;
+  /** 0 to 1, before the volume settings. */
+  volume?: number;
+}
+
+export type SoundName =
+  | 'eat'
+  | 'die'
+  | 'move'
+  | 'rotate'
+  | 'hold'
+  | 'lock'
+  | 'lineClear'
+  | 'tetris'
+  | 'levelUp'
+  | 'gameOver';
+
+/** A rest when `frequency` is null. */
+export interface TrackNote {
+  frequency: number | null;
+  beats: number;
+}
+
+export interface TrackVoice {
+  wave: Waveform;
+  volume: number;
+  notes: TrackNote[];
+}
+
+/** A looping tune; every voice must add up to the same number of beats. */
+export interface Track {
+  bpm: number;
+  voices: TrackVoice[];
+}
+
+const SEMITONES: Record<string, number> = { C: -9, D: -7, E: -5, F: -4, G: -2, A: 0, B: 2 };
+
+/** Frequency in Hz of a note name such as `A4`, `C#5` or `Bb3`, in equal temperament from A4 = 440. */
+export function noteFrequency(note: string): number {
+  const match = /^([A-G])([#b]?)(\d)$/.exec(note);
+  if (!match) throw new Error(`Not a note: ${note}`);
+
+  const [, letter, accidental, octave] = match;
+  const semitone = SEMITONES[letter] + (accidental === '#' ? 1 : accidental === 'b' ? -1 : 0) + (Number(octave) - 4) * 12;
+  return 440 * 2 ** (semitone / 12);
+}
+
+/**
+ * Reads a voice written as space-separated notes with an optional length in
+ * beats, `E5:1.5`, where `-` is a rest and `|` marks bars for the reader.
+ * Notes without a length last one beat.
+ */
+export function parseNotes(score: string): TrackNote[] {
+  return score
+    .split(/\s+/)
+    .filter(token => token && token !== '|')
+    .map(token => {
+      const [name, length] = token.split(':');
+      return { frequency: name === '-' ? null : noteFrequency(name), beats: length ? Number(length) : 1 };
+    });
+}
+
+export function voiceBeats(voice: TrackVoice): number {
+  return voice.notes.reduce((total, note) => total + note.beats, 0);
+}
+
+const note = noteFrequency;
+
+/** Short, square-wave blips in the spirit of the old phones and handhelds. */
+export const SOUND_EFFECTS: Record<SoundName, Tone[]> = {
+  // The Nokia beep
+  eat: [{ frequency: 1800, duration: 0.05, wave: 'square', volume: 0.5 }],
+  die: [
+    { frequency: 880, duration: 0.12, wave: 'square' },
+    { frequency: 660, duration: 0.12, delay: 0.15, wave: 'square' },
+    { frequency: 440, endFrequency: 220, duration: 0.35, delay: 0.3, wave: 'square' }
+  ],
+  move: [{ frequency: 200, duration: 0.025, wave: 'square', volume: 0.25 }],
+  rotate: [{ frequency: 440, endFrequency: 660, duration: 0.04, wave: 'square', volume: 0.3 }],
+  hold: [{ frequency: 330, endFrequency: 220, duration: 0.07, wave: 'triangle', volume: 0.5 }],
+  lock: [{ frequency: 120, endFrequency: 80, duration: 0.08, wave: 'triangle', volume: 0.7 }],
+  lineClear: [note('C5'), note('E5'), note('G5')].map((frequency, i) => ({
+    frequency,
+    duration: 0.06,
+    delay: i * 0.05,
+    wave: 'square' as const,
+    volume: 0.5
+  })),
+  tetris: [note('C5'), note('E5'), note('G5'), note('C6'), note('G5'), note('C6')].map((frequency, i) => ({
+    frequency,
+    duration: 0.08,
+    delay: i * 0.07,
+    wave: 'square' as const,
+    volume: 0.6
+  })),
+  levelUp: [note('G4'), note('C5'), note('E5'), note('G5')].map((frequency, i) => ({
+    frequency,
+    duration: 0.1,
+    delay: i * 0.09,
+    wave: 'triangle' as const
+  })),
+  gameOver: [
+    { frequency: note('E4'), duration: 0.2, wave: 'sawtooth', volume: 0.5 },
+    { frequency: note('C4'), duration: 0.2, delay: 0.22, wave: 'sawtooth', volume: 0.5 },
+    { frequency: note('A3'), endFrequency: note('A2'), duration: 0.6, delay: 0.44, wave: 'sawtooth', volume: 0.5 }
+  ]
+};
+
+/** Korobeiniki, the folk song Tetris made famous: the melody over an octave-jumping bass. */
+export const KOROBEINIKI: Track = {
+  bpm: 144,
+  voices: [
+    {
+      wave: 'square',
+      volume: 0.35,
+      notes: parseNotes(`
+        E5 B4:.5 C5:.5 D5 C5:.5 B4:.5 | A4 A4:.5 C5:.5 E5 D5:.5 C5:.5 | B4:1.5 C5:.5 D5 E5 | C5 A4 A4 -
+        -:.5 D5 F5:.5 A5 G5:.5 F5:.5 | E5:1.5 C5:.5 E5 D5:.5 C5:.5 | B4 B4:.5 C5:.5 D5 E5 | C5 A4 A4 -
+      `)
+    },
+    {
+      wave: 'triangle',
+      volume: 0.5,
+      notes: parseNotes(`
+        E2 E3 E2 E3 | A2 A3 A2 A3 | G#2 G#3 E2 E3 | A2 A3 A2 A3
+        D3 D2 D3 D2 | C3 C2 C3 C2 | B2 B2 E3 E3 | A2 A3 A2 A2
+      `)
+    }
+  ]
+};
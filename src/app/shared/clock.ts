@@ -0,0 +1,24 @@
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now()
+};
+
+/** Clock that only moves when told to, for tests and replays. */
+export class ManualClock implements Clock {
+  constructor(private time = 0) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+
+  set(time: number): void {
+    this.time = time;
+  }
+}
@@ -0,0 +1,42 @@
+import { Component, computed, inject, input, output, signal } from '@angular/core';
+import { currentStreak, shareText } from '../daily';
+import { DailyService } from '../daily-service';
+import { ReplayGame } from '../replay';
+
+/** Today's daily challenge for a game: the streak, a button to play, and the result to share. */
+@Component({
+  selector: 'app-daily-card',
+  templateUrl: './daily-card.html',
+  styleUrl: './daily-card.css',
+  standalone: true
+})
+export class DailyCard {
+  private readonly daily = inject(DailyService);
+
+  readonly game = input.required<ReplayGame>();
+  readonly disabled = input(false);
+  readonly play = output<void>();
+
+  protected readonly message = signal('');
+  /** Today's challenge as of the last change to the attempts. */
+  protected readonly state = computed(() => {
+    const record = this.daily.record(this.game());
+    const day = this.daily.today();
+    const attempt = record.last?.day === day ? record.last : null;
+    return { day, record, played: attempt !== null, result: attempt?.result ?? null, streak: currentStreak(record, day) };
+  });
+
+  protected async share(): Promise<void> {
+    const { day, result, streak } = this.state();
+    if (!result) return;
+
+    const url = `${location.origin}/${this.game()}`;
+    const text = shareText(this.game(), day, result, streak, url);
+    try {
+      await navigator.clipboard.writeText(text);
+      this.message.set('Result copied to clipboard');
+    } catch {
+      window.prompt('Copy your result:', text);
+    }
+  }
+}
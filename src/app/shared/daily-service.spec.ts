@@ -0,0 +1,57 @@
+import { TestBed } from '@angular/core/testing';
+import { DAILY_KEY, DailyService } from './daily-service';
+
+describe('DailyService', () => {
+  const result = { score: 100, durationMs: 60000, marks: ['🟩'] };
+
+  beforeEach(() => localStorage.clear());
+  afterEach(() => localStorage.clear());
+
+  const create = () => {
+    TestBed.resetTestingModule();
+    return TestBed.inject(DailyService);
+  };
+
+  it('should allow one scored attempt per day and game', () => {
+    const daily = create();
+
+    expect(daily.begin('snake', '2026-10-19')).toBeTrue();
+    expect(daily.begin('snake', '2026-10-19')).toBeFalse();
+    expect(daily.begin('tetris', '2026-10-19')).toBeTrue();
+    expect(daily.begin('snake', '2026-10-20')).toBeTrue();
+  });
+
+  it('should keep the result of the attempt under way only', () => {
+    const daily = create();
+    daily.begin('snake', '2026-10-19');
+    expect(daily.inProgress('snake', '2026-10-19')).toBeTrue();
+
+    daily.finish('snake', '2026-10-19', result);
+    daily.finish('snake', '2026-10-19', { ...result, score: 999 });
+
+    expect(daily.inProgress('snake', '2026-10-19')).toBeFalse();
+    expect(daily.record('snake').last).toEqual({ day: '2026-10-19', result });
+  });
+
+  it('should count days in a row and start over after a gap', () => {
+    const daily = create();
+    for (const day of ['2026-10-17', '2026-10-18', '2026-10-19']) {
+      daily.begin('tetris', day);
+    }
+    expect(daily.record('tetris').streak).toBe(3);
+
+    daily.begin('tetris', '2026-10-22');
+    expect(daily.record('tetris')).toEqual(jasmine.objectContaining({ streak: 1, bestStreak: 3 }));
+  });
+
+  it('should remember attempts on the next visit and ignore broken storage', () => {
+    const daily = create();
+    daily.begin('snake', '2026-10-19');
+    daily.finish('snake', '2026-10-19', result);
+
+    expect(create().record('snake').last?.result).toEqual(result);
+
+    localStorage.setItem(DAILY_KEY, '{"version":1,"games":{"snake":{"last":{"day":"soon"},"streak":1}}}');
+    expect(create().record('snake')).toEqual({ last: null, streak: 0, bestStreak: 0 });
+  });
+});
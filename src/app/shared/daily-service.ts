@@ -0,0 +1,115 @@
+import { Injectable, signal } from '@angular/core';
+import { DailyRecord, DailyResult, previousUtcDay, utcDay } from './daily';
+import { ReplayGame } from './replay';
+
+export const DAILY_KEY = 'dailyChallenges';
+
+interface DailyStore {
+  version: 1;
+  games: Record<ReplayGame, DailyRecord>;
+}
+
+/**
+ * Daily challenge attempts and streaks, kept in localStorage. Starting the
+ * day's game uses up its one scored attempt, so reloading halfway through
+ * can't buy a second try; any later game that day is practice.
+ */
+@Injectable({ providedIn: 'root' })
+export class DailyService {
+  private readonly store = signal<DailyStore>(parseStore(readStorage()));
+
+  /** Today in UTC, when the current challenge started. */
+  today(): string {
+    return utcDay(new Date());
+  }
+
+  record(game: ReplayGame): DailyRecord {
+    return this.store().games[game];
+  }
+
+  /** Starts the attempt for `day`. Returns false when it was already used, which makes the game practice. */
+  begin(game: ReplayGame, day: string): boolean {
+    const record = this.record(game);
+    if (record.last?.day === day) return false;
+
+    const streak = record.last?.day === previousUtcDay(day) ? record.streak + 1 : 1;
+    this.update(game, { last: { day, result: null }, streak, bestStreak: Math.max(record.bestStreak, streak) });
+    return true;
+  }
+
+  /** Whether the attempt for `day` is under way, such as in a saved game. */
+  inProgress(game: ReplayGame, day: string): boolean {
+    const last = this.record(game).last;
+    return last?.day === day && last.result === null;
+  }
+
+  finish(game: ReplayGame, day: string, result: DailyResult): void {
+    if (!this.inProgress(game, day)) return;
+    this.update(game, { ...this.record(game), last: { day, result } });
+  }
+
+  private update(game: ReplayGame, record: DailyRecord): void {
+    this.store.update(store => ({ ...store, games: { ...store.games, [game]: record } }));
+    try {
+      localStorage.setItem(DAILY_KEY, JSON.stringify(this.store()));
+    } catch {
+      // Storage can be full or disabled; the attempt still counts for this session
+    }
+  }
+}
+
+function readStorage(): string | null {
+  try {
+    return localStorage.getItem(DAILY_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/** Parses stored attempts, keeping only well-formed records. Never throws. */
+function parseStore(raw: string | null): DailyStore {
+  const empty = (): DailyRecord => ({ last: null, streak: 0, bestStreak: 0 });
+  const store: DailyStore = { version: 1, games: { snake: empty(), tetris: empty() } };
+
+  let data: unknown;
+  try {
+    data = raw ? JSON.parse(raw) : null;
+  } catch {
+    return store;
+  }
+  if (!isRecord(data) || data['version'] !== 1 || !isRecord(data['games'])) return store;
+
+  for (const game of Object.keys(store.games) as ReplayGame[]) {
+    const record = data['games'][game];
+    if (!isRecord(record) || !isCount(record['streak']) || !isCount(record['bestStreak'])) continue;
+
+    const last = record['last'];
+    if (last !== null && !isAttempt(last)) continue;
+    store.games[game] = { last, streak: record['streak'], bestStreak: record['bestStreak'] };
+  }
+  return store;
+}
+
+function isAttempt(value: unknown): value is DailyRecord['last'] {
+  if (!isRecord(value) || typeof value['day'] !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value['day'])) {
+    return false;
+  }
+  const result = value['result'];
+  return (
+    result === null ||
+    (isRecord(result) &&
+      isCount(result['score']) &&
+      isCount(result['durationMs']) &&
+      (result['lines'] === undefined || isCount(result['lines'])) &&
+      Array.isArray(result['marks']) &&
+      result['marks'].every(mark => typeof mark === 'string'))
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
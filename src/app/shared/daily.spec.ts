@@ -0,0 +1,51 @@
+import { currentStreak, dailySeed, dayFromNumber, dayNumber, previousUtcDay, shareText, utcDay } from './daily';
+
+describe('daily', () => {
+  it('should use the UTC calendar day', () => {
+    expect(utcDay(new Date('2026-10-19T23:30:00-05:00'))).toBe('2026-10-20');
+    expect(previousUtcDay('2026-03-01')).toBe('2026-02-28');
+    expect(previousUtcDay('2026-01-01')).toBe('2025-12-31');
+  });
+
+  it('should turn days into replay option numbers and back', () => {
+    expect(dayNumber('2026-10-19')).toBe(20261019);
+    expect(dayFromNumber(20261019)).toBe('2026-10-19');
+  });
+
+  it('should give everyone the same seed for a game and day', () => {
+    expect(dailySeed('tetris', '2026-10-19')).toBe(dailySeed('tetris', '2026-10-19'));
+    expect(dailySeed('tetris', '2026-10-19')).not.toBe(dailySeed('tetris', '2026-10-20'));
+    expect(dailySeed('tetris', '2026-10-19')).not.toBe(dailySeed('snake', '2026-10-19'));
+    expect(Number.isInteger(dailySeed('snake', '2026-10-19'))).toBeTrue();
+  });
+
+  it('should let a streak lapse after a missed day', () => {
+    const record = { last: { day: '2026-10-18', result: null }, streak: 3, bestStreak: 5 };
+    expect(currentStreak(record, '2026-10-18')).toBe(3);
+    expect(currentStreak(record, '2026-10-19')).toBe(3);
+    expect(currentStreak(record, '2026-10-20')).toBe(0);
+  });
+
+  it('should share a summary, an emoji grid and a link', () => {
+    const result = { score: 12340, lines: 42, durationMs: 201000, marks: Array<string>(12).fill('🟩') };
+    const text = shareText('tetris', '2026-10-19', result, 4, 'https://example.com/tetris');
+
+    expect(text.split('\n')).toEqual([
+      'Tetris Daily 2026-10-19',
+      '12,340 points · 42 lines · 3:21',
+      '🟩'.repeat(10),
+      '🟩'.repeat(2),
+      '🔥 4 day streak',
+      'https://example.com/tetris'
+    ]);
+  });
+
+  it('should cut long games short on the share card', () => {
+    const result = { score: 80, durationMs: 5000, marks: Array<string>(100).fill('🟩') };
+    const lines = shareText('snake', '2026-10-19', result, 1, 'https://example.com/snake').split('\n');
+
+    expect(lines.length).toBe(7);
+    expect(lines[1]).toBe('80 points · 0:05');
+    expect(lines[5].endsWith('…')).toBeTrue();
+  });
+});
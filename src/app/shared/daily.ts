@@ -0,0 +1,97 @@
+import { ReplayGame } from './replay';
+
+/** Mode id of the daily challenge, for the leaderboards and saved games. */
+export const DAILY_MODE = 'daily';
+
+/** What a finished daily attempt is remembered and shared by. */
+export interface DailyResult {
+  score: number;
+  durationMs: number;
+  lines?: number;
+  /** One emoji per notable moment of the game, in order, for the share card. */
+  marks: string[];
+}
+
+/** The attempt for one day; `result` stays null until the game ends. */
+export interface DailyAttempt {
+  day: string;
+  result: DailyResult | null;
+}
+
+export interface DailyRecord {
+  last: DailyAttempt | null;
+  /** UTC days in a row with an attempt, up to and including the last one. */
+  streak: number;
+  bestStreak: number;
+}
+
+// Share cards stay a few lines long however long the game went
+const MARKS_PER_ROW = 10;
+const MARK_ROWS = 4;
+
+/** The UTC calendar day of `date` as YYYY-MM-DD; the challenge changes at midnight UTC for everyone. */
+export function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** The UTC day before `day`. */
+export function previousUtcDay(day: string): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - 1);
+  return utcDay(date);
+}
+
+/** The day as a number such as 20261019, so it fits in the numeric replay options. */
+export function dayNumber(day: string): number {
+  return Number(day.replaceAll('-', ''));
+}
+
+export function dayFromNumber(value: number): string {
+  const digits = value.toString().padStart(8, '0');
+  return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+}
+
+/**
+ * The seed everyone plays `game` with on `day`: an FNV-1a hash of both, so
+ * Snake and Tetris get unrelated sequences on the same day.
+ */
+export function dailySeed(game: ReplayGame, day: string): number {
+  let hash = 0x811c9dc5;
+  for (const char of `${game}:${day}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** The streak as of `today`: it lapses once a whole day goes by without an attempt. */
+export function currentStreak(record: DailyRecord, today: string): number {
+  const last = record.last?.day;
+  return last === today || last === previousUtcDay(today) ? record.streak : 0;
+}
+
+/** The text copied to share a daily result: a summary, the marks as an emoji grid, and a link. */
+export function shareText(game: ReplayGame, day: string, result: DailyResult, streak: number, url: string): string {
+  const seconds = Math.round(result.durationMs / 1000);
+  const time = `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+  const summary = [`${result.score.toLocaleString('en-US')} points`];
+  if (result.lines !== undefined) {
+    summary.push(`${result.lines} lines`);
+  }
+  summary.push(time);
+
+  const limit = MARKS_PER_ROW * MARK_ROWS;
+  const marks = result.marks.length > limit ? [...result.marks.slice(0, limit - 1), '…'] : result.marks;
+  const rows: string[] = [];
+  for (let i = 0; i < marks.length; i += MARKS_PER_ROW) {
+    rows.push(marks.slice(i, i + MARKS_PER_ROW).join(''));
+  }
+
+  return [
+    `${game === 'snake' ? 'Snake' : 'Tetris'} Daily ${day}`,
+    summary.join(' · '),
+    ...rows,
+    ...(streak > 1 ? [`🔥 ${streak} day streak`] : []),
+    url
+  ].join('\n');
+}
@@ -0,0 +1,105 @@
+import { GAMEPAD_LEFT, GAMEPAD_UP, GameCommand, GameInput, readGamepad, swipeDirection } from './input';
+
+describe('GameInput', () => {
+  type Action = 'left' | 'drop' | 'start';
+
+  let commands: GameCommand<Action>[];
+  let input: GameInput<Action>;
+
+  const key = (type: 'keydown' | 'keyup', init: KeyboardEventInit, target: EventTarget = document) => {
+    const event = new KeyboardEvent(type, { ...init, bubbles: true, cancelable: true });
+    target.dispatchEvent(event);
+    return event;
+  };
+
+  beforeEach(() => {
+    commands = [];
+    input = new GameInput<Action>({ keys: { ArrowLeft: 'left', ' ': 'drop', s: 'start' } }, command =>
+      commands.push(command)
+    );
+    input.attach();
+  });
+
+  afterEach(() => input.detach());
+
+  it('should turn bound keys into presses and releases', () => {
+    const down = key('keydown', { key: 'ArrowLeft' });
+    key('keyup', { key: 'ArrowLeft' });
+
+    expect(commands).toEqual([
+      { action: 'left', pressed: true, source: 'keyboard' },
+      { action: 'left', pressed: false, source: 'keyboard' }
+    ]);
+    expect(down.defaultPrevented).toBeTrue();
+  });
+
+  it('should match letters in either case and ignore unbound keys', () => {
+    key('keydown', { key: 'S' });
+    const unbound = key('keydown', { key: 'q' });
+
+    expect(commands.map(command => command.action)).toEqual(['start']);
+    expect(unbound.defaultPrevented).toBeFalse();
+  });
+
+  it('should ignore key repeat', () => {
+    key('keydown', { key: ' ' });
+    key('keydown', { key: ' ', repeat: true });
+    expect(commands.length).toBe(1);
+  });
+
+  it('should leave keys alone while the player types in a field', () => {
+    const field = document.createElement('input');
+    document.body.appendChild(field);
+    key('keydown', { key: 's' }, field);
+    field.remove();
+
+    expect(commands).toEqual([]);
+  });
+
+  it('should forward on-screen button presses', () => {
+    input.press('drop');
+    input.release('drop');
+    expect(commands.map(command => [command.pressed, command.source])).toEqual([
+      [true, 'button'],
+      [false, 'button']
+    ]);
+  });
+
+  it('should stop listening once detached', () => {
+    input.detach();
+    key('keydown', { key: 'ArrowLeft' });
+    expect(commands).toEqual([]);
+  });
+});
+
+describe('swipeDirection', () => {
+  it('should pick the dominant axis', () => {
+    expect(swipeDirection(80, 10)).toBe('right');
+    expect(swipeDirection(-80, 30)).toBe('left');
+    expect(swipeDirection(5, 60)).toBe('down');
+    expect(swipeDirection(-20, -60)).toBe('up');
+  });
+
+  it('should treat short movements as taps', () => {
+    expect(swipeDirection(10, -12)).toBeNull();
+  });
+});
+
+describe('readGamepad', () => {
+  const pad = (pressed: number[], axes: number[] = [0, 0]) => ({
+    buttons: Array.from({ length: 17 }, (_, i) => ({ pressed: pressed.includes(i), touched: false, value: 0 })),
+    axes
+  });
+
+  it('should report pressed buttons', () => {
+    const buttons = readGamepad(pad([0, GAMEPAD_UP]));
+    expect(buttons[0]).toBeTrue();
+    expect(buttons[1]).toBeFalse();
+    expect(buttons[GAMEPAD_UP]).toBeTrue();
+  });
+
+  it('should fold the left stick into the d-pad', () => {
+    expect(readGamepad(pad([], [-0.9, 0.1]))[GAMEPAD_LEFT]).toBeTrue();
+    expect(readGamepad(pad([], [-0.2, 0.1]))[GAMEPAD_LEFT]).toBeFalse();
+  });
+});
@@ -0,0 +1,205 @@
+export type InputSource = 'keyboard' | 'touch' | 'button' | 'gamepad';
+
+export type SwipeDirection = 'up' | 'down' | 'left' | 'right';
+
+/** A game action going down or up, whichever device it came from. */
+export interface GameCommand<A extends string> {
+  action: A;
+  pressed: boolean;
+  source: InputSource;
+}
+
+/** How each device maps onto a game's actions. */
+export interface InputBindings<A extends string> {
+  /** `KeyboardEvent.key` values; single characters match either case. */
+  keys: Partial<Record<string, A>>;
+  swipes?: Partial<Record<SwipeDirection, A>>;
+  tap?: A;
+  /** Gamepad buttons by their index in the standard mapping. */
+  buttons?: Partial<Record<number, A>>;
+  /** Only listen to the pad with this `Gamepad.index`, so two players can each have one. Any pad by default. */
+  gamepad?: number;
+}
+
+// Standard gamepad mapping d-pad buttons; the left stick drives them too
+export const GAMEPAD_UP = 12;
+export const GAMEPAD_DOWN = 13;
+export const GAMEPAD_LEFT = 14;
+export const GAMEPAD_RIGHT = 15;
+
+const SWIPE_MIN_PX = 30;
+const STICK_THRESHOLD = 0.5;
+
+/** The direction of a swipe, or null if the finger barely moved (a tap). */
+export function swipeDirection(dx: number, dy: number, minDistance = SWIPE_MIN_PX): SwipeDirection | null {
+  if (Math.max(Math.abs(dx), Math.abs(dy)) < minDistance) return null;
+  if (Math.abs(dx) > Math.abs(dy)) return dx > 0 ? 'right' : 'left';
+  return dy > 0 ? 'down' : 'up';
+}
+
+/** Which buttons of a pad are down, with the left stick folded into the d-pad. */
+export function readGamepad(pad: Pick<Gamepad, 'buttons' | 'axes'>): boolean[] {
+  const pressed = pad.buttons.map(button => button.pressed);
+  const [x = 0, y = 0] = pad.axes;
+
+  pressed[GAMEPAD_UP] = !!pressed[GAMEPAD_UP] || y < -STICK_THRESHOLD;
+  pressed[GAMEPAD_DOWN] = !!pressed[GAMEPAD_DOWN] || y > STICK_THRESHOLD;
+  pressed[GAMEPAD_LEFT] = !!pressed[GAMEPAD_LEFT] || x < -STICK_THRESHOLD;
+  pressed[GAMEPAD_RIGHT] = !!pressed[GAMEPAD_RIGHT] || x > STICK_THRESHOLD;
+  return pressed;
+}
+
+/**
+ * Turns keyboard, touch gestures, on-screen buttons and gamepads into
+ * `GameCommand`s, so a game only ever deals with its own actions. Swipes
+ * and taps are instant, so they arrive as a press immediately followed by
+ * a release.
+ */
+export class GameInput<A extends string> {
+  private surface: HTMLElement | null = null;
+  private touchStart: { x: number; y: number } | null = null;
+  private gamepadButtons: boolean[][] = [];
+  private gamepadLoop = 0;
+
+  constructor(
+    public bindings: InputBindings<A>,
+    private readonly listener: (command: GameCommand<A>) => void
+  ) {}
+
+  /** Starts listening; `surface` is the element that takes swipes and taps. */
+  attach(surface?: HTMLElement): void {
+    document.addEventListener('keydown', this.handleKeyDown);
+    document.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('gamepadconnected', this.startGamepads);
+
+    if (surface) {
+      this.surface = surface;
+      surface.addEventListener('touchstart', this.handleTouchStart, { passive: false });
+      surface.addEventListener('touchmove', this.handleTouchMove, { passive: false });
+      surface.addEventListener('touchend', this.handleTouchEnd);
+    }
+
+    // Pads connected before the page loaded don't fire gamepadconnected again
+    if (this.connectedGamepads().length > 0) {
+      this.startGamepads();
+    }
+  }
+
+  detach(): void {
+    document.removeEventListener('keydown', this.handleKeyDown);
+    document.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('gamepadconnected', this.startGamepads);
+    cancelAnimationFrame(this.gamepadLoop);
+    this.gamepadLoop = 0;
+
+    if (this.surface) {
+      this.surface.removeEventListener('touchstart', this.handleTouchStart);
+      this.surface.removeEventListener('touchmove', this.handleTouchMove);
+      this.surface.removeEventListener('touchend', this.handleTouchEnd);
+      this.surface = null;
+    }
+  }
+
+  /** For on-screen buttons. */
+  press(action: A, source: InputSource = 'button'): void {
+    this.listener({ action, pressed: true, source });
+  }
+
+  release(action: A, source: InputSource = 'button'): void {
+    this.listener({ action, pressed: false, source });
+  }
+
+  /** The action bound to a key, if any. */
+  keyAction(key: string): A | undefined {
+    return this.bindings.keys[key] ?? this.bindings.keys[key.length === 1 ? key.toLowerCase() : key];
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (isTyping(event)) return;
+
+    const action = this.keyAction(event.key);
+    if (!action) return;
+
+    // Stop arrows and space from scrolling the page
+    event.preventDefault();
+    // Games do their own auto-repeat, so OS key repeat is ignored
+    if (!event.repeat) {
+      this.press(action, 'keyboard');
+    }
+  };
+
+  private handleKeyUp = (event: KeyboardEvent): void => {
+    if (isTyping(event)) return;
+
+    const action = this.keyAction(event.key);
+    if (action) {
+      this.release(action, 'keyboard');
+    }
+  };
+
+  private handleTouchStart = (event: TouchEvent): void => {
+    const touch = event.changedTouches[0];
+    this.touchStart = { x: touch.clientX, y: touch.clientY };
+    event.preventDefault();
+  };
+
+  private handleTouchMove = (event: TouchEvent): void => {
+    // Keep the page from scrolling while swiping on the game
+    event.preventDefault();
+  };
+
+  private handleTouchEnd = (event: TouchEvent): void => {
+    if (!this.touchStart) return;
+
+    const touch = event.changedTouches[0];
+    const direction = swipeDirection(touch.clientX - this.touchStart.x, touch.clientY - this.touchStart.y);
+    this.touchStart = null;
+
+    const action = direction ? this.bindings.swipes?.[direction] : this.bindings.tap;
+    if (action) {
+      this.press(action, 'touch');
+      this.release(action, 'touch');
+    }
+  };
+
+  private startGamepads = (): void => {
+    if (this.gamepadLoop === 0) {
+      this.gamepadLoop = requestAnimationFrame(this.pollGamepads);
+    }
+  };
+
+  private pollGamepads = (): void => {
+    const pads = this.connectedGamepads();
+    if (pads.length === 0) {
+      this.gamepadButtons = [];
+      this.gamepadLoop = 0;
+      return;
+    }
+
+    for (const pad of pads) {
+      if (this.bindings.gamepad !== undefined && pad.index !== this.bindings.gamepad) continue;
+
+      const previous = this.gamepadButtons[pad.index] ?? [];
+      const current = readGamepad(pad);
+
+      current.forEach((pressed, button) => {
+        const action = this.bindings.buttons?.[button];
+        if (action && pressed !== !!previous[button]) {
+          this.listener({ action, pressed, source: 'gamepad' });
+        }
+      });
+      this.gamepadButtons[pad.index] = current;
+    }
+    this.gamepadLoop = requestAnimationFrame(this.pollGamepads);
+  };
+
+  private connectedGamepads(): Gamepad[] {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+    return navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected);
+  }
+}
+
+function isTyping(event: KeyboardEvent): boolean {
+  const target = event.target as HTMLElement | null;
+  return !!target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT');
+}
@@ -0,0 +1,37 @@
+import { bindKey, describeKeys, findConflict, KeyMap, keyBindings, keyLabel, unbindKey } from './key-bindings';
+
+describe('key bindings', () => {
+  type Action = 'left' | 'rotate' | 'drop';
+  const keys: KeyMap<Action> = { left: ['ArrowLeft'], rotate: ['ArrowUp', 'x'], drop: [' '] };
+
+  it('should find the action already using a key, in either case', () => {
+    expect(findConflict(keys, 'X', 'left')).toBe('rotate');
+    expect(findConflict(keys, ' ', 'left')).toBe('drop');
+    expect(findConflict(keys, 'q', 'left')).toBeNull();
+  });
+
+  it('should not report a key as conflicting with its own action', () => {
+    expect(findConflict(keys, 'x', 'rotate')).toBeNull();
+  });
+
+  it('should bind and unbind keys without touching the original map', () => {
+    const bound = bindKey(keys, 'left', 'A');
+    expect(bound.left).toEqual(['ArrowLeft', 'a']);
+    expect(keys.left).toEqual(['ArrowLeft']);
+    expect(bindKey(bound, 'left', 'a')).toBe(bound);
+
+    expect(unbindKey(bound, 'left', 'ArrowLeft').left).toEqual(['a']);
+  });
+
+  it('should flip the map into a key lookup', () => {
+    expect(keyBindings(keys)).toEqual({ ArrowLeft: 'left', ArrowUp: 'rotate', x: 'rotate', ' ': 'drop' });
+  });
+
+  it('should label keys for display', () => {
+    expect(keyLabel(' ')).toBe('SPACE');
+    expect(keyLabel('ArrowLeft')).toBe('←');
+    expect(keyLabel('z')).toBe('Z');
+    expect(describeKeys(keys.rotate)).toBe('↑ / X');
+    expect(describeKeys([])).toBe('—');
+  });
+});
@@ -0,0 +1,61 @@
+/** Keys bound to each of a game's actions, as `KeyboardEvent.key` values. */
+export type KeyMap<A extends string> = Record<A, string[]>;
+
+export interface ActionInfo<A extends string> {
+  id: A;
+  label: string;
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'SPACE',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Control: 'CTRL',
+  Escape: 'ESC'
+};
+
+/** Letters are stored lower case so a binding works with or without Shift/Caps Lock. */
+export function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+export function keyLabel(key: string): string {
+  return KEY_LABELS[key] ?? key.toUpperCase();
+}
+
+/** The action other than `except` that already uses `key`, if any. */
+export function findConflict<A extends string>(keys: KeyMap<A>, key: string, except?: NoInfer<A>): A | null {
+  const normalized = normalizeKey(key);
+  for (const [action, bound] of Object.entries(keys) as [A, string[]][]) {
+    if (action !== except && bound.some(existing => normalizeKey(existing) === normalized)) {
+      return action;
+    }
+  }
+  return null;
+}
+
+export function bindKey<A extends string>(keys: KeyMap<A>, action: A, key: string): KeyMap<A> {
+  const normalized = normalizeKey(key);
+  if (keys[action].includes(normalized)) return keys;
+  return { ...keys, [action]: [...keys[action], normalized] };
+}
+
+export function unbindKey<A extends string>(keys: KeyMap<A>, action: A, key: string): KeyMap<A> {
+  return { ...keys, [action]: keys[action].filter(existing => existing !== key) };
+}
+
+/** Flips a key map into the key → action lookup `GameInput` uses. */
+export function keyBindings<A extends string>(keys: KeyMap<A>): Partial<Record<string, A>> {
+  const bindings: Partial<Record<string, A>> = {};
+  for (const [action, bound] of Object.entries(keys) as [A, string[]][]) {
+    bound.forEach(key => (bindings[key] = action));
+  }
+  return bindings;
+}
+
+/** "← / A" style summary of the keys for an action. */
+export function describeKeys(keys: string[]): string {
+  return keys.length > 0 ? keys.map(keyLabel).join(' / ') : '—';
+}
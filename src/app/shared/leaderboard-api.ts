@@ -0,0 +1,68 @@
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { inject, Injectable, InjectionToken } from '@angular/core';
+import { Observable, throwError } from 'rxjs';
+import { GameId } from './score-service';
+
+/** Base URL of the online leaderboard; provide it in `appConfig` to use one. Unset, scores stay on the device. */
+export const LEADERBOARD_API_URL = new InjectionToken<string | null>('LEADERBOARD_API_URL', {
+  providedIn: 'root',
+  factory: () => null
+});
+
+/** Where development builds find the in-memory stand-in for the server. */
+export const MOCK_LEADERBOARD_URL = '/api/leaderboard';
+
+export interface ScoreSubmission {
+  /** Generated on the device so a retried upload is stored only once. */
+  clientId: string;
+  game: GameId;
+  mode: string;
+  initials: string;
+  score: number;
+  durationMs: number;
+  level?: number;
+  lines?: number;
+  /** ISO timestamp of when the game ended. */
+  date: string;
+}
+
+export interface SubmissionResult {
+  id: string;
+  /** 1-based position in the online table for the game and mode. */
+  rank: number;
+}
+
+export interface OnlineScore {
+  id: string;
+  initials: string;
+  score: number;
+  durationMs: number;
+  level?: number;
+  lines?: number;
+  date: string;
+}
+
+/** Typed client for the online leaderboard endpoint. */
+@Injectable({ providedIn: 'root' })
+export class LeaderboardApi {
+  private readonly http = inject(HttpClient);
+  private readonly baseUrl = inject(LEADERBOARD_API_URL);
+
+  /** Whether there is a server to talk to at all. */
+  readonly available = this.baseUrl !== null;
+
+  submit(submission: ScoreSubmission): Observable<SubmissionResult> {
+    if (this.baseUrl === null) return unavailable();
+    return this.http.post<SubmissionResult>(`${this.baseUrl}/scores`, submission);
+  }
+
+  top(game: GameId, mode: string, limit = 10): Observable<OnlineScore[]> {
+    if (this.baseUrl === null) return unavailable();
+    const params = new HttpParams().set('game', game).set('mode', mode).set('limit', limit);
+    return this.http.get<OnlineScore[]>(`${this.baseUrl}/scores`, { params });
+  }
+}
+
+function unavailable(): Observable<never> {
+  return throwError(() => new Error('No online leaderboard is configured'));
+}
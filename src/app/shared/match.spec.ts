@@ -0,0 +1,35 @@
+import { Match } from './match';
+
+describe('Match', () => {
+  it('should go to the first player to win enough rounds', () => {
+    const match = new Match(2, 2);
+    match.endRound(0);
+    match.endRound(1);
+    expect(match.over).toBeFalse();
+    expect(match.round).toBe(3);
+
+    match.endRound(1);
+    expect(match.winner).toBe(1);
+    expect(match.wins).toEqual([1, 2]);
+    expect(match.round).toBe(3);
+  });
+
+  it('should count a draw for nobody', () => {
+    const match = new Match(2, 1);
+    match.endRound(null);
+    expect(match.over).toBeFalse();
+    expect(match.round).toBe(2);
+
+    match.endRound(0);
+    expect(match.results).toEqual([null, 0]);
+    expect(match.winner).toBe(0);
+  });
+
+  it('should ignore rounds after the match is decided', () => {
+    const match = new Match(2, 1);
+    match.endRound(1);
+    match.endRound(0);
+    expect(match.wins).toEqual([0, 1]);
+    expect(match.results).toEqual([1]);
+  });
+});
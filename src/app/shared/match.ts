@@ -0,0 +1,41 @@
+/**
+ * Round bookkeeping for a head-to-head match: the first player to win
+ * `roundsToWin` rounds takes it. Players are numbered from 0.
+ */
+export class Match {
+  readonly wins: number[];
+  /** 1-based number of the round being played, or the last one once the match is over. */
+  round = 1;
+  /** Who won each finished round; null for a draw. */
+  readonly results: (number | null)[] = [];
+
+  constructor(
+    readonly players = 2,
+    readonly roundsToWin = 2
+  ) {
+    this.wins = Array<number>(players).fill(0);
+  }
+
+  /** The match winner, or null while it is still being played. */
+  get winner(): number | null {
+    const index = this.wins.findIndex(wins => wins >= this.roundsToWin);
+    return index === -1 ? null : index;
+  }
+
+  get over(): boolean {
+    return this.winner !== null;
+  }
+
+  /** Records the round that just ended. A draw counts for nobody and is replayed. */
+  endRound(winner: number | null): void {
+    if (this.over) return;
+
+    this.results.push(winner);
+    if (winner !== null) {
+      this.wins[winner]++;
+    }
+    if (!this.over) {
+      this.round++;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { HttpErrorResponse, HttpParams, HttpRequest } from '@angular/common/http';
+import { ScoreSubmission } from './leaderboard-api';
+import { MockLeaderboardServer } from './mock-leaderboard-backend';
+
+describe('MockLeaderboardServer', () => {
+  const baseUrl = '/api/leaderboard';
+  let server: MockLeaderboardServer;
+
+  const submission = (clientId: string, score: number): ScoreSubmission => ({
+    clientId,
+    game: 'tetris',
+    mode: 'classic',
+    initials: 'ABC',
+    score,
+    durationMs: 1000,
+    lines: 4,
+    date: '2024-01-01T00:00:00.000Z'
+  });
+  const post = (body: unknown) => server.handle(new HttpRequest('POST', `${baseUrl}/scores`, body), baseUrl);
+  const errorStatus = (run: () => unknown) => {
+    try {
+      run();
+    } catch (error) {
+      return (error as HttpErrorResponse).status;
+    }
+    return null;
+  };
+
+  beforeEach(() => {
+    server = new MockLeaderboardServer();
+  });
+
+  it('should rank submissions within their game and mode', () => {
+    expect(post(submission('a', 100)).body).toEqual({ id: '1', rank: 1 });
+    expect(post(submission('b', 300)).body).toEqual({ id: '2', rank: 1 });
+    expect(post({ ...submission('c', 500), mode: 'sprint' }).body).toEqual({ id: '3', rank: 1 });
+    expect(post(submission('d', 200)).body).toEqual({ id: '4', rank: 2 });
+  });
+
+  it('should store a retried submission only once', () => {
+    post(submission('a', 100));
+    expect(post(submission('a', 100)).body).toEqual({ id: '1', rank: 1 });
+
+    const params = new HttpParams().set('game', 'tetris').set('mode', 'classic').set('limit', 10);
+    const response = server.handle(new HttpRequest('GET', `${baseUrl}/scores`, { params }), baseUrl);
+    expect((response.body as unknown[]).length).toBe(1);
+  });
+
+  it('should return the top scores without client details', () => {
+    [100, 500, 300].forEach((score, i) => post(submission(`c${i}`, score)));
+
+    const params = new HttpParams().set('game', 'tetris').set('mode', 'classic').set('limit', 2);
+    const response = server.handle(new HttpRequest('GET', `${baseUrl}/scores`, { params }), baseUrl);
+    const body = response.body as Record<string, unknown>[];
+    expect(body.map(score => score['score'])).toEqual([500, 300]);
+    expect(body[0]['clientId']).toBeUndefined();
+  });
+
+  it('should reject invalid submissions', () => {
+    expect(errorStatus(() => post({ ...submission('a', 100), game: 'pong' }))).toBe(400);
+    expect(errorStatus(() => post({ ...submission('a', 100), score: -1 }))).toBe(400);
+    expect(errorStatus(() => post({ ...submission('a', 100), initials: 'TOOLONG' }))).toBe(400);
+    expect(errorStatus(() => server.handle(new HttpRequest('DELETE', `${baseUrl}/scores`), baseUrl))).toBe(404);
+  });
+
+  it('should fail like an unreachable server while offline', () => {
+    server.online = false;
+    expect(errorStatus(() => post(submission('a', 100)))).toBe(0);
+  });
+});
@@ -0,0 +1,111 @@
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest, HttpResponse } from '@angular/common/http';
+import { inject, Injectable } from '@angular/core';
+import { delay, of, throwError } from 'rxjs';
+import { LEADERBOARD_API_URL, OnlineScore, ScoreSubmission, SubmissionResult } from './leaderboard-api';
+
+interface StoredScore extends OnlineScore {
+  clientId: string;
+  game: string;
+  mode: string;
+}
+
+const LATENCY_MS = 300;
+
+/**
+ * In-memory stand-in for the leaderboard server, speaking the same API as
+ * the real one. Set `online` to false to see how the games cope with an
+ * unreachable server.
+ */
+@Injectable({ providedIn: 'root' })
+export class MockLeaderboardServer {
+  online = true;
+  private readonly scores: StoredScore[] = [];
+  private nextId = 1;
+
+  /** Answers one request to the API, or throws the HttpErrorResponse the server would send. */
+  handle(request: HttpRequest<unknown>, baseUrl: string): HttpResponse<unknown> {
+    if (!this.online) {
+      throw new HttpErrorResponse({ status: 0, statusText: 'Unknown Error', url: request.url });
+    }
+
+    const path = request.url.slice(baseUrl.length);
+    if (path === '/scores' && request.method === 'POST') {
+      return this.submit(request);
+    }
+    if (path === '/scores' && request.method === 'GET') {
+      return this.top(request);
+    }
+    throw new HttpErrorResponse({ status: 404, statusText: 'Not Found', url: request.url });
+  }
+
+  private submit(request: HttpRequest<unknown>): HttpResponse<SubmissionResult> {
+    const submission = request.body;
+    if (!isSubmission(submission)) {
+      throw new HttpErrorResponse({ status: 400, statusText: 'Bad Request', url: request.url });
+    }
+
+    // Retries of an upload that already arrived get the original answer
+    let stored = this.scores.find(score => score.clientId === submission.clientId);
+    if (!stored) {
+      stored = { ...submission, id: String(this.nextId++) };
+      this.scores.push(stored);
+    }
+    const rank = this.table(stored.game, stored.mode).indexOf(stored) + 1;
+    return new HttpResponse({ status: 201, body: { id: stored.id, rank } });
+  }
+
+  private top(request: HttpRequest<unknown>): HttpResponse<OnlineScore[]> {
+    const game = request.params.get('game') ?? '';
+    const mode = request.params.get('mode') ?? '';
+    const limit = Number(request.params.get('limit') ?? 10);
+
+    const body = this.table(game, mode)
+      .slice(0, limit)
+      .map(({ id, initials, score, durationMs, level, lines, date }) => ({
+        id,
+        initials,
+        score,
+        durationMs,
+        level,
+        lines,
+        date
+      }));
+    return new HttpResponse({ status: 200, body });
+  }
+
+  private table(game: string, mode: string): StoredScore[] {
+    return this.scores
+      .filter(score => score.game === game && score.mode === mode)
+      .sort((a, b) => b.score - a.score);
+  }
+}
+
+/** Routes leaderboard API calls to `MockLeaderboardServer` instead of the network. */
+export const mockLeaderboardBackend: HttpInterceptorFn = (request, next) => {
+  const baseUrl = inject(LEADERBOARD_API_URL);
+  if (baseUrl === null || !request.url.startsWith(baseUrl)) return next(request);
+
+  const server = inject(MockLeaderboardServer);
+  try {
+    return of(server.handle(request, baseUrl)).pipe(delay(LATENCY_MS));
+  } catch (error) {
+    return throwError(() => error);
+  }
+};
+
+function isSubmission(value: unknown): value is ScoreSubmission {
+  if (typeof value !== 'object' || value === null) return false;
+  const body = value as Record<string, unknown>;
+
+  return (
+    typeof body['clientId'] === 'string' &&
+    (body['game'] === 'snake' || body['game'] === 'tetris') &&
+    typeof body['mode'] === 'string' &&
+    typeof body['initials'] === 'string' &&
+    /^[A-Z0-9?]{1,3}$/.test(body['initials']) &&
+    Number.isInteger(body['score']) &&
+    (body['score'] as number) >= 0 &&
+    typeof body['durationMs'] === 'number' &&
+    typeof body['date'] === 'string'
+  );
+}
@@ -0,0 +1,108 @@
+// Shared with the relay server in `server/`, which runs it straight from this
+// file, so it must stay free of imports and of TypeScript-only runtime syntax.
+
+/** Messages between the game clients and the multiplayer relay server. Each one is a JSON text frame. */
+export type OnlineGame = 'snake' | 'tetris';
+
+export const MAX_PLAYERS = 2;
+export const ROOM_CODE_LENGTH = 4;
+// Letters that can't be mistaken for each other or for digits when read out
+export const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+/** Anything bigger is not a message this protocol sends. */
+export const MAX_MESSAGE_BYTES = 64 * 1024;
+
+export interface RoomInfo {
+  code: string;
+  game: OnlineGame;
+  host: string;
+  players: number;
+}
+
+export type ClientMessage =
+  /** Asks for the open rooms of a game, for the lobby. */
+  | { type: 'list'; game: OnlineGame }
+  | { type: 'create'; game: OnlineGame; name: string }
+  | { type: 'join'; code: string; name: string }
+  | { type: 'leave' }
+  /** Sent by the host once the room is full; the server picks the seed for everyone. */
+  | { type: 'start' }
+  /** A player's input, stamped with the tick or frame it belongs to. */
+  | { type: 'input'; tick: number; input: string }
+  /** A snapshot of the sender's game for the others to draw. */
+  | { type: 'state'; state: unknown }
+  | { type: 'garbage'; lines: number; gap: number }
+  | { type: 'gameOver' };
+
+export type RelayErrorCode = 'badMessage' | 'roomNotFound' | 'roomFull' | 'notInRoom' | 'notHost' | 'notReady';
+
+export type ServerMessage =
+  | { type: 'rooms'; rooms: RoomInfo[] }
+  /** You are in a room now, as player `player`. */
+  | { type: 'joined'; code: string; game: OnlineGame; player: number; players: string[] }
+  | { type: 'peerJoined'; player: number; name: string }
+  | { type: 'peerLeft'; player: number }
+  | { type: 'start'; seed: number }
+  | { type: 'input'; player: number; tick: number; input: string }
+  | { type: 'state'; player: number; state: unknown }
+  | { type: 'garbage'; player: number; lines: number; gap: number }
+  | { type: 'gameOver'; player: number }
+  | { type: 'error'; code: RelayErrorCode; message: string };
+
+/** Messages that are passed on to the rest of the room, tagged with the sender. */
+export type RelayedMessage = Extract<ServerMessage, { type: 'input' | 'state' | 'garbage' | 'gameOver' }>;
+
+export function isRoomCode(code: unknown): code is string {
+  return (
+    typeof code === 'string' &&
+    code.length === ROOM_CODE_LENGTH &&
+    [...code].every(letter => ROOM_CODE_ALPHABET.includes(letter))
+  );
+}
+
+/** Player names are short and printable; anything else is cut down or replaced. */
+export function cleanName(name: unknown): string {
+  const clean = typeof name === 'string' ? name.replace(/[^\w .-]/g, '').trim().slice(0, 12) : '';
+  return clean || 'Player';
+}
+
+/** Parses and checks a message from a client. Returns null for anything malformed; never throws. */
+export function parseClientMessage(data: string): ClientMessage | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (typeof message !== 'object' || message === null || Array.isArray(message)) return null;
+
+  const fields = message as Record<string, unknown>;
+  const isGame = (game: unknown): game is OnlineGame => game === 'snake' || game === 'tetris';
+  const isCount = (n: unknown): n is number => typeof n === 'number' && Number.isInteger(n) && n >= 0;
+
+  switch (fields['type']) {
+    case 'list':
+      return isGame(fields['game']) ? { type: 'list', game: fields['game'] } : null;
+    case 'create':
+      return isGame(fields['game']) ? { type: 'create', game: fields['game'], name: cleanName(fields['name']) } : null;
+    case 'join': {
+      const code = typeof fields['code'] === 'string' ? fields['code'].toUpperCase() : null;
+      return isRoomCode(code) ? { type: 'join', code, name: cleanName(fields['name']) } : null;
+    }
+    case 'leave':
+    case 'start':
+    case 'gameOver':
+      return { type: fields['type'] };
+    case 'input':
+      return isCount(fields['tick']) && typeof fields['input'] === 'string' && fields['input'].length <= 32
+        ? { type: 'input', tick: fields['tick'], input: fields['input'] }
+        : null;
+    case 'state':
+      return 'state' in fields ? { type: 'state', state: fields['state'] } : null;
+    case 'garbage':
+      return isCount(fields['lines']) && fields['lines'] <= 4 && isCount(fields['gap'])
+        ? { type: 'garbage', lines: fields['lines'], gap: fields['gap'] }
+        : null;
+    default:
+      return null;
+  }
+}
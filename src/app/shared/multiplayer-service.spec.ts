@@ -0,0 +1,109 @@
+import { TestBed } from '@angular/core/testing';
+import { ServerMessage } from './multiplayer-protocol';
+import { MULTIPLAYER_SERVER_URL, MultiplayerService, WEB_SOCKET_FACTORY } from './multiplayer-service';
+
+/** Stands in for the browser socket; tests play the relay's side by calling its handlers. */
+class FakeSocket {
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  readonly sent: unknown[] = [];
+
+  constructor(readonly url: string) {}
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.onclose?.();
+  }
+
+  receive(message: ServerMessage): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+describe('MultiplayerService', () => {
+  let sockets: FakeSocket[];
+  let service: MultiplayerService;
+
+  const open = async () => {
+    const connected = service.connect();
+    sockets[0].onopen?.();
+    expect(await connected).toBeTrue();
+    return sockets[0];
+  };
+
+  beforeEach(() => {
+    sockets = [];
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: MULTIPLAYER_SERVER_URL, useValue: 'ws://relay.test' },
+        {
+          provide: WEB_SOCKET_FACTORY,
+          useValue: (url: string) => {
+            const socket = new FakeSocket(url);
+            sockets.push(socket);
+            return socket as unknown as WebSocket;
+          }
+        }
+      ]
+    });
+    service = TestBed.inject(MultiplayerService);
+  });
+
+  it('should connect to the configured relay and send messages as JSON', async () => {
+    const socket = await open();
+    expect(socket.url).toBe('ws://relay.test');
+    expect(service.status()).toBe('connected');
+
+    service.join(' abcd ', 'Ada');
+    expect(socket.sent).toEqual([{ type: 'join', code: 'ABCD', name: 'Ada' }]);
+  });
+
+  it('should report the relay as unavailable when it cannot be reached', async () => {
+    const connected = service.connect();
+    sockets[0].onerror?.();
+
+    expect(await connected).toBeFalse();
+    expect(service.status()).toBe('unavailable');
+
+    // Nothing is sent into a dead connection
+    service.create('tetris', 'Ada');
+    expect(sockets[0].sent).toEqual([]);
+  });
+
+  it('should track the room and its players', async () => {
+    const socket = await open();
+    socket.receive({ type: 'joined', code: 'WXYZ', game: 'snake', player: 0, players: ['Ada'] });
+    socket.receive({ type: 'peerJoined', player: 1, name: 'Grace' });
+    expect(service.room()).toEqual({ code: 'WXYZ', game: 'snake', player: 0, players: ['Ada', 'Grace'] });
+
+    socket.receive({ type: 'peerLeft', player: 1 });
+    expect(service.room()?.players).toEqual(['Ada', '']);
+  });
+
+  it('should pass relay messages to listeners until they unsubscribe', async () => {
+    const socket = await open();
+    const received: ServerMessage[] = [];
+    const stop = service.onMessage(message => received.push(message));
+
+    socket.receive({ type: 'start', seed: 42 });
+    stop();
+    socket.receive({ type: 'gameOver', player: 1 });
+    expect(received).toEqual([{ type: 'start', seed: 42 }]);
+  });
+
+  it('should surface relay errors and a dropped connection', async () => {
+    const socket = await open();
+    socket.receive({ type: 'error', code: 'roomNotFound', message: 'There is no room ABCD.' });
+    expect(service.error()).toBe('There is no room ABCD.');
+
+    socket.receive({ type: 'joined', code: 'ABCE', game: 'tetris', player: 1, players: ['Ada', 'Grace'] });
+    socket.close();
+    expect(service.status()).toBe('unavailable');
+    expect(service.room()).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import { DestroyRef, inject, Injectable, InjectionToken, signal } from '@angular/core';
+import { ClientMessage, OnlineGame, RoomInfo, ServerMessage } from './multiplayer-protocol';
+
+/** Address of the multiplayer relay; by default the one `npm run relay` starts next to the dev server. */
+export const MULTIPLAYER_SERVER_URL = new InjectionToken<string>('MULTIPLAYER_SERVER_URL', {
+  providedIn: 'root',
+  factory: () =>
+    typeof location === 'undefined'
+      ? 'ws://localhost:8787'
+      : `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.hostname}:8787`
+});
+
+/** Opens the socket to the relay; tests swap in a fake. */
+export const WEB_SOCKET_FACTORY = new InjectionToken<(url: string) => WebSocket>('WEB_SOCKET_FACTORY', {
+  providedIn: 'root',
+  factory: () => url => new WebSocket(url)
+});
+
+/** `unavailable` means the relay could not be reached or the connection dropped. */
+export type ConnectionStatus = 'offline' | 'connecting' | 'connected' | 'unavailable';
+
+export interface OnlineRoom {
+  code: string;
+  game: OnlineGame;
+  /** This browser's seat; 0 is the host. */
+  player: number;
+  /** Names by seat; an empty string marks a seat whose player left. */
+  players: string[];
+}
+
+type MessageListener = (message: ServerMessage) => void;
+
+// Give up on a relay that hasn't answered by then
+const CONNECT_TIMEOUT_MS = 5000;
+
+/**
+ * Connection to the multiplayer relay. Keeps track of the room this browser
+ * is in and passes game messages (start, inputs, snapshots, garbage) on to
+ * whichever game component is listening.
+ */
+@Injectable({ providedIn: 'root' })
+export class MultiplayerService {
+  private readonly url = inject(MULTIPLAYER_SERVER_URL);
+  private readonly createSocket = inject(WEB_SOCKET_FACTORY);
+
+  private socket: WebSocket | null = null;
+  private connecting: Promise<boolean> | null = null;
+  private readonly listeners = new Set<MessageListener>();
+
+  readonly status = signal<ConnectionStatus>('offline');
+  readonly room = signal<OnlineRoom | null>(null);
+  /** Open rooms from the last `list` call. */
+  readonly rooms = signal<RoomInfo[]>([]);
+  /** The last thing the relay refused, for the lobby to show. */
+  readonly error = signal<string | null>(null);
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() => this.disconnect());
+  }
+
+  /** Opens the connection if it isn't already; resolves whether the relay could be reached. */
+  connect(): Promise<boolean> {
+    if (this.status() === 'connected') return Promise.resolve(true);
+    if (this.connecting) return this.connecting;
+
+    this.status.set('connecting');
+    this.error.set(null);
+    this.connecting = new Promise<boolean>(resolve => {
+      let socket: WebSocket;
+      try {
+        socket = this.createSocket(this.url);
+      } catch {
+        this.status.set('unavailable');
+        resolve(false);
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        socket.close();
+        fail();
+      }, CONNECT_TIMEOUT_MS);
+      const fail = () => {
+        clearTimeout(timer);
+        if (this.socket === socket) this.socket = null;
+        this.room.set(null);
+        this.status.set('unavailable');
+        resolve(false);
+      };
+
+      socket.onopen = () => {
+        clearTimeout(timer);
+        this.socket = socket;
+        this.status.set('connected');
+        resolve(true);
+      };
+      socket.onmessage = event => this.receive(event.data);
+      socket.onerror = () => socket.close();
+      socket.onclose = () => {
+        // A deliberate disconnect has already cleared `this.socket`
+        if (this.socket === socket || this.status() === 'connecting') fail();
+      };
+    }).finally(() => (this.connecting = null));
+    return this.connecting;
+  }
+
+  disconnect(): void {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.room.set(null);
+    this.status.set('offline');
+  }
+
+  /** Calls `listener` with every message from the relay; returns a function that stops it. */
+  onMessage(listener: MessageListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  list(game: OnlineGame): void {
+    this.send({ type: 'list', game });
+  }
+
+  create(game: OnlineGame, name: string): void {
+    this.send({ type: 'create', game, name });
+  }
+
+  join(code: string, name: string): void {
+    this.send({ type: 'join', code: code.trim().toUpperCase(), name });
+  }
+
+  leave(): void {
+    this.send({ type: 'leave' });
+    this.room.set(null);
+  }
+
+  /** Host only: asks the relay to deal the seed and start the game. */
+  start(): void {
+    this.send({ type: 'start' });
+  }
+
+  send(message: ClientMessage): void {
+    if (this.socket && this.status() === 'connected') {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private receive(data: unknown): void {
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(String(data)) as ServerMessage;
+    } catch {
+      return;
+    }
+
+    switch (message.type) {
+      case 'rooms':
+        this.rooms.set(message.rooms);
+        break;
+      case 'joined':
+        this.error.set(null);
+        this.room.set({ code: message.code, game: message.game, player: message.player, players: message.players });
+        break;
+      case 'peerJoined':
+        this.updatePlayers(players => {
+          players[message.player] = message.name;
+        });
+        break;
+      case 'peerLeft':
+        this.updatePlayers(players => {
+          players[message.player] = '';
+        });
+        break;
+      case 'error':
+        this.error.set(message.message);
+        break;
+    }
+    this.listeners.forEach(listener => listener(message));
+  }
+
+  private updatePlayers(change: (players: string[]) => void): void {
+    const room = this.room();
+    if (!room) return;
+    const players = [...room.players];
+    change(players);
+    this.room.set({ ...room, players });
+  }
+}
@@ -0,0 +1,70 @@
+import { Component, computed, inject, input, OnInit, signal } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { MAX_PLAYERS, OnlineGame, ROOM_CODE_LENGTH } from '../multiplayer-protocol';
+import { MultiplayerService } from '../multiplayer-service';
+import { ScoreService } from '../score-service';
+
+/**
+ * Connects to the relay and gets two browsers into the same room: host a
+ * room and share its code, type in a friend's code, or pick an open room.
+ * The host starts the game; the game component takes over from there, and
+ * leaves the room when the player navigates away.
+ */
+@Component({
+  selector: 'app-online-lobby',
+  imports: [RouterLink],
+  templateUrl: './online-lobby.html',
+  styleUrl: './online-lobby.css',
+  standalone: true
+})
+export class OnlineLobby implements OnInit {
+  protected readonly multiplayer = inject(MultiplayerService);
+  private readonly scores = inject(ScoreService);
+
+  readonly game = input.required<OnlineGame>();
+  /** Where to send players when the relay is unreachable. */
+  readonly versusLink = input.required<string>();
+
+  protected readonly codeLength = ROOM_CODE_LENGTH;
+  protected readonly name = signal(this.scores.initials().replace(/\?/g, '') || 'Player');
+  protected readonly code = signal('');
+  protected readonly isHost = computed(() => this.multiplayer.room()?.player === 0);
+  protected readonly isFull = computed(
+    () => this.multiplayer.room()?.players.filter(Boolean).length === MAX_PLAYERS
+  );
+
+  ngOnInit(): void {
+    void this.connect();
+  }
+
+  protected async connect(): Promise<void> {
+    if (await this.multiplayer.connect()) {
+      this.refresh();
+    }
+  }
+
+  protected refresh(): void {
+    this.multiplayer.list(this.game());
+  }
+
+  protected create(): void {
+    this.multiplayer.create(this.game(), this.name());
+  }
+
+  protected join(code = this.code()): void {
+    this.multiplayer.join(code, this.name());
+  }
+
+  protected leave(): void {
+    this.multiplayer.leave();
+    this.refresh();
+  }
+
+  protected setName(event: Event): void {
+    this.name.set((event.target as HTMLInputElement).value);
+  }
+
+  protected setCode(event: Event): void {
+    this.code.set((event.target as HTMLInputElement).value);
+  }
+}
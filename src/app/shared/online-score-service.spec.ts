@@ -0,0 +1,122 @@
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+import { LEADERBOARD_API_URL, MOCK_LEADERBOARD_URL } from './leaderboard-api';
+import { OnlineScoreService } from './online-score-service';
+import { MemoryQueueStore, SCORE_QUEUE_STORE } from './score-queue';
+
+describe('OnlineScoreService', () => {
+  const url = '/api/leaderboard/scores';
+  let queue: MemoryQueueStore;
+  let http: HttpTestingController;
+
+  // Lets the queue's promises and the HTTP call chain run
+  const settle = () => new Promise(resolve => setTimeout(resolve));
+
+  const create = () => {
+    const service = TestBed.inject(OnlineScoreService);
+    http = TestBed.inject(HttpTestingController);
+    return service;
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    queue = new MemoryQueueStore();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: SCORE_QUEUE_STORE, useValue: queue },
+        { provide: LEADERBOARD_API_URL, useValue: MOCK_LEADERBOARD_URL }
+      ]
+    });
+  });
+
+  afterEach(() => {
+    http.verify();
+    localStorage.clear();
+  });
+
+  it('should upload a score and report its online rank', async () => {
+    const service = create();
+    const id = service.submit('snake', 'classic', { score: 120, durationMs: 30_000 });
+    expect(service.status(id)()?.state).toBe('pending');
+
+    await settle();
+    const request = http.expectOne(url);
+    expect(request.request.method).toBe('POST');
+    expect(request.request.body).toEqual(
+      jasmine.objectContaining({ clientId: id, game: 'snake', mode: 'classic', initials: '???', score: 120 })
+    );
+    request.flush({ id: '1', rank: 3 });
+    await settle();
+
+    expect(service.status(id)()).toEqual({ state: 'synced', rank: 3 });
+    expect(await queue.all()).toEqual([]);
+  });
+
+  it('should keep a score queued while the server is unreachable and retry when back online', async () => {
+    const service = create();
+    const id = service.submit('tetris', 'classic', { score: 800, durationMs: 60_000, level: 2, lines: 10 });
+
+    await settle();
+    http.expectOne(url).error(new ProgressEvent('error'), { status: 0 });
+    await settle();
+
+    expect(service.status(id)()?.state).toBe('pending');
+    expect(service.pendingCount()).toBe(1);
+    expect((await queue.all()).length).toBe(1);
+
+    window.dispatchEvent(new Event('online'));
+    await settle();
+    http.expectOne(url).flush({ id: '7', rank: 1 });
+    await settle();
+
+    expect(service.status(id)()).toEqual({ state: 'synced', rank: 1 });
+    expect(service.pendingCount()).toBe(0);
+  });
+
+  it('should drop scores the server rejects', async () => {
+    const service = create();
+    const id = service.submit('snake', 'classic', { score: 10, durationMs: 1000 });
+
+    await settle();
+    http.expectOne(url).flush('Bad Request', { status: 400, statusText: 'Bad Request' });
+    await settle();
+
+    expect(service.status(id)()?.state).toBe('rejected');
+    expect(await queue.all()).toEqual([]);
+  });
+
+  it('should resume uploads queued on an earlier visit', async () => {
+    await queue.add({
+      clientId: 'earlier',
+      game: 'snake',
+      mode: 'classic',
+      initials: 'ABC',
+      score: 50,
+      durationMs: 5000,
+      date: '2024-01-01T00:00:00.000Z'
+    });
+
+    const service = create();
+    await settle();
+    expect(service.status('earlier')()?.state).toBe('syncing');
+
+    http.expectOne(url).flush({ id: '2', rank: 5 });
+    await settle();
+    expect(service.status('earlier')()).toEqual({ state: 'synced', rank: 5 });
+  });
+
+  it('should keep scores on the device when there is no leaderboard server', async () => {
+    TestBed.overrideProvider(LEADERBOARD_API_URL, { useValue: null });
+    const service = create();
+    const id = service.submit('snake', 'classic', { score: 120, durationMs: 30_000 });
+    await settle();
+
+    http.expectNone(url);
+    expect(service.status(id)()).toEqual({ state: 'unavailable' });
+    expect(service.pendingCount()).toBe(0);
+    expect(await queue.all()).toEqual([]);
+  });
+});
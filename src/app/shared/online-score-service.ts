@@ -0,0 +1,166 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { computed, DestroyRef, inject, Injectable, Signal, signal } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { LeaderboardApi, ScoreSubmission } from './leaderboard-api';
+import { SCORE_QUEUE_STORE } from './score-queue';
+import { GameId, NewScore, ScoreService } from './score-service';
+
+/** `unavailable` means there is no leaderboard server, so the score is kept on this device only. */
+export type SyncState = 'pending' | 'syncing' | 'synced' | 'rejected' | 'unavailable';
+
+export interface SyncStatus {
+  state: SyncState;
+  /** Online rank, once the server has accepted the score. */
+  rank?: number;
+}
+
+const RETRY_MS = 30_000;
+
+/**
+ * Uploads finished games to the online leaderboard. Every score goes through
+ * a persistent queue first, so results played offline are sent once the
+ * connection comes back (or on the next visit).
+ */
+@Injectable({ providedIn: 'root' })
+export class OnlineScoreService {
+  private readonly api = inject(LeaderboardApi);
+  private readonly queue = inject(SCORE_QUEUE_STORE);
+  private readonly scores = inject(ScoreService);
+
+  private readonly statuses = signal<Record<string, SyncStatus>>({});
+  // Submissions the persistent queue refused to store
+  private readonly fallback = new Map<string, ScoreSubmission>();
+  private flushing: Promise<void> | null = null;
+  private flushAgain = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** Scores waiting for the server, including ones restored from an earlier visit. */
+  readonly pendingCount = computed(
+    () => Object.values(this.statuses()).filter(status => status.state === 'pending' || status.state === 'syncing').length
+  );
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      const retry = () => void this.flush();
+      window.addEventListener('online', retry);
+      inject(DestroyRef).onDestroy(() => {
+        window.removeEventListener('online', retry);
+        this.clearRetry();
+      });
+    }
+    void this.restore();
+  }
+
+  status(clientId: string): Signal<SyncStatus | undefined> {
+    return computed(() => this.statuses()[clientId]);
+  }
+
+  /** Queues a finished game for upload and returns the id to follow its status with. */
+  submit(game: GameId, mode: string, result: NewScore): string {
+    const submission: ScoreSubmission = {
+      ...result,
+      clientId: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+      game,
+      mode,
+      initials: this.scores.initials(),
+      date: result.date ?? new Date().toISOString()
+    };
+    if (!this.api.available) {
+      this.setStatus(submission.clientId, { state: 'unavailable' });
+      return submission.clientId;
+    }
+    this.setStatus(submission.clientId, { state: 'pending' });
+
+    void this.queue
+      .add(submission)
+      .catch(() => {
+        // Without a working queue the score is only retried while this page is open
+        this.fallback.set(submission.clientId, submission);
+      })
+      .then(() => this.flush());
+    return submission.clientId;
+  }
+
+  /** Tries to send everything in the queue; resolves when the attempt is over. */
+  flush(): Promise<void> {
+    if (this.flushing) {
+      // Pick up whatever was queued after the running attempt read the queue
+      this.flushAgain = true;
+      return this.flushing;
+    }
+
+    this.flushing = (async () => {
+      let drained: boolean;
+      do {
+        this.flushAgain = false;
+        drained = await this.drain();
+      } while (drained && this.flushAgain);
+    })().finally(() => (this.flushing = null));
+    return this.flushing;
+  }
+
+  private async restore(): Promise<void> {
+    if (!this.api.available) return;
+    try {
+      for (const submission of await this.queue.all()) {
+        this.setStatus(submission.clientId, { state: 'pending' });
+      }
+    } catch {
+      return;
+    }
+    await this.flush();
+  }
+
+  /** Sends queued scores in order; resolves false if it gave up because the server is unreachable. */
+  private async drain(): Promise<boolean> {
+    this.clearRetry();
+    if (!this.api.available) return false;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return false;
+
+    let queued: ScoreSubmission[];
+    try {
+      queued = [...(await this.queue.all()), ...this.fallback.values()];
+    } catch {
+      queued = [...this.fallback.values()];
+    }
+
+    for (const submission of queued) {
+      this.setStatus(submission.clientId, { state: 'syncing' });
+      try {
+        const result = await firstValueFrom(this.api.submit(submission));
+        this.setStatus(submission.clientId, { state: 'synced', rank: result.rank });
+      } catch (error) {
+        if (error instanceof HttpErrorResponse && error.status >= 400 && error.status < 500) {
+          // The server will never take this one; drop it instead of retrying forever
+          this.setStatus(submission.clientId, { state: 'rejected' });
+        } else {
+          this.setStatus(submission.clientId, { state: 'pending' });
+          this.retryTimer = setTimeout(() => void this.flush(), RETRY_MS);
+          return false;
+        }
+      }
+      await this.forget(submission.clientId);
+    }
+    return true;
+  }
+
+  private async forget(clientId: string): Promise<void> {
+    this.fallback.delete(clientId);
+    try {
+      await this.queue.remove(clientId);
+    } catch {
+      // Worst case the score is sent again; the server ignores repeated client ids
+    }
+  }
+
+  private setStatus(clientId: string, status: SyncStatus): void {
+    this.statuses.update(statuses => ({ ...statuses, [clientId]: status }));
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Small seedable PRNG (mulberry32) so game simulations can be replayed exactly.
+ * The whole generator state is a single 32-bit integer.
+ */
+export class SeededRandom {
+  private value: number;
+
+  constructor(seed: number) {
+    this.value = seed >>> 0;
+  }
+
+  get state(): number {
+    return this.value;
+  }
+
+  set state(state: number) {
+    this.value = state >>> 0;
+  }
+
+  /** Returns a float in [0, 1). */
+  next(): number {
+    this.value = (this.value + 0x6d2b79f5) >>> 0;
+    let t = this.value;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Returns an integer in [0, max). */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+}
+
+/** Creates a fresh seed for a new game. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
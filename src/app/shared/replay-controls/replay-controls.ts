@@ -0,0 +1,56 @@
+import { Component, input, output, signal } from '@angular/core';
+import { encodeReplay, decodeReplay, Replay, REPLAY_SPEEDS, ReplayGame, ReplayPlayback } from '../replay';
+
+/**
+ * Replay panel shared by the games: offers to watch, share or import a replay
+ * and, while one is playing, shows play/pause, speed and a scrub bar.
+ */
+@Component({
+  selector: 'app-replay-controls',
+  templateUrl: './replay-controls.html',
+  styleUrl: './replay-controls.css',
+  standalone: true
+})
+export class ReplayControls {
+  readonly game = input.required<ReplayGame>();
+  readonly replay = input<Replay | null>(null);
+  readonly playback = input<ReplayPlayback | null>(null);
+
+  readonly watch = output<Replay>();
+  readonly exit = output<void>();
+
+  protected readonly speeds = REPLAY_SPEEDS;
+  protected readonly message = signal('');
+
+  protected seek(playback: ReplayPlayback, event: Event): void {
+    playback.seek(Number((event.target as HTMLInputElement).value));
+  }
+
+  protected formatTime(playback: ReplayPlayback, steps: number): string {
+    const seconds = Math.floor((steps * playback.stepMs) / 1000);
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+  }
+
+  protected async share(replay: Replay): Promise<void> {
+    const url = `${location.origin}${location.pathname}?replay=${encodeReplay(replay)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      this.message.set('Replay link copied to clipboard');
+    } catch {
+      window.prompt('Copy this replay link:', url);
+    }
+  }
+
+  protected importReplay(): void {
+    const code = window.prompt('Paste a replay link or code:');
+    if (!code) return;
+
+    const replay = decodeReplay(code.includes('replay=') ? code.split('replay=')[1].split('&')[0] : code);
+    if (!replay || replay.game !== this.game()) {
+      this.message.set(`That is not a valid ${this.game()} replay`);
+      return;
+    }
+    this.message.set('');
+    this.watch.emit(replay);
+  }
+}
@@ -0,0 +1,98 @@
+import { decodeReplay, encodeReplay, MAX_REPLAY_LENGTH, Replay, ReplayPlayback, ReplayRecorder } from './replay';
+
+describe('Replay', () => {
+  const replay: Replay = {
+    version: 1,
+    game: 'tetris',
+    seed: 123456789,
+    options: { cols: 10, rows: 20 },
+    inputs: [[0, 'left'], [3, 'releaseLeft'], [40, 'hardDrop'], [40, 'hold']],
+    length: 500,
+    final: { score: 1234, lines: 5 }
+  };
+
+  it('should round-trip through the share code', () => {
+    expect(decodeReplay(encodeReplay(replay))).toEqual(replay);
+  });
+
+  it('should produce a URL-safe code', () => {
+    expect(encodeReplay(replay)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('should reject malformed codes', () => {
+    expect(decodeReplay('not a replay')).toBeNull();
+    expect(decodeReplay(btoa(JSON.stringify({ v: 2 })))).toBeNull();
+    expect(decodeReplay(btoa(JSON.stringify({ v: 1, g: 'tetris', s: 1, l: 1, f: { score: 0 }, d: ['x'], i: [1] }))))
+      .toBeNull();
+  });
+
+  it('should reject lengths too long to scrub through', () => {
+    const code = (length: number) => encodeReplay({ ...replay, length });
+
+    expect(decodeReplay(code(MAX_REPLAY_LENGTH))?.length).toBe(MAX_REPLAY_LENGTH);
+    expect(decodeReplay(code(MAX_REPLAY_LENGTH + 1))).toBeNull();
+    expect(decodeReplay(code(1e12))).toBeNull();
+    expect(decodeReplay(code(-1))).toBeNull();
+    expect(decodeReplay(code(2.5))).toBeNull();
+  });
+
+  it('should reject options no game produces', () => {
+    const code = (options: Record<string, number>) => encodeReplay({ ...replay, options });
+
+    expect(decodeReplay(code({ cols: 40, rows: 40, tileCount: 60, day: 20000 }))).not.toBeNull();
+    expect(decodeReplay(code({ cols: 100000, rows: 20 }))).toBeNull();
+    expect(decodeReplay(code({ cols: 10, rows: 0 }))).toBeNull();
+    expect(decodeReplay(code({ tileCount: 5000 }))).toBeNull();
+    expect(decodeReplay(code({ startLevel: 1.5 }))).toBeNull();
+    expect(decodeReplay(code({ timeLimitMs: -1 }))).toBeNull();
+  });
+
+  it('should record inputs in order', () => {
+    const recorder = new ReplayRecorder('snake', 5, { tileCount: 20 });
+    recorder.record(2, 'up');
+    recorder.record(7, 'left');
+
+    expect(recorder.finish(30, { score: 10 })).toEqual({
+      version: 1,
+      game: 'snake',
+      seed: 5,
+      options: { tileCount: 20 },
+      inputs: [[2, 'up'], [7, 'left']],
+      length: 30,
+      final: { score: 10 }
+    });
+  });
+
+  it('should carry on recording after the inputs of a saved game', () => {
+    const recorder = new ReplayRecorder('snake', 5, { tileCount: 20 }, [[2, 'up']]);
+    recorder.record(7, 'left');
+
+    expect(recorder.finish(30, { score: 10 }).inputs).toEqual([[2, 'up'], [7, 'left']]);
+  });
+});
+
+describe('ReplayPlayback', () => {
+  it('should advance by speed and stop at the end', () => {
+    const playback = new ReplayPlayback(100, 10);
+    playback.toggle();
+    playback.speed.set(2);
+
+    playback.advance(100);
+    expect(playback.step).toBe(20);
+
+    playback.advance(10000);
+    expect(playback.step).toBe(100);
+    expect(playback.playing()).toBeFalse();
+  });
+
+  it('should not advance while paused and should clamp seeks', () => {
+    const playback = new ReplayPlayback(50, 10);
+    playback.advance(100);
+    expect(playback.step).toBe(0);
+
+    playback.seek(80);
+    expect(playback.step).toBe(50);
+    playback.seek(-5);
+    expect(playback.step).toBe(0);
+  });
+});
@@ -0,0 +1,175 @@
+import { signal } from '@angular/core';
+
+export type ReplayGame = 'snake' | 'tetris';
+
+/**
+ * A recorded game: the seed and engine options it started with, every input
+ * stamped with the simulation step it was applied on, and the final result
+ * so playback can be checked against what the live game showed.
+ */
+export interface Replay {
+  version: 1;
+  game: ReplayGame;
+  seed: number;
+  options: Record<string, number>;
+  inputs: [step: number, input: string][];
+  /** Total simulation steps (Tetris frames or Snake ticks) until the game ended. */
+  length: number;
+  final: { score: number; lines?: number };
+}
+
+/** Four hours of Tetris frames; scrubbing a replay simulates every step up to the one shown. */
+export const MAX_REPLAY_LENGTH = 4 * 60 * 60 * 60;
+
+/** The board sizes a replay may ask for, which the engines allocate and the canvas draws. */
+const OPTION_RANGES: Record<string, [min: number, max: number]> = {
+  cols: [4, 40],
+  rows: [4, 40],
+  tileCount: [5, 60]
+};
+
+/**
+ * Records inputs for a live game; call `finish` at game over to get the
+ * replay. A saved game carries on recording from the inputs it had so far.
+ */
+export class ReplayRecorder {
+  private readonly inputs: [number, string][];
+
+  constructor(
+    private readonly game: ReplayGame,
+    private readonly seed: number,
+    private readonly options: Record<string, number>,
+    inputs: Replay['inputs'] = []
+  ) {
+    this.inputs = [...inputs];
+  }
+
+  record(step: number, input: string): void {
+    this.inputs.push([step, input]);
+  }
+
+  finish(length: number, final: Replay['final']): Replay {
+    return {
+      version: 1,
+      game: this.game,
+      seed: this.seed,
+      options: { ...this.options },
+      inputs: [...this.inputs],
+      length,
+      final: { ...final }
+    };
+  }
+}
+
+/**
+ * Packs a replay into a URL-safe base64 string. Steps are delta-encoded and
+ * inputs are stored as indexes into a per-replay dictionary to keep the
+ * string short enough to share as a link.
+ */
+export function encodeReplay(replay: Replay): string {
+  const dictionary = [...new Set(replay.inputs.map(([, input]) => input))];
+  const inputs: number[] = [];
+  let previous = 0;
+  for (const [step, input] of replay.inputs) {
+    inputs.push(step - previous, dictionary.indexOf(input));
+    previous = step;
+  }
+
+  const json = JSON.stringify({
+    v: replay.version,
+    g: replay.game,
+    s: replay.seed,
+    o: replay.options,
+    d: dictionary,
+    i: inputs,
+    l: replay.length,
+    f: replay.final
+  });
+  return btoa(json).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Unpacks a shared replay string, or returns null if it is not a valid replay.
+ * Shared links open straight into playback, so lengths and options out of
+ * the range a real game produces are refused rather than simulated.
+ */
+export function decodeReplay(code: string): Replay | null {
+  try {
+    const base64 = code.trim().replace(/-/g, '+').replace(/_/g, '/');
+    const data = JSON.parse(atob(base64));
+
+    if (data?.v !== 1 || (data.g !== 'snake' && data.g !== 'tetris')) return null;
+    if (!Number.isInteger(data.s) || typeof data.f?.score !== 'number') return null;
+    if (!Number.isInteger(data.l) || data.l < 0 || data.l > MAX_REPLAY_LENGTH) return null;
+    if (!Array.isArray(data.d) || !Array.isArray(data.i) || data.i.length % 2 !== 0) return null;
+
+    const inputs: [number, string][] = [];
+    let step = 0;
+    for (let i = 0; i < data.i.length; i += 2) {
+      const input = data.d[data.i[i + 1]];
+      if (!Number.isInteger(data.i[i]) || data.i[i] < 0 || typeof input !== 'string') return null;
+      step += data.i[i];
+      inputs.push([step, input]);
+    }
+
+    const options: Record<string, number> = {};
+    for (const [key, value] of Object.entries(data.o ?? {})) {
+      const [min, max] = OPTION_RANGES[key] ?? [0, Number.MAX_SAFE_INTEGER];
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) return null;
+      options[key] = value;
+    }
+
+    const final: Replay['final'] = { score: data.f.score };
+    if (typeof data.f.lines === 'number') {
+      final.lines = data.f.lines;
+    }
+
+    return { version: 1, game: data.g, seed: data.s, options, inputs, length: data.l, final };
+  } catch {
+    return null;
+  }
+}
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+/** Turns wall-clock time into replay steps at the chosen speed, with play/pause and seeking. */
+export class ReplayPlayback {
+  readonly playing = signal(false);
+  readonly speed = signal(1);
+  readonly position = signal(0);
+
+  constructor(
+    readonly length: number,
+    readonly stepMs: number
+  ) {}
+
+  /** Current whole step to show. */
+  get step(): number {
+    return Math.floor(this.position());
+  }
+
+  get finished(): boolean {
+    return this.position() >= this.length;
+  }
+
+  toggle(): void {
+    if (!this.playing() && this.finished) {
+      this.position.set(0);
+    }
+    this.playing.update(playing => !playing);
+  }
+
+  advance(elapsedMs: number): void {
+    if (!this.playing()) return;
+
+    const position = this.position() + (elapsedMs * this.speed()) / this.stepMs;
+    this.position.set(Math.min(position, this.length));
+    if (this.finished) {
+      this.playing.set(false);
+    }
+  }
+
+  seek(step: number): void {
+    this.position.set(Math.max(0, Math.min(step, this.length)));
+  }
+}
@@ -0,0 +1,35 @@
+import { clearSavedGame, loadSavedGame, SAVED_GAME_KEYS, SavedGame, storeSavedGame } from './saved-game';
+
+describe('saved games', () => {
+  const saved: SavedGame<{ score: number }> = {
+    version: 1,
+    mode: 'classic',
+    assisted: false,
+    replay: { version: 1, game: 'snake', seed: 7, options: {}, inputs: [[3, 'up']], length: 12, final: { score: 20 } },
+    state: { score: 20 },
+    savedAt: 1000
+  };
+
+  beforeEach(() => localStorage.clear());
+  afterEach(() => localStorage.clear());
+
+  it('should store, load and clear a game', () => {
+    storeSavedGame(saved);
+    expect(loadSavedGame('snake')).toEqual(saved);
+    expect(loadSavedGame('tetris')).toBeNull();
+
+    clearSavedGame('snake');
+    expect(loadSavedGame('snake')).toBeNull();
+  });
+
+  it('should ignore saves it cannot read', () => {
+    localStorage.setItem(SAVED_GAME_KEYS.snake, '{not json');
+    expect(loadSavedGame('snake')).toBeNull();
+
+    localStorage.setItem(SAVED_GAME_KEYS.snake, JSON.stringify({ ...saved, version: 2 }));
+    expect(loadSavedGame('snake')).toBeNull();
+
+    localStorage.setItem(SAVED_GAME_KEYS.tetris, JSON.stringify(saved));
+    expect(loadSavedGame('tetris')).toBeNull();
+  });
+});
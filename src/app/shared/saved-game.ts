@@ -0,0 +1,58 @@
+import { Replay, ReplayGame } from './replay';
+
+/**
+ * A game left unfinished, kept so the player can navigate away or reload and
+ * carry on where they stopped. `state` is the engine's own save, random
+ * number generator included; `replay` is the recording so far, so the game
+ * still replays from the start and scores as usual once it ends.
+ */
+export interface SavedGame<S> {
+  version: 1;
+  mode: string;
+  /** Whether the autopilot played part of it, which keeps it off the leaderboard. */
+  assisted: boolean;
+  replay: Replay;
+  state: S;
+  savedAt: number;
+}
+
+export const SAVED_GAME_KEYS: Record<ReplayGame, string> = {
+  snake: 'snakeSavedGame',
+  tetris: 'tetrisSavedGame'
+};
+
+/** The saved game for `game`, or null if there is none or it can't be read. */
+export function loadSavedGame<S>(game: ReplayGame): SavedGame<S> | null {
+  try {
+    const raw = localStorage.getItem(SAVED_GAME_KEYS[game]);
+    const saved = raw ? JSON.parse(raw) : null;
+    if (
+      saved?.version !== 1 ||
+      saved.replay?.game !== game ||
+      typeof saved.mode !== 'string' ||
+      typeof saved.state !== 'object' ||
+      saved.state === null
+    ) {
+      return null;
+    }
+    return saved as SavedGame<S>;
+  } catch {
+    return null;
+  }
+}
+
+export function storeSavedGame<S>(saved: SavedGame<S>): void {
+  try {
+    localStorage.setItem(SAVED_GAME_KEYS[saved.replay.game], JSON.stringify(saved));
+  } catch {
+    // Storage is full or blocked; the game just can't be continued after a reload
+  }
+}
+
+export function clearSavedGame(game: ReplayGame): void {
+  try {
+    localStorage.removeItem(SAVED_GAME_KEYS[game]);
+  } catch {
+    // Nothing was saved then either
+  }
+}
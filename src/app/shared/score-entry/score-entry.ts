@@ -0,0 +1,23 @@
+import { Component, inject, input } from '@angular/core';
+import { GameId, ScoreEntry as Entry, ScoreService } from '../score-service';
+
+/** "New high score" banner shown at game over, where the player can sign the entry. */
+@Component({
+  selector: 'app-score-entry',
+  templateUrl: './score-entry.html',
+  styleUrl: './score-entry.css',
+  standalone: true
+})
+export class ScoreEntry {
+  private readonly scores = inject(ScoreService);
+
+  readonly game = input.required<GameId>();
+  readonly mode = input.required<string>();
+  readonly entry = input.required<Entry>();
+  readonly rank = input.required<number>();
+
+  protected rename(event: Event): void {
+    const initials = (event.target as HTMLInputElement).value;
+    this.scores.rename(this.game(), this.mode(), this.entry().id, initials);
+  }
+}
@@ -0,0 +1,70 @@
+import { InjectionToken } from '@angular/core';
+import { ScoreSubmission } from './leaderboard-api';
+
+/** Where submissions wait until the leaderboard server accepts them. */
+export interface ScoreQueueStore {
+  add(submission: ScoreSubmission): Promise<void>;
+  all(): Promise<ScoreSubmission[]>;
+  remove(clientId: string): Promise<void>;
+}
+
+export const SCORE_QUEUE_STORE = new InjectionToken<ScoreQueueStore>('SCORE_QUEUE_STORE', {
+  providedIn: 'root',
+  factory: () => (typeof indexedDB === 'undefined' ? new MemoryQueueStore() : new IndexedDbQueueStore())
+});
+
+const DB_NAME = 'arcade';
+const STORE_NAME = 'scoreQueue';
+
+/** Queue kept in IndexedDB so pending scores survive reloads while offline. */
+export class IndexedDbQueueStore implements ScoreQueueStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  async add(submission: ScoreSubmission): Promise<void> {
+    await this.request('readwrite', store => store.put(submission));
+  }
+
+  async all(): Promise<ScoreSubmission[]> {
+    return this.request<ScoreSubmission[]>('readonly', store => store.getAll());
+  }
+
+  async remove(clientId: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(clientId));
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'clientId' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.db;
+  }
+}
+
+/** Fallback for browsers without IndexedDB, and for tests. */
+export class MemoryQueueStore implements ScoreQueueStore {
+  private readonly items = new Map<string, ScoreSubmission>();
+
+  async add(submission: ScoreSubmission): Promise<void> {
+    this.items.set(submission.clientId, submission);
+  }
+
+  async all(): Promise<ScoreSubmission[]> {
+    return [...this.items.values()];
+  }
+
+  async remove(clientId: string): Promise<void> {
+    this.items.delete(clientId);
+  }
+}
@@ -0,0 +1,125 @@
+import { isTimeRanked, MAX_ENTRIES, ScoreService, STORAGE_KEY } from './score-service';
+
+describe('ScoreService', () => {
+  const result = (score: number) => ({ score, durationMs: 60_000 });
+
+  beforeEach(() => localStorage.clear());
+  afterEach(() => localStorage.clear());
+
+  it('should keep each table sorted and capped at the top entries', () => {
+    const service = new ScoreService();
+    for (let score = 1; score <= MAX_ENTRIES + 5; score++) {
+      service.submit('snake', 'classic', result(score * 10));
+    }
+
+    const table = service.table('snake', 'classic')();
+    expect(table.length).toBe(MAX_ENTRIES);
+    expect(table[0].score).toBe((MAX_ENTRIES + 5) * 10);
+    expect(table.map(entry => entry.score)).toEqual([...table.map(entry => entry.score)].sort((a, b) => b - a));
+    expect(service.highScore('snake')()).toBe((MAX_ENTRIES + 5) * 10);
+  });
+
+  it('should rank submissions and reject scores that miss the table', () => {
+    const service = new ScoreService();
+    for (let i = 0; i < MAX_ENTRIES; i++) {
+      service.submit('tetris', 'classic', result(100));
+    }
+
+    expect(service.qualifies('tetris', 'classic', 50)).toBeFalse();
+    expect(service.submit('tetris', 'classic', result(50))).toBeNull();
+    expect(service.submit('tetris', 'classic', result(150))?.rank).toBe(1);
+    expect(service.submit('tetris', 'classic', result(0))).toBeNull();
+  });
+
+  it('should keep modes and games apart', () => {
+    const service = new ScoreService();
+    service.submit('snake', 'classic', result(10));
+    service.submit('snake', 'wrap', result(20));
+    service.submit('tetris', 'classic', result(30));
+
+    expect(service.highScore('snake', 'classic')()).toBe(10);
+    expect(service.highScore('snake', 'wrap')()).toBe(20);
+    expect(service.modes('snake').sort()).toEqual(['classic', 'wrap']);
+
+    service.clear('snake', 'wrap');
+    expect(service.modes('snake')).toEqual(['classic']);
+    expect(service.highScore('tetris')()).toBe(30);
+  });
+
+  it('should rank sprint tables by the fastest time', () => {
+    const service = new ScoreService();
+    service.submit('tetris', 'sprint', { score: 900, durationMs: 90_000 });
+    service.submit('tetris', 'sprint', { score: 100, durationMs: 60_000 });
+
+    expect(service.table('tetris', 'sprint')().map(entry => entry.durationMs)).toEqual([60_000, 90_000]);
+    expect(service.qualifies('tetris', 'sprint', 0, 0)).toBeFalse();
+    expect(isTimeRanked('tetris', 'sprint')).toBeTrue();
+    expect(isTimeRanked('tetris', 'ultra')).toBeFalse();
+  });
+
+  it('should rename entries and reuse the initials for the next one', () => {
+    const service = new ScoreService();
+    const first = service.submit('snake', 'classic', result(10))!;
+    service.rename('snake', 'classic', first.entry.id, 'ab!c');
+
+    expect(service.table('snake')()[0].initials).toBe('ABC');
+    expect(service.submit('snake', 'classic', result(20))!.entry.initials).toBe('ABC');
+  });
+
+  it('should persist scores across instances', () => {
+    new ScoreService().submit('tetris', 'classic', { score: 500, durationMs: 1000, level: 2, lines: 12 });
+
+    const [entry] = new ScoreService().table('tetris')();
+    expect(entry.score).toBe(500);
+    expect(entry.level).toBe(2);
+    expect(entry.lines).toBe(12);
+  });
+
+  it('should migrate the legacy high score keys', () => {
+    localStorage.setItem('snakeHighScore', '42');
+    localStorage.setItem('tetrisHighScore', 'garbage');
+
+    const service = new ScoreService();
+    expect(service.highScore('snake')()).toBe(42);
+    expect(service.table('tetris')()).toEqual([]);
+    expect(localStorage.getItem('snakeHighScore')).toBeNull();
+    expect(localStorage.getItem('tetrisHighScore')).toBeNull();
+    expect(new ScoreService().table('snake')().length).toBe(1);
+  });
+
+  it('should keep the legacy keys when the migrated tables cannot be saved', () => {
+    localStorage.setItem('snakeHighScore', '42');
+    spyOn(Object.getPrototypeOf(localStorage), 'setItem').and.throwError(new DOMException('Full', 'QuotaExceededError'));
+
+    expect(new ScoreService().highScore('snake')()).toBe(42);
+    expect(localStorage.getItem('snakeHighScore')).toBe('42');
+  });
+
+  it('should survive corrupted storage', () => {
+    localStorage.setItem(STORAGE_KEY, '{not json');
+    expect(new ScoreService().tables()).toEqual({});
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 99, tables: {} }));
+    expect(new ScoreService().tables()).toEqual({});
+  });
+
+  it('should drop malformed entries and tables', () => {
+    const good = { id: 'a', initials: 'AAA', score: 5, date: '2024-01-01T00:00:00.000Z', durationMs: 10 };
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({
+        version: 1,
+        initials: 42,
+        tables: {
+          'snake:classic': [good, { ...good, score: 'lots' }, null, { ...good, date: 'yesterday' }],
+          'pong:classic': [good],
+          'tetris:classic': 'oops'
+        }
+      })
+    );
+
+    const service = new ScoreService();
+    expect(service.tables()).toEqual({ 'snake:classic': [good] });
+    expect(service.initials()).toBe('???');
+  });
+});
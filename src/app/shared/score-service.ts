@@ -0,0 +1,255 @@
+import { computed, Injectable, Signal, signal } from '@angular/core';
+
+export type GameId = 'snake' | 'tetris';
+
+export interface ScoreEntry {
+  id: string;
+  initials: string;
+  score: number;
+  /** ISO timestamp of when the game ended. */
+  date: string;
+  durationMs: number;
+  level?: number;
+  lines?: number;
+}
+
+export type NewScore = Omit<ScoreEntry, 'id' | 'initials' | 'date'> & { date?: string };
+
+interface ScoreStore {
+  version: 1;
+  initials: string;
+  /** Keyed by `game:mode`. */
+  tables: Record<string, ScoreEntry[]>;
+}
+
+export const STORAGE_KEY = 'arcadeScores';
+export const MAX_ENTRIES = 10;
+export const DEFAULT_MODE = 'classic';
+
+/** Tables where the fastest time wins instead of the highest score, keyed by `game:mode`. */
+const TIME_RANKED_TABLES = ['tetris:sprint'];
+
+const DEFAULT_INITIALS = '???';
+const LEGACY_KEYS: Record<GameId, string> = {
+  snake: 'snakeHighScore',
+  tetris: 'tetrisHighScore'
+};
+
+/**
+ * Local leaderboard for every game and mode. Keeps a versioned top-N table
+ * per `game:mode` in localStorage, migrates the old single high score keys
+ * and drops anything in storage it does not recognise instead of failing.
+ */
+@Injectable({ providedIn: 'root' })
+export class ScoreService {
+  private readonly store = signal<ScoreStore>(this.load());
+
+  /** Initials used for the next entry; the last ones a player typed. */
+  readonly initials = computed(() => this.store().initials);
+
+  /** All tables, keyed by `game:mode`. */
+  readonly tables = computed(() => this.store().tables);
+
+  table(game: GameId, mode = DEFAULT_MODE): Signal<ScoreEntry[]> {
+    return computed(() => this.store().tables[tableKey(game, mode)] ?? []);
+  }
+
+  highScore(game: GameId, mode = DEFAULT_MODE): Signal<number> {
+    return computed(() => this.store().tables[tableKey(game, mode)]?.[0]?.score ?? 0);
+  }
+
+  /** Modes that have at least one score recorded for `game`. */
+  modes(game: GameId): string[] {
+    return Object.keys(this.store().tables)
+      .filter(key => key.startsWith(`${game}:`))
+      .map(key => key.slice(game.length + 1));
+  }
+
+  qualifies(game: GameId, mode: string, score: number, durationMs = 0): boolean {
+    const table = this.store().tables[tableKey(game, mode)] ?? [];
+    const last = table[table.length - 1];
+    if (isTimeRanked(game, mode)) {
+      return durationMs > 0 && (table.length < MAX_ENTRIES || durationMs < last.durationMs);
+    }
+    return score > 0 && (table.length < MAX_ENTRIES || score > last.score);
+  }
+
+  /**
+   * Records a finished game. Returns the stored entry and its 1-based rank,
+   * or null when the score did not make the table.
+   */
+  submit(game: GameId, mode: string, result: NewScore): { entry: ScoreEntry; rank: number } | null {
+    if (!this.qualifies(game, mode, result.score, result.durationMs)) return null;
+
+    const entry: ScoreEntry = {
+      ...result,
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      initials: this.store().initials,
+      date: result.date ?? new Date().toISOString()
+    };
+    const key = tableKey(game, mode);
+    const table = rank(key, [...(this.store().tables[key] ?? []), entry]);
+
+    this.update(store => ({ ...store, tables: { ...store.tables, [key]: table } }));
+    return { entry, rank: table.indexOf(entry) + 1 };
+  }
+
+  /** Changes the initials on an entry and remembers them for next time. */
+  rename(game: GameId, mode: string, id: string, initials: string): void {
+    const clean = sanitizeInitials(initials);
+    if (!clean) return;
+
+    const key = tableKey(game, mode);
+    this.update(store => ({
+      ...store,
+      initials: clean,
+      tables: {
+        ...store.tables,
+        [key]: (store.tables[key] ?? []).map(entry => (entry.id === id ? { ...entry, initials: clean } : entry))
+      }
+    }));
+  }
+
+  clear(game?: GameId, mode?: string): void {
+    this.update(store => {
+      const tables = { ...store.tables };
+      for (const key of Object.keys(tables)) {
+        if ((!game || key.startsWith(`${game}:`)) && (!mode || key.endsWith(`:${mode}`))) {
+          delete tables[key];
+        }
+      }
+      return { ...store, tables };
+    });
+  }
+
+  private update(change: (store: ScoreStore) => ScoreStore): void {
+    this.store.update(change);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.store()));
+    } catch {
+      // Storage can be full or disabled; the scores still live for this session
+    }
+  }
+
+  private load(): ScoreStore {
+    const store = parseStore(readStorage(STORAGE_KEY));
+
+    // Fold the old one-number-per-game keys into the classic tables once
+    const migrated: string[] = [];
+    for (const [game, legacyKey] of Object.entries(LEGACY_KEYS)) {
+      const legacy = readStorage(legacyKey);
+      if (legacy === null) continue;
+
+      const score = Number(legacy);
+      const key = tableKey(game as GameId, DEFAULT_MODE);
+      if (Number.isInteger(score) && score > 0 && !(store.tables[key] ?? []).some(e => e.score >= score)) {
+        const entry: ScoreEntry = {
+          id: `legacy-${game}`,
+          initials: DEFAULT_INITIALS,
+          score,
+          date: new Date(0).toISOString(),
+          durationMs: 0
+        };
+        store.tables[key] = [...(store.tables[key] ?? []), entry]
+          .sort((a, b) => b.score - a.score)
+          .slice(0, MAX_ENTRIES);
+      }
+      migrated.push(legacyKey);
+    }
+
+    if (migrated.length > 0) {
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+        migrated.forEach(removeStorage);
+      } catch {
+        // Keep the old keys until the tables holding their scores are saved, so the next visit tries again
+      }
+    }
+    return store;
+  }
+}
+
+function tableKey(game: GameId, mode: string): string {
+  return `${game}:${mode}`;
+}
+
+/** Whether the table for `game` and `mode` is won by the fastest time, like Tetris Sprint. */
+export function isTimeRanked(game: GameId, mode: string): boolean {
+  return TIME_RANKED_TABLES.includes(tableKey(game, mode));
+}
+
+/** Sorts a table best first and keeps the top entries. */
+function rank(key: string, entries: ScoreEntry[]): ScoreEntry[] {
+  const byTime = TIME_RANKED_TABLES.includes(key);
+  return entries
+    .sort((a, b) => (byTime ? a.durationMs - b.durationMs : b.score - a.score))
+    .slice(0, MAX_ENTRIES);
+}
+
+function sanitizeInitials(initials: string): string {
+  return initials.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 3);
+}
+
+function readStorage(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function removeStorage(key: string): void {
+  try {
+    localStorage.removeItem(key);
+  } catch {
+    // Nothing to clean up when storage is unavailable
+  }
+}
+
+/** Parses stored scores, keeping only well-formed entries. Never throws. */
+function parseStore(raw: string | null): ScoreStore {
+  const store: ScoreStore = { version: 1, initials: DEFAULT_INITIALS, tables: {} };
+  if (!raw) return store;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return store;
+  }
+  if (!isRecord(data) || data['version'] !== 1 || !isRecord(data['tables'])) return store;
+
+  if (typeof data['initials'] === 'string' && sanitizeInitials(data['initials'])) {
+    store.initials = sanitizeInitials(data['initials']);
+  }
+
+  for (const [key, entries] of Object.entries(data['tables'])) {
+    if (!/^(snake|tetris):[\w-]+$/.test(key) || !Array.isArray(entries)) continue;
+
+    const valid = rank(key, entries.filter(isScoreEntry));
+    if (valid.length > 0) {
+      store.tables[key] = valid;
+    }
+  }
+  return store;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isScoreEntry(value: unknown): value is ScoreEntry {
+  if (!isRecord(value)) return false;
+  const isCount = (n: unknown) => typeof n === 'number' && Number.isFinite(n) && n >= 0;
+
+  return (
+    typeof value['id'] === 'string' &&
+    typeof value['initials'] === 'string' &&
+    isCount(value['score']) &&
+    typeof value['date'] === 'string' &&
+    !Number.isNaN(Date.parse(value['date'])) &&
+    isCount(value['durationMs']) &&
+    (value['level'] === undefined || isCount(value['level'])) &&
+    (value['lines'] === undefined || isCount(value['lines']))
+  );
+}
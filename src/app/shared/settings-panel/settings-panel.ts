@@ -0,0 +1,94 @@
+import { Component, DestroyRef, inject, input, output, signal } from '@angular/core';
+import { ActionInfo, bindKey, findConflict, KeyMap, keyLabel, unbindKey } from '../key-bindings';
+import { SettingField } from '../settings';
+
+/**
+ * Collapsible settings for a game: the fields it lists plus a key remapping
+ * table. Rebinding waits for the next key press and refuses keys another
+ * action already uses.
+ */
+@Component({
+  selector: 'app-settings-panel',
+  templateUrl: './settings-panel.html',
+  styleUrl: './settings-panel.css',
+  standalone: true
+})
+export class SettingsPanel {
+  readonly actions = input.required<ActionInfo<string>[]>();
+  readonly keys = input.required<KeyMap<string>>();
+  readonly fields = input.required<SettingField[]>();
+  readonly values = input.required<object>();
+  /** Settings are locked while a game is running. */
+  readonly disabled = input(false);
+
+  readonly keysChange = output<KeyMap<string>>();
+  readonly valueChange = output<{ id: string; value: number | boolean }>();
+  readonly reset = output<void>();
+
+  protected readonly listening = signal<string | null>(null);
+  protected readonly message = signal('');
+  protected readonly keyLabel = keyLabel;
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() => window.removeEventListener('keydown', this.captureKey, true));
+  }
+
+  protected value(id: string): number | boolean {
+    return (this.values() as Record<string, number | boolean>)[id];
+  }
+
+  protected setToggle(id: string, event: Event): void {
+    this.valueChange.emit({ id, value: (event.target as HTMLInputElement).checked });
+  }
+
+  protected setNumber(id: string, event: Event): void {
+    this.valueChange.emit({ id, value: Number((event.target as HTMLInputElement | HTMLSelectElement).value) });
+  }
+
+  protected listen(action: string): void {
+    this.listening.set(action);
+    this.message.set('Press a key (Esc to cancel)');
+    window.addEventListener('keydown', this.captureKey, true);
+  }
+
+  protected remove(action: string, key: string): void {
+    this.keysChange.emit(unbindKey(this.keys(), action, key));
+  }
+
+  protected resetAll(): void {
+    this.stopListening();
+    this.message.set('');
+    this.reset.emit();
+  }
+
+  private captureKey = (event: KeyboardEvent): void => {
+    const action = this.listening();
+    if (!action) return;
+
+    // The key is for the panel, not the game
+    event.preventDefault();
+    event.stopPropagation();
+
+    if (event.key === 'Escape') {
+      this.stopListening();
+      this.message.set('');
+      return;
+    }
+
+    const conflict = findConflict(this.keys(), event.key, action);
+    if (conflict) {
+      const label = this.actions().find(info => info.id === conflict)?.label ?? conflict;
+      this.message.set(`${keyLabel(event.key)} is already used for ${label}. Try another key.`);
+      return;
+    }
+
+    this.stopListening();
+    this.message.set('');
+    this.keysChange.emit(bindKey(this.keys(), action, event.key));
+  };
+
+  private stopListening(): void {
+    this.listening.set(null);
+    window.removeEventListener('keydown', this.captureKey, true);
+  }
+}
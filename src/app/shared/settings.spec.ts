@@ -0,0 +1,44 @@
+import { closest, mergeSettings, PersistedSettings } from './settings';
+
+describe('settings', () => {
+  const defaults = { speed: 150, ghost: true, keys: { left: ['ArrowLeft'], right: ['ArrowRight'] } };
+
+  beforeEach(() => localStorage.clear());
+  afterEach(() => localStorage.clear());
+
+  it('should keep stored values that match the defaults', () => {
+    const stored = { speed: 100, ghost: false, keys: { left: ['a'], right: ['d'] } };
+    expect(mergeSettings(defaults, stored)).toEqual(stored);
+  });
+
+  it('should fall back to defaults for missing or mistyped values', () => {
+    const merged = mergeSettings(defaults, { speed: 'fast', keys: { left: [1], extra: ['q'] }, unknown: 1 });
+    expect(merged).toEqual(defaults);
+    expect(mergeSettings(defaults, null)).toEqual(defaults);
+    expect(mergeSettings(defaults, { speed: Infinity }).speed).toBe(150);
+  });
+
+  it('should persist updates and resets', () => {
+    const settings = new PersistedSettings('testSettings', defaults);
+    settings.update({ speed: 70 });
+    expect(new PersistedSettings('testSettings', defaults).value().speed).toBe(70);
+
+    settings.reset();
+    expect(new PersistedSettings('testSettings', defaults).value()).toEqual(defaults);
+  });
+
+  it('should normalize loaded and updated values', () => {
+    const clamp = (value: typeof defaults) => ({ ...value, speed: closest(value.speed, [70, 150]) });
+    localStorage.setItem('testSettings', JSON.stringify({ speed: 90 }));
+
+    const settings = new PersistedSettings('testSettings', defaults, clamp);
+    expect(settings.value().speed).toBe(70);
+    settings.update({ speed: 140 });
+    expect(settings.value().speed).toBe(150);
+  });
+
+  it('should survive corrupted storage', () => {
+    localStorage.setItem('testSettings', '{oops');
+    expect(new PersistedSettings('testSettings', defaults).value()).toEqual(defaults);
+  });
+});
@@ -0,0 +1,80 @@
+import { Signal, signal, WritableSignal } from '@angular/core';
+
+/** A control in a game's settings panel, bound to the setting with the same id. */
+export type SettingField =
+  | { id: string; label: string; type: 'toggle' }
+  | { id: string; label: string; type: 'select'; options: { value: number; label: string }[] }
+  | { id: string; label: string; type: 'range'; min: number; max: number; step: number };
+
+/**
+ * Settings for one game, saved to localStorage on every change. Whatever is
+ * stored is merged over the defaults, so settings added later get their
+ * default and values of the wrong type are ignored.
+ */
+export class PersistedSettings<T extends object> {
+  private readonly state: WritableSignal<T>;
+
+  constructor(
+    private readonly storageKey: string,
+    private readonly defaults: T,
+    private readonly normalize: (settings: T) => T = settings => settings
+  ) {
+    this.state = signal(this.load());
+  }
+
+  get value(): Signal<T> {
+    return this.state.asReadonly();
+  }
+
+  update(patch: Partial<T>): void {
+    this.state.set(this.normalize({ ...this.state(), ...patch }));
+    this.save();
+  }
+
+  reset(): void {
+    this.state.set(this.defaults);
+    this.save();
+  }
+
+  private load(): T {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      return this.normalize(raw ? mergeSettings(this.defaults, JSON.parse(raw)) : this.defaults);
+    } catch {
+      return this.defaults;
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.state()));
+    } catch {
+      // Settings still apply for this visit
+    }
+  }
+}
+
+/** Copies values from `stored` that match the shape of `defaults`, recursively. Arrays hold strings. */
+export function mergeSettings<T>(defaults: T, stored: unknown): T {
+  if (Array.isArray(defaults)) {
+    return (Array.isArray(stored) && stored.every(item => typeof item === 'string') ? stored : defaults) as T;
+  }
+  if (typeof defaults === 'object' && defaults !== null) {
+    if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) return defaults;
+
+    const merged = { ...defaults } as Record<string, unknown>;
+    for (const [key, value] of Object.entries(defaults)) {
+      merged[key] = mergeSettings(value, (stored as Record<string, unknown>)[key]);
+    }
+    return merged as T;
+  }
+  if (typeof defaults === 'number') {
+    return (typeof stored === 'number' && Number.isFinite(stored) ? stored : defaults) as T;
+  }
+  return (typeof stored === typeof defaults ? stored : defaults) as T;
+}
+
+/** Snaps `value` to the closest of `allowed`. */
+export function closest(value: number, allowed: number[]): number {
+  return allowed.reduce((best, option) => (Math.abs(option - value) < Math.abs(best - value) ? option : best));
+}
@@ -0,0 +1,17 @@
+import { Component, computed, inject, input } from '@angular/core';
+import { OnlineScoreService } from '../online-score-service';
+
+/** One-line status of a score's upload to the online leaderboard. */
+@Component({
+  selector: 'app-sync-status',
+  templateUrl: './sync-status.html',
+  styleUrl: './sync-status.css',
+  standalone: true
+})
+export class SyncStatus {
+  private readonly online = inject(OnlineScoreService);
+
+  readonly clientId = input.required<string>();
+
+  protected readonly status = computed(() => this.online.status(this.clientId())());
+}
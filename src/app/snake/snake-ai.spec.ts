@@ -0,0 +1,96 @@
+import { greedyStrategy, HamiltonianStrategy, safeStrategy, SNAKE_STRATEGIES } from './snake-ai';
+import { Position, SnakeEngine } from './snake-engine';
+
+describe('Snake AI', () => {
+  function corridorGame(): SnakeEngine {
+    // A dead-end corridor along the top row, with the food at the far end
+    const walls: Position[] = [2, 3, 4, 5, 6].map(x => ({ x, y: 1 }));
+    const engine = new SnakeEngine({ seed: 1, tileCount: 7, walls, start: { x: 2, y: 4 } });
+    engine.start();
+    engine.state.food.x = 6;
+    engine.state.food.y = 0;
+    return engine;
+  }
+
+  it('should take the shortest way to the food', () => {
+    const engine = new SnakeEngine({ seed: 1, tileCount: 20 });
+    engine.start();
+    engine.state.food.x = 14;
+    engine.state.food.y = 7;
+
+    const plan = greedyStrategy.plan(engine.state, engine);
+
+    expect(plan.path.length).toBe(4 + 3);
+    expect(plan.path[plan.path.length - 1]).toEqual({ x: 14, y: 7 });
+    expect(['up', 'right']).toContain(plan.direction!);
+  });
+
+  it('should go the short way round on a wrapping board', () => {
+    const engine = new SnakeEngine({ seed: 1, tileCount: 20, wrap: true });
+    engine.start();
+    engine.state.food.x = 10;
+    engine.state.food.y = 18;
+
+    const plan = safeStrategy.plan(engine.state, engine);
+
+    expect(plan.path.length).toBe(8);
+    expect(plan.direction).toBe('down');
+  });
+
+  it('should not follow the food into a dead end when there is a tail to chase', () => {
+    const engine = corridorGame();
+
+    expect(greedyStrategy.plan(engine.state, engine).path.at(-1)).toEqual({ x: 6, y: 0 });
+    expect(safeStrategy.plan(engine.state, engine).path.at(-1)).toEqual({ x: 0, y: 4 });
+  });
+
+  it('should pick the roomiest move when the food is out of reach', () => {
+    // The food is walled in on the right; above the snake is more room than below
+    const walls = [
+      { x: 3, y: 2 },
+      { x: 4, y: 1 },
+      { x: 4, y: 3 },
+      { x: 0, y: 3 },
+      { x: 1, y: 3 },
+      { x: 3, y: 3 }
+    ];
+    const engine = new SnakeEngine({ seed: 1, tileCount: 5, walls, start: { x: 2, y: 2 } });
+    engine.start();
+    engine.state.food.x = 4;
+    engine.state.food.y = 2;
+
+    expect(greedyStrategy.plan(engine.state, engine).direction).toBe('up');
+  });
+
+  it('should fill a small board with the Hamiltonian cycle', () => {
+    const strategy = new HamiltonianStrategy();
+    for (let seed = 0; seed < 3; seed++) {
+      const engine = new SnakeEngine({ seed, tileCount: 6 });
+      engine.start();
+      while (!engine.state.gameOver && engine.state.snake.length < 36) {
+        const { direction } = strategy.plan(engine.state, engine);
+        engine.tick(direction ? [direction] : []);
+      }
+      expect(engine.state.snake.length).withContext(`seed ${seed}`).toBe(36);
+    }
+  });
+
+  it('should fall back to A* where there is no cycle to follow', () => {
+    const strategy = new HamiltonianStrategy();
+    const engine = corridorGame();
+
+    expect(strategy.plan(engine.state, engine)).toEqual(safeStrategy.plan(engine.state, engine));
+  });
+
+  it('should keep every strategy eating on a full-size board', () => {
+    for (const strategy of SNAKE_STRATEGIES) {
+      const engine = new SnakeEngine({ seed: 1, tileCount: 20 });
+      engine.start();
+      while (!engine.state.gameOver && engine.state.ticks < 500) {
+        const { direction } = strategy.plan(engine.state, engine);
+        engine.tick(direction ? [direction] : []);
+      }
+      expect(engine.state.score).withContext(strategy.id).toBeGreaterThanOrEqual(50);
+    }
+  });
+});
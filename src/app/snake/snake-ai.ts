@@ -0,0 +1,289 @@
+import { Direction, DIRECTIONS, Position, SnakeState } from './snake-engine';
+
+/** The parts of the board a strategy needs besides the state itself. */
+export interface SnakeBoard {
+  tileCount: number;
+  wrap: boolean;
+}
+
+export interface SnakePlan {
+  /** Where to steer next, or null to carry straight on. */
+  direction: Direction | null;
+  /** The cells the strategy means to visit, for the debug overlay. */
+  path: Position[];
+}
+
+export interface SnakeStrategy {
+  id: string;
+  name: string;
+  plan(state: SnakeState, board: SnakeBoard): SnakePlan;
+}
+
+// Room left between a shortcut and the tail so that growing on the way can't close the gap
+const SHORTCUT_MARGIN = 3;
+
+interface Step {
+  direction: Direction;
+  position: Position;
+}
+
+/** Heads down the shortest path to the food and hopes for the best. */
+export const greedyStrategy: SnakeStrategy = {
+  id: 'greedy',
+  name: 'Greedy BFS',
+  plan(state, board) {
+    const grid = new Grid(board, state);
+    const path = grid.shortestPath(state.snake[0], state.food, grid.blockedBy(state.snake));
+    return path ? grid.follow(state.snake[0], path) : grid.survive(state.snake);
+  }
+};
+
+/**
+ * A* to the food, but only when the snake could still reach its own tail
+ * after eating; otherwise it chases its tail until the way is safe.
+ */
+export const safeStrategy: SnakeStrategy = {
+  id: 'astar',
+  name: 'A* + tail',
+  plan(state, board) {
+    const grid = new Grid(board, state);
+    const { snake, food } = state;
+    const head = snake[0];
+
+    const path = grid.aStar(head, food, grid.blockedBy(snake));
+    if (path) {
+      // Where the snake would be after following the path and growing by one
+      const after = [...path].reverse().concat(snake).slice(0, snake.length + 1);
+      if (grid.aStar(after[0], after[after.length - 1], grid.blockedBy(after))) {
+        return grid.follow(head, path);
+      }
+    }
+
+    // The tail moves away as the head follows it, as long as the head never lands right on it
+    const tailPath = grid.aStar(head, snake[snake.length - 1], grid.blockedBy(snake));
+    return tailPath && tailPath.length > 1 ? grid.follow(head, tailPath) : grid.survive(snake);
+  }
+};
+
+/**
+ * Walks a Hamiltonian cycle through every cell, so it can never trap
+ * itself, and takes shortcuts towards the food while the snake is short.
+ * There is no such cycle on boards with an odd number of cells or with
+ * walls in the way, where it plays the A* strategy instead.
+ */
+export class HamiltonianStrategy implements SnakeStrategy {
+  readonly id = 'hamiltonian';
+  readonly name = 'Hamiltonian cycle';
+
+  private cycle: { tileCount: number; order: number[] } | null = null;
+
+  plan(state: SnakeState, board: SnakeBoard): SnakePlan {
+    const { tileCount } = board;
+    if (tileCount % 2 !== 0 || state.walls.length > 0) {
+      return safeStrategy.plan(state, board);
+    }
+
+    const order = this.cycleOrder(tileCount);
+    const total = tileCount * tileCount;
+    const grid = new Grid(board, state);
+    const { snake, food } = state;
+    const head = snake[0];
+    const index = (position: Position) => order[position.y * tileCount + position.x];
+
+    const distance = (from: Position, to: Position) => (index(to) - index(from) + total) % total;
+
+    const blocked = grid.blockedBy(snake);
+    const tail = snake[snake.length - 1];
+    const shortcuts = snake.length < total / 2;
+
+    let best: Step | null = null;
+    for (const step of grid.steps(head)) {
+      if (blocked.has(grid.key(step.position))) continue;
+
+      const gain = distance(head, step.position);
+      // The next cell of the cycle is always fine; skipping ahead must not overtake the tail or the food
+      const next = gain === 1;
+      const shortcut = shortcuts && gain < distance(head, tail) - SHORTCUT_MARGIN && gain <= distance(head, food);
+      if ((next || shortcut) && (!best || gain > distance(head, best.position))) {
+        best = step;
+      }
+    }
+    if (!best) return grid.survive(snake);
+
+    // The rest of the way to the food along the cycle, for the overlay
+    const path = [best.position];
+    for (let steps = distance(best.position, food); steps > 0 && path.length < total; steps--) {
+      const last = path[path.length - 1];
+      const next = grid.steps(last).find(step => distance(last, step.position) === 1);
+      if (!next) break;
+      path.push(next.position);
+    }
+    return { direction: best.direction, path };
+  }
+
+  /** Position along the cycle of every cell, indexed by `y * tileCount + x`. */
+  private cycleOrder(tileCount: number): number[] {
+    if (this.cycle?.tileCount === tileCount) return this.cycle.order;
+
+    // Along the top row, snake down through the other columns, then back up the first one
+    const cells: Position[] = [];
+    for (let x = 0; x < tileCount; x++) cells.push({ x, y: 0 });
+    for (let y = 1; y < tileCount; y++) {
+      for (let i = 1; i < tileCount; i++) {
+        cells.push({ x: y % 2 === 1 ? tileCount - i : i, y });
+      }
+    }
+    for (let y = tileCount - 1; y > 0; y--) cells.push({ x: 0, y });
+
+    // Mirror it if need be so the middle row runs rightwards, the way a new snake sets off
+    const mirror = Math.floor(tileCount / 2) % 2 === 1;
+    const order: number[] = [];
+    cells.forEach(({ x, y }, i) => (order[y * tileCount + (mirror ? tileCount - 1 - x : x)] = i));
+    this.cycle = { tileCount, order };
+    return order;
+  }
+}
+
+export const SNAKE_STRATEGIES: SnakeStrategy[] = [greedyStrategy, safeStrategy, new HamiltonianStrategy()];
+
+/** Path finding on the Snake board, wrapping round the edges when the board does. */
+class Grid {
+  private readonly walls: Set<string>;
+
+  constructor(
+    private readonly board: SnakeBoard,
+    state: SnakeState
+  ) {
+    this.walls = new Set(state.walls.map(wall => this.key(wall)));
+  }
+
+  key({ x, y }: Position): string {
+    return `${x},${y}`;
+  }
+
+  /**
+   * Cells that are off limits: walls and the whole body. The engine checks
+   * the head against the tail before the tail moves on, so the tail counts.
+   */
+  blockedBy(snake: Position[]): Set<string> {
+    const blocked = new Set(this.walls);
+    snake.forEach(segment => blocked.add(this.key(segment)));
+    return blocked;
+  }
+
+  steps(from: Position): Step[] {
+    const { tileCount, wrap } = this.board;
+    const steps: Step[] = [];
+    for (const [direction, { x, y }] of Object.entries(DIRECTIONS) as [Direction, Position][]) {
+      let position = { x: from.x + x, y: from.y + y };
+      if (wrap) {
+        position = { x: (position.x + tileCount) % tileCount, y: (position.y + tileCount) % tileCount };
+      } else if (position.x < 0 || position.x >= tileCount || position.y < 0 || position.y >= tileCount) {
+        continue;
+      }
+      steps.push({ direction, position });
+    }
+    return steps;
+  }
+
+  /** Breadth-first search; the path excludes `from` and ends on `to`. */
+  shortestPath(from: Position, to: Position, blocked: Set<string>): Position[] | null {
+    const target = this.key(to);
+    const previous = new Map<string, Position | null>([[this.key(from), null]]);
+    const queue = [from];
+
+    for (let i = 0; i < queue.length; i++) {
+      const current = queue[i];
+      if (this.key(current) === target) return this.unwind(previous, current);
+
+      for (const { position } of this.steps(current)) {
+        const key = this.key(position);
+        if (!previous.has(key) && (!blocked.has(key) || key === target)) {
+          previous.set(key, current);
+          queue.push(position);
+        }
+      }
+    }
+    return null;
+  }
+
+  /** A* with a Manhattan distance heuristic, measured round the edges on wrapping boards. */
+  aStar(from: Position, to: Position, blocked: Set<string>): Position[] | null {
+    const target = this.key(to);
+    const previous = new Map<string, Position | null>([[this.key(from), null]]);
+    const cost = new Map([[this.key(from), 0]]);
+    const open = [{ position: from, estimate: this.distance(from, to) }];
+
+    while (open.length > 0) {
+      // The open list stays small on a Snake board, so a sorted array beats a heap
+      open.sort((a, b) => a.estimate - b.estimate);
+      const current = open.shift()!.position;
+      if (this.key(current) === target) return this.unwind(previous, current);
+
+      const currentCost = cost.get(this.key(current))! + 1;
+      for (const { position } of this.steps(current)) {
+        const key = this.key(position);
+        if ((blocked.has(key) && key !== target) || currentCost >= (cost.get(key) ?? Infinity)) continue;
+
+        cost.set(key, currentCost);
+        previous.set(key, current);
+        open.push({ position, estimate: currentCost + this.distance(position, to) });
+      }
+    }
+    return null;
+  }
+
+  /** Steers onto the first cell of `path`. */
+  follow(head: Position, path: Position[]): SnakePlan {
+    if (path.length === 0) return { direction: null, path };
+
+    const step = this.steps(head).find(({ position }) => this.key(position) === this.key(path[0]));
+    return { direction: step?.direction ?? null, path };
+  }
+
+  /** No way to the target: move to whichever free neighbour leaves the most room. */
+  survive(snake: Position[]): SnakePlan {
+    const blocked = this.blockedBy(snake);
+    let best: { step: Step; room: number } | null = null;
+    for (const step of this.steps(snake[0])) {
+      if (blocked.has(this.key(step.position))) continue;
+
+      const room = this.room(step.position, blocked);
+      if (!best || room > best.room) {
+        best = { step, room };
+      }
+    }
+    return best ? { direction: best.step.direction, path: [best.step.position] } : { direction: null, path: [] };
+  }
+
+  /** How many cells can be reached from `from`. */
+  private room(from: Position, blocked: Set<string>): number {
+    const seen = new Set([this.key(from)]);
+    const queue = [from];
+    for (let i = 0; i < queue.length; i++) {
+      for (const { position } of this.steps(queue[i])) {
+        const key = this.key(position);
+        if (!seen.has(key) && !blocked.has(key)) {
+          seen.add(key);
+          queue.push(position);
+        }
+      }
+    }
+    return seen.size;
+  }
+
+  private distance(a: Position, b: Position): number {
+    const { tileCount, wrap } = this.board;
+    const dx = Math.abs(a.x - b.x);
+    const dy = Math.abs(a.y - b.y);
+    return wrap ? Math.min(dx, tileCount - dx) + Math.min(dy, tileCount - dy) : dx + dy;
+  }
+
+  private unwind(previous: Map<string, Position | null>, end: Position): Position[] {
+    const path: Position[] = [];
+    for (let current: Position | null = end; previous.get(this.key(current)); current = previous.get(this.key(current))!) {
+      path.unshift(current);
+    }
+    return path;
+  }
+}
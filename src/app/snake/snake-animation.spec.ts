@@ -0,0 +1,38 @@
+import { interpolateSnake } from './snake-animation';
+
+describe('interpolateSnake', () => {
+  const previous = [
+    { x: 5, y: 5 },
+    { x: 4, y: 5 },
+    { x: 3, y: 5 }
+  ];
+  const current = [
+    { x: 6, y: 5 },
+    { x: 5, y: 5 },
+    { x: 4, y: 5 }
+  ];
+
+  it('slides every segment part of the way along', () => {
+    expect(interpolateSnake(previous, current, 0.25)).toEqual([
+      { x: 5.25, y: 5 },
+      { x: 4.25, y: 5 },
+      { x: 3.25, y: 5 }
+    ]);
+  });
+
+  it('starts at the previous positions and ends at the current ones', () => {
+    expect(interpolateSnake(previous, current, 0)).toEqual(previous);
+    expect(interpolateSnake(previous, current, 1)).toEqual(current);
+    expect(interpolateSnake(previous, current, 3)).toEqual(current);
+  });
+
+  it('draws a new tail segment where it is', () => {
+    const grown = [...current, { x: 3, y: 5 }];
+    expect(interpolateSnake(previous, grown, 0.5)[3]).toEqual({ x: 3, y: 5 });
+  });
+
+  it('does not slide a head across the board when it wraps around', () => {
+    const wrapped = interpolateSnake([{ x: 19, y: 5 }], [{ x: 0, y: 5 }], 0.5);
+    expect(wrapped).toEqual([{ x: 0, y: 5 }]);
+  });
+});
@@ -0,0 +1,17 @@
+import { Position } from './snake-engine';
+
+/**
+ * Where each segment of the snake is drawn `progress` (0 to 1) of the way
+ * through a tick, sliding from `previous` towards `current`. Segments that
+ * had nowhere to come from, such as the tail of a growing snake, or that
+ * jumped more than a tile, wrapping around the board, are drawn where they
+ * are now.
+ */
+export function interpolateSnake(previous: Position[], current: Position[], progress: number): Position[] {
+  const t = Math.min(1, Math.max(0, progress));
+  return current.map((segment, i) => {
+    const from = previous[i];
+    if (!from || Math.abs(segment.x - from.x) + Math.abs(segment.y - from.y) > 1) return segment;
+    return { x: from.x + (segment.x - from.x) * t, y: from.y + (segment.y - from.y) * t };
+  });
+}
@@ -0,0 +1,292 @@
+import {
+  BONUS_POINTS,
+  BONUS_TICKS,
+  bonusValue,
+  Direction,
+  EFFECT_TICKS,
+  FOOD_POINTS,
+  SnakeEngine,
+  SnakeEvent,
+  SnakeItemKind
+} from './snake-engine';
+
+describe('SnakeEngine', () => {
+  let engine: SnakeEngine;
+
+  function play(inputsPerTick: Direction[][]): SnakeEvent[] {
+    const events: SnakeEvent[] = [];
+    for (const inputs of inputsPerTick) {
+      events.push(...engine.tick(inputs).events);
+    }
+    return events;
+  }
+
+  beforeEach(() => {
+    engine = new SnakeEngine({ seed: 1, tileCount: 20 });
+    engine.start();
+  });
+
+  it('should start in the middle moving right', () => {
+    const state = engine.state;
+    expect(state.snake).toEqual([{ x: 10, y: 10 }, { x: 9, y: 10 }, { x: 8, y: 10 }]);
+    expect(state.direction).toEqual({ x: 1, y: 0 });
+    expect(state.score).toBe(0);
+  });
+
+  it('should carry on a saved game exactly as the original plays out', () => {
+    engine = new SnakeEngine({ seed: 9, tileCount: 20, wrap: true, items: true });
+    engine.start();
+    const turns: Direction[] = ['down', 'left', 'up', 'right'];
+    const moves = Array.from({ length: 200 }, (_, i) => (i % 7 === 0 ? [turns[(i / 7) % 4]] : []));
+    play(moves.slice(0, 100));
+
+    const copy = new SnakeEngine({ seed: 0, tileCount: 20, wrap: true, items: true });
+    copy.restore(JSON.parse(JSON.stringify(engine.save())));
+    play(moves.slice(100));
+    moves.slice(100).forEach(inputs => copy.tick(inputs));
+
+    expect(copy.state).toEqual(engine.state);
+    expect(copy.save()).toEqual(engine.save());
+  });
+
+  it('should move one cell per tick', () => {
+    engine.tick();
+    expect(engine.state.snake[0]).toEqual({ x: 11, y: 10 });
+    expect(engine.state.snake.length).toBe(3);
+  });
+
+  it('should ignore a turn straight back onto itself', () => {
+    engine.tick(['left']);
+    expect(engine.state.direction).toEqual({ x: 1, y: 0 });
+    expect(engine.state.gameOver).toBeFalse();
+  });
+
+  it('should keep the last valid turn buffered within one tick', () => {
+    engine.tick(['up', 'down']);
+    expect(engine.state.direction).toEqual({ x: 0, y: 1 });
+  });
+
+  it('should not let two quick turns reverse the snake', () => {
+    engine.tick(['up', 'left']);
+    expect(engine.state.direction).toEqual({ x: 0, y: -1 });
+    expect(engine.state.gameOver).toBeFalse();
+  });
+
+  it('should die when it hits a wall', () => {
+    const events = play(Array(10).fill([]));
+
+    expect(events).toContain({ type: 'died', cause: 'wall' });
+    expect(engine.state.gameOver).toBeTrue();
+    expect(engine.state.snake[0]).toEqual({ x: 19, y: 10 });
+  });
+
+  it('should die when it runs into itself', () => {
+    // Grow the snake so that a tight loop closes on its own body
+    const body = engine.state.snake;
+    body.push({ x: 7, y: 10 }, { x: 6, y: 10 });
+
+    const events = play([['down'], ['left'], ['up']]);
+
+    expect(events).toContain({ type: 'died', cause: 'self' });
+  });
+
+  it('should grow and score when it eats food', () => {
+    const state = engine.state;
+    state.food.x = 11;
+    state.food.y = 10;
+
+    const { events } = engine.tick();
+
+    expect(events).toContain({ type: 'ate', position: { x: 11, y: 10 }, points: 10 });
+    expect(events).toContain({ type: 'score', score: 10 });
+    expect(engine.state.snake.length).toBe(4);
+  });
+
+  it('should never place food on the snake', () => {
+    for (let seed = 0; seed < 100; seed++) {
+      const small = new SnakeEngine({ seed, tileCount: 4 });
+      const { snake, food } = small.start();
+      expect(snake.some(segment => segment.x === food.x && segment.y === food.y)).toBeFalse();
+    }
+  });
+
+  it('should place food the same way for the same seed', () => {
+    const foods = (seed: number) => {
+      const game = new SnakeEngine({ seed, tileCount: 20 });
+      game.start();
+      return game.state.food;
+    };
+
+    expect(foods(5)).toEqual(foods(5));
+  });
+
+  it('should ignore ticks after the game is over', () => {
+    play(Array(10).fill([]));
+    const { state, events } = engine.tick(['up']);
+    expect(events).toEqual([]);
+    expect(state.ticks).toBe(10);
+  });
+
+  it('should come back in on the other side in wrap-around games', () => {
+    engine = new SnakeEngine({ seed: 1, tileCount: 20, wrap: true });
+    engine.start();
+
+    const events = play(Array(10).fill([]));
+
+    expect(events).not.toContain({ type: 'died', cause: 'wall' });
+    expect(engine.state.snake[0]).toEqual({ x: 0, y: 10 });
+  });
+
+  it('should die when it hits a maze wall and never put food on one', () => {
+    const walls = [{ x: 12, y: 10 }];
+    engine = new SnakeEngine({ seed: 1, tileCount: 20, walls, start: { x: 5, y: 10 } });
+    engine.start();
+    expect(engine.state.snake[0]).toEqual({ x: 5, y: 10 });
+
+    const events = play(Array(7).fill([]));
+
+    expect(events).toContain({ type: 'died', cause: 'wall' });
+    expect(engine.state.snake[0]).toEqual({ x: 11, y: 10 });
+
+    // Only one free cell is left for the food once walls and snake are taken out
+    const cells = [
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 0, y: 2 },
+      { x: 1, y: 2 },
+      { x: 2, y: 2 }
+    ];
+    for (let seed = 0; seed < 20; seed++) {
+      const small = new SnakeEngine({ seed, tileCount: 3, walls: cells, start: { x: 2, y: 0 } });
+      expect(small.start().food).toEqual({ x: 2, y: 1 });
+    }
+  });
+
+  it('should speed up with every food down to the minimum', () => {
+    engine = new SnakeEngine({ seed: 1, tileCount: 20, tickMs: 100, speedUpMs: 30, minTickMs: 60 });
+    engine.start();
+
+    const speeds: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      const { snake, food } = engine.state;
+      food.x = snake[0].x + 1;
+      food.y = snake[0].y;
+      const { events } = engine.tick();
+      events.forEach(event => event.type === 'speed' && speeds.push(event.tickMs));
+    }
+
+    expect(speeds).toEqual([70, 60]);
+    expect(engine.state.tickMs).toBe(60);
+    expect(engine.state.elapsedMs).toBe(100 + 70 + 60);
+  });
+
+  it('should end with time up once the time limit has passed', () => {
+    engine = new SnakeEngine({ seed: 1, tileCount: 20, tickMs: 100, timeLimitMs: 300 });
+    engine.start();
+
+    const events = play([['down'], [], []]);
+
+    expect(events).toEqual([{ type: 'timeUp' }]);
+    expect(engine.state.gameOver).toBeTrue();
+    expect(engine.state.elapsedMs).toBe(300);
+  });
+
+  describe('items', () => {
+    function feed(times: number): SnakeEvent[] {
+      const events: SnakeEvent[] = [];
+      for (let i = 0; i < times; i++) {
+        const { snake, food } = engine.state;
+        food.x = snake[0].x;
+        food.y = snake[0].y + 1;
+        events.push(...engine.tick(['down']).events, ...engine.tick(['right']).events);
+      }
+      return events;
+    }
+
+    function placeItem(kind: SnakeItemKind): void {
+      const head = engine.state.snake[0];
+      engine.state.items.push({ kind, position: { x: head.x + 1, y: head.y }, spawnedAt: 0, expiresAt: 1000 });
+    }
+
+    beforeEach(() => {
+      engine = new SnakeEngine({ seed: 3, tileCount: 20, wrap: true, items: true });
+      engine.start();
+    });
+
+    it('should bring out bonus food every fifth food, worth less the longer it waits', () => {
+      feed(5);
+      const bonus = engine.state.items.find(item => item.kind === 'bonus')!;
+      expect(bonus).toBeDefined();
+      expect(bonus.expiresAt - bonus.spawnedAt).toBe(BONUS_TICKS);
+      expect(bonusValue(bonus, bonus.spawnedAt + 1)).toBe(BONUS_POINTS - 1);
+
+      const ticks = engine.state.ticks;
+      engine.tick();
+      engine.tick();
+      expect(bonusValue(bonus, engine.state.ticks)).toBe(BONUS_POINTS - (ticks + 2 - bonus.spawnedAt));
+    });
+
+    it('should never spawn items on the snake, the food or each other', () => {
+      for (let seed = 0; seed < 30; seed++) {
+        engine = new SnakeEngine({ seed, tileCount: 6, wrap: true, items: true });
+        engine.start();
+        feed(10);
+
+        const { snake, food, items } = engine.state;
+        const key = ({ x, y }: { x: number; y: number }) => `${x},${y}`;
+        const taken = new Set([...snake, food].map(key));
+        const itemCells = items.map(item => key(item.position));
+
+        expect(itemCells.some(cell => taken.has(cell))).withContext(`seed ${seed}`).toBeFalse();
+        expect(new Set(itemCells).size).toBe(items.length);
+      }
+    });
+
+    it('should score the bonus and double points while doubled', () => {
+      placeItem('double');
+      const { events } = engine.tick();
+      expect(events).toContain({ type: 'effect', kind: 'double', active: true });
+
+      const points = feed(1).find(event => event.type === 'ate');
+      expect(points).toEqual(jasmine.objectContaining({ points: FOOD_POINTS * 2 }));
+    });
+
+    it('should slow the snake down until the effect runs out', () => {
+      placeItem('slow');
+      engine.tick();
+      expect(engine.state.tickMs).toBe(225);
+
+      const events = play(Array(EFFECT_TICKS.slow).fill([]));
+      expect(events).toContain({ type: 'effect', kind: 'slow', active: false });
+      expect(engine.state.tickMs).toBe(150);
+    });
+
+    it('should halve the snake when it picks up shrink', () => {
+      engine.state.snake.push(...Array.from({ length: 7 }, (_, i) => ({ x: 7 - i, y: 10 })));
+      placeItem('shrink');
+
+      const { events } = engine.tick();
+
+      expect(events).toContain({ type: 'item', kind: 'shrink', position: { x: 11, y: 10 }, points: 0 });
+      expect(engine.state.snake.length).toBe(5);
+    });
+
+    it('should pass through its own body as a ghost', () => {
+      engine.state.snake.push({ x: 7, y: 10 }, { x: 6, y: 10 });
+      placeItem('ghost');
+      engine.tick();
+
+      const events = play([['down'], ['left'], ['up']]);
+
+      expect(events).not.toContain({ type: 'died', cause: 'self' });
+      expect(engine.state.gameOver).toBeFalse();
+    });
+
+    it('should leave items out unless asked for', () => {
+      engine = new SnakeEngine({ seed: 3, tileCount: 20, wrap: true });
+      engine.start();
+      feed(10);
+      expect(engine.state.items).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,452 @@
+import { SeededRandom } from '../shared/random';
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+export type SnakeItemKind = 'bonus' | 'slow' | 'shrink' | 'ghost' | 'double';
+
+/** Power-ups that last a while once picked up; shrink acts at once. */
+export type SnakeEffectKind = 'slow' | 'ghost' | 'double';
+
+export interface SnakeItem {
+  kind: SnakeItemKind;
+  position: Position;
+  spawnedAt: number;
+  /** The tick it disappears on if nobody eats it. */
+  expiresAt: number;
+}
+
+export interface SnakeEffect {
+  kind: SnakeEffectKind;
+  endsAt: number;
+}
+
+export type SnakeEvent =
+  | { type: 'ate'; position: Position; points: number }
+  | { type: 'item'; kind: SnakeItemKind; position: Position; points: number }
+  | { type: 'effect'; kind: SnakeEffectKind; active: boolean }
+  | { type: 'score'; score: number }
+  | { type: 'speed'; tickMs: number }
+  | { type: 'timeUp' }
+  | { type: 'died'; cause: 'wall' | 'self' };
+
+export interface SnakeState {
+  snake: Position[];
+  food: Position;
+  walls: Position[];
+  items: SnakeItem[];
+  effects: SnakeEffect[];
+  direction: Position;
+  score: number;
+  ticks: number;
+  /** Milliseconds per move right now; drops as the snake eats in speed-up games and rises in slow motion. */
+  tickMs: number;
+  /** Game time played, the sum of every tick's length. */
+  elapsedMs: number;
+  gameOver: boolean;
+}
+
+/** Everything that changes during a game, random number generator included; see `SnakeEngine.save`. */
+export interface SnakeSave {
+  snake: Position[];
+  food: Position;
+  items: SnakeItem[];
+  effects: SnakeEffect[];
+  foodEaten: number;
+  direction: Position;
+  nextDirection: Position;
+  score: number;
+  ticks: number;
+  tickMs: number;
+  elapsedMs: number;
+  random: number;
+}
+
+export interface SnakeTickResult {
+  state: SnakeState;
+  events: SnakeEvent[];
+}
+
+export interface SnakeEngineOptions {
+  seed: number;
+  tileCount?: number;
+  /** Leave one edge of the board and come back in at the opposite one. */
+  wrap?: boolean;
+  walls?: Position[];
+  /** Where the head starts; the body trails off to the left. Defaults to the centre. */
+  start?: Position;
+  tickMs?: number;
+  /** How much faster each food makes the snake, down to `minTickMs`. */
+  speedUpMs?: number;
+  minTickMs?: number;
+  /** Ends the game once this much game time has passed. */
+  timeLimitMs?: number;
+  /** Spawn bonus food and power-ups alongside the regular food. */
+  items?: boolean;
+}
+
+export const DIRECTIONS: Record<Direction, Position> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 }
+};
+
+// Items are timed in ticks so replays see exactly what the live game did
+export const FOOD_POINTS = 10;
+export const BONUS_POINTS = 50;
+export const BONUS_TICKS = 40;
+export const POWER_UP_TICKS = 60;
+export const EFFECT_TICKS: Record<SnakeEffectKind, number> = { slow: 50, ghost: 40, double: 60 };
+const BONUS_EVERY = 5;
+const POWER_UP_CHANCE = 0.3;
+const POWER_UPS: Exclude<SnakeItemKind, 'bonus'>[] = ['slow', 'shrink', 'ghost', 'double'];
+const SLOW_FACTOR = 1.5;
+
+/** What a bonus item is worth right now: it loses a point every tick it sits on the board. */
+export function bonusValue(item: SnakeItem, ticks: number): number {
+  return BONUS_POINTS - (ticks - item.spawnedAt);
+}
+
+/**
+ * Headless Snake rules. Each call to `tick` applies the inputs received since
+ * the previous tick, moves the snake one cell and reports what happened.
+ */
+export class SnakeEngine {
+  readonly tileCount: number;
+  readonly wrap: boolean;
+
+  private readonly options: Required<Omit<SnakeEngineOptions, 'seed' | 'start' | 'timeLimitMs'>> &
+    Pick<SnakeEngineOptions, 'start' | 'timeLimitMs'>;
+  private readonly wallSet: Set<number>;
+  private readonly random: SeededRandom;
+  private snake: Position[] = [];
+  private food: Position = { x: 0, y: 0 };
+  private items: SnakeItem[] = [];
+  private effects: SnakeEffect[] = [];
+  private foodEaten = 0;
+  private dx = 0;
+  private dy = 0;
+  private nextDx = 0;
+  private nextDy = 0;
+  private score = 0;
+  private ticks = 0;
+  private tickMs: number;
+  private elapsedMs = 0;
+  private gameOver = false;
+
+  constructor(options: SnakeEngineOptions) {
+    this.tileCount = options.tileCount ?? 20;
+    this.wrap = options.wrap ?? false;
+    this.options = {
+      tileCount: this.tileCount,
+      wrap: this.wrap,
+      walls: options.walls ?? [],
+      start: options.start,
+      tickMs: options.tickMs ?? 150,
+      speedUpMs: options.speedUpMs ?? 0,
+      minTickMs: options.minTickMs ?? 60,
+      timeLimitMs: options.timeLimitMs,
+      items: options.items ?? false
+    };
+    this.wallSet = new Set(this.options.walls.map(wall => this.cellIndex(wall)));
+    this.tickMs = this.options.tickMs;
+    this.random = new SeededRandom(options.seed);
+  }
+
+  get state(): SnakeState {
+    return {
+      snake: this.snake,
+      food: this.food,
+      walls: this.options.walls,
+      items: this.items,
+      effects: this.effects,
+      direction: { x: this.dx, y: this.dy },
+      score: this.score,
+      ticks: this.ticks,
+      tickMs: this.currentTickMs,
+      elapsedMs: this.elapsedMs,
+      gameOver: this.gameOver
+    };
+  }
+
+  start(): SnakeState {
+    const center = Math.floor(this.tileCount / 2);
+    const { x, y } = this.options.start ?? { x: center, y: center };
+
+    // Initialize snake in the middle, or wherever the level puts it
+    this.snake = [
+      { x, y },
+      { x: x - 1, y },
+      { x: x - 2, y }
+    ];
+
+    // Start moving right
+    this.dx = 1;
+    this.dy = 0;
+    this.nextDx = 1;
+    this.nextDy = 0;
+    this.score = 0;
+    this.ticks = 0;
+    this.tickMs = this.options.tickMs;
+    this.elapsedMs = 0;
+    this.items = [];
+    this.effects = [];
+    this.foodEaten = 0;
+    this.gameOver = false;
+
+    // Place first food
+    this.placeFood();
+
+    return this.state;
+  }
+
+  /**
+   * Buffers a direction change for the next tick. Turns that would reverse
+   * the snake onto itself are ignored.
+   */
+  steer(direction: Direction): void {
+    const { x, y } = DIRECTIONS[direction];
+    if ((x !== 0 && this.dx === 0) || (y !== 0 && this.dy === 0)) {
+      this.nextDx = x;
+      this.nextDy = y;
+    }
+  }
+
+  tick(inputs: Direction[] = []): SnakeTickResult {
+    const events: SnakeEvent[] = [];
+    if (this.gameOver) return { state: this.state, events };
+
+    inputs.forEach(direction => this.steer(direction));
+    this.ticks++;
+    this.elapsedMs += this.currentTickMs;
+
+    // Update direction
+    this.dx = this.nextDx;
+    this.dy = this.nextDy;
+
+    // Calculate new head position
+    let head = { x: this.snake[0].x + this.dx, y: this.snake[0].y + this.dy };
+    const offBoard = head.x < 0 || head.x >= this.tileCount || head.y < 0 || head.y >= this.tileCount;
+
+    // Check wall collision; in wrap-around games the edges are portals
+    if (offBoard && this.options.wrap) {
+      head = {
+        x: (head.x + this.tileCount) % this.tileCount,
+        y: (head.y + this.tileCount) % this.tileCount
+      };
+    }
+    if ((offBoard && !this.options.wrap) || this.isWall(head)) {
+      return this.die('wall', events);
+    }
+
+    // Check self collision; a ghost passes through its own body
+    if (this.isOnSnake(head) && !this.hasEffect('ghost')) {
+      return this.die('self', events);
+    }
+
+    // Add new head
+    this.snake.unshift(head);
+
+    // Check food collision
+    if (samePosition(head, this.food)) {
+      const points = FOOD_POINTS * this.multiplier;
+      this.score += points;
+      this.foodEaten++;
+      events.push({ type: 'ate', position: head, points });
+      events.push({ type: 'score', score: this.score });
+      this.placeFood();
+      this.speedUp(events);
+      this.spawnItem();
+    } else {
+      // Remove tail if no food eaten
+      this.snake.pop();
+    }
+
+    this.pickUpItem(head, events);
+    this.expireItems(events);
+
+    const { timeLimitMs } = this.options;
+    if (timeLimitMs !== undefined && this.elapsedMs >= timeLimitMs) {
+      this.gameOver = true;
+      events.push({ type: 'timeUp' });
+    }
+
+    return { state: this.state, events };
+  }
+
+  /** The game so far, as plain data, to pick up later with `restore`. */
+  save(): SnakeSave {
+    return structuredClone({
+      snake: this.snake,
+      food: this.food,
+      items: this.items,
+      effects: this.effects,
+      foodEaten: this.foodEaten,
+      direction: { x: this.dx, y: this.dy },
+      nextDirection: { x: this.nextDx, y: this.nextDy },
+      score: this.score,
+      ticks: this.ticks,
+      tickMs: this.tickMs,
+      elapsedMs: this.elapsedMs,
+      random: this.random.state
+    });
+  }
+
+  /**
+   * Carries on a saved game. The engine must have been made with the options
+   * the saved one had; from here it plays out exactly as that one would have.
+   */
+  restore(save: SnakeSave): SnakeState {
+    const copy = structuredClone(save);
+    this.snake = copy.snake;
+    this.food = copy.food;
+    this.items = copy.items;
+    this.effects = copy.effects;
+    this.foodEaten = copy.foodEaten;
+    this.dx = copy.direction.x;
+    this.dy = copy.direction.y;
+    this.nextDx = copy.nextDirection.x;
+    this.nextDy = copy.nextDirection.y;
+    this.score = copy.score;
+    this.ticks = copy.ticks;
+    this.tickMs = copy.tickMs;
+    this.elapsedMs = copy.elapsedMs;
+    this.random.state = copy.random;
+    this.gameOver = false;
+    return this.state;
+  }
+
+  private die(cause: 'wall' | 'self', events: SnakeEvent[]): SnakeTickResult {
+    this.gameOver = true;
+    events.push({ type: 'died', cause });
+    return { state: this.state, events };
+  }
+
+  private get currentTickMs(): number {
+    return this.hasEffect('slow') ? Math.round(this.tickMs * SLOW_FACTOR) : this.tickMs;
+  }
+
+  private get multiplier(): number {
+    return this.hasEffect('double') ? 2 : 1;
+  }
+
+  private hasEffect(kind: SnakeEffectKind): boolean {
+    return this.effects.some(effect => effect.kind === kind);
+  }
+
+  private pickUpItem(head: Position, events: SnakeEvent[]): void {
+    const item = this.items.find(candidate => samePosition(candidate.position, head));
+    if (!item) return;
+
+    this.items = this.items.filter(candidate => candidate !== item);
+    let points = 0;
+    if (item.kind === 'bonus') {
+      points = bonusValue(item, this.ticks) * this.multiplier;
+      this.score += points;
+    } else if (item.kind === 'shrink') {
+      this.snake.length = Math.max(3, Math.ceil(this.snake.length / 2));
+    } else {
+      // Picking up an effect that is already running starts its clock again
+      const active = this.hasEffect(item.kind);
+      this.effects = [
+        ...this.effects.filter(effect => effect.kind !== item.kind),
+        { kind: item.kind, endsAt: this.ticks + EFFECT_TICKS[item.kind] }
+      ];
+      if (!active) {
+        events.push({ type: 'effect', kind: item.kind, active: true });
+      }
+    }
+
+    events.push({ type: 'item', kind: item.kind, position: head, points });
+    if (points > 0) {
+      events.push({ type: 'score', score: this.score });
+    }
+  }
+
+  private expireItems(events: SnakeEvent[]): void {
+    this.items = this.items.filter(item => item.expiresAt > this.ticks);
+
+    for (const effect of this.effects.filter(effect => effect.endsAt <= this.ticks)) {
+      events.push({ type: 'effect', kind: effect.kind, active: false });
+    }
+    this.effects = this.effects.filter(effect => effect.endsAt > this.ticks);
+  }
+
+  /**
+   * Every few foods brings a bonus; otherwise there is a chance of a
+   * power-up. There is never more than one of each on the board.
+   */
+  private spawnItem(): void {
+    if (!this.options.items) return;
+
+    const hasBonus = this.items.some(item => item.kind === 'bonus');
+    const hasPowerUp = this.items.some(item => item.kind !== 'bonus');
+    if (this.foodEaten % BONUS_EVERY === 0) {
+      if (!hasBonus) {
+        this.addItem('bonus', BONUS_TICKS);
+      }
+    } else if (!hasPowerUp && this.random.next() < POWER_UP_CHANCE) {
+      this.addItem(POWER_UPS[this.random.nextInt(POWER_UPS.length)], POWER_UP_TICKS);
+    }
+  }
+
+  private addItem(kind: SnakeItemKind, lifetime: number): void {
+    const free = this.freeCells().filter(cell => !samePosition(cell, this.food));
+    if (free.length > 0) {
+      const position = free[this.random.nextInt(free.length)];
+      this.items.push({ kind, position, spawnedAt: this.ticks, expiresAt: this.ticks + lifetime });
+    }
+  }
+
+  private speedUp(events: SnakeEvent[]): void {
+    const tickMs = Math.max(this.options.minTickMs, this.tickMs - this.options.speedUpMs);
+    if (tickMs < this.tickMs) {
+      this.tickMs = tickMs;
+      events.push({ type: 'speed', tickMs });
+    }
+  }
+
+  private cellIndex({ x, y }: Position): number {
+    return y * this.tileCount + x;
+  }
+
+  private isWall(position: Position): boolean {
+    return this.wallSet.has(this.cellIndex(position));
+  }
+
+  private isOnSnake(position: Position): boolean {
+    return this.snake.some(segment => segment.x === position.x && segment.y === position.y);
+  }
+
+  /** Cells clear of the snake, walls and items. */
+  private freeCells(): Position[] {
+    const free: Position[] = [];
+    for (let y = 0; y < this.tileCount; y++) {
+      for (let x = 0; x < this.tileCount; x++) {
+        const cell = { x, y };
+        if (!this.isOnSnake(cell) && !this.isWall(cell) && !this.items.some(item => samePosition(item.position, cell))) {
+          free.push(cell);
+        }
+      }
+    }
+    return free;
+  }
+
+  private placeFood(): void {
+    const free = this.freeCells();
+
+    // A full board leaves nowhere to put food; keep the old position
+    if (free.length > 0) {
+      this.food = free[this.random.nextInt(free.length)];
+    }
+  }
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return a.x === b.x && a.y === b.y;
+}
@@ -0,0 +1,64 @@
+import { parseLevel, SNAKE_LEVELS } from './snake-levels';
+import { SNAKE_MODES, snakeEngineOptions, snakeMode } from './snake-modes';
+
+describe('parseLevel', () => {
+  it('should read the header, walls and start position', () => {
+    const level = parseLevel(
+      'tiny',
+      `
+      name: Tiny
+      wrap: true
+      #....
+      .....
+      ...S.
+      .....
+      ....#
+      `
+    );
+
+    expect(level).toEqual({
+      id: 'tiny',
+      name: 'Tiny',
+      size: 5,
+      walls: [
+        { x: 0, y: 0 },
+        { x: 4, y: 4 }
+      ],
+      start: { x: 3, y: 2 },
+      wrap: true
+    });
+  });
+
+  it('should reject maps that are not square or have no room to start', () => {
+    expect(() => parseLevel('wide', '....\n..S.\n....')).toThrowError(/row 1/);
+    expect(() => parseLevel('nostart', '...\n...\n...')).toThrowError(/no start/);
+    expect(() => parseLevel('blocked', '....\n.#S.\n....\n....')).toThrowError(/two free cells/);
+    expect(() => parseLevel('odd', '...\n.x.\n..S')).toThrowError(/unknown cell/);
+  });
+
+  it('should ship levels whose start is clear of walls', () => {
+    for (const level of SNAKE_LEVELS) {
+      const { x, y } = level.start;
+      const blocked = level.walls.some(wall => wall.y === y && wall.x >= x - 2 && wall.x <= x + 1);
+      expect(blocked).withContext(level.id).toBeFalse();
+    }
+  });
+});
+
+describe('snake modes', () => {
+  it('should fall back to classic for unknown ids', () => {
+    expect(snakeMode('nope')).toBe(SNAKE_MODES[0]);
+    expect(snakeMode('time-attack').options).toEqual({ timeLimitMs: 120000 });
+  });
+
+  it('should let a maze override the board size and wrapping', () => {
+    const tunnels = SNAKE_LEVELS.findIndex(level => level.id === 'tunnels');
+    const options = snakeEngineOptions({ tileCount: 30, tickMs: 100, level: tunnels }, 7);
+
+    expect(options.tileCount).toBe(20);
+    expect(options.wrap).toBeTrue();
+    expect(options.walls).toBe(SNAKE_LEVELS[tunnels].walls);
+    expect(options.tickMs).toBe(100);
+    expect(options.seed).toBe(7);
+  });
+});
@@ -0,0 +1,140 @@
+import { Position } from './snake-engine';
+
+/**
+ * A maze, parsed from a small text format: optional `key: value` header
+ * lines (`name`, `wrap`), then a square map where `#` is a wall, `.` is
+ * open floor and `S` is where the snake's head starts, heading right.
+ */
+export interface SnakeLevel {
+  id: string;
+  name: string;
+  size: number;
+  walls: Position[];
+  start: Position;
+  /** Whether the edges of the map lead round to the other side. */
+  wrap: boolean;
+}
+
+export function parseLevel(id: string, source: string): SnakeLevel {
+  const lines = source
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
+  const header: Record<string, string> = {};
+  while (lines.length > 0 && lines[0].includes(':')) {
+    const [key, ...value] = lines.shift()!.split(':');
+    header[key.trim()] = value.join(':').trim();
+  }
+
+  const size = lines.length;
+  const walls: Position[] = [];
+  let start: Position | null = null;
+
+  for (const [y, row] of lines.entries()) {
+    if (row.length !== size) {
+      throw new Error(`Level ${id}: row ${y + 1} is ${row.length} cells wide; the map must be ${size} × ${size}`);
+    }
+    for (const [x, cell] of [...row].entries()) {
+      if (cell === '#') {
+        walls.push({ x, y });
+      } else if (cell === 'S') {
+        start = { x, y };
+      } else if (cell !== '.') {
+        throw new Error(`Level ${id}: unknown cell "${cell}" at ${x},${y}`);
+      }
+    }
+  }
+
+  if (!start) {
+    throw new Error(`Level ${id}: no start position (S)`);
+  }
+  const { x, y } = start;
+  if (x < 2 || walls.some(wall => wall.y === y && wall.x >= x - 2 && wall.x < x)) {
+    throw new Error(`Level ${id}: the snake needs two free cells left of S`);
+  }
+
+  return { id, name: header['name'] ?? id, size, walls, start, wrap: header['wrap'] === 'true' };
+}
+
+export const SNAKE_LEVELS: SnakeLevel[] = [
+  parseLevel(
+    'box',
+    `
+    name: Box
+    ####################
+    #..................#
+    #..................#
+    #..................#
+    #..................#
+    #..................#
+    #..................#
+    #..................#
+    #..................#
+    #..................#
+    #.........S........#
+    #..................#
+    #..................#
+    #..................#
+    #..................#
+    #..................#
+    #..................#
+    #..................#
+    #..................#
+    ####################
+    `
+  ),
+  parseLevel(
+    'tunnels',
+    `
+    name: Tunnels
+    wrap: true
+    ########....########
+    #..................#
+    #..................#
+    #..................#
+    #..................#
+    #...####....####...#
+    #..................#
+    #..................#
+    ....................
+    ....................
+    ..........S.........
+    ....................
+    #..................#
+    #..................#
+    #...####....####...#
+    #..................#
+    #..................#
+    #..................#
+    #..................#
+    ########....########
+    `
+  ),
+  parseLevel(
+    'pillars',
+    `
+    name: Pillars
+    ....................
+    ....................
+    ....................
+    ....................
+    ....##........##....
+    ....##........##....
+    ....................
+    ...#............#...
+    ...#............#...
+    ...#............#...
+    ...#......S.....#...
+    ...#............#...
+    ...#............#...
+    ....................
+    ....................
+    ....##........##....
+    ....##........##....
+    ....................
+    ....................
+    ....................
+    `
+  )
+];
@@ -0,0 +1,72 @@
+import { DAILY_MODE } from '../shared/daily';
+import { SnakeEngineOptions } from './snake-engine';
+import { SNAKE_LEVELS } from './snake-levels';
+
+export interface SnakeMode {
+  id: string;
+  name: string;
+  description: string;
+  /** Replay options layered over the player's speed and grid size. */
+  options: Record<string, number>;
+}
+
+export const TIME_ATTACK_MS = 2 * 60 * 1000;
+
+export const SNAKE_MODES: SnakeMode[] = [
+  { id: 'classic', name: 'Classic', description: 'Walls are deadly', options: {} },
+  {
+    id: 'wrap',
+    name: 'Wrap-around',
+    description: 'Walls lead to the other side',
+    options: { wrap: 1 }
+  },
+  {
+    id: 'speed',
+    name: 'Speed-up',
+    description: 'Faster with every bite',
+    options: { speedUpMs: 4 }
+  },
+  {
+    id: 'time-attack',
+    name: 'Time Attack',
+    description: 'Eat all you can in 2:00',
+    options: { timeLimitMs: TIME_ATTACK_MS }
+  },
+  {
+    // Fixed settings, so everyone's board matches the shared seed
+    id: DAILY_MODE,
+    name: 'Daily Challenge',
+    description: 'Same food for everyone today',
+    options: { tileCount: 20, tickMs: 150, items: 1 }
+  },
+  ...SNAKE_LEVELS.map((level, index) => ({
+    id: `maze-${level.id}`,
+    name: `Maze: ${level.name}`,
+    description: level.wrap ? 'Find the tunnels' : 'Mind the walls',
+    options: { level: index }
+  }))
+];
+
+/** The mode with this id, or Classic for ids this version does not know. */
+export function snakeMode(id: string): SnakeMode {
+  return SNAKE_MODES.find(mode => mode.id === id) ?? SNAKE_MODES[0];
+}
+
+/**
+ * Turns the numbers stored with a replay back into engine options. Mazes
+ * bring their own board size, walls and start position.
+ */
+export function snakeEngineOptions(options: Record<string, number>, seed: number): SnakeEngineOptions {
+  const level = options['level'] === undefined ? undefined : SNAKE_LEVELS[options['level']];
+  return {
+    seed,
+    tileCount: level?.size ?? options['tileCount'],
+    wrap: level?.wrap ?? options['wrap'] === 1,
+    walls: level?.walls,
+    start: level?.start,
+    tickMs: options['tickMs'],
+    speedUpMs: options['speedUpMs'],
+    timeLimitMs: options['timeLimitMs'],
+    items: options['items'] === 1
+  };
+}
@@ -0,0 +1,211 @@
+import { AfterViewInit, Component, ElementRef, inject, OnDestroy, signal, ViewChild } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { CanvasRenderer } from '../../shared/canvas-renderer';
+import { GameCommand, GameInput, GAMEPAD_DOWN, GAMEPAD_LEFT, GAMEPAD_RIGHT, GAMEPAD_UP, InputBindings } from '../../shared/input';
+import { keyBindings } from '../../shared/key-bindings';
+import { ServerMessage } from '../../shared/multiplayer-protocol';
+import { MultiplayerService } from '../../shared/multiplayer-service';
+import { OnlineLobby } from '../../shared/online-lobby/online-lobby';
+import { PersistedSettings } from '../../shared/settings';
+import { Direction, DIRECTIONS } from '../snake-engine';
+import { DEFAULT_SNAKE_SETTINGS, normalizeSnakeSettings, SNAKE_SETTINGS_KEY, SnakeAction } from '../snake-settings';
+import { isSnakeSnapshot, SnakeSnapshot } from '../snake-snapshot';
+import { drawRoundResult, drawVersusBoard } from '../snake-versus-canvas';
+import { SnakeVersusEngine } from '../snake-versus-engine';
+
+type Phase = 'lobby' | 'playing' | 'over';
+
+const GAMEPAD_BUTTONS: InputBindings<SnakeAction>['buttons'] = {
+  [GAMEPAD_UP]: 'up',
+  [GAMEPAD_DOWN]: 'down',
+  [GAMEPAD_LEFT]: 'left',
+  [GAMEPAD_RIGHT]: 'right'
+};
+
+const isDirection = (input: string): input is Direction => input in DIRECTIONS;
+
+/**
+ * Snake against someone in another browser, through the multiplayer relay.
+ * Two snakes moving at once can't be settled on both sides separately, so
+ * the host runs the only game, applies the guest's turns as they arrive and
+ * sends the board back after every tick.
+ */
+@Component({
+  selector: 'app-snake-online',
+  imports: [OnlineLobby, RouterLink],
+  templateUrl: './snake-online.html',
+  styleUrl: './snake-online.css',
+  standalone: true
+})
+export class SnakeOnline implements AfterViewInit, OnDestroy {
+  @ViewChild('gameCanvas', { static: false }) canvasRef!: ElementRef<HTMLCanvasElement>;
+
+  private readonly multiplayer = inject(MultiplayerService);
+  // The host's board size, speed and grid lines are used for the game
+  private readonly settings = new PersistedSettings(SNAKE_SETTINGS_KEY, DEFAULT_SNAKE_SETTINGS, normalizeSnakeSettings);
+  private readonly input = new GameInput<SnakeAction>(
+    { keys: keyBindings(this.settings.value().keys), buttons: GAMEPAD_BUTTONS },
+    command => this.handleInput(command)
+  );
+
+  private readonly boardSize = 400;
+  private renderer!: CanvasRenderer;
+  private ctx!: CanvasRenderingContext2D;
+  private tileCount = 20;
+  /** Only the host has an engine. */
+  private engine: SnakeVersusEngine | null = null;
+  private view: SnakeSnapshot | null = null;
+  private gameLoop: ReturnType<typeof setTimeout> | undefined;
+  private stopListening = () => {};
+
+  // Signals for UI
+  protected readonly phase = signal<Phase>('lobby');
+  /** This browser's seat; 0 is the host and the solid snake. */
+  protected readonly player = signal(0);
+  protected readonly scores = signal([0, 0]);
+  protected readonly wins = signal([0, 0]);
+  protected readonly roundWinner = signal<number | null>(null);
+  protected readonly forfeit = signal(false);
+
+  ngAfterViewInit(): void {
+    this.renderer = new CanvasRenderer(this.canvasRef.nativeElement, this.boardSize, this.boardSize);
+    this.renderer.attach();
+    this.ctx = this.renderer.ctx;
+    this.input.attach();
+    this.stopListening = this.multiplayer.onMessage(message => this.receive(message));
+    this.resize(this.settings.value().tileCount);
+    this.draw();
+  }
+
+  ngOnDestroy(): void {
+    this.input.detach();
+    this.renderer?.detach();
+    this.stopListening();
+    clearTimeout(this.gameLoop);
+    if (this.multiplayer.room()) {
+      this.multiplayer.leave();
+    }
+  }
+
+  private handleInput({ action, pressed }: GameCommand<SnakeAction>): void {
+    if (!pressed || this.phase() !== 'playing' || !isDirection(action)) return;
+
+    if (this.engine) {
+      this.engine.steer(0, action);
+    } else {
+      this.multiplayer.send({ type: 'input', tick: this.view?.ticks ?? 0, input: action });
+    }
+  }
+
+  private receive(message: ServerMessage): void {
+    switch (message.type) {
+      case 'start':
+        this.startRound(message.seed);
+        break;
+      case 'input':
+        if (this.engine && this.phase() === 'playing' && isDirection(message.input)) {
+          this.engine.steer(message.player, message.input);
+        }
+        break;
+      case 'state':
+        // A board that would not draw is dropped; the next tick sends another
+        if (!this.engine && message.player === 0 && isSnakeSnapshot(message.state)) {
+          this.show(message.state);
+        }
+        break;
+      case 'peerLeft':
+        if (this.phase() === 'playing') {
+          this.forfeit.set(true);
+          this.endRound(this.player());
+        }
+        break;
+    }
+  }
+
+  private startRound(seed: number): void {
+    clearTimeout(this.gameLoop);
+    this.player.set(this.multiplayer.room()?.player ?? 0);
+    this.roundWinner.set(null);
+    this.forfeit.set(false);
+    this.phase.set('playing');
+
+    if (this.player() === 0) {
+      const { tileCount, tickMs } = this.settings.value();
+      this.engine = new SnakeVersusEngine({ seed, tileCount, tickMs });
+      this.engine.start();
+      this.show(this.snapshot(this.engine));
+      this.gameLoop = setTimeout(this.update, this.engine.tickMs);
+    } else {
+      // The guest waits for the host's first board
+      this.engine = null;
+      this.view = null;
+    }
+  }
+
+  private update = (): void => {
+    if (!this.engine || this.phase() !== 'playing') return;
+
+    this.engine.tick();
+    const snapshot = this.snapshot(this.engine);
+    this.multiplayer.send({ type: 'state', state: snapshot });
+    this.show(snapshot);
+    if (!snapshot.roundOver) {
+      this.gameLoop = setTimeout(this.update, this.engine.tickMs);
+    }
+  };
+
+  private snapshot(engine: SnakeVersusEngine): SnakeSnapshot {
+    const { snakes, food, ticks, roundOver, winner } = engine.state;
+    return { snakes, food, ticks, roundOver, winner, tileCount: engine.tileCount };
+  }
+
+  private show(snapshot: SnakeSnapshot): void {
+    if (this.phase() !== 'playing') return;
+    if (snapshot.tileCount !== this.tileCount) {
+      this.resize(snapshot.tileCount);
+    }
+    this.view = snapshot;
+    this.scores.set(snapshot.snakes.map(snake => snake.score));
+    this.draw();
+
+    if (snapshot.roundOver) {
+      this.endRound(snapshot.winner);
+    }
+  }
+
+  private endRound(winner: number | null): void {
+    clearTimeout(this.gameLoop);
+    this.engine = null;
+    this.roundWinner.set(winner);
+    if (winner !== null) {
+      this.wins.update(wins => wins.map((count, player) => (player === winner ? count + 1 : count)));
+    }
+    this.phase.set('over');
+
+    const title = winner === null ? 'DRAW' : winner === this.player() ? 'YOU WIN' : 'YOU LOSE';
+    drawRoundResult(this.ctx, this.canvasSize, title, `${this.wins()[0]} - ${this.wins()[1]}`);
+  }
+
+  private resize(tileCount: number): void {
+    this.tileCount = tileCount;
+    this.renderer.resize(this.canvasSize, this.canvasSize);
+  }
+
+  private get gridSize(): number {
+    return Math.floor(this.boardSize / this.tileCount);
+  }
+
+  private get canvasSize(): number {
+    return this.gridSize * this.tileCount;
+  }
+
+  private draw(): void {
+    const snakes = this.view?.snakes ?? [];
+    const food = this.view?.food ?? { x: -1, y: -1 };
+    drawVersusBoard(this.ctx, { snakes, food }, {
+      tileCount: this.tileCount,
+      gridSize: this.gridSize,
+      gridLines: this.settings.value().gridLines
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import { decodeReplay, encodeReplay, ReplayRecorder } from '../shared/replay';
+import { SeededRandom } from '../shared/random';
+import { Direction, SnakeEngine } from './snake-engine';
+import { snakeDailyMarks, SnakeReplayPlayer } from './snake-replay';
+
+describe('SnakeReplayPlayer', () => {
+  const directions: Direction[] = ['up', 'down', 'left', 'right'];
+
+  function playLiveGame(seed: number) {
+    const options = { tileCount: 12 };
+    const engine = new SnakeEngine({ ...options, seed });
+    const recorder = new ReplayRecorder('snake', seed, options);
+    const random = new SeededRandom(seed);
+
+    engine.start();
+    while (!engine.state.gameOver) {
+      // Head for the food, with the odd random turn thrown in
+      const { snake, food } = engine.state;
+      const inputs: Direction[] = [food.x < snake[0].x ? 'left' : 'right', food.y < snake[0].y ? 'up' : 'down'];
+      while (random.next() < 0.3) {
+        inputs.push(directions[random.nextInt(directions.length)]);
+      }
+      inputs.forEach(direction => recorder.record(engine.state.ticks, direction));
+      engine.tick(inputs);
+    }
+
+    return { engine, replay: recorder.finish(engine.state.ticks, { score: engine.state.score }) };
+  }
+
+  it('should reproduce the final score of a live game', () => {
+    for (const seed of [4, 5, 6]) {
+      const { engine, replay } = playLiveGame(seed);
+      const player = new SnakeReplayPlayer(decodeReplay(encodeReplay(replay))!);
+
+      player.seek(replay.length);
+
+      expect(replay.final.score).toBeGreaterThan(0);
+      expect(player.engine.state.gameOver).toBeTrue();
+      expect(player.engine.state.score).toBe(replay.final.score);
+      expect(player.engine.state.snake).toEqual(engine.state.snake);
+    }
+  });
+
+  it('should rewind when seeking backwards', () => {
+    const { replay } = playLiveGame(7);
+    const player = new SnakeReplayPlayer(replay);
+
+    player.seek(replay.length);
+    player.seek(1);
+
+    expect(player.engine.state.ticks).toBe(1);
+    expect(player.engine.state.gameOver).toBeFalse();
+  });
+
+  it('should mark the food eaten and the death for the daily share card', () => {
+    const { engine, replay } = playLiveGame(4);
+    const marks = snakeDailyMarks(replay);
+
+    expect(marks.filter(mark => mark === '🟩').length).toBe(engine.save().foodEaten);
+    expect(marks[marks.length - 1]).toBe('💀');
+  });
+});
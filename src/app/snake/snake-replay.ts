@@ -0,0 +1,54 @@
+import { Replay } from '../shared/replay';
+import { Direction, DIRECTIONS, SnakeEngine, SnakeEvent } from './snake-engine';
+import { snakeEngineOptions } from './snake-modes';
+
+// Daily challenge share cards show what was eaten and how the game ended
+const DAILY_MARKS: Partial<Record<SnakeEvent['type'], string>> = { ate: '🟩', item: '⭐', died: '💀', timeUp: '⏱️' };
+
+/**
+ * Replays a recorded Snake game tick by tick. Inputs stamped with tick N are
+ * fed into the engine's (N + 1)th tick, the same batch the live game sent.
+ */
+export class SnakeReplayPlayer {
+  engine!: SnakeEngine;
+
+  private nextInput = 0;
+
+  constructor(readonly replay: Replay) {
+    this.reset();
+  }
+
+  /** Moves to `target`, re-simulating from the start when seeking backwards. */
+  seek(target: number): SnakeEvent[] {
+    if (target < this.engine.state.ticks) {
+      this.reset();
+    }
+
+    const events: SnakeEvent[] = [];
+    const inputs = this.replay.inputs;
+    while (this.engine.state.ticks < target && !this.engine.state.gameOver) {
+      const ticks = this.engine.state.ticks;
+      const batch: Direction[] = [];
+      while (this.nextInput < inputs.length && inputs[this.nextInput][0] <= ticks) {
+        const input = inputs[this.nextInput][1];
+        if (input in DIRECTIONS) {
+          batch.push(input as Direction);
+        }
+        this.nextInput++;
+      }
+      events.push(...this.engine.tick(batch).events);
+    }
+    return events;
+  }
+
+  private reset(): void {
+    this.engine = new SnakeEngine(snakeEngineOptions(this.replay.options, this.replay.seed));
+    this.engine.start();
+    this.nextInput = 0;
+  }
+}
+
+/** Share card marks for a finished game, worked out from its replay so saved and continued games count in full. */
+export function snakeDailyMarks(replay: Replay): string[] {
+  return new SnakeReplayPlayer(replay).seek(replay.length).flatMap(event => DAILY_MARKS[event.type] ?? []);
+}
@@ -0,0 +1,115 @@
+import { ActionInfo, KeyMap } from '../shared/key-bindings';
+import { closest, SettingField } from '../shared/settings';
+import { SNAKE_STRATEGIES } from './snake-ai';
+import { Direction } from './snake-engine';
+import { snakeMode } from './snake-modes';
+
+export type SnakeAction = Direction | 'select' | 'back' | 'pause' | 'autopilot';
+
+export interface SnakeSettings {
+  keys: KeyMap<SnakeAction>;
+  /** Id of the mode last picked on the welcome screen. */
+  mode: string;
+  /** Milliseconds per move. */
+  tickMs: number;
+  tileCount: number;
+  gridLines: boolean;
+  /** Bonus food and power-ups. */
+  items: boolean;
+  /** Index into `SNAKE_STRATEGIES` for the autopilot and attract mode. */
+  aiStrategy: number;
+  /** Draw the path the AI is planning. */
+  aiPath: boolean;
+  /** 0 to 1. */
+  volume: number;
+}
+
+export const SNAKE_SETTINGS_KEY = 'snakeSettings';
+
+export const SNAKE_ACTIONS: ActionInfo<SnakeAction>[] = [
+  { id: 'up', label: 'Up' },
+  { id: 'down', label: 'Down' },
+  { id: 'left', label: 'Left' },
+  { id: 'right', label: 'Right' },
+  { id: 'select', label: 'Start / Restart' },
+  { id: 'back', label: 'Modes / Exit Replay' },
+  { id: 'pause', label: 'Pause / Continue' },
+  { id: 'autopilot', label: 'Autopilot' }
+];
+
+const SPEEDS = [
+  { value: 200, label: 'Slow' },
+  { value: 150, label: 'Classic' },
+  { value: 100, label: 'Fast' },
+  { value: 70, label: 'Turbo' }
+];
+/** The board sizes a game of Snake is played on, in tiles a side. */
+export const SNAKE_GRID_SIZES = [15, 20, 25, 30];
+
+export const DEFAULT_SNAKE_SETTINGS: SnakeSettings = {
+  keys: {
+    up: ['ArrowUp'],
+    down: ['ArrowDown'],
+    left: ['ArrowLeft'],
+    right: ['ArrowRight'],
+    select: [' '],
+    back: ['Escape'],
+    pause: ['p'],
+    autopilot: ['a']
+  },
+  mode: 'classic',
+  tickMs: 150,
+  tileCount: 20,
+  gridLines: true,
+  items: true,
+  aiStrategy: 1,
+  aiPath: false,
+  volume: 0.8
+};
+
+/** Fixed keys for two players sharing a keyboard in versus games. */
+export const SNAKE_VERSUS_KEYS: KeyMap<SnakeAction>[] = [
+  { up: ['w'], down: ['s'], left: ['a'], right: ['d'], select: [' '], back: ['Escape'], pause: [], autopilot: [] },
+  {
+    up: ['ArrowUp'],
+    down: ['ArrowDown'],
+    left: ['ArrowLeft'],
+    right: ['ArrowRight'],
+    select: ['Enter'],
+    back: [],
+    pause: [],
+    autopilot: []
+  }
+];
+
+export const SNAKE_SETTING_FIELDS: SettingField[] = [
+  { id: 'tickMs', label: 'Speed', type: 'select', options: SPEEDS },
+  {
+    id: 'tileCount',
+    label: 'Grid size',
+    type: 'select',
+    options: SNAKE_GRID_SIZES.map(size => ({ value: size, label: `${size} × ${size}` }))
+  },
+  { id: 'gridLines', label: 'Grid lines', type: 'toggle' },
+  { id: 'items', label: 'Bonus items', type: 'toggle' },
+  {
+    id: 'aiStrategy',
+    label: 'Autopilot',
+    type: 'select',
+    options: SNAKE_STRATEGIES.map((strategy, index) => ({ value: index, label: strategy.name }))
+  },
+  { id: 'aiPath', label: 'Show AI path', type: 'toggle' },
+  { id: 'volume', label: 'Game Volume', type: 'range', min: 0, max: 1, step: 0.1 }
+];
+
+/** Keeps stored values to the choices the panel offers. */
+export function normalizeSnakeSettings(settings: SnakeSettings): SnakeSettings {
+  return {
+    ...settings,
+    mode: snakeMode(settings.mode).id,
+    tickMs: closest(settings.tickMs, SPEEDS.map(speed => speed.value)),
+    tileCount: closest(settings.tileCount, SNAKE_GRID_SIZES),
+    aiStrategy: closest(settings.aiStrategy, SNAKE_STRATEGIES.map((_, index) => index)),
+    volume: Math.min(1, Math.max(0, settings.volume))
+  };
+}
@@ -0,0 +1,39 @@
+import { isSnakeSnapshot } from './snake-snapshot';
+import { SnakeVersusEngine } from './snake-versus-engine';
+
+describe('isSnakeSnapshot', () => {
+  const engine = new SnakeVersusEngine({ seed: 3, tileCount: 20 });
+  engine.start();
+  engine.tick();
+  // Sent through the relay as JSON, as the online game does
+  const snapshot = JSON.parse(JSON.stringify({ ...engine.state, tileCount: engine.tileCount }));
+  const changed = (change: Record<string, unknown>) => ({ ...snapshot, ...change });
+  const withSnake = (change: Record<string, unknown>) =>
+    changed({ snakes: [{ ...snapshot.snakes[0], ...change }, snapshot.snakes[1]] });
+
+  it('should accept the board the host sends', () => {
+    expect(isSnakeSnapshot(snapshot)).toBeTrue();
+    expect(isSnakeSnapshot(changed({ roundOver: true, winner: 1 }))).toBeTrue();
+  });
+
+  it('should reject grid sizes the settings do not offer', () => {
+    expect(isSnakeSnapshot(changed({ tileCount: 0 }))).toBeFalse();
+    expect(isSnakeSnapshot(changed({ tileCount: 1e6 }))).toBeFalse();
+    expect(isSnakeSnapshot(changed({ tileCount: '20' }))).toBeFalse();
+  });
+
+  it('should reject snakes and food off the board', () => {
+    expect(isSnakeSnapshot(withSnake({ body: [{ x: 20, y: 0 }] }))).toBeFalse();
+    expect(isSnakeSnapshot(withSnake({ body: [] }))).toBeFalse();
+    expect(isSnakeSnapshot(withSnake({ direction: { x: 1, y: 1 } }))).toBeFalse();
+    expect(isSnakeSnapshot(changed({ snakes: [snapshot.snakes[0]] }))).toBeFalse();
+    expect(isSnakeSnapshot(changed({ food: { x: -1, y: 0 } }))).toBeFalse();
+  });
+
+  it('should reject anything else', () => {
+    expect(isSnakeSnapshot(null)).toBeFalse();
+    expect(isSnakeSnapshot([])).toBeFalse();
+    expect(isSnakeSnapshot(changed({ winner: 2 }))).toBeFalse();
+    expect(isSnakeSnapshot(changed({ ticks: 'soon' }))).toBeFalse();
+  });
+});
@@ -0,0 +1,60 @@
+import { MAX_PLAYERS } from '../shared/multiplayer-protocol';
+import { Position } from './snake-engine';
+import { SNAKE_GRID_SIZES } from './snake-settings';
+import { SnakeVersusState } from './snake-versus-engine';
+
+/** The host's board as it sends it to the guest after every tick. */
+export type SnakeSnapshot = Pick<SnakeVersusState, 'snakes' | 'food' | 'ticks' | 'roundOver' | 'winner'> & {
+  tileCount: number;
+};
+
+/**
+ * Whether `value`, as relayed from the host, is a board the guest can size
+ * its canvas to and draw: a grid size the settings offer, with both snakes
+ * and the food on it. The relay passes on whatever a peer sends, so anything
+ * else is dropped.
+ */
+export function isSnakeSnapshot(value: unknown): value is SnakeSnapshot {
+  if (typeof value !== 'object' || value === null) return false;
+  const { snakes, food, ticks, roundOver, winner, tileCount } = value as Record<string, unknown>;
+  if (typeof tileCount !== 'number' || !SNAKE_GRID_SIZES.includes(tileCount)) return false;
+
+  const onBoard = (position: unknown) => {
+    if (typeof position !== 'object' || position === null) return false;
+    const { x, y } = position as Record<string, unknown>;
+    return isInRange(x, 0, tileCount - 1) && isInRange(y, 0, tileCount - 1);
+  };
+  const isSnake = (snake: unknown) => {
+    if (typeof snake !== 'object' || snake === null) return false;
+    const { body, direction, score, alive } = snake as Record<string, unknown>;
+    return (
+      Array.isArray(body) &&
+      body.length > 0 &&
+      body.length <= tileCount * tileCount &&
+      body.every(onBoard) &&
+      isDirection(direction) &&
+      isInRange(score, 0, Number.MAX_SAFE_INTEGER) &&
+      typeof alive === 'boolean'
+    );
+  };
+
+  return (
+    Array.isArray(snakes) &&
+    snakes.length === MAX_PLAYERS &&
+    snakes.every(isSnake) &&
+    onBoard(food) &&
+    isInRange(ticks, 0, Number.MAX_SAFE_INTEGER) &&
+    typeof roundOver === 'boolean' &&
+    (winner === null || isInRange(winner, 0, MAX_PLAYERS - 1))
+  );
+}
+
+function isDirection(value: unknown): value is Position {
+  if (typeof value !== 'object' || value === null) return false;
+  const { x, y } = value as Record<string, unknown>;
+  return isInRange(x, -1, 1) && isInRange(y, -1, 1) && Math.abs(x as number) + Math.abs(y as number) === 1;
+}
+
+function isInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
@@ -0,0 +1,26 @@
+import { SnakeItemKind } from './snake-engine';
+
+// The Nokia screen only has two shades of ink on its green background
+export const NOKIA_INK = '#0f380f';
+export const NOKIA_INK_LIGHT = '#306230';
+
+/** 5 × 5 pixel art for each item; `#` is a lit pixel. */
+export const ITEM_SPRITES: Record<SnakeItemKind, string[]> = {
+  bonus: ['..#..', '.###.', '##.##', '.###.', '..#..'],
+  slow: ['#####', '.#.#.', '..#..', '.###.', '#####'],
+  shrink: ['#...#', '.#.#.', '.....', '.#.#.', '#...#'],
+  ghost: ['.###.', '#.#.#', '#####', '#####', '#.#.#'],
+  double: ['####.', '....#', '.###.', '#....', '#####']
+};
+
+/** Draws a sprite filling the cell at `x`, `y` (in pixels) of the given size. */
+export function drawSprite(ctx: CanvasRenderingContext2D, sprite: string[], x: number, y: number, size: number): void {
+  const pixel = size / sprite.length;
+  sprite.forEach((row, py) => {
+    [...row].forEach((cell, px) => {
+      if (cell === '#') {
+        ctx.fillRect(x + px * pixel, y + py * pixel, Math.ceil(pixel), Math.ceil(pixel));
+      }
+    });
+  });
+}
@@ -0,0 +1,72 @@
+import { NOKIA_INK } from './snake-sprites';
+import { SnakeVersusState } from './snake-versus-engine';
+
+export interface VersusBoardStyle {
+  tileCount: number;
+  /** Pixels per tile. */
+  gridSize: number;
+  gridLines: boolean;
+}
+
+/** Draws both snakes and the food on the Nokia-green board. */
+export function drawVersusBoard(
+  ctx: CanvasRenderingContext2D,
+  { snakes, food }: Pick<SnakeVersusState, 'snakes' | 'food'>,
+  style: VersusBoardStyle
+): void {
+  const size = style.gridSize;
+  const boardSize = size * style.tileCount;
+  ctx.fillStyle = '#9cb83c';
+  ctx.fillRect(0, 0, boardSize, boardSize);
+
+  if (style.gridLines) {
+    ctx.strokeStyle = '#8ba83a';
+    ctx.lineWidth = 1;
+    for (let i = 0; i <= style.tileCount; i++) {
+      ctx.beginPath();
+      ctx.moveTo(i * size, 0);
+      ctx.lineTo(i * size, boardSize);
+      ctx.moveTo(0, i * size);
+      ctx.lineTo(boardSize, i * size);
+      ctx.stroke();
+    }
+  }
+
+  // Player 1 is solid, player 2 hollow, so they stay apart on a one-colour screen
+  const padding = 2;
+  snakes.forEach((snake, player) => {
+    snake.body.forEach((segment, index) => {
+      const x = segment.x * size + padding;
+      const y = segment.y * size + padding;
+      const inner = size - padding * 2;
+      if (index === 0 || player === 0) {
+        ctx.fillStyle = index === 0 ? '#000000' : NOKIA_INK;
+        ctx.fillRect(x, y, inner, inner);
+      } else {
+        ctx.strokeStyle = NOKIA_INK;
+        ctx.lineWidth = 2;
+        ctx.strokeRect(x + 1, y + 1, inner - 2, inner - 2);
+      }
+    });
+  });
+
+  // Draw food (blinking effect)
+  if (Math.floor(Date.now() / 300) % 2 === 0) {
+    const foodPadding = 4;
+    ctx.fillStyle = NOKIA_INK;
+    ctx.fillRect(food.x * size + foodPadding, food.y * size + foodPadding, size - foodPadding * 2, size - foodPadding * 2);
+  }
+}
+
+/** Darkens the board and writes the outcome of a round over it. */
+export function drawRoundResult(ctx: CanvasRenderingContext2D, boardSize: number, title: string, detail: string): void {
+  const center = boardSize / 2;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillRect(0, 0, boardSize, boardSize);
+  ctx.fillStyle = '#9cb83c';
+  ctx.font = 'bold 28px monospace';
+  ctx.textAlign = 'center';
+  ctx.fillText(title, center, center - 10);
+  ctx.font = '16px monospace';
+  ctx.fillText(detail, center, center + 20);
+}
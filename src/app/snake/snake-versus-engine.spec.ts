@@ -0,0 +1,79 @@
+import { FOOD_POINTS } from './snake-engine';
+import { SnakeVersusEngine, SnakeVersusEvent } from './snake-versus-engine';
+
+describe('SnakeVersusEngine', () => {
+  let engine: SnakeVersusEngine;
+
+  function run(ticks: number): SnakeVersusEvent[] {
+    const events: SnakeVersusEvent[] = [];
+    for (let i = 0; i < ticks; i++) {
+      events.push(...engine.tick().events);
+    }
+    return events;
+  }
+
+  beforeEach(() => {
+    engine = new SnakeVersusEngine({ seed: 1, tileCount: 12 });
+    engine.start();
+  });
+
+  it('should start the snakes at opposite sides heading towards each other', () => {
+    const [one, two] = engine.state.snakes;
+    expect(one.body[0]).toEqual({ x: 3, y: 4 });
+    expect(one.direction).toEqual({ x: 1, y: 0 });
+    expect(two.body[0]).toEqual({ x: 8, y: 7 });
+    expect(two.direction).toEqual({ x: -1, y: 0 });
+  });
+
+  it('should give the round to the snake left standing', () => {
+    engine.steer(0, 'up');
+    const events = run(5);
+
+    expect(events).toContain({ type: 'died', player: 0, cause: 'wall' });
+    expect(events).toContain({ type: 'roundOver', winner: 1 });
+    expect(engine.state.roundOver).toBeTrue();
+    expect(engine.state.snakes[1].alive).toBeTrue();
+  });
+
+  it('should end a snake that runs into the other one', () => {
+    // Park player 2 across player 1's path
+    engine.state.snakes[1].body.splice(0, 3, { x: 5, y: 5 }, { x: 5, y: 4 }, { x: 5, y: 3 });
+    engine.state.snakes[1].direction.y = 0;
+    engine.steer(1, 'down');
+
+    const events = run(2);
+    expect(events).toContain({ type: 'died', player: 0, cause: 'snake' });
+    expect(engine.state.winner).toBe(1);
+  });
+
+  it('should call it a draw when the heads meet', () => {
+    engine.state.snakes[1].body.forEach(segment => {
+      segment.x++;
+      segment.y = 4;
+    });
+
+    const events = run(3);
+    expect(events.filter(event => event.type === 'died')).toEqual([
+      { type: 'died', player: 0, cause: 'headOn' },
+      { type: 'died', player: 1, cause: 'headOn' }
+    ]);
+    expect(events).toContain({ type: 'roundOver', winner: null });
+  });
+
+  it('should let either snake eat and grow', () => {
+    engine.state.food.x = 9;
+    engine.state.food.y = 4;
+
+    const events = run(6);
+    expect(events).toContain({ type: 'ate', player: 0, position: { x: 9, y: 4 }, points: FOOD_POINTS });
+    expect(engine.state.snakes[0].score).toBe(FOOD_POINTS);
+    expect(engine.state.snakes[0].body.length).toBe(4);
+    expect(engine.state.food).not.toEqual({ x: 9, y: 4 });
+  });
+
+  it('should stop once the round is over', () => {
+    engine.steer(0, 'up');
+    run(5);
+    expect(engine.tick().events).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+import { SeededRandom } from '../shared/random';
+import { Direction, DIRECTIONS, FOOD_POINTS, Position } from './snake-engine';
+
+export type SnakeDeath = 'wall' | 'self' | 'snake' | 'headOn';
+
+export type SnakeVersusEvent =
+  | { type: 'ate'; player: number; position: Position; points: number }
+  | { type: 'died'; player: number; cause: SnakeDeath }
+  | { type: 'roundOver'; winner: number | null };
+
+export interface VersusSnake {
+  body: Position[];
+  direction: Position;
+  score: number;
+  alive: boolean;
+}
+
+export interface SnakeVersusState {
+  snakes: VersusSnake[];
+  food: Position;
+  ticks: number;
+  roundOver: boolean;
+  /** The surviving player once the round is over; null for a draw. */
+  winner: number | null;
+}
+
+export interface SnakeVersusOptions {
+  seed: number;
+  tileCount?: number;
+  tickMs?: number;
+}
+
+/**
+ * Headless rules for two snakes sharing one board. Both move at once each
+ * tick. Running into a wall, either body or the other head ends that snake;
+ * the round ends as soon as one of them is out, and the other one wins it.
+ */
+export class SnakeVersusEngine {
+  readonly tileCount: number;
+  readonly tickMs: number;
+
+  private readonly random: SeededRandom;
+  private snakes: VersusSnake[] = [];
+  private nextDirections: Position[] = [];
+  private food: Position = { x: 0, y: 0 };
+  private ticks = 0;
+  private roundOver = false;
+  private winner: number | null = null;
+
+  constructor(options: SnakeVersusOptions) {
+    this.tileCount = options.tileCount ?? 20;
+    this.tickMs = options.tickMs ?? 150;
+    this.random = new SeededRandom(options.seed);
+  }
+
+  get state(): SnakeVersusState {
+    return {
+      snakes: this.snakes,
+      food: this.food,
+      ticks: this.ticks,
+      roundOver: this.roundOver,
+      winner: this.winner
+    };
+  }
+
+  /** Starts a round: player 1 on the left heading right, player 2 on the right heading left. */
+  start(): SnakeVersusState {
+    const near = 3;
+    const far = this.tileCount - 1 - near;
+    const top = Math.floor(this.tileCount / 3);
+    const bottom = this.tileCount - 1 - top;
+
+    this.snakes = [
+      { body: [{ x: near, y: top }, { x: near - 1, y: top }, { x: near - 2, y: top }], direction: DIRECTIONS.right },
+      { body: [{ x: far, y: bottom }, { x: far + 1, y: bottom }, { x: far + 2, y: bottom }], direction: DIRECTIONS.left }
+    ].map(snake => ({ ...snake, score: 0, alive: true }));
+    this.nextDirections = this.snakes.map(snake => snake.direction);
+    this.ticks = 0;
+    this.roundOver = false;
+    this.winner = null;
+    this.placeFood();
+    return this.state;
+  }
+
+  /** Buffers a turn for `player`'s next move; reversing onto itself is ignored. */
+  steer(player: number, direction: Direction): void {
+    const snake = this.snakes[player];
+    const { x, y } = DIRECTIONS[direction];
+    if (snake && ((x !== 0 && snake.direction.x === 0) || (y !== 0 && snake.direction.y === 0))) {
+      this.nextDirections[player] = { x, y };
+    }
+  }
+
+  tick(): { state: SnakeVersusState; events: SnakeVersusEvent[] } {
+    const events: SnakeVersusEvent[] = [];
+    if (this.roundOver) return { state: this.state, events };
+
+    this.ticks++;
+    this.snakes.forEach((snake, player) => (snake.direction = this.nextDirections[player]));
+    const heads = this.snakes.map(({ body, direction }) => ({ x: body[0].x + direction.x, y: body[0].y + direction.y }));
+
+    // Work out every death against the board as it was, so neither snake gets to move first
+    const deaths = heads.map((head, player): SnakeDeath | null => {
+      if (head.x < 0 || head.x >= this.tileCount || head.y < 0 || head.y >= this.tileCount) return 'wall';
+      if (heads.some((other, index) => index !== player && samePosition(other, head))) return 'headOn';
+      if (this.snakes[player].body.some(segment => samePosition(segment, head))) return 'self';
+      if (this.snakes.some((other, index) => index !== player && other.body.some(segment => samePosition(segment, head)))) {
+        return 'snake';
+      }
+      return null;
+    });
+
+    deaths.forEach((cause, player) => {
+      if (cause) {
+        this.snakes[player].alive = false;
+        events.push({ type: 'died', player, cause });
+      }
+    });
+
+    if (deaths.some(Boolean)) {
+      const survivors = this.snakes.flatMap((snake, player) => (snake.alive ? [player] : []));
+      this.roundOver = true;
+      this.winner = survivors.length === 1 ? survivors[0] : null;
+      events.push({ type: 'roundOver', winner: this.winner });
+      return { state: this.state, events };
+    }
+
+    let ate = false;
+    heads.forEach((head, player) => {
+      const snake = this.snakes[player];
+      snake.body.unshift(head);
+      if (samePosition(head, this.food)) {
+        snake.score += FOOD_POINTS;
+        ate = true;
+        events.push({ type: 'ate', player, position: head, points: FOOD_POINTS });
+      } else {
+        snake.body.pop();
+      }
+    });
+    if (ate) {
+      this.placeFood();
+    }
+
+    return { state: this.state, events };
+  }
+
+  private placeFood(): void {
+    const free: Position[] = [];
+    for (let y = 0; y < this.tileCount; y++) {
+      for (let x = 0; x < this.tileCount; x++) {
+        const cell = { x, y };
+        if (!this.snakes.some(snake => snake.body.some(segment => samePosition(segment, cell)))) {
+          free.push(cell);
+        }
+      }
+    }
+
+    // A full board leaves nowhere to put food; keep the old position
+    if (free.length > 0) {
+      this.food = free[this.random.nextInt(free.length)];
+    }
+  }
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return a.x === b.x && a.y === b.y;
+}
@@ -0,0 +1,183 @@
+import { AfterViewInit, Component, ElementRef, OnDestroy, signal, ViewChild } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { CanvasRenderer } from '../../shared/canvas-renderer';
+import { GameCommand, GameInput, GAMEPAD_DOWN, GAMEPAD_LEFT, GAMEPAD_RIGHT, GAMEPAD_UP, InputBindings } from '../../shared/input';
+import { describeKeys, keyBindings } from '../../shared/key-bindings';
+import { Match } from '../../shared/match';
+import { randomSeed } from '../../shared/random';
+import { PersistedSettings } from '../../shared/settings';
+import { drawRoundResult, drawVersusBoard } from '../snake-versus-canvas';
+import { SnakeVersusEngine } from '../snake-versus-engine';
+import {
+  DEFAULT_SNAKE_SETTINGS,
+  normalizeSnakeSettings,
+  SNAKE_SETTINGS_KEY,
+  SNAKE_VERSUS_KEYS,
+  SnakeAction
+} from '../snake-settings';
+
+type Phase = 'menu' | 'playing' | 'roundOver' | 'matchOver';
+
+// Each player's pad; the first one connected is player 1
+const GAMEPAD_BUTTONS: InputBindings<SnakeAction>['buttons'] = {
+  [GAMEPAD_UP]: 'up',
+  [GAMEPAD_DOWN]: 'down',
+  [GAMEPAD_LEFT]: 'left',
+  [GAMEPAD_RIGHT]: 'right',
+  0: 'select',
+  9: 'select',
+  1: 'back'
+};
+
+const ROUNDS_TO_WIN = 3;
+// How long the result of a round stays up before the next one starts
+const ROUND_PAUSE_MS = 2000;
+
+/**
+ * Two snakes on one Nokia screen, steered from one keyboard or two gamepads.
+ * Crashing into a wall or either snake loses the round; the first to win
+ * three rounds takes the match.
+ */
+@Component({
+  selector: 'app-snake-versus',
+  imports: [RouterLink],
+  templateUrl: './snake-versus.html',
+  styleUrl: './snake-versus.css',
+  standalone: true
+})
+export class SnakeVersus implements AfterViewInit, OnDestroy {
+  @ViewChild('gameCanvas', { static: false }) canvasRef!: ElementRef<HTMLCanvasElement>;
+
+  // Board size, speed and grid lines come from the single player settings
+  private readonly settings = new PersistedSettings(SNAKE_SETTINGS_KEY, DEFAULT_SNAKE_SETTINGS, normalizeSnakeSettings);
+  private readonly inputs = SNAKE_VERSUS_KEYS.map(
+    (keys, player) =>
+      new GameInput<SnakeAction>({ keys: keyBindings(keys), buttons: GAMEPAD_BUTTONS, gamepad: player }, command =>
+        this.handleInput(player, command)
+      )
+  );
+  protected readonly directionKeys = SNAKE_VERSUS_KEYS.map(keys =>
+    describeKeys([...keys.up, ...keys.left, ...keys.down, ...keys.right])
+  );
+  protected readonly startKeys = describeKeys(SNAKE_VERSUS_KEYS.flatMap(keys => keys.select));
+  protected readonly roundsToWin = ROUNDS_TO_WIN;
+
+  private readonly boardSize = 400;
+  private renderer!: CanvasRenderer;
+  private ctx!: CanvasRenderingContext2D;
+  private engine = new SnakeVersusEngine({ seed: randomSeed() });
+  private match = new Match(2, ROUNDS_TO_WIN);
+  private gridSize = Math.floor(this.boardSize / this.engine.tileCount);
+  private gameLoop: ReturnType<typeof setTimeout> | undefined;
+
+  // Signals for UI
+  protected readonly phase = signal<Phase>('menu');
+  protected readonly round = signal(1);
+  protected readonly wins = signal([0, 0]);
+  protected readonly scores = signal([0, 0]);
+  /** Winner of the last round, or null for a draw. */
+  protected readonly roundWinner = signal<number | null>(null);
+
+  ngAfterViewInit(): void {
+    this.renderer = new CanvasRenderer(this.canvasRef.nativeElement, this.boardSize, this.boardSize);
+    this.renderer.attach();
+    this.ctx = this.renderer.ctx;
+    this.inputs.forEach(input => input.attach());
+    this.newEngine();
+    this.engine.start();
+    this.draw();
+  }
+
+  ngOnDestroy(): void {
+    this.inputs.forEach(input => input.detach());
+    this.renderer?.detach();
+    clearTimeout(this.gameLoop);
+  }
+
+  private handleInput(player: number, { action, pressed }: GameCommand<SnakeAction>): void {
+    if (!pressed) return;
+
+    if (action === 'back') {
+      this.quit();
+      return;
+    }
+    if (this.phase() === 'playing') {
+      if (action !== 'select' && action !== 'pause' && action !== 'autopilot') {
+        this.engine.steer(player, action);
+      }
+    } else if (action === 'select' && this.phase() !== 'roundOver') {
+      this.startMatch();
+    }
+  }
+
+  protected startMatch(): void {
+    this.match = new Match(2, ROUNDS_TO_WIN);
+    this.wins.set([...this.match.wins]);
+    this.startRound();
+  }
+
+  private startRound(): void {
+    this.newEngine();
+    this.engine.start();
+    this.round.set(this.match.round);
+    this.roundWinner.set(null);
+    this.scores.set([0, 0]);
+    this.phase.set('playing');
+    this.draw();
+    this.gameLoop = setTimeout(this.update, this.engine.tickMs);
+  }
+
+  /** Abandons the match and goes back to the start screen. */
+  protected quit(): void {
+    clearTimeout(this.gameLoop);
+    this.phase.set('menu');
+  }
+
+  private newEngine(): void {
+    const { tileCount, tickMs } = this.settings.value();
+    this.engine = new SnakeVersusEngine({ seed: randomSeed(), tileCount, tickMs });
+    this.gridSize = Math.floor(this.boardSize / tileCount);
+    this.renderer.resize(this.canvasSize, this.canvasSize);
+  }
+
+  private get canvasSize(): number {
+    return this.gridSize * this.engine.tileCount;
+  }
+
+  private update = (): void => {
+    const { state } = this.engine.tick();
+    this.scores.set(state.snakes.map(snake => snake.score));
+    this.draw();
+
+    if (state.roundOver) {
+      this.endRound(state.winner);
+    } else {
+      this.gameLoop = setTimeout(this.update, this.engine.tickMs);
+    }
+  };
+
+  private endRound(winner: number | null): void {
+    this.match.endRound(winner);
+    this.wins.set([...this.match.wins]);
+    this.roundWinner.set(winner);
+
+    drawRoundResult(
+      this.ctx,
+      this.canvasSize,
+      winner === null ? 'DRAW' : `PLAYER ${winner + 1}`,
+      `${this.match.wins[0]} - ${this.match.wins[1]}`
+    );
+
+    if (this.match.over) {
+      this.phase.set('matchOver');
+    } else {
+      this.phase.set('roundOver');
+      this.gameLoop = setTimeout(() => this.startRound(), ROUND_PAUSE_MS);
+    }
+  }
+
+  private draw(): void {
+    const { gridLines } = this.settings.value();
+    drawVersusBoard(this.ctx, this.engine.state, { tileCount: this.engine.tileCount, gridSize: this.gridSize, gridLines });
+  }
+}
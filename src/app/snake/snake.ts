@@ -1,223 +1,680 @@
-import { Component, OnInit, OnDestroy, signal, ViewChild, ElementRef, AfterViewInit } from '@angular/core';
+import { Component, OnDestroy, signal, computed, ViewChild, ElementRef, AfterViewInit, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { AchievementService } from '../shared/achievement-service';
+import { AudioControls } from '../shared/audio-controls/audio-controls';
+import { AudioService } from '../shared/audio-service';
+import { CanvasRenderer } from '../shared/canvas-renderer';
+import { SoundName } from '../shared/chiptune';
+import { DAILY_MODE, dailySeed, dayFromNumber, dayNumber } from '../shared/daily';
+import { DailyCard } from '../shared/daily-card/daily-card';
+import { DailyService } from '../shared/daily-service';
+import { GameCommand, GameInput, GAMEPAD_DOWN, GAMEPAD_LEFT, GAMEPAD_RIGHT, GAMEPAD_UP, InputBindings } from '../shared/input';
+import { describeKeys, KeyMap, keyBindings } from '../shared/key-bindings';
+import { randomSeed } from '../shared/random';
+import { decodeReplay, Replay, ReplayPlayback, ReplayRecorder } from '../shared/replay';
+import { ReplayControls } from '../shared/replay-controls/replay-controls';
+import { clearSavedGame, loadSavedGame, SavedGame, storeSavedGame } from '../shared/saved-game';
+import { OnlineScoreService } from '../shared/online-score-service';
+import { ScoreEntry } from '../shared/score-entry/score-entry';
+import { ScoreService } from '../shared/score-service';
+import { PersistedSettings } from '../shared/settings';
+import { SettingsPanel } from '../shared/settings-panel/settings-panel';
+import { SyncStatus } from '../shared/sync-status/sync-status';
+import { SNAKE_STRATEGIES } from './snake-ai';
+import { interpolateSnake } from './snake-animation';
+import { bonusValue, Direction, Position, SnakeEffectKind, SnakeEngine, SnakeEvent, SnakeSave } from './snake-engine';
+import { SNAKE_MODES, snakeEngineOptions, snakeMode } from './snake-modes';
+import { snakeDailyMarks, SnakeReplayPlayer } from './snake-replay';
+import { drawSprite, ITEM_SPRITES, NOKIA_INK, NOKIA_INK_LIGHT } from './snake-sprites';
+import {
+  DEFAULT_SNAKE_SETTINGS,
+  normalizeSnakeSettings,
+  SNAKE_ACTIONS,
+  SNAKE_SETTING_FIELDS,
+  SNAKE_SETTINGS_KEY,
+  SnakeAction,
+  SnakeSettings
+} from './snake-settings';
+
+// Touch and gamepad controls; keyboard keys come from the settings
+const DEVICE_BINDINGS: Omit<InputBindings<SnakeAction>, 'keys'> = {
+  swipes: { up: 'up', down: 'down', left: 'left', right: 'right' },
+  tap: 'select',
+  buttons: {
+    [GAMEPAD_UP]: 'up',
+    [GAMEPAD_DOWN]: 'down',
+    [GAMEPAD_LEFT]: 'left',
+    [GAMEPAD_RIGHT]: 'right',
+    0: 'select',
+    9: 'select',
+    1: 'back',
+    2: 'pause',
+    3: 'autopilot'
+  }
+};
 
-interface Position {
-  x: number;
-  y: number;
-}
+// How long the welcome screen waits before the attract mode demo starts
+const ATTRACT_DELAY_MS = 10000;
+
+const EFFECT_LABELS: Record<SnakeEffectKind, string> = { slow: 'SLOW', ghost: 'GHOST', double: '2X' };
+
+// Items about to vanish blink to warn the player
+const ITEM_WARNING_TICKS = 10;
+
+// A snake that dies blinks like the old phones did before the score comes up
+const DEATH_BLINK_MS = 900;
+const DEATH_BLINK_STEP_MS = 150;
 
 @Component({
   selector: 'app-snake',
-  imports: [CommonModule],
+  imports: [AudioControls, CommonModule, DailyCard, ReplayControls, RouterLink, ScoreEntry, SettingsPanel, SyncStatus],
   templateUrl: './snake.html',
   styleUrl: './snake.css',
   standalone: true
 })
-export class Snake implements OnInit, OnDestroy, AfterViewInit {
+export class Snake implements OnDestroy, AfterViewInit {
   @ViewChild('gameCanvas', { static: false }) canvasRef!: ElementRef<HTMLCanvasElement>;
 
+  private readonly route = inject(ActivatedRoute);
+  private readonly scores = inject(ScoreService);
+  private readonly onlineScores = inject(OnlineScoreService);
+  private readonly audio = inject(AudioService);
+  private readonly achievements = inject(AchievementService);
+  private readonly daily = inject(DailyService);
+  private renderer!: CanvasRenderer;
   private ctx!: CanvasRenderingContext2D;
-  private gameLoop: any;
-
-  // Game settings
-  private readonly gridSize = 20;
-  private readonly tileCount = 20;
-  private readonly canvasSize = this.gridSize * this.tileCount;
+  private gameLoop: ReturnType<typeof setTimeout> | undefined;
+  /** Drawing runs on animation frames, apart from the ticks, so the snake can glide between tiles. */
+  private frame = 0;
+  private previousSnake: Position[] = [];
+  private lastTickAt = 0;
+
+  // Settings
+  protected readonly settings = new PersistedSettings(
+    SNAKE_SETTINGS_KEY,
+    DEFAULT_SNAKE_SETTINGS,
+    normalizeSnakeSettings
+  );
+  protected readonly actions = SNAKE_ACTIONS;
+  protected readonly settingFields = SNAKE_SETTING_FIELDS;
+  protected readonly directionKeys = computed(() => {
+    const keys = this.settings.value().keys;
+    return describeKeys([...keys.up, ...keys.down, ...keys.left, ...keys.right]);
+  });
+  protected readonly selectKeys = computed(() => describeKeys(this.settings.value().keys.select));
+  protected readonly backKeys = computed(() => describeKeys(this.settings.value().keys.back));
+  protected readonly pauseKeys = computed(() => describeKeys(this.settings.value().keys.pause));
+  protected readonly autopilotKeys = computed(() => describeKeys(this.settings.value().keys.autopilot));
+  private readonly input = new GameInput(this.inputBindings(), command => this.handleInput(command));
+
+  // Board size and speed; from the settings and mode, or from the replay being watched
+  private readonly boardSize = 400;
+  private tileCount = 20;
+  private gridSize = Math.floor(this.boardSize / this.tileCount);
+  private tickMs = 150;
 
   // Game state
-  private snake: Position[] = [];
-  private food: Position = { x: 10, y: 10 };
-  private dx = 0;
-  private dy = 0;
-  private nextDx = 0;
-  private nextDy = 0;
+  private engine = new SnakeEngine({ seed: randomSeed(), tileCount: this.tileCount });
+  private pendingInputs: Direction[] = [];
+
+  // Autopilot and the attract mode demo
+  private assisted = false;
+  /** A daily challenge replayed after the day's scored attempt, which counts for nothing. */
+  private practice = false;
+  private attracting = false;
+  private attractTimer: ReturnType<typeof setTimeout> | undefined;
+  private plannedPath: Position[] = [];
+
+  // Replays
+  private recorder: ReplayRecorder | null = null;
+  private replayPlayer: SnakeReplayPlayer | null = null;
+  private replayLoop = 0;
+  private lastFrameTime = 0;
 
   // Signals for UI
   protected readonly score = signal(0);
-  protected readonly highScore = signal(0);
+  protected readonly mode = computed(() => snakeMode(this.settings.value().mode));
+  private readonly bestScore = computed(() => this.scores.highScore('snake', this.mode().id)());
+  protected readonly highScore = computed(() => Math.max(this.bestScore(), this.score()));
   protected readonly gameStarted = signal(false);
   protected readonly gameOver = signal(false);
-
-  ngOnInit(): void {
-    // Load high score from localStorage
-    const savedHighScore = localStorage.getItem('snakeHighScore');
-    if (savedHighScore) {
-      this.highScore.set(parseInt(savedHighScore, 10));
-    }
-
-    // Add keyboard event listener
-    document.addEventListener('keydown', this.handleKeyPress);
-  }
+  protected readonly isPaused = signal(false);
+  /** An unfinished game from an earlier visit, offered on the welcome screen. */
+  protected readonly savedGame = signal(loadSavedGame<SnakeSave>('snake'));
+  protected readonly lastReplay = signal<Replay | null>(null);
+  protected readonly playback = signal<ReplayPlayback | null>(null);
+  protected readonly newScore = signal<ReturnType<ScoreService['submit']>>(null);
+  protected readonly uploadId = signal<string | null>(null);
+  protected readonly timeLeft = signal('');
+  protected readonly bonus = signal(0);
+  protected readonly effects = signal<{ label: string; seconds: number }[]>([]);
+  protected readonly autopilot = signal(false);
+  protected readonly strategy = computed(() => SNAKE_STRATEGIES[this.settings.value().aiStrategy]);
 
   ngAfterViewInit(): void {
     const canvas = this.canvasRef.nativeElement;
-    canvas.width = this.canvasSize;
-    canvas.height = this.canvasSize;
-    this.ctx = canvas.getContext('2d')!;
+    this.renderer = new CanvasRenderer(canvas, this.canvasSize, this.canvasSize);
+    this.renderer.attach();
+    this.ctx = this.renderer.ctx;
+    this.configureBoard(this.gameOptions());
+    this.input.attach(canvas);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    window.addEventListener('blur', this.autoPause);
+    window.addEventListener('pagehide', this.saveProgress);
 
     this.drawWelcomeScreen();
+
+    // Shared replay links open straight into playback
+    const code = this.route.snapshot.queryParamMap.get('replay');
+    const replay = code ? decodeReplay(code) : null;
+    if (replay?.game === 'snake') {
+      setTimeout(() => this.watchReplay(replay));
+    }
   }
 
   ngOnDestroy(): void {
-    document.removeEventListener('keydown', this.handleKeyPress);
-    if (this.gameLoop) {
-      clearInterval(this.gameLoop);
-    }
+    // Leaving the page keeps the game for later
+    this.saveProgress();
+    this.input.detach();
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('blur', this.autoPause);
+    window.removeEventListener('pagehide', this.saveProgress);
+    this.renderer?.detach();
+    clearTimeout(this.gameLoop);
+    cancelAnimationFrame(this.frame);
+    this.stopAttract();
+    cancelAnimationFrame(this.replayLoop);
   }
 
-  private handleKeyPress = (event: KeyboardEvent): void => {
+  private handleInput({ action, pressed }: GameCommand<SnakeAction>): void {
+    if (!pressed) return;
+
+    // Any input ends the demo and brings the menu back
+    if (this.attracting) {
+      this.drawWelcomeScreen();
+      return;
+    }
+
+    if (this.playback()) {
+      if (action === 'select') {
+        this.playback()!.toggle();
+      } else if (action === 'back') {
+        this.exitReplay();
+      }
+      return;
+    }
+
+    if (action === 'autopilot') {
+      this.toggleAutopilot();
+      return;
+    }
+
+    if (action === 'pause') {
+      if (this.gameStarted()) {
+        this.togglePause();
+      } else if (this.savedGame()) {
+        this.continueGame();
+      }
+      return;
+    }
+    if (this.isPaused()) return;
+
+    if (action === 'select') {
+      if (!this.gameStarted()) {
+        this.restartGame();
+      }
+      return;
+    }
+    if (action === 'back') {
+      // From the game over screen back to the mode menu
+      if (this.gameOver()) {
+        this.gameOver.set(false);
+        this.updateHud({});
+        this.drawWelcomeScreen();
+      }
+      return;
+    }
+
     if (!this.gameStarted() && !this.gameOver()) {
-      if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(event.key)) {
-        this.startGame();
+      // Up and down pick a mode on the welcome screen; sideways starts it
+      if (action === 'up' || action === 'down') {
+        this.chooseMode(action === 'up' ? -1 : 1);
+        return;
       }
+      this.startGame();
     }
 
-    // Prevent default arrow key behavior (scrolling)
-    if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', ' '].includes(event.key)) {
-      event.preventDefault();
+    // Queue the direction; the engine drops reversals when it applies it
+    if (this.gameStarted()) {
+      this.pendingInputs.push(action);
     }
+  }
 
-    // Change direction (store next direction to prevent double-back)
-    switch (event.key) {
-      case 'ArrowUp':
-        if (this.dy === 0) {
-          this.nextDx = 0;
-          this.nextDy = -1;
-        }
-        break;
-      case 'ArrowDown':
-        if (this.dy === 0) {
-          this.nextDx = 0;
-          this.nextDy = 1;
-        }
-        break;
-      case 'ArrowLeft':
-        if (this.dx === 0) {
-          this.nextDx = -1;
-          this.nextDy = 0;
-        }
-        break;
-      case 'ArrowRight':
-        if (this.dx === 0) {
-          this.nextDx = 1;
-          this.nextDy = 0;
-        }
-        break;
-      case ' ':
-        if (this.gameOver()) {
-          this.restartGame();
-        }
-        break;
+  /** The Nokia d-pad: the quarter of the pad that was pressed picks the direction. */
+  protected pressDpad(event: PointerEvent): void {
+    event.preventDefault();
+    const pad = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    const dx = event.clientX - (pad.left + pad.width / 2);
+    const dy = event.clientY - (pad.top + pad.height / 2);
+    const direction: Direction = Math.abs(dx) > Math.abs(dy) ? (dx > 0 ? 'right' : 'left') : dy > 0 ? 'down' : 'up';
+    this.input.press(direction);
+  }
+
+  protected pressButton(action: SnakeAction, event: PointerEvent): void {
+    event.preventDefault();
+    this.input.press(action);
+  }
+
+  /** Hands the controls to the AI, or back. Games the AI played in don't go on the leaderboard. */
+  protected toggleAutopilot(): void {
+    this.autopilot.update(on => !on);
+    this.plannedPath = [];
+    if (this.autopilot() && this.gameStarted()) {
+      this.assisted = true;
     }
-  };
+  }
+
+  protected playDaily(): void {
+    this.settings.update({ mode: DAILY_MODE });
+    this.startGame();
+  }
+
+  private chooseMode(step: number): void {
+    const index = SNAKE_MODES.indexOf(this.mode());
+    const next = SNAKE_MODES[(index + step + SNAKE_MODES.length) % SNAKE_MODES.length];
+    this.settings.update({ mode: next.id });
+    this.configureBoard(this.gameOptions());
+    this.drawWelcomeScreen();
+  }
+
+  protected updateSetting({ id, value }: { id: string; value: number | boolean }): void {
+    this.settings.update({ [id]: value } as Partial<SnakeSettings>);
+    this.applySettings();
+  }
+
+  protected updateKeys(keys: KeyMap<string>): void {
+    this.settings.update({ keys: keys as KeyMap<SnakeAction> });
+    this.applySettings();
+  }
+
+  protected resetSettings(): void {
+    this.settings.reset();
+    this.applySettings();
+  }
+
+  private applySettings(): void {
+    this.input.bindings = this.inputBindings();
+
+    // A new board size shows straight away; a running game keeps its own
+    const { tileCount = 20, tickMs = 150 } = snakeEngineOptions(this.gameOptions(), 0);
+    if (!this.gameStarted() && !this.playback() && (tileCount !== this.tileCount || tickMs !== this.tickMs)) {
+      this.configureBoard(this.gameOptions());
+      this.drawWelcomeScreen();
+    }
+  }
+
+  /** Replay options for a new game in the selected mode. */
+  private gameOptions(): Record<string, number> {
+    const { tileCount, tickMs, items } = this.settings.value();
+    return { tileCount, tickMs, items: items ? 1 : 0, ...this.mode().options };
+  }
+
+  private inputBindings(): InputBindings<SnakeAction> {
+    return { ...DEVICE_BINDINGS, keys: keyBindings(this.settings.value().keys) };
+  }
+
+  private configureBoard(options: Record<string, number>): void {
+    const { tileCount = 20, tickMs = 150 } = snakeEngineOptions(options, 0);
+    this.tileCount = tileCount;
+    this.tickMs = tickMs;
+    this.gridSize = Math.floor(this.boardSize / tileCount);
+    this.renderer.resize(this.canvasSize, this.canvasSize);
+  }
+
+  private get canvasSize(): number {
+    return this.gridSize * this.tileCount;
+  }
 
   protected startGame(): void {
+    this.stopAttract();
+    cancelAnimationFrame(this.frame);
+    this.discardSavedGame();
+    this.isPaused.set(false);
     this.gameStarted.set(true);
     this.gameOver.set(false);
+    this.newScore.set(null);
+    this.uploadId.set(null);
     this.score.set(0);
 
-    // Initialize snake in the middle
-    this.snake = [
-      { x: 10, y: 10 },
-      { x: 9, y: 10 },
-      { x: 8, y: 10 }
-    ];
-
-    // Start moving right
-    this.dx = 1;
-    this.dy = 0;
-    this.nextDx = 1;
-    this.nextDy = 0;
-
-    // Place first food
-    this.placeFood();
+    // The daily challenge seeds from the date and is stamped with it, so a saved game still knows its day
+    const day = this.daily.today();
+    const isDaily = this.mode().id === DAILY_MODE;
+    const options = isDaily ? { ...this.gameOptions(), day: dayNumber(day) } : this.gameOptions();
+    this.configureBoard(options);
+
+    const seed = isDaily ? dailySeed('snake', day) : randomSeed();
+    this.engine = new SnakeEngine(snakeEngineOptions(options, seed));
+    this.engine.start();
+    this.pendingInputs = [];
+    this.assisted = this.autopilot();
+    this.practice = isDaily && (this.assisted || !this.daily.begin('snake', day));
+    this.recorder = new ReplayRecorder('snake', seed, options);
+    this.updateHud(this.gameOptions());
+    this.previousSnake = this.engine.state.snake;
+    this.lastTickAt = performance.now();
+
+    // Start game loop at the chosen speed (150ms = classic Nokia speed)
+    this.scheduleTick();
+    this.frame = requestAnimationFrame(this.render);
+  }
 
-    // Start game loop (150ms = classic Nokia speed)
-    this.gameLoop = setInterval(() => this.update(), 150);
+  /** One move per tick; the engine decides how long a tick is, so speed-up mode can ramp. */
+  private scheduleTick(): void {
+    this.gameLoop = setTimeout(() => {
+      this.update();
+      if (this.gameStarted()) {
+        this.scheduleTick();
+      }
+    }, this.engine.state.tickMs);
   }
 
   protected restartGame(): void {
     this.startGame();
   }
 
-  private update(): void {
-    // Update direction
-    this.dx = this.nextDx;
-    this.dy = this.nextDy;
-
-    // Calculate new head position
-    const head = { ...this.snake[0] };
-    head.x += this.dx;
-    head.y += this.dy;
-
-    // Check wall collision
-    if (head.x < 0 || head.x >= this.tileCount || head.y < 0 || head.y >= this.tileCount) {
-      this.endGame();
+  /** Picks up the saved game where it stopped, paused so the player can get ready. */
+  protected continueGame(): void {
+    const saved = this.savedGame();
+    if (!saved) return;
+
+    const { seed, options, inputs } = saved.replay;
+    const engine = new SnakeEngine(snakeEngineOptions(options, seed));
+    try {
+      engine.restore(saved.state);
+    } catch {
+      this.discardSavedGame();
       return;
     }
 
-    // Check self collision
-    if (this.snake.some(segment => segment.x === head.x && segment.y === head.y)) {
-      this.endGame();
-      return;
+    this.stopAttract();
+    cancelAnimationFrame(this.frame);
+    this.settings.update({ mode: saved.mode });
+    this.configureBoard(options);
+    this.engine = engine;
+    this.recorder = new ReplayRecorder('snake', seed, options, inputs);
+    this.assisted = saved.assisted;
+    this.practice = options['day'] !== undefined && !this.daily.inProgress('snake', dayFromNumber(options['day']));
+    this.pendingInputs = [];
+    this.gameStarted.set(true);
+    this.gameOver.set(false);
+    this.newScore.set(null);
+    this.uploadId.set(null);
+    this.score.set(engine.state.score);
+    this.updateHud(options);
+
+    this.isPaused.set(true);
+    this.previousSnake = engine.state.snake;
+    this.draw();
+  }
+
+  protected togglePause(): void {
+    if (!this.gameStarted()) return;
+    this.isPaused.update(paused => !paused);
+    if (this.isPaused()) {
+      clearTimeout(this.gameLoop);
+      cancelAnimationFrame(this.frame);
+      this.draw();
+    } else {
+      // The tick that was under way starts again from the top
+      this.previousSnake = this.engine.state.snake.map(segment => ({ ...segment }));
+      this.lastTickAt = performance.now();
+      this.scheduleTick();
+      this.frame = requestAnimationFrame(this.render);
+    }
+  }
+
+  /** Pauses when the player switches tab or window, and keeps the game in case they don't come back. */
+  private autoPause = (): void => {
+    if (this.gameStarted() && !this.isPaused()) {
+      this.togglePause();
+    }
+    this.saveProgress();
+  };
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.autoPause();
     }
+  };
 
-    // Add new head
-    this.snake.unshift(head);
+  private saveProgress = (): void => {
+    if (!this.recorder || !this.gameStarted()) return;
+
+    const { ticks, score } = this.engine.state;
+    const saved: SavedGame<SnakeSave> = {
+      version: 1,
+      mode: this.mode().id,
+      assisted: this.assisted,
+      replay: this.recorder.finish(ticks, { score }),
+      state: this.engine.save(),
+      savedAt: Date.now()
+    };
+    storeSavedGame(saved);
+    this.savedGame.set(saved);
+  };
 
-    // Check food collision
-    if (head.x === this.food.x && head.y === this.food.y) {
-      this.score.update(s => s + 10);
-      this.placeFood();
+  private discardSavedGame(): void {
+    clearSavedGame('snake');
+    this.savedGame.set(null);
+  }
 
-      // Update high score
-      if (this.score() > this.highScore()) {
-        this.highScore.set(this.score());
-        localStorage.setItem('snakeHighScore', this.score().toString());
-      }
-    } else {
-      // Remove tail if no food eaten
-      this.snake.pop();
+  private update(): void {
+    // The autopilot's moves are recorded like a player's, so its games replay too
+    if (this.autopilot()) {
+      this.pendingInputs = this.planMove();
+    }
+
+    const ticks = this.engine.state.ticks;
+    this.pendingInputs.forEach(direction => this.recorder?.record(ticks, direction));
+    this.previousSnake = this.engine.state.snake.map(segment => ({ ...segment }));
+    const { events } = this.engine.tick(this.pendingInputs);
+    this.lastTickAt = performance.now();
+    this.pendingInputs = [];
+    this.updateHud(this.gameOptions());
+    this.handleEvents(events);
+  }
+
+  private render = (): void => {
+    if (!this.gameStarted()) return;
+    this.draw((performance.now() - this.lastTickAt) / this.engine.state.tickMs);
+    this.frame = requestAnimationFrame(this.render);
+  };
+
+  /** Asks the selected strategy for the next move. */
+  private planMove(): Direction[] {
+    const plan = this.strategy().plan(this.engine.state, this.engine);
+    this.plannedPath = plan.path;
+    return plan.direction ? [plan.direction] : [];
+  }
+
+  /** Plays a demo game on the welcome screen until the player presses something. */
+  private startAttract(): void {
+    this.attracting = true;
+    this.engine = new SnakeEngine(snakeEngineOptions(this.gameOptions(), randomSeed()));
+    this.engine.start();
+    this.stepAttract();
+  }
+
+  private stepAttract = (): void => {
+    this.engine.tick(this.planMove());
+    if (this.engine.state.gameOver) {
+      this.engine = new SnakeEngine(snakeEngineOptions(this.gameOptions(), randomSeed()));
+      this.engine.start();
     }
 
     this.draw();
+    this.ctx.fillStyle = NOKIA_INK;
+    this.ctx.font = 'bold 16px monospace';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText(`DEMO · ${this.strategy().name}`, this.canvasSize / 2, 24);
+    this.ctx.fillText('Press any key', this.canvasSize / 2, this.canvasSize - 12);
+
+    this.attractTimer = setTimeout(this.stepAttract, this.engine.state.tickMs);
+  };
+
+  private stopAttract(): void {
+    clearTimeout(this.attractTimer);
+    this.attracting = false;
+    this.plannedPath = [];
+  }
+
+  /** The time attack clock, counting down in game time, and the items in play. */
+  private updateHud(options: Record<string, number>): void {
+    const { elapsedMs, ticks, tickMs, items, effects } = this.engine.state;
+
+    const limit = options['timeLimitMs'];
+    const seconds = Math.ceil(Math.max(0, (limit ?? 0) - elapsedMs) / 1000);
+    this.timeLeft.set(limit === undefined ? '' : `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`);
+
+    const bonus = items.find(item => item.kind === 'bonus');
+    this.bonus.set(bonus ? bonusValue(bonus, ticks) : 0);
+    this.effects.set(
+      effects.map(effect => ({
+        label: EFFECT_LABELS[effect.kind],
+        seconds: Math.ceil(((effect.endsAt - ticks) * tickMs) / 1000)
+      }))
+    );
+  }
+
+  protected watchReplay(replay: Replay): void {
+    clearTimeout(this.gameLoop);
+    cancelAnimationFrame(this.frame);
+    this.stopAttract();
+    cancelAnimationFrame(this.replayLoop);
+    this.gameStarted.set(false);
+    this.gameOver.set(false);
+    this.newScore.set(null);
+    this.uploadId.set(null);
+
+    this.lastReplay.set(replay);
+    this.configureBoard(replay.options);
+    this.replayPlayer = new SnakeReplayPlayer(replay);
+    const playback = new ReplayPlayback(replay.length, this.tickMs);
+    playback.playing.set(true);
+    this.playback.set(playback);
+
+    this.lastFrameTime = performance.now();
+    this.replayLoop = requestAnimationFrame(this.updateReplay);
+  }
+
+  protected exitReplay(): void {
+    cancelAnimationFrame(this.replayLoop);
+    this.playback.set(null);
+    this.replayPlayer = null;
+    this.score.set(0);
+    this.updateHud({});
+    this.configureBoard(this.gameOptions());
+    this.drawWelcomeScreen();
   }
 
-  private placeFood(): void {
-    let newFood: Position;
-    do {
-      newFood = {
-        x: Math.floor(Math.random() * this.tileCount),
-        y: Math.floor(Math.random() * this.tileCount)
-      };
-    } while (this.snake.some(segment => segment.x === newFood.x && segment.y === newFood.y));
+  private updateReplay = (time: number): void => {
+    const playback = this.playback();
+    if (!playback || !this.replayPlayer) return;
+
+    playback.advance(time - this.lastFrameTime);
+    this.lastFrameTime = time;
+
+    this.replayPlayer.seek(playback.step);
+    this.engine = this.replayPlayer.engine;
+    this.score.set(this.engine.state.score);
+    this.updateHud(this.replayPlayer.replay.options);
+
+    this.draw();
+    this.replayLoop = requestAnimationFrame(this.updateReplay);
+  };
+
+  private handleEvents(events: SnakeEvent[]): void {
+    for (const event of events) {
+      switch (event.type) {
+        case 'ate':
+          this.playSound('eat');
+          // Autopilot games and daily practice count for nothing
+          if (!this.assisted && !this.practice) {
+            this.achievements.record({ type: 'foodEaten', length: this.engine.state.snake.length });
+          }
+          break;
+        case 'item':
+          this.playSound('eat');
+          break;
+        case 'score':
+          this.score.set(event.score);
+          break;
+        case 'died':
+          this.playSound('die');
+          this.endGame('GAME OVER', true);
+          break;
+        case 'timeUp':
+          this.playSound('gameOver');
+          this.endGame('TIME UP');
+          break;
+      }
+    }
+  }
 
-    this.food = newFood;
+  private playSound(sound: SoundName): void {
+    this.audio.play(sound, this.settings.value().volume);
   }
 
-  private draw(): void {
+  /**
+   * Draws the board, with the snake `progress` of the way from where it was
+   * at the last tick to where it is now; replays and the demo draw whole tiles.
+   */
+  private draw(progress = 1, showSnake = true): void {
     // Clear canvas with Nokia-style green background
     this.ctx.fillStyle = '#9cb83c';
     this.ctx.fillRect(0, 0, this.canvasSize, this.canvasSize);
 
     // Draw grid (subtle)
-    this.ctx.strokeStyle = '#8ba83a';
-    this.ctx.lineWidth = 1;
-    for (let i = 0; i <= this.tileCount; i++) {
-      this.ctx.beginPath();
-      this.ctx.moveTo(i * this.gridSize, 0);
-      this.ctx.lineTo(i * this.gridSize, this.canvasSize);
-      this.ctx.stroke();
-
-      this.ctx.beginPath();
-      this.ctx.moveTo(0, i * this.gridSize);
-      this.ctx.lineTo(this.canvasSize, i * this.gridSize);
-      this.ctx.stroke();
+    if (this.settings.value().gridLines) {
+      this.ctx.strokeStyle = '#8ba83a';
+      this.ctx.lineWidth = 1;
+      for (let i = 0; i <= this.tileCount; i++) {
+        this.ctx.beginPath();
+        this.ctx.moveTo(i * this.gridSize, 0);
+        this.ctx.lineTo(i * this.gridSize, this.canvasSize);
+        this.ctx.stroke();
+
+        this.ctx.beginPath();
+        this.ctx.moveTo(0, i * this.gridSize);
+        this.ctx.lineTo(this.canvasSize, i * this.gridSize);
+        this.ctx.stroke();
+      }
     }
 
-    // Draw snake (darker pixels like Nokia)
+    const { food, walls, items, effects, ticks } = this.engine.state;
+    const snake = showSnake ? this.snakePositions(progress) : [];
+
+    // Draw maze walls as solid blocks
     this.ctx.fillStyle = '#0f380f';
-    this.snake.forEach((segment, index) => {
+    walls.forEach(wall => {
+      this.ctx.fillRect(wall.x * this.gridSize, wall.y * this.gridSize, this.gridSize, this.gridSize);
+    });
+
+    // Draw items; they blink faster in their last few ticks
+    const fastBlink = Math.floor(Date.now() / 120) % 2 === 0;
+    this.ctx.fillStyle = NOKIA_INK;
+    items.forEach(item => {
+      if (item.expiresAt - ticks > ITEM_WARNING_TICKS || fastBlink) {
+        const { x, y } = item.position;
+        drawSprite(this.ctx, ITEM_SPRITES[item.kind], x * this.gridSize + 2, y * this.gridSize + 2, this.gridSize - 4);
+      }
+    });
+
+    // Draw snake (darker pixels like Nokia); a ghost is drawn in the lighter ink
+    const bodyColor = effects.some(effect => effect.kind === 'ghost') ? NOKIA_INK_LIGHT : '#0f380f';
+    this.ctx.fillStyle = bodyColor;
+    snake.forEach((segment, index) => {
       const padding = 2;
       this.ctx.fillRect(
         segment.x * this.gridSize + padding,
@@ -235,7 +692,7 @@ export class Snake implements OnInit, OnDestroy, AfterViewInit {
           this.gridSize - padding * 2,
           this.gridSize - padding * 2
         );
-        this.ctx.fillStyle = '#0f380f';
+        this.ctx.fillStyle = bodyColor;
       }
     });
 
@@ -245,45 +702,132 @@ export class Snake implements OnInit, OnDestroy, AfterViewInit {
       this.ctx.fillStyle = '#0f380f';
       const foodPadding = 4;
       this.ctx.fillRect(
-        this.food.x * this.gridSize + foodPadding,
-        this.food.y * this.gridSize + foodPadding,
+        food.x * this.gridSize + foodPadding,
+        food.y * this.gridSize + foodPadding,
         this.gridSize - foodPadding * 2,
         this.gridSize - foodPadding * 2
       );
     }
+
+    // Debug overlay: the AI's planned route as a trail of dots
+    if (this.settings.value().aiPath) {
+      this.ctx.fillStyle = NOKIA_INK_LIGHT;
+      const dot = Math.max(2, Math.floor(this.gridSize / 5));
+      this.plannedPath.forEach(({ x, y }) => {
+        const offset = (this.gridSize - dot) / 2;
+        this.ctx.fillRect(x * this.gridSize + offset, y * this.gridSize + offset, dot, dot);
+      });
+    }
+  }
+
+  private snakePositions(progress: number): Position[] {
+    const { snake } = this.engine.state;
+    return progress >= 1 ? snake : interpolateSnake(this.previousSnake, snake, progress);
   }
 
   private drawWelcomeScreen(): void {
+    this.stopAttract();
+    cancelAnimationFrame(this.frame);
+    this.attractTimer = setTimeout(() => this.startAttract(), ATTRACT_DELAY_MS);
+
     this.ctx.fillStyle = '#9cb83c';
     this.ctx.fillRect(0, 0, this.canvasSize, this.canvasSize);
 
+    const center = this.canvasSize / 2;
     this.ctx.fillStyle = '#0f380f';
     this.ctx.font = 'bold 24px monospace';
     this.ctx.textAlign = 'center';
-    this.ctx.fillText('SNAKE', this.canvasSize / 2, this.canvasSize / 2 - 40);
+    this.ctx.fillText('SNAKE', center, 50);
 
+    // Mode menu; the selected mode is drawn inverted, Nokia style
+    const selected = this.mode();
     this.ctx.font = '16px monospace';
-    this.ctx.fillText('Press Arrow Key', this.canvasSize / 2, this.canvasSize / 2 + 20);
-    this.ctx.fillText('to Start', this.canvasSize / 2, this.canvasSize / 2 + 40);
+    SNAKE_MODES.forEach((mode, index) => {
+      const y = 100 + index * 26;
+      if (mode === selected) {
+        this.ctx.fillRect(center - 110, y - 17, 220, 24);
+        this.ctx.fillStyle = '#9cb83c';
+      }
+      this.ctx.fillText(mode.name, center, y);
+      this.ctx.fillStyle = '#0f380f';
+    });
+
+    this.ctx.font = '14px monospace';
+    this.ctx.fillText(selected.description, center, 100 + SNAKE_MODES.length * 26 + 10);
+    if (this.savedGame()) {
+      this.ctx.fillText(`${this.pauseKeys()} Continue saved game`, center, this.canvasSize - 44);
+    }
+    this.ctx.fillText('↑↓ Choose  → Start', center, this.canvasSize - 20);
   }
 
-  private endGame(): void {
-    clearInterval(this.gameLoop);
+  private endGame(title: string, died = false): void {
+    clearTimeout(this.gameLoop);
+    cancelAnimationFrame(this.frame);
     this.gameStarted.set(false);
     this.gameOver.set(true);
+    this.discardSavedGame();
+
+    if (this.recorder) {
+      const { score, elapsedMs } = this.engine.state;
+      const replay = this.recorder.finish(this.engine.state.ticks, { score });
+      this.lastReplay.set(replay);
+      this.recorder = null;
+
+      const mode = this.mode().id;
+      const result = { score, durationMs: elapsedMs };
+      const day = replay.options['day'];
+      if (day !== undefined && !this.practice) {
+        // Handing the daily challenge to the autopilot forfeits it
+        const daily = this.assisted
+          ? { score: 0, durationMs: elapsedMs, marks: ['🤖'] }
+          : { ...result, marks: snakeDailyMarks(replay) };
+        this.daily.finish('snake', dayFromNumber(day), daily);
+      }
+      if (!this.assisted && !this.practice) {
+        this.newScore.set(this.scores.submit('snake', mode, result));
+        this.achievements.record({ type: 'gameEnd', game: 'snake', ...result });
+        if (score > 0) {
+          this.uploadId.set(this.onlineScores.submit('snake', mode, result));
+        }
+      }
+    }
+
+    if (died) {
+      this.blinkDeath(title);
+    } else {
+      this.drawGameOver(title);
+    }
+  }
+
+  /** Blinks the dead snake on and off, then shows the game over screen. */
+  private blinkDeath(title: string): void {
+    const start = performance.now();
+    const step = (): void => {
+      const elapsed = performance.now() - start;
+      if (elapsed >= DEATH_BLINK_MS) {
+        this.draw();
+        this.drawGameOver(title);
+        return;
+      }
+      this.draw(1, Math.floor(elapsed / DEATH_BLINK_STEP_MS) % 2 === 1);
+      this.frame = requestAnimationFrame(step);
+    };
+    step();
+  }
 
-    // Draw game over screen
+  private drawGameOver(title: string): void {
     this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
     this.ctx.fillRect(0, 0, this.canvasSize, this.canvasSize);
 
     this.ctx.fillStyle = '#9cb83c';
     this.ctx.font = 'bold 32px monospace';
     this.ctx.textAlign = 'center';
-    this.ctx.fillText('GAME OVER', this.canvasSize / 2, this.canvasSize / 2 - 20);
+    this.ctx.fillText(title, this.canvasSize / 2, this.canvasSize / 2 - 20);
 
     this.ctx.font = '16px monospace';
     this.ctx.fillText(`Score: ${this.score()}`, this.canvasSize / 2, this.canvasSize / 2 + 20);
     this.ctx.fillText('Press SPACE', this.canvasSize / 2, this.canvasSize / 2 + 60);
     this.ctx.fillText('to Restart', this.canvasSize / 2, this.canvasSize / 2 + 80);
+    this.ctx.fillText('ESC for Modes', this.canvasSize / 2, this.canvasSize / 2 + 110);
   }
 }
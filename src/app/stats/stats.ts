@@ -0,0 +1,68 @@
+import { Component, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { AchievementService } from '../shared/achievement-service';
+import { ACHIEVEMENTS, lifetimeTotals } from '../shared/achievements';
+import { GameId } from '../shared/score-service';
+
+const LINE_TYPES = ['Single', 'Double', 'Triple', 'Tetris'];
+
+@Component({
+  selector: 'app-stats',
+  imports: [CommonModule, RouterLink],
+  templateUrl: './stats.html',
+  styleUrl: './stats.css',
+  standalone: true
+})
+export class Stats {
+  private readonly achievements = inject(AchievementService);
+
+  protected readonly stats = this.achievements.stats;
+  protected readonly totals = computed(() => lifetimeTotals(this.stats()));
+
+  protected readonly games = computed(() => {
+    const names: Record<GameId, string> = { snake: 'Snake', tetris: 'Tetris' };
+    return (Object.keys(names) as GameId[]).map(id => {
+      const game = this.stats().games[id];
+      const top = Math.max(1, ...game.recentScores);
+      return {
+        id,
+        name: names[id],
+        ...game,
+        averageScore: game.gamesPlayed ? Math.round(game.totalScore / game.gamesPlayed) : 0,
+        // Bar heights for the recent scores chart, as percentages of the best of them
+        bars: game.recentScores.map(score => ({ score, height: (score / top) * 100 }))
+      };
+    });
+  });
+
+  /** Bar widths for the line clears chart, as percentages of the most common clear. */
+  protected readonly lineTypes = computed(() => {
+    const counts = this.stats().linesByType;
+    const top = Math.max(1, ...counts);
+    return LINE_TYPES.map((name, i) => ({ name, count: counts[i], width: (counts[i] / top) * 100 }));
+  });
+
+  protected readonly achievementList = computed(() => {
+    const unlocked = this.stats().unlocked;
+    return ACHIEVEMENTS.map(achievement => ({ ...achievement, unlockedAt: unlocked[achievement.id] ?? null }));
+  });
+
+  protected readonly unlockedCount = this.achievements.unlockedCount;
+  protected readonly achievementCount = ACHIEVEMENTS.length;
+
+  protected formatDuration(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  }
+
+  protected formatDate(date: string): string {
+    return new Date(date).toLocaleDateString();
+  }
+
+  protected resetStats(): void {
+    if (confirm('Reset all stats and achievements?')) {
+      this.achievements.reset();
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { Component, computed, input } from '@angular/core';
+import { TETROMINOES, TetrominoType } from '../tetris-engine';
+
+/** Draws a single tetromino in its spawn orientation, for the hold slot and next queue. */
+@Component({
+  selector: 'app-piece-preview',
+  templateUrl: './piece-preview.html',
+  styleUrl: './piece-preview.css',
+  standalone: true
+})
+export class PiecePreview {
+  readonly type = input<TetrominoType | null>(null);
+  readonly small = input(false);
+  readonly dimmed = input(false);
+
+  protected readonly color = computed(() => {
+    const type = this.type();
+    return type ? TETROMINOES[type].color : 'transparent';
+  });
+
+  /** The spawn shape with its empty rows trimmed away. */
+  protected readonly rows = computed(() => {
+    const type = this.type();
+    if (!type) return [];
+    return TETROMINOES[type].shape.filter(row => row.some(cell => cell));
+  });
+}
@@ -0,0 +1,33 @@
+import { describeClear, scoreClear } from './scoring';
+
+describe('scoring', () => {
+  it('should use the guideline line clear table multiplied by level', () => {
+    expect(scoreClear(1, 'none', 0, false, false, 1)).toBe(100);
+    expect(scoreClear(4, 'none', 0, false, false, 3)).toBe(2400);
+  });
+
+  it('should score T-spins and mini T-spins', () => {
+    expect(scoreClear(0, 'full', -1, false, false, 1)).toBe(400);
+    expect(scoreClear(3, 'full', 0, false, false, 1)).toBe(1600);
+    expect(scoreClear(1, 'mini', 0, false, false, 2)).toBe(400);
+  });
+
+  it('should apply back-to-back only to difficult clears', () => {
+    expect(scoreClear(4, 'none', 0, true, false, 1)).toBe(1200);
+    expect(scoreClear(2, 'full', 0, true, false, 1)).toBe(1800);
+    expect(scoreClear(2, 'none', 0, true, false, 1)).toBe(300);
+  });
+
+  it('should add combo and perfect clear bonuses', () => {
+    expect(scoreClear(1, 'none', 2, false, false, 1)).toBe(200);
+    expect(scoreClear(4, 'none', 0, false, true, 1)).toBe(2800);
+    expect(scoreClear(4, 'none', 0, true, true, 1)).toBe(1200 + 3200);
+  });
+
+  it('should describe a clear for the popup', () => {
+    expect(describeClear({ lines: 2, tSpin: 'full', combo: 1, backToBack: true, perfectClear: false, points: 1850 }))
+      .toEqual(['T-SPIN DOUBLE', 'BACK-TO-BACK', 'COMBO ×1', '+1850']);
+    expect(describeClear({ lines: 0, tSpin: 'mini', combo: -1, backToBack: false, perfectClear: false, points: 100 }))
+      .toEqual(['MINI T-SPIN', '+100']);
+  });
+});
@@ -0,0 +1,83 @@
+export type TSpin = 'none' | 'mini' | 'full';
+
+/** Everything that went into scoring one locked piece. */
+export interface ClearResult {
+  lines: number;
+  tSpin: TSpin;
+  /** Consecutive line-clearing locks before this one; -1 when the chain is broken. */
+  combo: number;
+  backToBack: boolean;
+  perfectClear: boolean;
+  points: number;
+}
+
+// Guideline base values, multiplied by the level
+const LINE_POINTS = [0, 100, 300, 500, 800];
+const MINI_T_SPIN_POINTS = [100, 200, 400];
+const T_SPIN_POINTS = [400, 800, 1200, 1600];
+const PERFECT_CLEAR_POINTS = [0, 800, 1200, 1800, 2000];
+const BACK_TO_BACK_PERFECT_TETRIS = 3200;
+const COMBO_POINTS = 50;
+
+export const SOFT_DROP_POINTS = 1;
+export const HARD_DROP_POINTS = 2;
+
+/** A "difficult" clear keeps the back-to-back chain alive: tetrises and T-spins with lines. */
+export function isDifficult(lines: number, tSpin: TSpin): boolean {
+  return lines === 4 || (lines > 0 && tSpin !== 'none');
+}
+
+/**
+ * Scores a lock. `combo` is the combo count including this lock and
+ * `backToBack` whether the previous difficult clear chains into this one.
+ */
+export function scoreClear(
+  lines: number,
+  tSpin: TSpin,
+  combo: number,
+  backToBack: boolean,
+  perfectClear: boolean,
+  level: number
+): number {
+  let base: number;
+  if (tSpin === 'full') {
+    base = T_SPIN_POINTS[lines] ?? 0;
+  } else if (tSpin === 'mini') {
+    base = MINI_T_SPIN_POINTS[lines] ?? 0;
+  } else {
+    base = LINE_POINTS[lines] ?? 0;
+  }
+
+  if (backToBack && isDifficult(lines, tSpin)) {
+    base *= 1.5;
+  }
+
+  let points = base * level;
+  if (lines > 0 && combo > 0) {
+    points += COMBO_POINTS * combo * level;
+  }
+  if (perfectClear) {
+    const bonus = backToBack && lines === 4 ? BACK_TO_BACK_PERFECT_TETRIS : PERFECT_CLEAR_POINTS[lines] ?? 0;
+    points += bonus * level;
+  }
+  return points;
+}
+
+/** Short labels for the on-canvas popup, most important first. */
+export function describeClear(result: ClearResult): string[] {
+  const names = ['', 'SINGLE', 'DOUBLE', 'TRIPLE', 'TETRIS'];
+  const labels: string[] = [];
+
+  if (result.tSpin !== 'none') {
+    const prefix = result.tSpin === 'mini' ? 'MINI T-SPIN' : 'T-SPIN';
+    labels.push(result.lines > 0 ? `${prefix} ${names[result.lines]}` : prefix);
+  } else if (result.lines > 0) {
+    labels.push(names[result.lines]);
+  }
+  if (result.perfectClear) labels.push('PERFECT CLEAR');
+  if (result.backToBack && isDifficult(result.lines, result.tSpin)) labels.push('BACK-TO-BACK');
+  if (result.lines > 0 && result.combo > 0) labels.push(`COMBO ×${result.combo}`);
+  if (result.points > 0) labels.push(`+${result.points}`);
+
+  return labels;
+}
@@ -0,0 +1,75 @@
+import { Position, TetrominoType } from './tetris-engine';
+
+/** Rotation states in SRS order: spawn, right (clockwise), 180, left. */
+export type Rotation = 0 | 1 | 2 | 3;
+
+type KickTable = Record<string, Position[]>;
+
+// Offsets are listed as in the SRS guideline (y points up) and flipped below,
+// because the board's y axis points down.
+const JLSTZ_KICKS: KickTable = flipY({
+  '01': [{ x: 0, y: 0 }, { x: -1, y: 0 }, { x: -1, y: 1 }, { x: 0, y: -2 }, { x: -1, y: -2 }],
+  '10': [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: -1 }, { x: 0, y: 2 }, { x: 1, y: 2 }],
+  '12': [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: -1 }, { x: 0, y: 2 }, { x: 1, y: 2 }],
+  '21': [{ x: 0, y: 0 }, { x: -1, y: 0 }, { x: -1, y: 1 }, { x: 0, y: -2 }, { x: -1, y: -2 }],
+  '23': [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: -2 }, { x: 1, y: -2 }],
+  '32': [{ x: 0, y: 0 }, { x: -1, y: 0 }, { x: -1, y: -1 }, { x: 0, y: 2 }, { x: -1, y: 2 }],
+  '30': [{ x: 0, y: 0 }, { x: -1, y: 0 }, { x: -1, y: -1 }, { x: 0, y: 2 }, { x: -1, y: 2 }],
+  '03': [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: -2 }, { x: 1, y: -2 }]
+});
+
+const I_KICKS: KickTable = flipY({
+  '01': [{ x: 0, y: 0 }, { x: -2, y: 0 }, { x: 1, y: 0 }, { x: -2, y: -1 }, { x: 1, y: 2 }],
+  '10': [{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: -1, y: 0 }, { x: 2, y: 1 }, { x: -1, y: -2 }],
+  '12': [{ x: 0, y: 0 }, { x: -1, y: 0 }, { x: 2, y: 0 }, { x: -1, y: 2 }, { x: 2, y: -1 }],
+  '21': [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: -2, y: 0 }, { x: 1, y: -2 }, { x: -2, y: 1 }],
+  '23': [{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: -1, y: 0 }, { x: 2, y: 1 }, { x: -1, y: -2 }],
+  '32': [{ x: 0, y: 0 }, { x: -2, y: 0 }, { x: 1, y: 0 }, { x: -2, y: -1 }, { x: 1, y: 2 }],
+  '30': [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: -2, y: 0 }, { x: 1, y: -2 }, { x: -2, y: 1 }],
+  '03': [{ x: 0, y: 0 }, { x: -1, y: 0 }, { x: 2, y: 0 }, { x: -1, y: 2 }, { x: 2, y: -1 }]
+});
+
+const NO_KICKS: Position[] = [{ x: 0, y: 0 }];
+
+function flipY(table: KickTable): KickTable {
+  const flipped: KickTable = {};
+  for (const [key, offsets] of Object.entries(table)) {
+    flipped[key] = offsets.map(({ x, y }) => ({ x, y: -y }));
+  }
+  return flipped;
+}
+
+/** Board offsets to try, in order, when rotating `type` from one state to another. */
+export function getKicks(type: TetrominoType, from: Rotation, to: Rotation): Position[] {
+  if (type === 'O') return NO_KICKS;
+  const table = type === 'I' ? I_KICKS : JLSTZ_KICKS;
+  return table[`${from}${to}`] ?? NO_KICKS;
+}
+
+/** Rotates a square matrix 90 degrees clockwise. */
+export function rotate(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const rotated = Array(n).fill(null).map(() => Array(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      rotated[j][n - 1 - i] = matrix[i][j];
+    }
+  }
+
+  return rotated;
+}
+
+/** Rotates a square matrix 90 degrees counter-clockwise. */
+export function rotateCounterClockwise(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const rotated = Array(n).fill(null).map(() => Array(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      rotated[n - 1 - j][i] = matrix[i][j];
+    }
+  }
+
+  return rotated;
+}
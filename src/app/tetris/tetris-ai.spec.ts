@@ -0,0 +1,94 @@
+import { ManualClock } from '../shared/clock';
+import { benchmark, bestPlacement, boardFeatures, findPlacements, playBestMove } from './tetris-ai';
+import { TetrisEngine } from './tetris-engine';
+
+describe('Tetris AI', () => {
+  let engine: TetrisEngine;
+
+  function landedCells(game: TetrisEngine): string {
+    return game.board.map(row => row.map(cell => (cell ? '#' : '.')).join('')).join('\n');
+  }
+
+  beforeEach(() => {
+    engine = new TetrisEngine({ seed: 42, clock: new ManualClock() });
+    engine.start();
+  });
+
+  it('should measure height, holes and bumpiness', () => {
+    const board = Array.from({ length: 4 }, () => Array<string>(4).fill(''));
+    board[1][0] = 'x';
+    board[3][1] = 'x';
+    board[2][3] = 'x';
+
+    // Heights 3, 1, 0, 2, with holes under the blocks in the first and last columns
+    expect(boardFeatures(board)).toEqual({ height: 6, holes: 3, bumpiness: 2 + 1 + 2 });
+  });
+
+  it('should only suggest placements the engine plays out exactly as predicted', () => {
+    // Some rubble so that kicks and blocked slides come into play
+    engine.board[19] = ['#', '#', '', '#', '#', '#', '', '#', '#', '#'];
+    engine.board[18] = ['#', '', '', '', '#', '', '', '', '', '#'];
+
+    const placements = findPlacements(engine);
+    expect(placements.length).toBeGreaterThan(20);
+
+    for (const placement of placements) {
+      const copy = new TetrisEngine({ seed: 42, clock: new ManualClock() });
+      copy.start();
+      copy.board = engine.board.map(row => [...row]);
+
+      const commands = placement.commands.slice(0, -1);
+      commands.forEach(command => copy.apply(command));
+      expect(copy.currentPiece!.type).toBe(placement.type);
+      expect(copy.currentPosition.x).toBe(placement.position.x);
+      expect(copy.currentPiece!.shape).toEqual(placement.shape);
+      expect(copy.ghostY()).toBe(placement.position.y);
+
+      const linesBefore = copy.lines;
+      copy.apply('hardDrop');
+      expect(copy.lines - linesBefore).toBe(placement.lines);
+    }
+  });
+
+  it('should consider swapping in the next piece while hold is available', () => {
+    const next = engine.nextPieces[0];
+    const held = findPlacements(engine).filter(placement => placement.hold);
+
+    expect(held.length).toBeGreaterThan(0);
+    expect(held.every(placement => placement.type === next && placement.commands[0] === 'hold')).toBeTrue();
+
+    engine.apply('hold');
+    expect(findPlacements(engine).some(placement => placement.hold)).toBeFalse();
+  });
+
+  it('should finish a nearly complete line when it can', () => {
+    for (let row = 16; row < 20; row++) {
+      engine.board[row] = engine.board[row].map((_, col) => (col === 9 ? '' : '#'));
+    }
+
+    // Whatever comes, the best move clears at least one of the four rows
+    const placement = bestPlacement(engine)!;
+    expect(placement.lines).toBeGreaterThan(0);
+
+    playBestMove(engine);
+    expect(engine.lines).toBe(placement.lines);
+  });
+
+  it('should play the same seeded games every time and clear lines', () => {
+    const first = benchmark(2, { seed: 5, maxPieces: 120 });
+    const second = benchmark(2, { seed: 5, maxPieces: 120 });
+
+    expect(second).toEqual(first);
+    expect(first.lines.length).toBe(2);
+    expect(first.averageLines).toBeGreaterThan(30);
+    expect(first.averageScore).toBeGreaterThan(0);
+  });
+
+  it('should keep a bot game going without topping out', () => {
+    for (let piece = 0; piece < 200 && !engine.gameOver; piece++) {
+      playBestMove(engine);
+    }
+    expect(engine.gameOver).toBeFalse();
+    expect(landedCells(engine).split('\n').slice(0, 10).join('')).not.toContain('#');
+  });
+});
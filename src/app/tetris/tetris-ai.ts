@@ -0,0 +1,226 @@
+import {
+  clearFullRows,
+  fits,
+  Position,
+  rotateOnBoard,
+  spawnPosition,
+  TetrisCommand,
+  TetrisEngine,
+  TetrisEvent,
+  TETROMINOES,
+  TetrominoType
+} from './tetris-engine';
+import { Rotation } from './srs';
+
+/** How much each board feature counts towards a placement's value; negative is bad. */
+export interface AiWeights {
+  /** Sum of the column heights. */
+  height: number;
+  lines: number;
+  /** Empty cells with a block somewhere above them. */
+  holes: number;
+  /** Sum of height differences between neighbouring columns. */
+  bumpiness: number;
+}
+
+// Weights tuned by a genetic algorithm for this exact feature set
+export const DEFAULT_AI_WEIGHTS: AiWeights = {
+  height: -0.510066,
+  lines: 0.760666,
+  holes: -0.35663,
+  bumpiness: -0.184483
+};
+
+export interface Placement {
+  type: TetrominoType;
+  /** Whether the piece comes out of (or goes into) the hold slot first. */
+  hold: boolean;
+  shape: number[][];
+  position: Position;
+  lines: number;
+  value: number;
+  /** Engine commands that get the piece there and drop it, all within one frame. */
+  commands: TetrisCommand[];
+}
+
+export interface BenchmarkResult {
+  games: number;
+  /** Lines cleared in each game. */
+  lines: number[];
+  averageLines: number;
+  averageScore: number;
+}
+
+/** Turns to try from the current orientation, as the commands that make them. */
+const TURNS: TetrisCommand[][] = [[], ['rotateCW'], ['rotateCW', 'rotateCW'], ['rotateCCW']];
+
+const SLIDES: [step: -1 | 1, press: TetrisCommand, release: TetrisCommand][] = [
+  [-1, 'left', 'releaseLeft'],
+  [1, 'right', 'releaseRight']
+];
+
+export function boardFeatures(board: string[][]): Omit<AiWeights, 'lines'> {
+  const rows = board.length;
+  const heights = board[0].map((_, col) => {
+    const top = board.findIndex(row => row[col] !== '');
+    return top === -1 ? 0 : rows - top;
+  });
+
+  let holes = 0;
+  heights.forEach((height, col) => {
+    for (let row = rows - height; row < rows; row++) {
+      if (board[row][col] === '') holes++;
+    }
+  });
+
+  let bumpiness = 0;
+  for (let col = 1; col < heights.length; col++) {
+    bumpiness += Math.abs(heights[col] - heights[col - 1]);
+  }
+
+  return { height: heights.reduce((sum, height) => sum + height, 0), holes, bumpiness };
+}
+
+export function evaluateBoard(board: string[][], lines: number, weights = DEFAULT_AI_WEIGHTS): number {
+  const { height, holes, bumpiness } = boardFeatures(board);
+  return weights.height * height + weights.lines * lines + weights.holes * holes + weights.bumpiness * bumpiness;
+}
+
+/**
+ * Every spot the falling piece, or the one hold would bring out, can reach
+ * by turning, sliding and hard dropping. Moves are checked with the engine's
+ * own collision, rotation and line clear rules, so each one is legal.
+ */
+export function findPlacements(engine: TetrisEngine, weights = DEFAULT_AI_WEIGHTS): Placement[] {
+  const piece = engine.currentPiece;
+  if (!piece || engine.gameOver) return [];
+
+  const { board } = engine;
+  const placements = placementsFor(board, piece.type, piece.shape, engine.currentPosition, engine.currentRotation, [], weights);
+
+  const swap = engine.canHold ? (engine.heldPiece ?? engine.nextPieces[0]) : undefined;
+  if (swap) {
+    const shape = TETROMINOES[swap].shape;
+    const start = spawnPosition(engine.cols, shape);
+    if (fits(board, shape, start.x, start.y)) {
+      placements.push(...placementsFor(board, swap, shape, start, 0, ['hold'], weights));
+    }
+  }
+  return placements;
+}
+
+export function bestPlacement(engine: TetrisEngine, weights = DEFAULT_AI_WEIGHTS): Placement | null {
+  let best: Placement | null = null;
+  for (const placement of findPlacements(engine, weights)) {
+    if (!best || placement.value > best.value) {
+      best = placement;
+    }
+  }
+  return best;
+}
+
+/** Plays the bot's choice for the falling piece straight away. */
+export function playBestMove(engine: TetrisEngine, weights = DEFAULT_AI_WEIGHTS): TetrisEvent[] {
+  const placement = bestPlacement(engine, weights);
+  return placement ? placement.commands.flatMap(command => engine.apply(command)) : [];
+}
+
+/**
+ * Lets the bot play `games` games, seeded `seed`, `seed + 1`, ..., and
+ * reports the lines it cleared. Games stop after `maxPieces` so that a
+ * strong bot still finishes.
+ */
+export function benchmark(
+  games: number,
+  { seed = 1, maxPieces = 500, weights = DEFAULT_AI_WEIGHTS }: { seed?: number; maxPieces?: number; weights?: AiWeights } = {}
+): BenchmarkResult {
+  const lines: number[] = [];
+  let totalScore = 0;
+
+  for (let game = 0; game < games; game++) {
+    const engine = new TetrisEngine({ seed: seed + game });
+    engine.start();
+    for (let pieces = 0; pieces < maxPieces && !engine.gameOver; pieces++) {
+      playBestMove(engine, weights);
+    }
+    lines.push(engine.lines);
+    totalScore += engine.score;
+  }
+
+  return {
+    games,
+    lines,
+    averageLines: games > 0 ? lines.reduce((sum, count) => sum + count, 0) / games : 0,
+    averageScore: games > 0 ? totalScore / games : 0
+  };
+}
+
+function placementsFor(
+  board: string[][],
+  type: TetrominoType,
+  startShape: number[][],
+  startPosition: Position,
+  startRotation: Rotation,
+  prefix: TetrisCommand[],
+  weights: AiWeights
+): Placement[] {
+  const placements: Placement[] = [];
+
+  for (const turns of TURNS) {
+    // Turn in place first, kicks and all, exactly as the engine would
+    let shape = startShape;
+    let position = startPosition;
+    let rotation = startRotation;
+    let blocked = false;
+    for (const command of turns) {
+      const turn = rotateOnBoard(board, type, shape, position, rotation, command === 'rotateCW' ? 1 : -1);
+      if (!turn) {
+        blocked = true;
+        break;
+      }
+      ({ shape, position, rotation } = turn);
+    }
+    if (blocked) continue;
+
+    // Then slide one cell at a time each way until something is in the way
+    const reachable = [{ x: position.x, slides: [] as TetrisCommand[] }];
+    for (const [step, press, release] of SLIDES) {
+      const slides: TetrisCommand[] = [];
+      for (let x = position.x + step; fits(board, shape, x, position.y); x += step) {
+        slides.push(press, release);
+        reachable.push({ x, slides: [...slides] });
+      }
+    }
+
+    for (const { x, slides } of reachable) {
+      let y = position.y;
+      while (fits(board, shape, x, y + 1)) y++;
+
+      // Lock it on a copy of the board; anything left above the top ends the game
+      const after = board.map(row => [...row]);
+      let toppedOut = false;
+      shape.forEach((cells, row) =>
+        cells.forEach((cell, col) => {
+          if (!cell) return;
+          if (y + row < 0) {
+            toppedOut = true;
+          } else {
+            after[y + row][x + col] = type;
+          }
+        })
+      );
+      const lines = clearFullRows(after);
+
+      placements.push({
+        type,
+        hold: prefix.length > 0,
+        shape,
+        position: { x, y },
+        lines,
+        value: toppedOut ? -Infinity : evaluateBoard(after, lines, weights),
+        commands: [...prefix, ...turns, ...slides, 'hardDrop']
+      });
+    }
+  }
+  return placements;
+}
@@ -0,0 +1,113 @@
+import { fits, TetrisEngine } from './tetris-engine';
+
+/** What the drawing needs from a game: a live engine, or a snapshot of an online opponent's. */
+export type Playfield = Pick<TetrisEngine, 'cols' | 'rows' | 'board' | 'currentPiece' | 'currentPosition'>;
+
+export interface PlayfieldStyle {
+  blockSize: number;
+  ghost: boolean;
+  gridLines: boolean;
+  /** Rows still falling after a line clear are drawn this many rows higher. */
+  rowOffset?: (row: number) => number;
+}
+
+/** Draws the background, grid, locked blocks and ghost piece of `engine`'s board. */
+export function drawBoard(ctx: CanvasRenderingContext2D, engine: Playfield, style: PlayfieldStyle): void {
+  const { blockSize } = style;
+  const width = engine.cols * blockSize;
+  const height = engine.rows * blockSize;
+
+  // Clear canvas
+  ctx.fillStyle = '#1a1a2e';
+  ctx.fillRect(0, 0, width, height);
+
+  // Draw grid
+  if (style.gridLines) {
+    ctx.strokeStyle = '#16213e';
+    ctx.lineWidth = 1;
+    for (let i = 0; i <= engine.cols; i++) {
+      ctx.beginPath();
+      ctx.moveTo(i * blockSize, 0);
+      ctx.lineTo(i * blockSize, height);
+      ctx.stroke();
+    }
+    for (let i = 0; i <= engine.rows; i++) {
+      ctx.beginPath();
+      ctx.moveTo(0, i * blockSize);
+      ctx.lineTo(width, i * blockSize);
+      ctx.stroke();
+    }
+  }
+
+  // Draw locked pieces
+  const board = engine.board;
+  for (let row = 0; row < engine.rows; row++) {
+    const y = row - (style.rowOffset?.(row) ?? 0);
+    for (let col = 0; col < engine.cols; col++) {
+      if (board[row][col]) {
+        drawBlock(ctx, col, y, board[row][col], blockSize);
+      }
+    }
+  }
+
+  // Draw ghost piece where the current piece would land
+  const piece = engine.currentPiece;
+  const position = engine.currentPosition;
+  if (piece && style.ghost) {
+    let ghostY = position.y;
+    while (fits(engine.board, piece.shape, position.x, ghostY + 1)) {
+      ghostY++;
+    }
+    for (let row = 0; row < piece.shape.length; row++) {
+      for (let col = 0; col < piece.shape[row].length; col++) {
+        if (piece.shape[row][col] && ghostY + row >= 0) {
+          drawGhostBlock(ctx, position.x + col, ghostY + row, piece.color, blockSize);
+        }
+      }
+    }
+  }
+}
+
+/** Draws the falling piece; rows above the board stay hidden. */
+export function drawPiece(ctx: CanvasRenderingContext2D, engine: Playfield, blockSize: number): void {
+  const piece = engine.currentPiece;
+  const position = engine.currentPosition;
+  if (!piece) return;
+
+  for (let row = 0; row < piece.shape.length; row++) {
+    for (let col = 0; col < piece.shape[row].length; col++) {
+      if (piece.shape[row][col]) {
+        const x = position.x + col;
+        const y = position.y + row;
+        if (y >= 0) {
+          drawBlock(ctx, x, y, piece.color, blockSize);
+        }
+      }
+    }
+  }
+}
+
+export function drawBlock(ctx: CanvasRenderingContext2D, x: number, y: number, color: string, blockSize: number): void {
+  const padding = 2;
+  ctx.fillStyle = color;
+  ctx.fillRect(x * blockSize + padding, y * blockSize + padding, blockSize - padding * 2, blockSize - padding * 2);
+
+  // Add highlight for 3D effect
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
+  ctx.fillRect(x * blockSize + padding, y * blockSize + padding, blockSize - padding * 2, 4);
+  ctx.fillRect(x * blockSize + padding, y * blockSize + padding, 4, blockSize - padding * 2);
+}
+
+function drawGhostBlock(ctx: CanvasRenderingContext2D, x: number, y: number, color: string, blockSize: number): void {
+  const padding = 2;
+  ctx.strokeStyle = color;
+  ctx.globalAlpha = 0.5;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(
+    x * blockSize + padding + 1,
+    y * blockSize + padding + 1,
+    blockSize - padding * 2 - 2,
+    blockSize - padding * 2 - 2
+  );
+  ctx.globalAlpha = 1;
+}
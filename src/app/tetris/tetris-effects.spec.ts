@@ -0,0 +1,35 @@
+import { drops, TetrisEffects } from './tetris-effects';
+
+describe('drops', () => {
+  it('drops each row by the number of cleared rows below it', () => {
+    // Rows 3 and 5 of 6 cleared: old row 4 drops one to row 5, everything above drops two
+    expect(drops(6, [3, 5])).toEqual([2, 2, 2, 2, 2, 1]);
+  });
+
+  it('leaves the board alone when nothing was cleared', () => {
+    expect(drops(4, [])).toEqual([0, 0, 0, 0]);
+  });
+});
+
+describe('TetrisEffects', () => {
+  const engine = { rows: 4, lockedCells: [], clearedRows: [{ row: 3, blocks: ['#f00', '#f00'] }] };
+
+  it('holds the rows above a clear in place, then lets them fall', () => {
+    const effects = new TetrisEffects();
+    effects.capture([{ type: 'lineClear', lines: 1 }], engine, 1000);
+
+    expect(effects.rowOffset(3, 1000)).toBe(1);
+    expect(effects.rowOffset(3, 1100)).toBe(1);
+    const falling = effects.rowOffset(3, 1250);
+    expect(falling).toBeGreaterThan(0);
+    expect(falling).toBeLessThan(1);
+    expect(effects.rowOffset(3, 2000)).toBe(0);
+  });
+
+  it('stops after a reset', () => {
+    const effects = new TetrisEffects();
+    effects.capture([{ type: 'lineClear', lines: 1 }], engine, 1000);
+    effects.reset();
+    expect(effects.rowOffset(3, 1000)).toBe(0);
+  });
+});
@@ -0,0 +1,99 @@
+import { drawBlock } from './tetris-canvas';
+import { Position, TetrisEngine, TetrisEvent } from './tetris-engine';
+
+// Cleared rows flash, then the rows above drop into the gap
+const CLEAR_FLASH_MS = 180;
+const COLLAPSE_MS = 140;
+const LOCK_FLASH_MS = 150;
+
+interface LineClearAnimation {
+  rows: number[];
+  blocks: string[][];
+  /** How many rows each row of the board after the clear has dropped by. */
+  drops: number[];
+  startedAt: number;
+}
+
+/**
+ * Line-clear and lock animations drawn over a Tetris board. The engine has
+ * already moved on when they play, so they work backwards from its board:
+ * the cleared rows are drawn back in, and rows above start where they were
+ * and fall into place.
+ */
+export class TetrisEffects {
+  private clear: LineClearAnimation | null = null;
+  private lock: { cells: Position[]; startedAt: number } | null = null;
+
+  /** Starts the animations for what an engine call just did. */
+  capture(events: TetrisEvent[], engine: Pick<TetrisEngine, 'rows' | 'lockedCells' | 'clearedRows'>, now: number): void {
+    if (events.some(event => event.type === 'lineClear')) {
+      const rows = engine.clearedRows.map(cleared => cleared.row);
+      this.clear = { rows, blocks: engine.clearedRows.map(cleared => cleared.blocks), drops: drops(engine.rows, rows), startedAt: now };
+      // The clear flash covers the piece that caused it
+      this.lock = null;
+    } else if (events.some(event => event.type === 'lock')) {
+      this.lock = { cells: engine.lockedCells, startedAt: now };
+    }
+  }
+
+  reset(): void {
+    this.clear = null;
+    this.lock = null;
+  }
+
+  /** How many rows above its place row `row` should still be drawn; for `drawBoard`. */
+  rowOffset(row: number, now: number): number {
+    if (!this.clear) return 0;
+    const elapsed = now - this.clear.startedAt;
+    const drop = this.clear.drops[row] ?? 0;
+    if (elapsed < CLEAR_FLASH_MS) return drop;
+
+    const progress = Math.min(1, (elapsed - CLEAR_FLASH_MS) / COLLAPSE_MS);
+    // Ease in, like falling
+    return drop * (1 - progress * progress);
+  }
+
+  /** Draws the flashes; call after the board and before the falling piece. */
+  drawOverlay(ctx: CanvasRenderingContext2D, blockSize: number, now: number): void {
+    if (this.clear) {
+      const elapsed = now - this.clear.startedAt;
+      if (elapsed >= CLEAR_FLASH_MS + COLLAPSE_MS) {
+        this.clear = null;
+      } else if (elapsed < CLEAR_FLASH_MS) {
+        // Three quick blinks between the blocks and white
+        const white = Math.floor(elapsed / (CLEAR_FLASH_MS / 6)) % 2 === 0;
+        this.clear.rows.forEach((row, i) => {
+          this.clear!.blocks[i].forEach((color, col) => drawBlock(ctx, col, row, white ? '#ffffff' : color, blockSize));
+        });
+      }
+    }
+
+    if (this.lock) {
+      const elapsed = now - this.lock.startedAt;
+      if (elapsed >= LOCK_FLASH_MS) {
+        this.lock = null;
+      } else {
+        ctx.fillStyle = `rgba(255, 255, 255, ${0.6 * (1 - elapsed / LOCK_FLASH_MS)})`;
+        this.lock.cells.forEach(({ x, y }) => ctx.fillRect(x * blockSize, y * blockSize, blockSize, blockSize));
+      }
+    }
+  }
+}
+
+/**
+ * For each row of the board after a clear, how far it dropped: the number of
+ * cleared rows that were below it. The new empty rows at the top count as
+ * having dropped the full amount.
+ */
+export function drops(rowCount: number, cleared: number[]): number[] {
+  const result = Array<number>(rowCount).fill(cleared.length);
+  let below = 0;
+  for (let row = rowCount - 1; row >= 0; row--) {
+    if (cleared.includes(row)) {
+      below++;
+    } else {
+      result[row + below] = below;
+    }
+  }
+  return result;
+}
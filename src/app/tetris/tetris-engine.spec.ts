@@ -0,0 +1,578 @@
+import { ManualClock } from '../shared/clock';
+import { HARD_DROP_POINTS } from './scoring';
+import {
+  FRAME_MS,
+  GARBAGE_COLOR,
+  guidelineGravityInterval,
+  TetrisCommand,
+  TetrisEngine,
+  TetrisEvent,
+  TetrominoType,
+  TETROMINOES,
+  TWENTY_G
+} from './tetris-engine';
+
+describe('TetrisEngine', () => {
+  let clock: ManualClock;
+  let engine: TetrisEngine;
+
+  function fillRow(row: number, gapColumn = -1): void {
+    for (let col = 0; col < engine.cols; col++) {
+      engine.board[row][col] = col === gapColumn ? '' : '#888888';
+    }
+  }
+
+  function pieceSequence(seed: number, count: number): string[] {
+    const game = new TetrisEngine({ seed, clock: new ManualClock() });
+    game.start();
+    const sequence: string[] = [];
+    for (let i = 0; i < count; i++) {
+      sequence.push(game.currentPiece!.type);
+      // Clear the board each time so the game never tops out
+      game.board.forEach(row => row.fill(''));
+      game.apply('hardDrop');
+    }
+    return sequence;
+  }
+
+  function setPiece(type: TetrominoType, x: number, y: number): void {
+    engine.currentPiece = { ...TETROMINOES[type], shape: TETROMINOES[type].shape.map(row => [...row]) };
+    engine.currentPosition = { x, y };
+    engine.currentRotation = 0;
+  }
+
+  beforeEach(() => {
+    clock = new ManualClock();
+    engine = new TetrisEngine({ seed: 42, clock });
+    engine.start();
+  });
+
+  it('should carry on a saved game exactly as the original plays out', () => {
+    const commands: TetrisCommand[] = ['left', 'rotateCW', 'releaseLeft', 'hardDrop', 'right', 'softDrop', 'hold'];
+    const playFrames = (game: TetrisEngine, from: number, to: number) => {
+      for (let frame = from; frame < to; frame++) {
+        if (frame % 9 === 0) game.apply(commands[(frame / 9) % commands.length]);
+        game.tick();
+      }
+    };
+    playFrames(engine, 0, 300);
+
+    const copy = new TetrisEngine({ seed: 0, clock });
+    copy.restore(JSON.parse(JSON.stringify(engine.save())));
+    playFrames(engine, 300, 900);
+    playFrames(copy, 300, 900);
+
+    expect(copy.save()).toEqual(engine.save());
+    expect(copy.nextPieces).toEqual(engine.nextPieces);
+  });
+
+  it('should refuse a save from a board of another size', () => {
+    const narrow = new TetrisEngine({ seed: 1, cols: 8, clock });
+    expect(() => narrow.restore(engine.save())).toThrowError(/8 × 20/);
+  });
+
+  it('should spawn a piece at the top of an empty board', () => {
+    expect(engine.currentPiece).not.toBeNull();
+    expect(engine.currentPosition.y).toBe(0);
+    expect(engine.board.every(row => row.every(cell => cell === ''))).toBeTrue();
+  });
+
+  it('should deal the same pieces for the same seed', () => {
+    expect(pieceSequence(7, 20)).toEqual(pieceSequence(7, 20));
+    expect(pieceSequence(7, 20)).not.toEqual(pieceSequence(8, 20));
+  });
+
+  it('should deal every piece exactly once per bag of seven', () => {
+    const sequence = pieceSequence(3, 21);
+    for (let bag = 0; bag < 3; bag++) {
+      expect([...sequence.slice(bag * 7, bag * 7 + 7)].sort()).toEqual(['I', 'J', 'L', 'O', 'S', 'T', 'Z']);
+    }
+  });
+
+  it('should preview the next five pieces in spawn order', () => {
+    const next = engine.nextPieces;
+    expect(next.length).toBe(5);
+
+    engine.apply('hardDrop');
+    expect(engine.currentPiece!.type).toBe(next[0]);
+    expect(engine.nextPieces.slice(0, 4)).toEqual(next.slice(1));
+  });
+
+  it('should only apply gravity when the clock advances past the drop interval', () => {
+    const startY = engine.currentPosition.y;
+
+    clock.advance(900);
+    engine.update();
+    expect(engine.currentPosition.y).toBe(startY);
+
+    clock.advance(200);
+    engine.update();
+    expect(engine.currentPosition.y).toBe(startY + 1);
+  });
+
+  it('should simulate whole frames only', () => {
+    clock.advance(FRAME_MS * 3.5);
+    engine.update();
+    expect(engine.frameCount).toBe(3);
+
+    engine.tick();
+    expect(engine.frameCount).toBe(4);
+  });
+
+  it('should not advance while paused', () => {
+    engine.pause();
+    clock.advance(5000);
+    engine.update();
+    engine.resume();
+    engine.update();
+    expect(engine.frameCount).toBe(0);
+  });
+
+  it('should stop at the walls', () => {
+    for (let i = 0; i < engine.cols; i++) {
+      engine.apply('left');
+    }
+    const leftmost = engine.currentPosition.x;
+    engine.apply('left');
+    expect(engine.currentPosition.x).toBe(leftmost);
+    expect(engine.isValidMove(leftmost - 1, engine.currentPosition.y)).toBeFalse();
+  });
+
+  it('should rotate clockwise and counter-clockwise back to the spawn state', () => {
+    setPiece('T', 4, 5);
+
+    engine.apply('rotateCW');
+    expect(engine.currentRotation).toBe(1);
+    expect(engine.currentPiece!.shape).toEqual([[0, 1, 0], [0, 1, 1], [0, 1, 0]]);
+
+    engine.apply('rotateCCW');
+    engine.apply('rotateCCW');
+    expect(engine.currentRotation).toBe(3);
+    expect(engine.currentPiece!.shape).toEqual([[0, 1, 0], [1, 1, 0], [0, 1, 0]]);
+
+    engine.apply('rotateCW');
+    expect(engine.currentRotation).toBe(0);
+    expect(engine.currentPiece!.shape).toEqual(TETROMINOES.T.shape);
+    expect(engine.currentPosition).toEqual({ x: 4, y: 5 });
+  });
+
+  it('should kick a T-piece off the left wall using the SRS table', () => {
+    setPiece('T', 4, 5);
+    engine.apply('rotateCW');
+    for (let i = 0; i < engine.cols; i++) engine.apply('left');
+    expect(engine.currentPosition.x).toBe(-1);
+
+    // Flat in place would poke through the wall, so R -> 2 takes its (+1, 0) kick
+    engine.apply('rotateCW');
+    expect(engine.currentRotation).toBe(2);
+    expect(engine.currentPosition).toEqual({ x: 0, y: 5 });
+  });
+
+  it('should use the I-piece kick table against the right wall', () => {
+    setPiece('I', 4, 5);
+    engine.apply('rotateCW');
+    for (let i = 0; i < engine.cols; i++) engine.apply('right');
+    expect(engine.currentPosition.x).toBe(engine.cols - 3);
+
+    // Rotating back to horizontal in place would poke through the wall; 1 -> 0 kicks (+2, 0) then (-1, 0)
+    engine.apply('rotateCCW');
+    expect(engine.currentRotation).toBe(0);
+    expect(engine.currentPosition.x).toBe(engine.cols - 4);
+  });
+
+  it('should not rotate when no kick fits', () => {
+    setPiece('I', 3, engine.rows - 2);
+    fillRow(engine.rows - 3, 9);
+    fillRow(engine.rows - 4, 9);
+
+    engine.apply('rotateCW');
+    expect(engine.currentRotation).toBe(0);
+  });
+
+  it('should hold the current piece once per drop', () => {
+    const first = engine.currentPiece!.type;
+    const next = engine.nextPieces[0];
+
+    const events = engine.apply('hold');
+    expect(events).toContain({ type: 'hold' });
+    expect(engine.heldPiece).toBe(first);
+    expect(engine.currentPiece!.type).toBe(next);
+
+    expect(engine.apply('hold')).toEqual([]);
+    expect(engine.heldPiece).toBe(first);
+
+    engine.apply('hardDrop');
+    engine.apply('hold');
+    expect(engine.currentPiece!.type).toBe(first);
+    expect(engine.currentRotation).toBe(0);
+  });
+
+  function ticks(count: number): TetrisEvent[] {
+    const events: TetrisEvent[] = [];
+    for (let i = 0; i < count; i++) {
+      events.push(...engine.tick());
+    }
+    return events;
+  }
+
+  const framesFor = (ms: number) => Math.ceil(ms / FRAME_MS);
+
+  it('should lock a soft-dropped piece only after the lock delay', () => {
+    const piece = engine.currentPiece!;
+    engine.apply('softDrop');
+    engine.apply('releaseSoftDrop');
+    setPiece(piece.type, engine.currentPosition.x, engine.ghostY());
+
+    expect(ticks(framesFor(engine.lockDelay) - 2)).not.toContain({ type: 'lock' });
+    expect(ticks(2)).toContain({ type: 'lock' });
+    expect(engine.board[engine.rows - 1]).toContain(piece.color);
+  });
+
+  it('should award one point per row while soft dropping', () => {
+    engine.apply('softDrop');
+    ticks(10);
+    engine.apply('releaseSoftDrop');
+    const rowsDropped = engine.currentPosition.y;
+
+    expect(rowsDropped).toBeGreaterThan(1);
+    expect(engine.score).toBe(rowsDropped);
+  });
+
+  it('should restart the lock delay when the grounded piece moves, up to the reset limit', () => {
+    setPiece('O', 0, engine.rows - 2);
+    let locked = false;
+
+    const tap = (direction: 'left' | 'right') => {
+      engine.apply(direction);
+      engine.apply(direction === 'left' ? 'releaseLeft' : 'releaseRight');
+    };
+
+    // The first move records the landing row; only later moves use up resets
+    tap('right');
+    ticks(1);
+    for (let i = 0; i < engine.lockResets && !locked; i++) {
+      locked = ticks(framesFor(engine.lockDelay) - 2).some(event => event.type === 'lock');
+      tap(i % 2 ? 'left' : 'right');
+    }
+    expect(locked).toBeFalse();
+
+    // The next move no longer buys time
+    ticks(framesFor(engine.lockDelay) - 2);
+    tap('right');
+    expect(ticks(3)).toContain({ type: 'lock' });
+  });
+
+  it('should show the ghost piece on the landing row', () => {
+    setPiece('O', 4, 0);
+    fillRow(engine.rows - 1, 0);
+    expect(engine.ghostY()).toBe(engine.rows - 3);
+  });
+
+  it('should auto-shift after DAS and repeat at ARR until released', () => {
+    setPiece('O', 4, 0);
+    engine.apply('left');
+    expect(engine.currentPosition.x).toBe(3);
+
+    ticks(framesFor(engine.das) - 1);
+    expect(engine.currentPosition.x).toBe(3);
+
+    ticks(1);
+    expect(engine.currentPosition.x).toBe(2);
+
+    ticks(framesFor(engine.arr));
+    expect(engine.currentPosition.x).toBe(1);
+
+    engine.apply('releaseLeft');
+    ticks(framesFor(engine.das) * 2);
+    expect(engine.currentPosition.x).toBe(1);
+  });
+
+  it('should slide straight to the wall when ARR is zero', () => {
+    engine = new TetrisEngine({ seed: 42, clock, arr: 0 });
+    engine.start();
+    setPiece('O', 4, 0);
+
+    engine.apply('right');
+    ticks(framesFor(engine.das));
+    expect(engine.currentPosition.x).toBe(engine.cols - 2);
+  });
+
+  function buildTSlot(): void {
+    // A T-slot in the bottom two rows with an overhang on its upper left
+    fillRow(engine.rows - 1, 4);
+    fillRow(engine.rows - 2);
+    engine.board[engine.rows - 2][3] = '';
+    engine.board[engine.rows - 2][4] = '';
+    engine.board[engine.rows - 2][5] = '';
+    engine.board[engine.rows - 3][3] = '#888888';
+  }
+
+  it('should score a T-spin double when a T rotates into a T-slot', () => {
+    buildTSlot();
+    setPiece('T', 3, 5);
+
+    engine.apply('rotateCW');
+    engine.apply('softDrop');
+    ticks(60);
+    engine.apply('releaseSoftDrop');
+    expect(engine.currentPosition).toEqual({ x: 3, y: engine.rows - 3 });
+
+    engine.apply('rotateCW');
+    const score = engine.apply('hardDrop').find(event => event.type === 'score');
+
+    expect(score).toEqual({
+      type: 'score',
+      result: { lines: 2, tSpin: 'full', combo: 0, backToBack: false, perfectClear: false, points: 1200 }
+    });
+    expect(engine.backToBack).toBeTrue();
+  });
+
+  it('should not count a T-spin unless the last move was a rotation', () => {
+    buildTSlot();
+    setPiece('T', 3, engine.rows - 3);
+    engine.currentPiece!.shape = [[0, 0, 0], [1, 1, 1], [0, 1, 0]];
+    engine.currentRotation = 2;
+
+    const score = engine.apply('hardDrop').find(event => event.type === 'score');
+    expect(score?.type === 'score' && score.result).toEqual(
+      jasmine.objectContaining({ lines: 2, tSpin: 'none', points: 300 })
+    );
+  });
+
+  it('should count a T rotated in open space as no T-spin', () => {
+    fillRow(engine.rows - 1, 4);
+    setPiece('T', 3, engine.rows - 3);
+    engine.apply('rotateCW');
+    engine.apply('rotateCW');
+    const events = engine.apply('hardDrop');
+
+    const score = events.find(event => event.type === 'score');
+    expect(score?.type === 'score' && score.result.tSpin).toBe('none');
+  });
+
+  it('should chain combos and award a perfect clear', () => {
+    // A double with a vertical I-piece starts the combo
+    fillRow(engine.rows - 1, 0);
+    fillRow(engine.rows - 2, 0);
+    const vertical = [[0, 1, 0, 0], [0, 1, 0, 0], [0, 1, 0, 0], [0, 1, 0, 0]];
+
+    setPiece('I', -1, 0);
+    engine.currentPiece!.shape = vertical;
+    const events = engine.apply('hardDrop');
+
+    const score = events.find(event => event.type === 'score');
+    expect(score?.type === 'score' && score.result).toEqual(
+      jasmine.objectContaining({ lines: 2, perfectClear: false })
+    );
+    expect(engine.combo).toBe(0);
+
+    // Leave a single open cell so the next clear empties the board
+    engine.board.forEach(row => row.fill(''));
+    fillRow(engine.rows - 1, 0);
+    setPiece('I', -1, 0);
+    engine.currentPiece!.shape = [[0, 1, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0]];
+    const second = engine.apply('hardDrop').find(event => event.type === 'score');
+
+    expect(engine.combo).toBe(1);
+    expect(second?.type === 'score' && second.result).toEqual(
+      jasmine.objectContaining({ lines: 1, combo: 1, perfectClear: true })
+    );
+  });
+
+  it('should break the combo on a lock without a clear', () => {
+    engine.combo = 3;
+    setPiece('O', 0, 0);
+    engine.apply('hardDrop');
+    expect(engine.combo).toBe(-1);
+  });
+
+  it('should award two points per row on hard drop', () => {
+    engine.currentPiece = { ...TETROMINOES.O, shape: TETROMINOES.O.shape.map(row => [...row]) };
+    engine.currentPosition = { x: 4, y: 0 };
+
+    const events = engine.apply('hardDrop');
+
+    expect(events).toContain({ type: 'lock' });
+    expect(engine.score).toBe(HARD_DROP_POINTS * (engine.rows - 2));
+  });
+
+  it('should clear a completed line and score it by level', () => {
+    fillRow(engine.rows - 1, 0);
+    engine.currentPiece = { ...TETROMINOES.I, shape: [[0, 1, 0, 0], [0, 1, 0, 0], [0, 1, 0, 0], [0, 1, 0, 0]] };
+    engine.currentPosition = { x: -1, y: 0 };
+
+    const events = engine.apply('hardDrop');
+
+    expect(events).toContain({ type: 'lineClear', lines: 1 });
+    expect(engine.lines).toBe(1);
+    expect(engine.score).toBe(HARD_DROP_POINTS * (engine.rows - 4) + 100);
+    expect(engine.board[engine.rows - 1].filter(cell => cell !== '').length).toBe(1);
+  });
+
+  it('should remember the cells it locked and the rows it cleared, for animations', () => {
+    fillRow(engine.rows - 1, 0);
+    engine.currentPiece = { ...TETROMINOES.I, shape: [[0, 1, 0, 0], [0, 1, 0, 0], [0, 1, 0, 0], [0, 1, 0, 0]] };
+    engine.currentPosition = { x: -1, y: 0 };
+
+    engine.apply('hardDrop');
+
+    expect(engine.lockedCells.length).toBe(4);
+    expect(engine.lockedCells).toContain({ x: 0, y: engine.rows - 1 });
+    expect(engine.clearedRows.map(cleared => cleared.row)).toEqual([engine.rows - 1]);
+    expect(engine.clearedRows[0].blocks.every(cell => cell !== '')).toBeTrue();
+  });
+
+  it('should level up every 10 lines and speed up gravity', () => {
+    engine.lines = 9;
+    fillRow(engine.rows - 1, 0);
+    engine.currentPiece = { ...TETROMINOES.I, shape: [[0, 1, 0, 0], [0, 1, 0, 0], [0, 1, 0, 0], [0, 1, 0, 0]] };
+    engine.currentPosition = { x: -1, y: 0 };
+
+    const events = engine.apply('hardDrop');
+
+    expect(events).toContain({ type: 'levelUp', level: 2 });
+    expect(engine.dropInterval).toBe(900);
+  });
+
+  it('should start on the chosen level and count 10 lines per level from there', () => {
+    engine = new TetrisEngine({ seed: 42, clock, startLevel: 5 });
+    engine.start();
+    expect(engine.level).toBe(5);
+    expect(engine.dropInterval).toBe(600);
+
+    engine.lines = 9;
+    fillRow(engine.rows - 1, 0);
+    engine.currentPiece = { ...TETROMINOES.I, shape: [[0, 1, 0, 0], [0, 1, 0, 0], [0, 1, 0, 0], [0, 1, 0, 0]] };
+    engine.currentPosition = { x: -1, y: 0 };
+
+    expect(engine.apply('hardDrop')).toContain({ type: 'levelUp', level: 6 });
+    expect(engine.dropInterval).toBe(500);
+  });
+
+  it('should end the game when a new piece cannot spawn', () => {
+    for (let row = 0; row < engine.rows; row++) {
+      fillRow(row, 0);
+    }
+
+    const events = engine.apply('hardDrop');
+
+    expect(events).toContain({ type: 'gameOver' });
+    expect(engine.gameOver).toBeTrue();
+    expect(engine.apply('left')).toEqual([]);
+  });
+
+  it('should push garbage rows up from the floor with one gap', () => {
+    fillRow(19, 4);
+    const events = engine.addGarbage(2, 7);
+
+    expect(events).toEqual([{ type: 'garbage', lines: 2 }]);
+    expect(engine.board[17].indexOf('')).toBe(4);
+    for (const row of [18, 19]) {
+      expect(engine.board[row].filter(cell => cell === GARBAGE_COLOR).length).toBe(engine.cols - 1);
+      expect(engine.board[row][7]).toBe('');
+    }
+  });
+
+  it('should lift the falling piece out of incoming garbage and top out when the stack overflows', () => {
+    for (let row = 2; row < engine.rows; row++) {
+      fillRow(row, 0);
+    }
+    engine.currentPosition.y = 0;
+
+    expect(engine.addGarbage(1, 0)).toEqual([{ type: 'garbage', lines: 1 }]);
+    expect(engine.currentPosition.y).toBe(-1);
+
+    expect(engine.addGarbage(2, 0)).toContain({ type: 'gameOver' });
+    expect(engine.gameOver).toBeTrue();
+  });
+
+  it('should finish once the line goal is cleared', () => {
+    engine = new TetrisEngine({ seed: 42, clock, lineGoal: 40 });
+    engine.start();
+    engine.lines = 39;
+    fillRow(engine.rows - 1, 0);
+    setPiece('I', -1, 0);
+    engine.currentPiece!.shape = [[0, 1, 0, 0], [0, 1, 0, 0], [0, 1, 0, 0], [0, 1, 0, 0]];
+
+    expect(engine.apply('hardDrop')).toContain({ type: 'finish', reason: 'goal' });
+    expect(engine.gameOver).toBeTrue();
+    expect(engine.currentPiece).toBeNull();
+  });
+
+  it('should finish when the time limit runs out', () => {
+    engine = new TetrisEngine({ seed: 42, clock, timeLimitMs: 1000 });
+    engine.start();
+
+    clock.advance(990);
+    expect(engine.update()).toEqual([]);
+    clock.advance(20);
+    expect(engine.update()).toContain({ type: 'finish', reason: 'timeUp' });
+    expect(engine.elapsedMs).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('should report a game that ends in the frames pausing catches up on', () => {
+    engine = new TetrisEngine({ seed: 42, clock, timeLimitMs: 1000 });
+    engine.start();
+
+    clock.advance(1010);
+    expect(engine.pause()).toContain({ type: 'finish', reason: 'timeUp' });
+    expect(engine.gameOver).toBeTrue();
+  });
+
+  it('should clear the board instead of topping out in Zen, until the player quits', () => {
+    engine = new TetrisEngine({ seed: 42, clock, zen: true });
+    engine.start();
+    for (let row = 0; row < engine.rows; row++) {
+      fillRow(row, 0);
+    }
+
+    expect(engine.apply('hardDrop')).not.toContain({ type: 'gameOver' });
+    expect(engine.gameOver).toBeFalse();
+    expect(engine.board.every(row => row.every(cell => cell === ''))).toBeTrue();
+
+    expect(engine.apply('quit')).toEqual([{ type: 'finish', reason: 'quit' }]);
+    expect(engine.gameOver).toBeTrue();
+  });
+
+  it('should ignore quit outside Zen', () => {
+    expect(engine.apply('quit')).toEqual([]);
+    expect(engine.gameOver).toBeFalse();
+  });
+
+  it('should follow the guideline gravity curve up to 20G', () => {
+    expect(guidelineGravityInterval(1)).toBe(1000);
+    expect(guidelineGravityInterval(14)).toBeLessThan(FRAME_MS);
+    expect(guidelineGravityInterval(20)).toBe(TWENTY_G);
+
+    engine = new TetrisEngine({ seed: 42, clock, gravity: 'guideline', startLevel: 20 });
+    engine.start();
+    expect(engine.currentPosition.y).toBe(engine.ghostY());
+  });
+
+  it('should stay on the last level before the line goal', () => {
+    engine = new TetrisEngine({ seed: 42, clock, lineGoal: 150, gravity: 'guideline' });
+    engine.start();
+    engine.lines = 148;
+    fillRow(engine.rows - 1, 0);
+    setPiece('I', -1, 0);
+    engine.currentPiece!.shape = [[0, 1, 0, 0], [0, 1, 0, 0], [0, 1, 0, 0], [0, 1, 0, 0]];
+
+    expect(engine.apply('hardDrop')).toContain({ type: 'levelUp', level: 15 });
+    expect(engine.dropInterval).toBe(guidelineGravityInterval(15));
+  });
+
+  it('should reach the same result when a scripted game is replayed', () => {
+    const script = ['left', 'rotateCW', 'hardDrop', 'hold', 'right', 'softDrop', 'hardDrop', 'rotateCCW', 'hardDrop'] as const;
+    const play = () => {
+      const game = new TetrisEngine({ seed: 1234, clock: new ManualClock() });
+      game.start();
+      for (const command of script) {
+        for (let i = 0; i < 30; i++) game.tick();
+        game.apply(command);
+      }
+      return { board: game.board.map(row => row.join(',')), score: game.score };
+    };
+
+    expect(play()).toEqual(play());
+  });
+});
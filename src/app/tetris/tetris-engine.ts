@@ -0,0 +1,956 @@
+import { Clock, systemClock } from '../shared/clock';
+import { SeededRandom } from '../shared/random';
+import { ClearResult, HARD_DROP_POINTS, isDifficult, scoreClear, SOFT_DROP_POINTS, TSpin } from './scoring';
+import { getKicks, rotate, rotateCounterClockwise, Rotation } from './srs';
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+export type TetrominoType = 'I' | 'J' | 'L' | 'O' | 'S' | 'T' | 'Z';
+
+export interface Tetromino {
+  type: TetrominoType;
+  shape: number[][];
+  color: string;
+}
+
+/**
+ * Player commands. `left`, `right` and `softDrop` are key presses that keep
+ * repeating inside the engine until the matching release command arrives.
+ */
+export type TetrisCommand =
+  | 'left'
+  | 'right'
+  | 'softDrop'
+  | 'releaseLeft'
+  | 'releaseRight'
+  | 'releaseSoftDrop'
+  | 'rotateCW'
+  | 'rotateCCW'
+  | 'hardDrop'
+  | 'hold'
+  | 'quit';
+
+export type TetrisEvent =
+  | { type: 'lock' }
+  | { type: 'hold' }
+  | { type: 'lineClear'; lines: number }
+  | { type: 'score'; result: ClearResult }
+  | { type: 'levelUp'; level: number }
+  | { type: 'garbage'; lines: number }
+  | { type: 'gameOver' }
+  | { type: 'finish'; reason: FinishReason };
+
+/** How a game with an end condition finished: the line goal, the clock, or the player calling it a day in Zen. */
+export type FinishReason = 'goal' | 'timeUp' | 'quit';
+
+/** Classic gravity speeds up 100 ms per level; guideline gravity follows the modern curve up to 20G. */
+export type GravityCurve = 'classic' | 'guideline';
+
+export interface TetrisEngineOptions {
+  seed: number;
+  clock?: Clock;
+  cols?: number;
+  rows?: number;
+  /** Time a grounded piece waits before locking, in ms. */
+  lockDelay?: number;
+  /** Moves or rotations that may restart the lock delay before the piece lands lower. */
+  lockResets?: number;
+  /** Delayed auto shift: how long left/right must be held before repeating, in ms. */
+  das?: number;
+  /** Auto repeat rate once DAS has charged, in ms per cell; 0 moves straight to the wall. */
+  arr?: number;
+  /** Soft drop speed as a multiple of gravity. */
+  softDropFactor?: number;
+  /** Level the game starts on; it still goes up one level every 10 lines. */
+  startLevel?: number;
+  gravity?: GravityCurve;
+  /** Lines that finish the game, such as 40 for a sprint. */
+  lineGoal?: number;
+  /** Game time that finishes the game, in ms. */
+  timeLimitMs?: number;
+  /** No game over: topping out clears the board, and the game goes on until the player quits. */
+  zen?: boolean;
+}
+
+/**
+ * Everything that changes during a game, down to the held keys, the timers
+ * and the random number generator; see `TetrisEngine.save`.
+ */
+export interface TetrisSave {
+  board: string[][];
+  currentPiece: Tetromino | null;
+  currentPosition: Position;
+  currentRotation: Rotation;
+  heldPiece: TetrominoType | null;
+  canHold: boolean;
+  score: number;
+  level: number;
+  lines: number;
+  dropInterval: number;
+  combo: number;
+  backToBack: boolean;
+  queue: TetrominoType[];
+  frame: number;
+  dropTimer: number;
+  lockTimer: number;
+  resetsUsed: number;
+  lowestY: number;
+  held: { left: boolean; right: boolean; softDrop: boolean };
+  shiftDirection: -1 | 0 | 1;
+  dasTimer: number;
+  arrTimer: number;
+  autoRepeating: boolean;
+  softDropTimer: number;
+  lastMoveWasRotation: boolean;
+  lastKickIndex: number;
+  random: number;
+}
+
+/** The simulation advances in fixed 60 Hz frames so runs are reproducible. */
+export const FRAME_MS = 1000 / 60;
+
+/** Number of upcoming pieces exposed for the preview. */
+export const PREVIEW_SIZE = 5;
+
+/** Milliseconds per row of gravity on `level`. */
+export function gravityInterval(level: number): number {
+  return Math.max(100, 1000 - (level - 1) * 100);
+}
+
+/** Fastest gravity there is: 20 rows a frame, which drops a piece to the floor as soon as it appears. */
+export const TWENTY_G = FRAME_MS / 20;
+
+/**
+ * Milliseconds per row on `level` under the Tetris guideline curve,
+ * (0.8 − (level − 1) × 0.007)^(level − 1) seconds, which passes more than a
+ * row a frame from level 14 and reaches 20G at level 20.
+ */
+export function guidelineGravityInterval(level: number): number {
+  const seconds = Math.pow(0.8 - (level - 1) * 0.007, level - 1);
+  return Math.max(TWENTY_G, seconds * 1000);
+}
+
+/** Colour of the rows an opponent sends in versus games. */
+export const GARBAGE_COLOR = '#808080';
+
+const PIECE_TYPES: TetrominoType[] = ['I', 'J', 'L', 'O', 'S', 'T', 'Z'];
+
+// Tetromino definitions
+export const TETROMINOES: Record<TetrominoType, Tetromino> = {
+  I: {
+    type: 'I',
+    shape: [
+      [0, 0, 0, 0],
+      [1, 1, 1, 1],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0]
+    ],
+    color: '#00f0f0'
+  },
+  J: {
+    type: 'J',
+    shape: [
+      [1, 0, 0],
+      [1, 1, 1],
+      [0, 0, 0]
+    ],
+    color: '#0000f0'
+  },
+  L: {
+    type: 'L',
+    shape: [
+      [0, 0, 1],
+      [1, 1, 1],
+      [0, 0, 0]
+    ],
+    color: '#f0a000'
+  },
+  O: {
+    type: 'O',
+    shape: [
+      [1, 1],
+      [1, 1]
+    ],
+    color: '#f0f000'
+  },
+  S: {
+    type: 'S',
+    shape: [
+      [0, 1, 1],
+      [1, 1, 0],
+      [0, 0, 0]
+    ],
+    color: '#00f000'
+  },
+  T: {
+    type: 'T',
+    shape: [
+      [0, 1, 0],
+      [1, 1, 1],
+      [0, 0, 0]
+    ],
+    color: '#a000f0'
+  },
+  Z: {
+    type: 'Z',
+    shape: [
+      [1, 1, 0],
+      [0, 1, 1],
+      [0, 0, 0]
+    ],
+    color: '#f00000'
+  }
+};
+
+/**
+ * Whether `shape` fits on `board` at `x`, `y`: inside the walls and above the
+ * floor, and clear of locked blocks. Rows above the board count as open.
+ */
+export function fits(board: string[][], shape: number[][], x: number, y: number): boolean {
+  for (let row = 0; row < shape.length; row++) {
+    for (let col = 0; col < shape[row].length; col++) {
+      if (shape[row][col]) {
+        const newX = x + col;
+        const newY = y + row;
+
+        // Check boundaries
+        if (newX < 0 || newX >= board[0].length || newY >= board.length) {
+          return false;
+        }
+
+        // Check collision with existing blocks
+        if (newY >= 0 && board[newY][newX]) {
+          return false;
+        }
+      }
+    }
+  }
+
+  return true;
+}
+
+/** Removes every full row, letting the rows above fall, and returns how many went. */
+export function clearFullRows(board: string[][]): number {
+  let linesCleared = 0;
+
+  for (let row = board.length - 1; row >= 0; row--) {
+    if (board[row].every(cell => cell !== '')) {
+      // Remove the line
+      board.splice(row, 1);
+      // Add new empty line at top
+      board.unshift(Array(board[0].length).fill(''));
+      linesCleared++;
+      row++; // Check same row again
+    }
+  }
+
+  return linesCleared;
+}
+
+/**
+ * A Super Rotation System turn of `shape` from `rotation`: the first wall
+ * kick that fits wins. Returns null when none does.
+ */
+export function rotateOnBoard(
+  board: string[][],
+  type: TetrominoType,
+  shape: number[][],
+  position: Position,
+  rotation: Rotation,
+  direction: 1 | -1
+): { shape: number[][]; position: Position; rotation: Rotation; kick: number } | null {
+  const rotated = direction === 1 ? rotate(shape) : rotateCounterClockwise(shape);
+  const to = ((rotation + direction + 4) % 4) as Rotation;
+
+  const kicks = getKicks(type, rotation, to);
+  for (let i = 0; i < kicks.length; i++) {
+    const x = position.x + kicks[i].x;
+    const y = position.y + kicks[i].y;
+    if (fits(board, rotated, x, y)) {
+      return { shape: rotated, position: { x, y }, rotation: to, kick: i };
+    }
+  }
+  return null;
+}
+
+/** Where a new piece appears: centred, at the top. */
+export function spawnPosition(cols: number, shape: number[][]): Position {
+  return { x: Math.floor((cols - shape[0].length) / 2), y: 0 };
+}
+
+/**
+ * Headless Tetris rules. The engine owns the board, the falling piece and the
+ * score; callers feed it commands and let it catch up with its clock, then
+ * render whatever state it exposes.
+ */
+export class TetrisEngine {
+  readonly cols: number;
+  readonly rows: number;
+
+  board: string[][] = [];
+  currentPiece: Tetromino | null = null;
+  currentPosition: Position = { x: 0, y: 0 };
+  currentRotation: Rotation = 0;
+  heldPiece: TetrominoType | null = null;
+  canHold = true;
+  /** Cells the last piece locked into, for drawing effects. */
+  lockedCells: Position[] = [];
+  /** Rows removed by the last line clear, by their index before the clear, with their blocks. */
+  clearedRows: { row: number; blocks: string[] }[] = [];
+
+  score = 0;
+  level = 1;
+  lines = 0;
+  gameOver = false;
+  dropInterval = 1000; // 1 second
+  combo = -1;
+  backToBack = false;
+
+  readonly lockDelay: number;
+  readonly lockResets: number;
+  readonly das: number;
+  readonly arr: number;
+  readonly softDropFactor: number;
+  readonly startLevel: number;
+  readonly gravity: GravityCurve;
+  readonly lineGoal: number | undefined;
+  readonly timeLimitMs: number | undefined;
+  readonly zen: boolean;
+
+  private readonly clock: Clock;
+  private readonly random: SeededRandom;
+  private queue: TetrominoType[] = [];
+  private frame = 0;
+  private dropTimer = 0;
+
+  // Lock delay
+  private lockTimer = 0;
+  private resetsUsed = 0;
+  private lowestY = 0;
+
+  // Held keys and auto-repeat
+  private held = { left: false, right: false, softDrop: false };
+  private shiftDirection: -1 | 0 | 1 = 0;
+  private dasTimer = 0;
+  private arrTimer = 0;
+  private autoRepeating = false;
+  private softDropTimer = 0;
+
+  // T-spin detection
+  private lastMoveWasRotation = false;
+  private lastKickIndex = 0;
+  private lastUpdate = 0;
+  private accumulator = 0;
+  private paused = false;
+  private events: TetrisEvent[] = [];
+
+  constructor(options: TetrisEngineOptions) {
+    this.cols = options.cols ?? 10;
+    this.rows = options.rows ?? 20;
+    this.clock = options.clock ?? systemClock;
+    this.random = new SeededRandom(options.seed);
+    this.lockDelay = options.lockDelay ?? 500;
+    this.lockResets = options.lockResets ?? 15;
+    this.das = options.das ?? 167;
+    this.arr = options.arr ?? 33;
+    this.softDropFactor = options.softDropFactor ?? 20;
+    this.startLevel = options.startLevel ?? 1;
+    this.gravity = options.gravity ?? 'classic';
+    this.lineGoal = options.lineGoal;
+    this.timeLimitMs = options.timeLimitMs;
+    this.zen = options.zen ?? false;
+    this.initializeBoard();
+  }
+
+  /** Number of frames simulated so far. */
+  get frameCount(): number {
+    return this.frame;
+  }
+
+  /** Game time played so far, in ms. */
+  get elapsedMs(): number {
+    return this.frame * FRAME_MS;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /** The next pieces to spawn, soonest first. */
+  get nextPieces(): TetrominoType[] {
+    return this.queue.slice(0, PREVIEW_SIZE);
+  }
+
+  start(): TetrisEvent[] {
+    this.initializeBoard();
+    this.score = 0;
+    this.level = this.startLevel;
+    this.lines = 0;
+    this.gameOver = false;
+    this.dropInterval = this.gravityFor(this.startLevel);
+    this.frame = 0;
+    this.dropTimer = 0;
+    this.accumulator = 0;
+    this.paused = false;
+    this.heldPiece = null;
+    this.canHold = true;
+    this.combo = -1;
+    this.backToBack = false;
+    this.held = { left: false, right: false, softDrop: false };
+    this.shiftDirection = 0;
+    this.queue = [];
+    this.fillQueue();
+    this.lastUpdate = this.clock.now();
+    this.spawnPiece(this.takeNext());
+    return this.flushEvents();
+  }
+
+  /** The game so far, as plain data, to pick up later with `restore`. */
+  save(): TetrisSave {
+    return structuredClone({
+      board: this.board,
+      currentPiece: this.currentPiece,
+      currentPosition: this.currentPosition,
+      currentRotation: this.currentRotation,
+      heldPiece: this.heldPiece,
+      canHold: this.canHold,
+      score: this.score,
+      level: this.level,
+      lines: this.lines,
+      dropInterval: this.dropInterval,
+      combo: this.combo,
+      backToBack: this.backToBack,
+      queue: this.queue,
+      frame: this.frame,
+      dropTimer: this.dropTimer,
+      lockTimer: this.lockTimer,
+      resetsUsed: this.resetsUsed,
+      lowestY: this.lowestY,
+      held: this.held,
+      shiftDirection: this.shiftDirection,
+      dasTimer: this.dasTimer,
+      arrTimer: this.arrTimer,
+      autoRepeating: this.autoRepeating,
+      softDropTimer: this.softDropTimer,
+      lastMoveWasRotation: this.lastMoveWasRotation,
+      lastKickIndex: this.lastKickIndex,
+      random: this.random.state
+    });
+  }
+
+  /**
+   * Carries on a saved game from its last whole frame. The engine must have
+   * been made with the options the saved one had; from here the same
+   * commands on the same frames play out exactly as they would have there.
+   */
+  restore(save: TetrisSave): void {
+    const copy = structuredClone(save);
+    if (copy.board.length !== this.rows || copy.board.some(row => row.length !== this.cols)) {
+      throw new Error(`Saved board is not ${this.cols} × ${this.rows}`);
+    }
+
+    this.board = copy.board;
+    this.currentPiece = copy.currentPiece;
+    this.currentPosition = copy.currentPosition;
+    this.currentRotation = copy.currentRotation;
+    this.heldPiece = copy.heldPiece;
+    this.canHold = copy.canHold;
+    this.score = copy.score;
+    this.level = copy.level;
+    this.lines = copy.lines;
+    this.dropInterval = copy.dropInterval;
+    this.combo = copy.combo;
+    this.backToBack = copy.backToBack;
+    this.queue = copy.queue;
+    this.frame = copy.frame;
+    this.dropTimer = copy.dropTimer;
+    this.lockTimer = copy.lockTimer;
+    this.resetsUsed = copy.resetsUsed;
+    this.lowestY = copy.lowestY;
+    this.held = copy.held;
+    this.shiftDirection = copy.shiftDirection;
+    this.dasTimer = copy.dasTimer;
+    this.arrTimer = copy.arrTimer;
+    this.autoRepeating = copy.autoRepeating;
+    this.softDropTimer = copy.softDropTimer;
+    this.lastMoveWasRotation = copy.lastMoveWasRotation;
+    this.lastKickIndex = copy.lastKickIndex;
+    this.random.state = copy.random;
+    this.gameOver = false;
+    this.paused = false;
+    this.accumulator = 0;
+    this.lastUpdate = this.clock.now();
+    this.events = [];
+  }
+
+  /** Catches up with the clock before stopping it, so returns what happened in those frames, up to a game over. */
+  pause(): TetrisEvent[] {
+    const events = this.update();
+    this.paused = true;
+    return events;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.lastUpdate = this.clock.now();
+  }
+
+  /** Runs every whole frame that has elapsed on the clock since the last call. */
+  update(): TetrisEvent[] {
+    const now = this.clock.now();
+    if (!this.paused && !this.gameOver) {
+      this.accumulator += now - this.lastUpdate;
+      while (this.accumulator >= FRAME_MS && !this.gameOver) {
+        this.accumulator -= FRAME_MS;
+        this.step();
+      }
+    }
+    this.lastUpdate = now;
+    return this.flushEvents();
+  }
+
+  /** Advances the simulation by exactly one frame, ignoring the clock. */
+  tick(): TetrisEvent[] {
+    if (!this.paused && !this.gameOver) {
+      this.step();
+    }
+    return this.flushEvents();
+  }
+
+  /** Applies a player command after catching up with the clock. */
+  dispatch(command: TetrisCommand): TetrisEvent[] {
+    return [...this.update(), ...this.apply(command)];
+  }
+
+  /** Applies a player command at the current frame without consulting the clock. */
+  apply(command: TetrisCommand): TetrisEvent[] {
+    if (this.paused || this.gameOver || !this.currentPiece) return this.flushEvents();
+
+    switch (command) {
+      case 'left':
+        this.held.left = true;
+        this.startShift(-1);
+        break;
+      case 'right':
+        this.held.right = true;
+        this.startShift(1);
+        break;
+      case 'releaseLeft':
+        this.held.left = false;
+        this.releaseShift(-1);
+        break;
+      case 'releaseRight':
+        this.held.right = false;
+        this.releaseShift(1);
+        break;
+      case 'softDrop':
+        this.held.softDrop = true;
+        this.softDropTimer = 0;
+        this.softDrop();
+        break;
+      case 'releaseSoftDrop':
+        this.held.softDrop = false;
+        break;
+      case 'rotateCW':
+        this.rotatePiece(1);
+        break;
+      case 'rotateCCW':
+        this.rotatePiece(-1);
+        break;
+      case 'hardDrop':
+        this.hardDrop();
+        break;
+      case 'hold':
+        this.holdPiece();
+        break;
+      case 'quit':
+        if (this.zen) {
+          this.finish('quit');
+        }
+        break;
+    }
+    return this.flushEvents();
+  }
+
+  /**
+   * Pushes `count` garbage rows, solid except for the `gap` column, up from
+   * the floor. The falling piece rides up with the stack if it has to; blocks
+   * pushed out of the top end the game.
+   */
+  addGarbage(count: number, gap: number): TetrisEvent[] {
+    if (this.gameOver || count <= 0) return this.flushEvents();
+
+    const toppedOut = this.board.slice(0, count).some(row => row.some(cell => cell !== ''));
+    const garbage = Array.from({ length: count }, () =>
+      Array.from({ length: this.cols }, (_, col) => (col === gap ? '' : GARBAGE_COLOR))
+    );
+    this.board = [...this.board.slice(count), ...garbage];
+    this.events.push({ type: 'garbage', lines: count });
+
+    if (this.currentPiece) {
+      for (let lift = 0; lift < count && !this.isValidMove(this.currentPosition.x, this.currentPosition.y); lift++) {
+        this.currentPosition.y--;
+      }
+      this.lowestY = Math.min(this.lowestY, this.currentPosition.y);
+    }
+
+    if (toppedOut || (this.currentPiece && !this.isValidMove(this.currentPosition.x, this.currentPosition.y))) {
+      this.gameOver = true;
+      this.events.push({ type: 'gameOver' });
+    }
+    return this.flushEvents();
+  }
+
+  isValidMove(x: number, y: number, shape = this.currentPiece?.shape): boolean {
+    return !!shape && fits(this.board, shape, x, y);
+  }
+
+  /** Row the current piece would land on if dropped straight down. */
+  ghostY(): number {
+    let y = this.currentPosition.y;
+    while (this.isValidMove(this.currentPosition.x, y + 1)) {
+      y++;
+    }
+    return y;
+  }
+
+  private initializeBoard(): void {
+    this.board = Array(this.rows).fill(null).map(() => Array(this.cols).fill(''));
+  }
+
+  private step(): void {
+    this.frame++;
+    this.autoShift();
+
+    if (this.held.softDrop) {
+      this.softDropTimer += FRAME_MS;
+      const interval = this.dropInterval / this.softDropFactor;
+      while (this.softDropTimer >= interval && this.softDrop()) {
+        this.softDropTimer -= interval;
+      }
+    }
+
+    this.dropTimer += FRAME_MS;
+    if (this.gravity === 'guideline') {
+      // Fast levels move several rows a frame
+      while (this.dropTimer >= this.dropInterval) {
+        this.dropTimer -= this.dropInterval;
+        if (!this.movePiece(0, 1)) {
+          this.dropTimer = 0;
+          break;
+        }
+      }
+    } else if (this.dropTimer > this.dropInterval) {
+      this.dropTimer = 0;
+      this.movePiece(0, 1);
+    }
+
+    // Lock delay: a grounded piece locks once the timer runs out
+    if (this.isValidMove(this.currentPosition.x, this.currentPosition.y + 1)) {
+      this.lockTimer = 0;
+    } else {
+      this.lockTimer += FRAME_MS;
+      if (this.lockTimer >= this.lockDelay) {
+        this.lockAndSpawn();
+      }
+    }
+
+    if (!this.gameOver && this.timeLimitMs !== undefined && this.elapsedMs >= this.timeLimitMs) {
+      this.finish('timeUp');
+    }
+  }
+
+  private finish(reason: FinishReason): void {
+    this.gameOver = true;
+    this.events.push({ type: 'finish', reason });
+  }
+
+  private gravityFor(level: number): number {
+    return this.gravity === 'guideline' ? guidelineGravityInterval(level) : gravityInterval(level);
+  }
+
+  private startShift(direction: -1 | 1): void {
+    this.shiftDirection = direction;
+    this.dasTimer = 0;
+    this.autoRepeating = false;
+    this.movePiece(direction, 0);
+  }
+
+  private releaseShift(direction: -1 | 1): void {
+    if (this.shiftDirection !== direction) return;
+
+    // Fall back to the other direction if it is still held
+    const other = direction === -1 ? this.held.right : this.held.left;
+    this.shiftDirection = other ? (-direction as -1 | 1) : 0;
+    this.dasTimer = 0;
+    this.autoRepeating = false;
+  }
+
+  /** Delayed auto shift and auto repeat, driven by the frame loop instead of OS key repeat. */
+  private autoShift(): void {
+    if (this.shiftDirection === 0) return;
+
+    this.dasTimer += FRAME_MS;
+    if (this.dasTimer < this.das) return;
+
+    if (this.arr === 0) {
+      while (this.movePiece(this.shiftDirection, 0));
+      return;
+    }
+
+    // The first repeat fires as soon as DAS has charged
+    if (!this.autoRepeating) {
+      this.autoRepeating = true;
+      this.arrTimer = this.arr;
+    } else {
+      this.arrTimer += FRAME_MS;
+    }
+    while (this.arrTimer >= this.arr) {
+      this.arrTimer -= this.arr;
+      if (!this.movePiece(this.shiftDirection, 0)) {
+        this.arrTimer = 0;
+        break;
+      }
+    }
+  }
+
+  private softDrop(): boolean {
+    if (!this.movePiece(0, 1)) return false;
+    this.score += SOFT_DROP_POINTS;
+    return true;
+  }
+
+  private flushEvents(): TetrisEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  /** Keeps at least a full preview queued, refilling from shuffled 7-piece bags. */
+  private fillQueue(): void {
+    while (this.queue.length <= PREVIEW_SIZE) {
+      const bag = [...PIECE_TYPES];
+      for (let i = bag.length - 1; i > 0; i--) {
+        const j = this.random.nextInt(i + 1);
+        [bag[i], bag[j]] = [bag[j], bag[i]];
+      }
+      this.queue.push(...bag);
+    }
+  }
+
+  private takeNext(): TetrominoType {
+    const type = this.queue.shift()!;
+    this.fillQueue();
+    return type;
+  }
+
+  private spawnPiece(type: TetrominoType): void {
+    const piece = TETROMINOES[type];
+    this.currentPiece = { ...piece, shape: piece.shape.map(row => [...row]) };
+    this.currentRotation = 0;
+    this.currentPosition = spawnPosition(this.cols, this.currentPiece.shape);
+    this.lockTimer = 0;
+    this.resetsUsed = 0;
+    this.lowestY = 0;
+    this.dropTimer = 0;
+    this.lastMoveWasRotation = false;
+
+    // Check if game over; Zen clears the board and carries on instead
+    if (!this.isValidMove(this.currentPosition.x, this.currentPosition.y)) {
+      if (this.zen) {
+        this.initializeBoard();
+      } else {
+        this.gameOver = true;
+        this.events.push({ type: 'gameOver' });
+        return;
+      }
+    }
+
+    // At 20G a piece lands the moment it appears
+    if (this.dropInterval <= TWENTY_G) {
+      this.currentPosition.y = this.ghostY();
+      this.lowestY = this.currentPosition.y;
+    }
+  }
+
+  private movePiece(dx: number, dy: number): boolean {
+    if (!this.currentPiece) return false;
+
+    const newX = this.currentPosition.x + dx;
+    const newY = this.currentPosition.y + dy;
+
+    if (!this.isValidMove(newX, newY)) return false;
+
+    this.currentPosition.x = newX;
+    this.currentPosition.y = newY;
+    this.lastMoveWasRotation = false;
+    this.onPieceMoved();
+    return true;
+  }
+
+  /**
+   * Restarts the lock delay after a successful move or rotation, up to
+   * `lockResets` times; reaching a new lowest row earns the resets back.
+   */
+  private onPieceMoved(): void {
+    if (this.currentPosition.y > this.lowestY) {
+      this.lowestY = this.currentPosition.y;
+      this.resetsUsed = 0;
+      this.lockTimer = 0;
+    } else if (this.lockTimer > 0 && this.resetsUsed < this.lockResets) {
+      this.resetsUsed++;
+      this.lockTimer = 0;
+    }
+  }
+
+  /** Rotates using the Super Rotation System, trying each wall kick in turn. */
+  private rotatePiece(direction: 1 | -1): void {
+    if (!this.currentPiece) return;
+
+    const { type, shape } = this.currentPiece;
+    const turn = rotateOnBoard(this.board, type, shape, this.currentPosition, this.currentRotation, direction);
+    if (turn) {
+      this.currentPiece.shape = turn.shape;
+      this.currentPosition = turn.position;
+      this.currentRotation = turn.rotation;
+      this.lastMoveWasRotation = true;
+      this.lastKickIndex = turn.kick;
+      this.onPieceMoved();
+    }
+  }
+
+  /** Swaps the falling piece into the hold slot; allowed once per drop. */
+  private holdPiece(): void {
+    if (!this.currentPiece || !this.canHold) return;
+
+    const held = this.heldPiece;
+    this.heldPiece = this.currentPiece.type;
+    this.canHold = false;
+    this.events.push({ type: 'hold' });
+    this.spawnPiece(held ?? this.takeNext());
+  }
+
+  private hardDrop(): void {
+    if (!this.currentPiece) return;
+
+    while (this.isValidMove(this.currentPosition.x, this.currentPosition.y + 1)) {
+      this.currentPosition.y++;
+      this.score += HARD_DROP_POINTS;
+      this.lastMoveWasRotation = false;
+    }
+
+    this.lockAndSpawn();
+  }
+
+  private lockAndSpawn(): void {
+    const tSpin = this.detectTSpin();
+    const level = this.level;
+    this.lockPiece();
+    const linesCleared = this.clearLines();
+    this.updateScore(linesCleared, tSpin, level);
+    this.canHold = true;
+    if (this.lineGoal !== undefined && this.lines >= this.lineGoal) {
+      this.currentPiece = null;
+      this.finish('goal');
+      return;
+    }
+    this.spawnPiece(this.takeNext());
+  }
+
+  private lockPiece(): void {
+    if (!this.currentPiece) return;
+
+    this.lockedCells = [];
+    for (let row = 0; row < this.currentPiece.shape.length; row++) {
+      for (let col = 0; col < this.currentPiece.shape[row].length; col++) {
+        if (this.currentPiece.shape[row][col]) {
+          const y = this.currentPosition.y + row;
+          const x = this.currentPosition.x + col;
+          if (y >= 0) {
+            this.board[y][x] = this.currentPiece.color;
+            this.lockedCells.push({ x, y });
+          }
+        }
+      }
+    }
+    this.events.push({ type: 'lock' });
+  }
+
+  private clearLines(): number {
+    const full = this.board.flatMap((blocks, row) => (blocks.every(cell => cell !== '') ? [{ row, blocks: [...blocks] }] : []));
+    const linesCleared = clearFullRows(this.board);
+
+    if (linesCleared > 0) {
+      this.clearedRows = full;
+      this.lines += linesCleared;
+      this.events.push({ type: 'lineClear', lines: linesCleared });
+
+      // Update level every 10 lines, up to the last level before the line goal
+      const newLevel = this.startLevel + Math.floor(Math.min(this.lines, (this.lineGoal ?? Infinity) - 1) / 10);
+      if (newLevel !== this.level) {
+        this.level = newLevel;
+        this.dropInterval = this.gravityFor(newLevel);
+        this.events.push({ type: 'levelUp', level: newLevel });
+      }
+    }
+
+    return linesCleared;
+  }
+
+  /**
+   * Three-corner T-spin check: the last move must be a rotation and three of
+   * the four cells diagonal to the T's centre must be blocked. It is a full
+   * T-spin when both corners beside the pointing side are blocked, or when the
+   * rotation needed the last kick in the table.
+   */
+  private detectTSpin(): TSpin {
+    if (this.currentPiece?.type !== 'T' || !this.lastMoveWasRotation) return 'none';
+
+    const cx = this.currentPosition.x + 1;
+    const cy = this.currentPosition.y + 1;
+    const blocked = (x: number, y: number) =>
+      x < 0 || x >= this.cols || y >= this.rows || (y >= 0 && this.board[y][x] !== '');
+
+    // Corners in order: top-left, top-right, bottom-right, bottom-left
+    const corners = [
+      blocked(cx - 1, cy - 1),
+      blocked(cx + 1, cy - 1),
+      blocked(cx + 1, cy + 1),
+      blocked(cx - 1, cy + 1)
+    ];
+    if (corners.filter(Boolean).length < 3) return 'none';
+
+    // The two corners on the side the T points to, per rotation state
+    const front = [[0, 1], [1, 2], [2, 3], [3, 0]][this.currentRotation];
+    if ((corners[front[0]] && corners[front[1]]) || this.lastKickIndex === 4) return 'full';
+    return 'mini';
+  }
+
+  private updateScore(linesCleared: number, tSpin: TSpin, level: number): void {
+    if (linesCleared > 0) {
+      this.combo++;
+    } else {
+      this.combo = -1;
+    }
+    if (linesCleared === 0 && tSpin === 'none') return;
+
+    const difficult = isDifficult(linesCleared, tSpin);
+    const backToBack = this.backToBack && difficult;
+    const perfectClear = linesCleared > 0 && this.board.every(row => row.every(cell => cell === ''));
+    const points = scoreClear(linesCleared, tSpin, this.combo, backToBack, perfectClear, level);
+    this.score += points;
+
+    // Only line clears move the back-to-back chain; a bare T-spin leaves it alone
+    if (linesCleared > 0) {
+      this.backToBack = difficult;
+    }
+
+    this.events.push({
+      type: 'score',
+      result: { lines: linesCleared, tSpin, combo: this.combo, backToBack, perfectClear, points }
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import { formatGameTime, resultsScreen, SPRINT_LINES, tetrisEngineOptions, tetrisMode } from './tetris-modes';
+
+describe('tetrisModes', () => {
+  const result = { score: 12345, level: 3, lines: 40, durationMs: 83_456 };
+
+  it('should format game time, to the millisecond for sprints', () => {
+    expect(formatGameTime(83_456)).toBe('1:23');
+    expect(formatGameTime(83_456, true)).toBe('1:23.456');
+    expect(formatGameTime(-5, true)).toBe('0:00.000');
+  });
+
+  it('should fall back to Endless for unknown modes', () => {
+    expect(tetrisMode('sprint').name).toBe('Sprint 40L');
+    expect(tetrisMode('nope').id).toBe('classic');
+  });
+
+  it('should turn stored options into engine options', () => {
+    const options = tetrisEngineOptions({ ...tetrisMode('marathon').options, cols: 10 }, 7);
+    expect(options).toEqual(
+      jasmine.objectContaining({ seed: 7, cols: 10, startLevel: 1, lineGoal: 150, gravity: 'guideline', zen: false })
+    );
+    expect(tetrisEngineOptions(tetrisMode('zen').options, 7).zen).toBeTrue();
+  });
+
+  it('should rank a sprint only once every line is cleared', () => {
+    const clear = resultsScreen(tetrisMode('sprint'), 'goal', result);
+    expect(clear.title).toBe('SPRINT CLEAR');
+    expect(clear.rows[0]).toEqual(['Time', '1:23.456']);
+    expect(clear.ranked).toBeTrue();
+
+    const failed = resultsScreen(tetrisMode('sprint'), 'gameOver', { ...result, lines: 12 });
+    expect(failed.rows[0]).toEqual(['Lines', `12/${SPRINT_LINES}`]);
+    expect(failed.ranked).toBeFalse();
+  });
+
+  it('should title each mode by how it ended', () => {
+    expect(resultsScreen(tetrisMode('ultra'), 'timeUp', result).title).toBe('TIME UP');
+    expect(resultsScreen(tetrisMode('marathon'), 'goal', result).title).toBe('MARATHON CLEAR');
+    expect(resultsScreen(tetrisMode('zen'), 'quit', result).title).toBe('ZEN COMPLETE');
+    expect(resultsScreen(tetrisMode('classic'), 'gameOver', result).rows[0]).toEqual(['Score', '12,345']);
+  });
+});
@@ -0,0 +1,107 @@
+import { DAILY_MODE } from '../shared/daily';
+import { DEFAULT_MODE } from '../shared/score-service';
+import { FinishReason, TetrisEngineOptions } from './tetris-engine';
+
+export interface TetrisMode {
+  id: string;
+  name: string;
+  description: string;
+  /** Replay options layered over the board size and the player's starting level. */
+  options: Record<string, number>;
+}
+
+export const SPRINT_LINES = 40;
+export const ULTRA_MS = 2 * 60 * 1000;
+export const MARATHON_LINES = 150;
+
+// Timed and goal modes start on level 1 so every run is comparable
+export const TETRIS_MODES: TetrisMode[] = [
+  { id: DEFAULT_MODE, name: 'Endless', description: 'Play until the stack reaches the top', options: {} },
+  {
+    id: 'sprint',
+    name: 'Sprint 40L',
+    description: 'Clear 40 lines as fast as you can',
+    options: { startLevel: 1, lineGoal: SPRINT_LINES }
+  },
+  {
+    id: 'ultra',
+    name: 'Ultra',
+    description: 'Score all you can in 2:00',
+    options: { startLevel: 1, timeLimitMs: ULTRA_MS }
+  },
+  {
+    id: 'marathon',
+    name: 'Marathon 150',
+    description: 'Reach level 15 on guideline gravity',
+    options: { startLevel: 1, lineGoal: MARATHON_LINES, gravity: 1 }
+  },
+  { id: 'zen', name: 'Zen', description: 'No game over; stop when you like', options: { zen: 1 } },
+  { id: DAILY_MODE, name: 'Daily', description: 'The same pieces for everyone today', options: { startLevel: 1 } }
+];
+
+/** The mode with this id, or Endless for ids this version does not know. */
+export function tetrisMode(id: string): TetrisMode {
+  return TETRIS_MODES.find(mode => mode.id === id) ?? TETRIS_MODES[0];
+}
+
+/** Turns the numbers stored with a replay back into engine options. */
+export function tetrisEngineOptions(options: Record<string, number>, seed: number): TetrisEngineOptions {
+  return {
+    seed,
+    cols: options['cols'],
+    rows: options['rows'],
+    startLevel: options['startLevel'],
+    gravity: options['gravity'] === 1 ? 'guideline' : 'classic',
+    lineGoal: options['lineGoal'],
+    timeLimitMs: options['timeLimitMs'],
+    zen: options['zen'] === 1
+  };
+}
+
+/** Game time as m:ss, or m:ss.mmm for a sprint timer. */
+export function formatGameTime(ms: number, precise = false): string {
+  const whole = Math.max(0, Math.floor(ms));
+  const seconds = Math.floor(whole / 1000);
+  const time = `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+  return precise ? `${time}.${(whole % 1000).toString().padStart(3, '0')}` : time;
+}
+
+export interface TetrisResult {
+  score: number;
+  level: number;
+  lines: number;
+  durationMs: number;
+}
+
+export interface ResultsScreen {
+  title: string;
+  rows: [label: string, value: string][];
+  /** Whether the game goes on the leaderboard; a sprint only counts once all 40 lines are cleared. */
+  ranked: boolean;
+}
+
+/** What the results screen shows for a game in `mode` that ended for `reason`. */
+export function resultsScreen(mode: TetrisMode, reason: FinishReason | 'gameOver', result: TetrisResult): ResultsScreen {
+  const score: [string, string] = ['Score', result.score.toLocaleString('en-US')];
+  const time: [string, string] = ['Time', formatGameTime(result.durationMs)];
+  const lines: [string, string] = ['Lines', `${result.lines}`];
+
+  switch (mode.id) {
+    case 'sprint':
+      return reason === 'goal'
+        ? { title: 'SPRINT CLEAR', rows: [['Time', formatGameTime(result.durationMs, true)], score], ranked: true }
+        : { title: 'GAME OVER', rows: [['Lines', `${result.lines}/${SPRINT_LINES}`], time], ranked: false };
+    case 'ultra':
+      return { title: reason === 'timeUp' ? 'TIME UP' : 'GAME OVER', rows: [score, lines, time], ranked: true };
+    case 'marathon':
+      return {
+        title: reason === 'goal' ? 'MARATHON CLEAR' : 'GAME OVER',
+        rows: [score, ['Level', `${result.level}`], ['Lines', `${result.lines}/${MARATHON_LINES}`], time],
+        ranked: true
+      };
+    case 'zen':
+      return { title: 'ZEN COMPLETE', rows: [score, lines, time], ranked: true };
+    default:
+      return { title: 'GAME OVER', rows: [score, lines], ranked: true };
+  }
+}
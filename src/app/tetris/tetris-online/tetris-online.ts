@@ -0,0 +1,256 @@
+import { AfterViewInit, Component, ElementRef, inject, OnDestroy, QueryList, signal, ViewChildren } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { CanvasRenderer } from '../../shared/canvas-renderer';
+import { GameCommand, GameInput, GAMEPAD_DOWN, GAMEPAD_LEFT, GAMEPAD_RIGHT, GAMEPAD_UP, InputBindings } from '../../shared/input';
+import { keyBindings } from '../../shared/key-bindings';
+import { ServerMessage } from '../../shared/multiplayer-protocol';
+import { MultiplayerService } from '../../shared/multiplayer-service';
+import { OnlineLobby } from '../../shared/online-lobby/online-lobby';
+import { SeededRandom } from '../../shared/random';
+import { PersistedSettings } from '../../shared/settings';
+import { PiecePreview } from '../piece-preview/piece-preview';
+import { drawBoard, drawPiece, Playfield } from '../tetris-canvas';
+import { TetrisCommand, TetrisEngine, TetrisEvent } from '../tetris-engine';
+import { DEFAULT_TETRIS_SETTINGS, normalizeTetrisSettings, TETRIS_SETTINGS_KEY, TetrisAction } from '../tetris-settings';
+import { isTetrisSnapshot, TetrisSnapshot } from '../tetris-snapshot';
+import { GARBAGE_LINES } from '../tetris-versus-engine';
+
+type Phase = 'lobby' | 'playing' | 'over';
+
+const GAMEPAD_BUTTONS: InputBindings<TetrisAction>['buttons'] = {
+  [GAMEPAD_LEFT]: 'left',
+  [GAMEPAD_RIGHT]: 'right',
+  [GAMEPAD_DOWN]: 'softDrop',
+  [GAMEPAD_UP]: 'hardDrop',
+  0: 'rotateCW',
+  1: 'rotateCCW',
+  2: 'hold',
+  4: 'hold',
+  5: 'hold'
+};
+
+// Held actions whose release the engine needs to hear about
+const RELEASES: Partial<Record<TetrisAction, TetrisCommand>> = {
+  left: 'releaseLeft',
+  right: 'releaseRight',
+  softDrop: 'releaseSoftDrop'
+};
+
+// How often the opponent's board is brought up to date
+const SNAPSHOT_MS = 100;
+
+/**
+ * Tetris against someone in another browser, through the multiplayer relay.
+ * Each browser runs its own game from the shared seed, so both get the same
+ * pieces; line clears send garbage across and snapshots keep the opponent's
+ * board on screen. There is no pausing a game someone else is playing.
+ */
+@Component({
+  selector: 'app-tetris-online',
+  imports: [OnlineLobby, PiecePreview, RouterLink],
+  templateUrl: './tetris-online.html',
+  styleUrl: './tetris-online.css',
+  standalone: true
+})
+export class TetrisOnline implements AfterViewInit, OnDestroy {
+  @ViewChildren('board') canvasRefs!: QueryList<ElementRef<HTMLCanvasElement>>;
+
+  private readonly multiplayer = inject(MultiplayerService);
+  private readonly settings = new PersistedSettings(
+    TETRIS_SETTINGS_KEY,
+    DEFAULT_TETRIS_SETTINGS,
+    normalizeTetrisSettings
+  );
+  private readonly input = new GameInput<TetrisAction>(
+    { keys: keyBindings(this.settings.value().keys), buttons: GAMEPAD_BUTTONS },
+    command => this.handleInput(command)
+  );
+
+  private readonly blockSize = 24;
+  private readonly cols = 10;
+  private readonly rows = 20;
+  private renderers: CanvasRenderer[] = [];
+  private contexts: CanvasRenderingContext2D[] = [];
+  private engine = new TetrisEngine({ seed: 0, cols: this.cols, rows: this.rows });
+  private opponent: TetrisSnapshot | null = null;
+  private gaps = new SeededRandom(0);
+  private gameLoop = 0;
+  private snapshotTimer: ReturnType<typeof setInterval> | undefined;
+  private stopListening = () => {};
+
+  // Signals for UI
+  protected readonly phase = signal<Phase>('lobby');
+  /** True once this browser won; null while the game runs. */
+  protected readonly won = signal<boolean | null>(null);
+  protected readonly forfeit = signal(false);
+  protected readonly stats = signal<(TetrisSnapshot | null)[]>([null, null]);
+  protected readonly sent = signal(0);
+
+  ngAfterViewInit(): void {
+    this.renderers = this.canvasRefs.map(
+      ref => new CanvasRenderer(ref.nativeElement, this.cols * this.blockSize, this.rows * this.blockSize)
+    );
+    this.renderers.forEach(renderer => renderer.attach());
+    this.contexts = this.renderers.map(renderer => renderer.ctx);
+    this.input.attach();
+    this.stopListening = this.multiplayer.onMessage(message => this.receive(message));
+    this.draw();
+  }
+
+  ngOnDestroy(): void {
+    this.input.detach();
+    this.renderers.forEach(renderer => renderer.detach());
+    this.stopListening();
+    this.stopGame();
+    if (this.multiplayer.room()) {
+      this.multiplayer.leave();
+    }
+  }
+
+  private handleInput({ action, pressed }: GameCommand<TetrisAction>): void {
+    if (this.phase() !== 'playing') return;
+
+    const command = pressed ? (action === 'pause' || action === 'back' ? null : action) : RELEASES[action];
+    if (command) {
+      this.handleEvents(this.engine.dispatch(command));
+    }
+  }
+
+  private receive(message: ServerMessage): void {
+    switch (message.type) {
+      case 'start':
+        this.startGame(message.seed);
+        break;
+      case 'state':
+        // A snapshot that would not draw is dropped; the last good one stays on screen
+        if (isTetrisSnapshot(message.state, this.cols, this.rows)) {
+          this.opponent = message.state;
+          this.stats.update(([mine]) => [mine, this.opponent]);
+        }
+        break;
+      case 'garbage':
+        if (this.phase() === 'playing') {
+          this.handleEvents(this.engine.addGarbage(message.lines, message.gap % this.cols));
+        }
+        break;
+      case 'gameOver':
+        this.endGame(true);
+        break;
+      case 'peerLeft':
+        if (this.phase() === 'playing') {
+          this.forfeit.set(true);
+          this.endGame(true);
+        }
+        break;
+    }
+  }
+
+  private startGame(seed: number): void {
+    this.stopGame();
+    const player = this.multiplayer.room()?.player ?? 0;
+    this.engine = new TetrisEngine({
+      seed,
+      cols: this.cols,
+      rows: this.rows,
+      startLevel: this.settings.value().startLevel
+    });
+    // Each side picks the gaps in the garbage it sends
+    this.gaps = new SeededRandom(seed + 1 + player);
+    this.opponent = null;
+    this.won.set(null);
+    this.forfeit.set(false);
+    this.sent.set(0);
+    this.phase.set('playing');
+
+    this.handleEvents(this.engine.start());
+    this.snapshotTimer = setInterval(() => this.sendSnapshot(), SNAPSHOT_MS);
+    this.gameLoop = requestAnimationFrame(this.update);
+  }
+
+  private stopGame(): void {
+    cancelAnimationFrame(this.gameLoop);
+    clearInterval(this.snapshotTimer);
+  }
+
+  private update = (): void => {
+    if (this.phase() !== 'playing') return;
+
+    this.handleEvents(this.engine.update());
+    if (this.phase() !== 'playing') return;
+
+    this.draw();
+    this.gameLoop = requestAnimationFrame(this.update);
+  };
+
+  private handleEvents(events: TetrisEvent[]): void {
+    for (const event of events) {
+      if (event.type === 'lineClear') {
+        const lines = GARBAGE_LINES[Math.min(event.lines, 4)];
+        if (lines > 0) {
+          this.multiplayer.send({ type: 'garbage', lines, gap: this.gaps.nextInt(this.cols) });
+          this.sent.update(sent => sent + lines);
+        }
+      } else if (event.type === 'gameOver' && this.phase() === 'playing') {
+        this.multiplayer.send({ type: 'gameOver' });
+        this.endGame(false);
+        return;
+      }
+    }
+    this.stats.update(([, theirs]) => [this.snapshot(), theirs]);
+  }
+
+  private endGame(won: boolean): void {
+    if (this.phase() !== 'playing') return;
+    this.stopGame();
+    this.sendSnapshot();
+    this.won.set(won);
+    this.phase.set('over');
+    this.draw();
+    this.drawMessage(0, won ? 'YOU WIN' : 'TOPPED OUT');
+    this.drawMessage(1, won ? (this.forfeit() ? 'LEFT' : 'TOPPED OUT') : 'WINNER');
+  }
+
+  private snapshot(): TetrisSnapshot {
+    const { cols, rows, board, currentPiece, currentPosition, score, lines, heldPiece } = this.engine;
+    return { cols, rows, board, currentPiece, currentPosition, score, lines, held: heldPiece, next: this.engine.nextPieces[0] ?? null };
+  }
+
+  private sendSnapshot(): void {
+    this.multiplayer.send({ type: 'state', state: this.snapshot() });
+  }
+
+  private draw(): void {
+    const { ghost, gridLines } = this.settings.value();
+    [this.engine, this.opponent].forEach((playfield, index) => {
+      const ctx = this.contexts[index];
+      if (!ctx) return;
+      const field = playfield ?? this.emptyField();
+      drawBoard(ctx, field, { blockSize: this.blockSize, ghost: ghost && index === 0, gridLines });
+      drawPiece(ctx, field, this.blockSize);
+    });
+  }
+
+  private emptyField(): Playfield {
+    return {
+      cols: this.cols,
+      rows: this.rows,
+      board: Array.from({ length: this.rows }, () => Array<string>(this.cols).fill('')),
+      currentPiece: null,
+      currentPosition: { x: 0, y: 0 }
+    };
+  }
+
+  private drawMessage(index: number, text: string): void {
+    const ctx = this.contexts[index];
+    if (!ctx) return;
+    const width = this.cols * this.blockSize;
+    const height = this.rows * this.blockSize;
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = text === 'YOU WIN' || text === 'WINNER' ? '#00f000' : '#f00000';
+    ctx.font = 'bold 28px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText(text, width / 2, height / 2);
+  }
+}
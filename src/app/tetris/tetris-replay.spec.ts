@@ -0,0 +1,73 @@
+import { ManualClock } from '../shared/clock';
+import { decodeReplay, encodeReplay, ReplayRecorder } from '../shared/replay';
+import { SeededRandom } from '../shared/random';
+import { TetrisCommand, TetrisEngine } from './tetris-engine';
+import { tetrisDailyMarks, TetrisReplayPlayer } from './tetris-replay';
+
+describe('TetrisReplayPlayer', () => {
+  const commands: TetrisCommand[] = [
+    'left', 'releaseLeft', 'right', 'releaseRight', 'softDrop', 'releaseSoftDrop',
+    'rotateCW', 'rotateCCW', 'hardDrop', 'hold'
+  ];
+
+  /** Plays a live game the way the component does: a real-time clock and dispatched commands. */
+  function playLiveGame(seed: number) {
+    const clock = new ManualClock(1000);
+    // A narrow well clears lines even with random play
+    const options = { cols: 4, rows: 20 };
+    const engine = new TetrisEngine({ ...options, seed, clock });
+    const recorder = new ReplayRecorder('tetris', seed, options);
+    const random = new SeededRandom(seed);
+
+    engine.start();
+    for (let i = 0; i < 400 && !engine.gameOver; i++) {
+      clock.advance(random.nextInt(120));
+      engine.update();
+      const command = commands[random.nextInt(commands.length)];
+      engine.dispatch(command);
+      recorder.record(engine.frameCount, command);
+    }
+    clock.advance(5000);
+    engine.update();
+
+    return { engine, replay: recorder.finish(engine.frameCount, { score: engine.score, lines: engine.lines }) };
+  }
+
+  it('should reproduce the final score and lines of a live game', () => {
+    for (const seed of [1, 2, 3]) {
+      const { engine, replay } = playLiveGame(seed);
+      const player = new TetrisReplayPlayer(decodeReplay(encodeReplay(replay))!);
+
+      player.seek(replay.length);
+
+      expect(replay.final.lines).toBeGreaterThan(0);
+      expect(player.engine.score).toBe(replay.final.score);
+      expect(player.engine.lines).toBe(replay.final.lines!);
+      expect(player.engine.board).toEqual(engine.board);
+    }
+  });
+
+  it('should reach the same state when scrubbing backwards and forwards', () => {
+    const { replay } = playLiveGame(9);
+    const player = new TetrisReplayPlayer(replay);
+
+    player.seek(Math.floor(replay.length / 2));
+    const board = player.engine.board.map(row => [...row]);
+    const score = player.engine.score;
+
+    player.seek(replay.length);
+    player.seek(Math.floor(replay.length / 2));
+
+    expect(player.currentFrame).toBe(Math.floor(replay.length / 2));
+    expect(player.engine.board).toEqual(board);
+    expect(player.engine.score).toBe(score);
+  });
+
+  it('should mark every line clear of a game for the daily share card', () => {
+    const { replay } = playLiveGame(2);
+    const marks = tetrisDailyMarks(replay);
+
+    expect(marks.length).toBeGreaterThan(0);
+    expect(marks.every(mark => ['🟦', '🟩', '🟨', '🟥'].includes(mark))).toBeTrue();
+  });
+});
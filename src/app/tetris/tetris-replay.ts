@@ -0,0 +1,64 @@
+import { ManualClock } from '../shared/clock';
+import { Replay } from '../shared/replay';
+import { TetrisCommand, TetrisEngine, TetrisEvent } from './tetris-engine';
+import { tetrisEngineOptions } from './tetris-modes';
+
+// Daily challenge share cards show every clear, coloured by how many lines it took
+const CLEAR_MARKS = ['🟦', '🟩', '🟨', '🟥'];
+
+/**
+ * Replays a recorded Tetris game frame by frame. Inputs stamped with frame N
+ * are applied after N frames have run, exactly as `dispatch` did live.
+ */
+export class TetrisReplayPlayer {
+  engine!: TetrisEngine;
+
+  private frame = 0;
+  private nextInput = 0;
+
+  constructor(readonly replay: Replay) {
+    this.reset();
+  }
+
+  get currentFrame(): number {
+    return this.frame;
+  }
+
+  /** Moves to `target`, re-simulating from the start when seeking backwards. */
+  seek(target: number): TetrisEvent[] {
+    if (target < this.frame) {
+      this.reset();
+    }
+
+    const events: TetrisEvent[] = [];
+    const inputs = this.replay.inputs;
+    while (true) {
+      while (this.nextInput < inputs.length && inputs[this.nextInput][0] <= this.frame) {
+        events.push(...this.engine.apply(inputs[this.nextInput][1] as TetrisCommand));
+        this.nextInput++;
+      }
+      if (this.frame >= target || this.engine.gameOver) break;
+
+      events.push(...this.engine.tick());
+      this.frame++;
+    }
+    return events;
+  }
+
+  private reset(): void {
+    this.engine = new TetrisEngine({
+      ...tetrisEngineOptions(this.replay.options, this.replay.seed),
+      clock: new ManualClock()
+    });
+    this.engine.start();
+    this.frame = 0;
+    this.nextInput = 0;
+  }
+}
+
+/** Share card marks for a finished game, worked out from its replay so saved and continued games count in full. */
+export function tetrisDailyMarks(replay: Replay): string[] {
+  return new TetrisReplayPlayer(replay)
+    .seek(replay.length)
+    .flatMap(event => (event.type === 'lineClear' ? [CLEAR_MARKS[Math.min(4, event.lines) - 1]] : []));
+}
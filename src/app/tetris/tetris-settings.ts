@@ -0,0 +1,112 @@
+import { ActionInfo, KeyMap } from '../shared/key-bindings';
+import { SettingField } from '../shared/settings';
+import { tetrisMode } from './tetris-modes';
+
+export type TetrisAction =
+  | 'left'
+  | 'right'
+  | 'softDrop'
+  | 'rotateCW'
+  | 'rotateCCW'
+  | 'hold'
+  | 'hardDrop'
+  | 'pause'
+  | 'back';
+
+export interface TetrisSettings {
+  keys: KeyMap<TetrisAction>;
+  /** Id of the mode last picked. */
+  mode: string;
+  startLevel: number;
+  ghost: boolean;
+  gridLines: boolean;
+  /** Outlines where the AI would put the falling piece. */
+  hint: boolean;
+  /** 0 to 1. */
+  volume: number;
+}
+
+export const TETRIS_SETTINGS_KEY = 'tetrisSettings';
+
+export const TETRIS_ACTIONS: ActionInfo<TetrisAction>[] = [
+  { id: 'left', label: 'Move Left' },
+  { id: 'right', label: 'Move Right' },
+  { id: 'softDrop', label: 'Soft Drop' },
+  { id: 'rotateCW', label: 'Rotate Clockwise' },
+  { id: 'rotateCCW', label: 'Rotate Counter-clockwise' },
+  { id: 'hold', label: 'Hold Piece' },
+  { id: 'hardDrop', label: 'Hard Drop / Start' },
+  { id: 'pause', label: 'Pause/Resume' },
+  { id: 'back', label: 'Exit Replay / End Zen' }
+];
+
+const MAX_START_LEVEL = 15;
+
+export const DEFAULT_TETRIS_SETTINGS: TetrisSettings = {
+  keys: {
+    left: ['ArrowLeft'],
+    right: ['ArrowRight'],
+    softDrop: ['ArrowDown'],
+    rotateCW: ['ArrowUp', 'x'],
+    rotateCCW: ['z', 'Control'],
+    hold: ['c', 'Shift'],
+    hardDrop: [' '],
+    pause: ['p'],
+    back: ['Escape']
+  },
+  mode: 'classic',
+  startLevel: 1,
+  ghost: true,
+  gridLines: true,
+  hint: false,
+  volume: 0.8
+};
+
+/** Fixed keys for two players sharing a keyboard in versus games. */
+export const TETRIS_VERSUS_KEYS: KeyMap<TetrisAction>[] = [
+  {
+    left: ['a'],
+    right: ['d'],
+    softDrop: ['s'],
+    rotateCW: ['w'],
+    rotateCCW: ['q'],
+    hold: ['e'],
+    hardDrop: [' '],
+    pause: ['p'],
+    back: ['Escape']
+  },
+  {
+    left: ['ArrowLeft'],
+    right: ['ArrowRight'],
+    softDrop: ['ArrowDown'],
+    rotateCW: ['ArrowUp'],
+    rotateCCW: ['/'],
+    hold: ['.'],
+    hardDrop: ['Enter'],
+    pause: [],
+    back: []
+  }
+];
+
+export const TETRIS_SETTING_FIELDS: SettingField[] = [
+  {
+    id: 'startLevel',
+    label: 'Starting level',
+    type: 'select',
+    options: Array.from({ length: MAX_START_LEVEL }, (_, i) => ({ value: i + 1, label: `${i + 1}` }))
+  },
+  { id: 'ghost', label: 'Ghost piece', type: 'toggle' },
+  { id: 'gridLines', label: 'Grid lines', type: 'toggle' },
+  { id: 'hint', label: 'Move hint', type: 'toggle' },
+  { id: 'volume', label: 'Game Volume', type: 'range', min: 0, max: 1, step: 0.1 }
+];
+
+/** Keeps stored values to the choices the panel offers. */
+export function normalizeTetrisSettings(settings: TetrisSettings): TetrisSettings {
+  return {
+    ...settings,
+    mode: tetrisMode(settings.mode).id,
+    startLevel: Math.min(MAX_START_LEVEL, Math.max(1, Math.round(settings.startLevel))),
+    volume: Math.min(1, Math.max(0, settings.volume))
+  };
+}
@@ -0,0 +1,42 @@
+import { TetrisEngine } from './tetris-engine';
+import { isTetrisSnapshot } from './tetris-snapshot';
+
+describe('isTetrisSnapshot', () => {
+  const engine = new TetrisEngine({ seed: 7, cols: 10, rows: 20 });
+  engine.start();
+  const { cols, rows, board, currentPiece, currentPosition, score, lines, heldPiece } = engine;
+  // Sent through the relay as JSON, as the online game does
+  const snapshot = JSON.parse(
+    JSON.stringify({ cols, rows, board, currentPiece, currentPosition, score, lines, held: heldPiece, next: 'T' })
+  );
+  const changed = (change: Record<string, unknown>) => ({ ...snapshot, ...change });
+
+  it('should accept a snapshot of a game in progress', () => {
+    expect(isTetrisSnapshot(snapshot, 10, 20)).toBeTrue();
+    expect(isTetrisSnapshot(changed({ currentPiece: null, held: 'I' }), 10, 20)).toBeTrue();
+  });
+
+  it('should reject a board of another size or shape', () => {
+    expect(isTetrisSnapshot(snapshot, 12, 20)).toBeFalse();
+    expect(isTetrisSnapshot(changed({ board: board.slice(1) }), 10, 20)).toBeFalse();
+    expect(isTetrisSnapshot(changed({ board: board.map((row, i) => (i === 5 ? row.slice(1) : row)) }), 10, 20))
+      .toBeFalse();
+    expect(isTetrisSnapshot(changed({ board: board.map(row => row.map(() => 0)) }), 10, 20)).toBeFalse();
+  });
+
+  it('should reject pieces and positions the board cannot draw', () => {
+    const piece = snapshot.currentPiece;
+    expect(isTetrisSnapshot(changed({ currentPiece: { ...piece, type: 'X' } }), 10, 20)).toBeFalse();
+    expect(isTetrisSnapshot(changed({ currentPiece: { ...piece, shape: [[0, 0], [0, 0]] } }), 10, 20)).toBeFalse();
+    expect(isTetrisSnapshot(changed({ currentPiece: { ...piece, shape: 'tall' } }), 10, 20)).toBeFalse();
+    expect(isTetrisSnapshot(changed({ currentPosition: { x: 3, y: 1e9 } }), 10, 20)).toBeFalse();
+    expect(isTetrisSnapshot(changed({ currentPosition: null }), 10, 20)).toBeFalse();
+  });
+
+  it('should reject anything else', () => {
+    expect(isTetrisSnapshot(null, 10, 20)).toBeFalse();
+    expect(isTetrisSnapshot('board', 10, 20)).toBeFalse();
+    expect(isTetrisSnapshot(changed({ score: -1 }), 10, 20)).toBeFalse();
+    expect(isTetrisSnapshot(changed({ next: 'toString' }), 10, 20)).toBeFalse();
+  });
+});
@@ -0,0 +1,70 @@
+import { Playfield } from './tetris-canvas';
+import { TETROMINOES, TetrominoType } from './tetris-engine';
+
+/** What each browser sends the other a few times a second so it can draw the opponent's board. */
+export interface TetrisSnapshot extends Playfield {
+  score: number;
+  lines: number;
+  next: TetrominoType | null;
+  held: TetrominoType | null;
+}
+
+/** Pieces spawn above the board, and their 4×4 box may hang off either side. */
+const PIECE_REACH = 4;
+
+/**
+ * Whether `value`, as relayed from the other browser, is a snapshot of a
+ * `cols` by `rows` board that can be drawn every frame without throwing.
+ * The relay passes on whatever a peer sends, so anything else is dropped.
+ */
+export function isTetrisSnapshot(value: unknown, cols: number, rows: number): value is TetrisSnapshot {
+  if (typeof value !== 'object' || value === null) return false;
+  const snapshot = value as Record<string, unknown>;
+  const { board, currentPiece, currentPosition } = snapshot;
+
+  if (snapshot['cols'] !== cols || snapshot['rows'] !== rows) return false;
+  if (!isCount(snapshot['score']) || !isCount(snapshot['lines'])) return false;
+  if (!isPieceType(snapshot['next'], true) || !isPieceType(snapshot['held'], true)) return false;
+  if (
+    !Array.isArray(board) ||
+    board.length !== rows ||
+    !board.every(row => Array.isArray(row) && row.length === cols && row.every(cell => typeof cell === 'string'))
+  ) {
+    return false;
+  }
+
+  if (typeof currentPosition !== 'object' || currentPosition === null) return false;
+  const { x, y } = currentPosition as Record<string, unknown>;
+  if (!isInRange(x, -PIECE_REACH, cols) || !isInRange(y, -PIECE_REACH, rows)) return false;
+  return currentPiece === null || isPiece(currentPiece);
+}
+
+function isPiece(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+  const { type, shape, color } = value as Record<string, unknown>;
+  return (
+    isPieceType(type, false) &&
+    typeof color === 'string' &&
+    Array.isArray(shape) &&
+    shape.length > 0 &&
+    shape.length <= PIECE_REACH &&
+    shape.every(row => Array.isArray(row) && row.length <= PIECE_REACH && row.every(isCell)) &&
+    shape.some(row => row.includes(1))
+  );
+}
+
+function isCell(value: unknown): boolean {
+  return value === 0 || value === 1;
+}
+
+function isPieceType(value: unknown, orNull: boolean): boolean {
+  return (orNull && value === null) || (typeof value === 'string' && Object.hasOwn(TETROMINOES, value));
+}
+
+function isCount(value: unknown): boolean {
+  return typeof value === 'number' && Number.isSafeInteger(value) && value >= 0;
+}
+
+function isInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
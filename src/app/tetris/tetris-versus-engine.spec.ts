@@ -0,0 +1,60 @@
+import { ManualClock } from '../shared/clock';
+import { GARBAGE_COLOR } from './tetris-engine';
+import { GARBAGE_LINES, TetrisVersusEngine } from './tetris-versus-engine';
+
+describe('TetrisVersusEngine', () => {
+  let versus: TetrisVersusEngine;
+
+  /** Leaves everything but the I-piece's landing spot filled on the bottom `rows` rows of `player`'s board. */
+  function setUpClear(player: number, rows: number): void {
+    const engine = versus.players[player];
+    for (let row = engine.rows - rows; row < engine.rows; row++) {
+      engine.board[row] = engine.board[row].map((_, col) => (col === 0 ? '' : '#888888'));
+    }
+    engine.currentPiece = { type: 'I', color: '#00f0f0', shape: [[0, 1], [0, 1], [0, 1], [0, 1]] };
+    engine.currentPosition = { x: -1, y: 0 };
+  }
+
+  beforeEach(() => {
+    versus = new TetrisVersusEngine({ seed: 9, clock: new ManualClock() });
+    versus.start();
+  });
+
+  it('should deal both players the same pieces', () => {
+    expect(versus.players[0].currentPiece!.type).toBe(versus.players[1].currentPiece!.type);
+    expect(versus.players[0].nextPieces).toEqual(versus.players[1].nextPieces);
+  });
+
+  it('should send garbage for clearing two or more lines', () => {
+    setUpClear(0, 2);
+    const events = versus.dispatch(0, 'hardDrop');
+
+    expect(events[0]).toContain({ type: 'lineClear', lines: 2 });
+    expect(events[1]).toEqual([{ type: 'garbage', lines: GARBAGE_LINES[2] }]);
+    expect(versus.sent).toEqual([1, 0]);
+
+    const bottom = versus.players[1].board[19];
+    expect(bottom.filter(cell => cell === GARBAGE_COLOR).length).toBe(9);
+  });
+
+  it('should not send anything for a single', () => {
+    setUpClear(1, 1);
+    const events = versus.dispatch(1, 'hardDrop');
+
+    expect(events[1]).toContain({ type: 'lineClear', lines: 1 });
+    expect(events[0]).toEqual([]);
+  });
+
+  it('should end the round when a player tops out and name the other the winner', () => {
+    expect(versus.winner).toBeNull();
+
+    const loser = versus.players[1];
+    loser.board.forEach(row => row.fill('#888888'));
+    loser.board.forEach(row => (row[0] = ''));
+    versus.dispatch(1, 'hardDrop');
+
+    expect(versus.roundOver).toBeTrue();
+    expect(versus.winner).toBe(0);
+    expect(versus.dispatch(0, 'hardDrop')).toEqual([[], []]);
+  });
+});
@@ -0,0 +1,74 @@
+import { SeededRandom } from '../shared/random';
+import { TetrisCommand, TetrisEngine, TetrisEngineOptions, TetrisEvent } from './tetris-engine';
+
+/** Garbage rows sent for clearing 0 to 4 lines at once; a single sends nothing. */
+export const GARBAGE_LINES = [0, 0, 1, 2, 4];
+
+/**
+ * Two Tetris games played against each other. Both boards are dealt the same
+ * pieces, and clearing two or more lines pushes garbage rows, with a random
+ * gap, onto the opponent's board. The round ends when either player tops out.
+ * Events come back as one list per player.
+ */
+export class TetrisVersusEngine {
+  readonly players: TetrisEngine[];
+  /** Garbage rows each player has sent this round. */
+  readonly sent = [0, 0];
+
+  private readonly random: SeededRandom;
+
+  constructor(options: TetrisEngineOptions) {
+    this.players = [new TetrisEngine(options), new TetrisEngine(options)];
+    this.random = new SeededRandom(options.seed + 1);
+  }
+
+  get roundOver(): boolean {
+    return this.players.some(player => player.gameOver);
+  }
+
+  /** The player still standing once the round is over; null while it runs or when both topped out together. */
+  get winner(): number | null {
+    const standing = this.players.flatMap((player, index) => (player.gameOver ? [] : [index]));
+    return this.roundOver && standing.length === 1 ? standing[0] : null;
+  }
+
+  start(): TetrisEvent[][] {
+    this.sent.fill(0);
+    return this.players.map(player => player.start());
+  }
+
+  pause(): TetrisEvent[][] {
+    return this.exchangeGarbage(this.players.map(player => player.pause()));
+  }
+
+  resume(): void {
+    this.players.forEach(player => player.resume());
+  }
+
+  update(): TetrisEvent[][] {
+    if (this.roundOver) return this.players.map(() => []);
+    return this.exchangeGarbage(this.players.map(player => player.update()));
+  }
+
+  dispatch(player: number, command: TetrisCommand): TetrisEvent[][] {
+    if (this.roundOver) return this.players.map(() => []);
+
+    const events = this.players.map(() => [] as TetrisEvent[]);
+    events[player] = this.players[player].dispatch(command);
+    return this.exchangeGarbage(events);
+  }
+
+  private exchangeGarbage(events: TetrisEvent[][]): TetrisEvent[][] {
+    events.forEach((list, player) => {
+      const opponent = 1 - player;
+      for (const event of [...list]) {
+        const count = event.type === 'lineClear' ? GARBAGE_LINES[Math.min(event.lines, 4)] : 0;
+        if (count > 0 && !this.players[opponent].gameOver) {
+          this.sent[player] += count;
+          events[opponent].push(...this.players[opponent].addGarbage(count, this.random.nextInt(this.players[opponent].cols)));
+        }
+      }
+    });
+    return events;
+  }
+}
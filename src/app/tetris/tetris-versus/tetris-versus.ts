@@ -0,0 +1,277 @@
+import { AfterViewInit, Component, ElementRef, OnDestroy, QueryList, signal, ViewChildren } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { CanvasRenderer } from '../../shared/canvas-renderer';
+import { GameCommand, GameInput, GAMEPAD_DOWN, GAMEPAD_LEFT, GAMEPAD_RIGHT, GAMEPAD_UP, InputBindings } from '../../shared/input';
+import { describeKeys, keyBindings } from '../../shared/key-bindings';
+import { Match } from '../../shared/match';
+import { randomSeed } from '../../shared/random';
+import { PersistedSettings } from '../../shared/settings';
+import { PiecePreview } from '../piece-preview/piece-preview';
+import { drawBoard, drawPiece } from '../tetris-canvas';
+import { TetrisCommand, TetrominoType } from '../tetris-engine';
+import {
+  DEFAULT_TETRIS_SETTINGS,
+  normalizeTetrisSettings,
+  TETRIS_ACTIONS,
+  TETRIS_SETTINGS_KEY,
+  TETRIS_VERSUS_KEYS,
+  TetrisAction
+} from '../tetris-settings';
+import { TetrisVersusEngine } from '../tetris-versus-engine';
+
+type Phase = 'menu' | 'playing' | 'roundOver' | 'matchOver';
+
+interface PlayerStats {
+  score: number;
+  lines: number;
+  sent: number;
+  next: TetrominoType | null;
+  held: TetrominoType | null;
+  canHold: boolean;
+}
+
+// Each player's pad; the first one connected is player 1
+const GAMEPAD_BUTTONS: InputBindings<TetrisAction>['buttons'] = {
+  [GAMEPAD_LEFT]: 'left',
+  [GAMEPAD_RIGHT]: 'right',
+  [GAMEPAD_DOWN]: 'softDrop',
+  [GAMEPAD_UP]: 'hardDrop',
+  0: 'rotateCW',
+  1: 'rotateCCW',
+  2: 'hold',
+  4: 'hold',
+  5: 'hold',
+  8: 'back',
+  9: 'pause'
+};
+
+// Held actions whose release the engine needs to hear about
+const RELEASES: Partial<Record<TetrisAction, TetrisCommand>> = {
+  left: 'releaseLeft',
+  right: 'releaseRight',
+  softDrop: 'releaseSoftDrop'
+};
+
+const ROUNDS_TO_WIN = 2;
+// How long the result of a round stays up before the next one starts
+const ROUND_PAUSE_MS = 2500;
+
+/**
+ * Two boards side by side on one keyboard or two gamepads. Clearing two or
+ * more lines sends garbage across; the first to win two rounds takes the match.
+ */
+@Component({
+  selector: 'app-tetris-versus',
+  imports: [PiecePreview, RouterLink],
+  templateUrl: './tetris-versus.html',
+  styleUrl: './tetris-versus.css',
+  standalone: true
+})
+export class TetrisVersus implements AfterViewInit, OnDestroy {
+  @ViewChildren('board') canvasRefs!: QueryList<ElementRef<HTMLCanvasElement>>;
+
+  // Drawing options come from the single player settings
+  private readonly settings = new PersistedSettings(
+    TETRIS_SETTINGS_KEY,
+    DEFAULT_TETRIS_SETTINGS,
+    normalizeTetrisSettings
+  );
+  private readonly inputs = TETRIS_VERSUS_KEYS.map(
+    (keys, player) =>
+      new GameInput<TetrisAction>({ keys: keyBindings(keys), buttons: GAMEPAD_BUTTONS, gamepad: player }, command =>
+        this.handleInput(player, command)
+      )
+  );
+  /** Each player's controls, for the lists under the boards. */
+  protected readonly controls = TETRIS_VERSUS_KEYS.map(keys =>
+    TETRIS_ACTIONS.filter(action => keys[action.id].length > 0).map(action => ({
+      label: action.label,
+      keys: describeKeys(keys[action.id])
+    }))
+  );
+  protected readonly startKeys = describeKeys(TETRIS_VERSUS_KEYS.flatMap(keys => keys.hardDrop));
+  protected readonly roundsToWin = ROUNDS_TO_WIN;
+
+  private readonly blockSize = 24;
+  private readonly cols = 10;
+  private readonly rows = 20;
+  private renderers: CanvasRenderer[] = [];
+  private contexts: CanvasRenderingContext2D[] = [];
+  private versus = new TetrisVersusEngine({ seed: randomSeed(), cols: this.cols, rows: this.rows });
+  private match = new Match(2, ROUNDS_TO_WIN);
+  private gameLoop = 0;
+  private roundTimer: ReturnType<typeof setTimeout> | undefined;
+
+  // Signals for UI
+  protected readonly phase = signal<Phase>('menu');
+  protected readonly isPaused = signal(false);
+  protected readonly round = signal(1);
+  protected readonly wins = signal([0, 0]);
+  /** Winner of the last round, or null for a draw. */
+  protected readonly roundWinner = signal<number | null>(null);
+  protected readonly stats = signal<PlayerStats[]>([]);
+
+  ngAfterViewInit(): void {
+    this.renderers = this.canvasRefs.map(
+      ref => new CanvasRenderer(ref.nativeElement, this.cols * this.blockSize, this.rows * this.blockSize)
+    );
+    this.renderers.forEach(renderer => renderer.attach());
+    this.contexts = this.renderers.map(renderer => renderer.ctx);
+    this.inputs.forEach(input => input.attach());
+    this.syncStats();
+    this.draw();
+  }
+
+  ngOnDestroy(): void {
+    this.inputs.forEach(input => input.detach());
+    this.renderers.forEach(renderer => renderer.detach());
+    cancelAnimationFrame(this.gameLoop);
+    clearTimeout(this.roundTimer);
+  }
+
+  private handleInput(player: number, { action, pressed }: GameCommand<TetrisAction>): void {
+    if (this.phase() !== 'playing') {
+      // Either player's hard drop, rotate or pause starts a match from the menu or winner screen
+      const phase = this.phase();
+      if (pressed && (phase === 'menu' || phase === 'matchOver') && ['hardDrop', 'rotateCW', 'pause'].includes(action)) {
+        this.startMatch();
+      }
+      return;
+    }
+
+    if (!pressed) {
+      const release = RELEASES[action];
+      if (release && !this.isPaused()) {
+        this.versus.dispatch(player, release);
+        this.sync();
+      }
+      return;
+    }
+
+    if (action === 'pause') {
+      this.togglePause();
+    } else if (action === 'back') {
+      this.quit();
+    } else if (!this.isPaused()) {
+      this.versus.dispatch(player, action);
+      this.sync();
+    }
+  }
+
+  protected startMatch(): void {
+    this.match = new Match(2, ROUNDS_TO_WIN);
+    this.wins.set([...this.match.wins]);
+    this.startRound();
+  }
+
+  private startRound(): void {
+    this.versus = new TetrisVersusEngine({
+      seed: randomSeed(),
+      cols: this.cols,
+      rows: this.rows,
+      startLevel: this.settings.value().startLevel
+    });
+    this.round.set(this.match.round);
+    this.roundWinner.set(null);
+    this.isPaused.set(false);
+    this.phase.set('playing');
+    this.versus.start();
+    this.sync();
+    if (this.phase() === 'playing') {
+      this.gameLoop = requestAnimationFrame(this.update);
+    }
+  }
+
+  protected togglePause(): void {
+    if (this.phase() !== 'playing') return;
+    this.isPaused.update(paused => !paused);
+    if (this.isPaused()) {
+      this.versus.pause();
+      this.sync();
+    } else {
+      this.versus.resume();
+      this.gameLoop = requestAnimationFrame(this.update);
+    }
+  }
+
+  /** Abandons the match and goes back to the start screen. */
+  protected quit(): void {
+    cancelAnimationFrame(this.gameLoop);
+    clearTimeout(this.roundTimer);
+    this.isPaused.set(false);
+    this.phase.set('menu');
+  }
+
+  private update = (): void => {
+    if (this.isPaused() || this.phase() !== 'playing') return;
+
+    this.versus.update();
+    this.sync();
+    if (this.phase() !== 'playing') return;
+
+    this.draw();
+    this.gameLoop = requestAnimationFrame(this.update);
+  };
+
+  /** Mirrors both engines into the UI signals after every engine call and ends the round once someone tops out. */
+  private sync(): void {
+    this.syncStats();
+    if (this.versus.roundOver && this.phase() === 'playing') {
+      this.endRound();
+    }
+  }
+
+  private syncStats(): void {
+    this.stats.set(
+      this.versus.players.map((engine, player) => ({
+        score: engine.score,
+        lines: engine.lines,
+        sent: this.versus.sent[player],
+        next: engine.nextPieces[0] ?? null,
+        held: engine.heldPiece,
+        canHold: engine.canHold
+      }))
+    );
+  }
+
+  private endRound(): void {
+    cancelAnimationFrame(this.gameLoop);
+    const winner = this.versus.winner;
+    this.match.endRound(winner);
+    this.wins.set([...this.match.wins]);
+    this.roundWinner.set(winner);
+    this.draw();
+
+    this.versus.players.forEach((engine, player) => this.drawMessage(player, engine.gameOver ? 'TOPPED OUT' : 'ROUND WON'));
+
+    if (this.match.over) {
+      this.phase.set('matchOver');
+    } else {
+      this.phase.set('roundOver');
+      this.roundTimer = setTimeout(() => this.startRound(), ROUND_PAUSE_MS);
+    }
+  }
+
+  private draw(): void {
+    const { ghost, gridLines } = this.settings.value();
+    this.versus.players.forEach((engine, player) => {
+      const ctx = this.contexts[player];
+      if (!ctx) return;
+      drawBoard(ctx, engine, { blockSize: this.blockSize, ghost, gridLines });
+      drawPiece(ctx, engine, this.blockSize);
+    });
+  }
+
+  private drawMessage(player: number, text: string): void {
+    const ctx = this.contexts[player];
+    const width = this.cols * this.blockSize;
+    const height = this.rows * this.blockSize;
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = text === 'ROUND WON' ? '#00f000' : '#f00000';
+    ctx.font = 'bold 28px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText(text, width / 2, height / 2);
+  }
+}
@@ -1,29 +1,148 @@
-import { Component, OnInit, OnDestroy, signal, ViewChild, ElementRef, AfterViewInit } from '@angular/core';
+import { Component, OnDestroy, signal, computed, ViewChild, ElementRef, AfterViewInit, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
-
-interface Position {
-  x: number;
-  y: number;
-}
-
-interface Tetromino {
-  shape: number[][];
-  color: string;
-}
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { AchievementService } from '../shared/achievement-service';
+import { AudioControls } from '../shared/audio-controls/audio-controls';
+import { AudioService } from '../shared/audio-service';
+import { CanvasRenderer } from '../shared/canvas-renderer';
+import { KOROBEINIKI, SoundName } from '../shared/chiptune';
+import { DAILY_MODE, dailySeed, dayFromNumber, dayNumber } from '../shared/daily';
+import { DailyCard } from '../shared/daily-card/daily-card';
+import { DailyService } from '../shared/daily-service';
+import { GameCommand, GameInput, GAMEPAD_DOWN, GAMEPAD_LEFT, GAMEPAD_RIGHT, GAMEPAD_UP, InputBindings } from '../shared/input';
+import { describeKeys, KeyMap, keyBindings } from '../shared/key-bindings';
+import { randomSeed } from '../shared/random';
+import { decodeReplay, Replay, ReplayPlayback, ReplayRecorder } from '../shared/replay';
+import { ReplayControls } from '../shared/replay-controls/replay-controls';
+import { clearSavedGame, loadSavedGame, SavedGame, storeSavedGame } from '../shared/saved-game';
+import { OnlineScoreService } from '../shared/online-score-service';
+import { ScoreEntry } from '../shared/score-entry/score-entry';
+import { isTimeRanked, ScoreService } from '../shared/score-service';
+import { PersistedSettings } from '../shared/settings';
+import { SettingsPanel } from '../shared/settings-panel/settings-panel';
+import { SyncStatus } from '../shared/sync-status/sync-status';
+import { PiecePreview } from './piece-preview/piece-preview';
+import { describeClear } from './scoring';
+import { bestPlacement, Placement, playBestMove } from './tetris-ai';
+import { drawBoard, drawPiece } from './tetris-canvas';
+import { TetrisEffects } from './tetris-effects';
+import {
+  FinishReason,
+  FRAME_MS,
+  TetrisCommand,
+  TetrisEngine,
+  TetrisEvent,
+  TetrisSave,
+  Tetromino,
+  TetrominoType
+} from './tetris-engine';
+import {
+  formatGameTime,
+  ResultsScreen,
+  resultsScreen,
+  TETRIS_MODES,
+  tetrisEngineOptions,
+  tetrisMode,
+  TetrisResult
+} from './tetris-modes';
+import { tetrisDailyMarks, TetrisReplayPlayer } from './tetris-replay';
+import {
+  DEFAULT_TETRIS_SETTINGS,
+  normalizeTetrisSettings,
+  TETRIS_ACTIONS,
+  TETRIS_SETTING_FIELDS,
+  TETRIS_SETTINGS_KEY,
+  TetrisAction,
+  TetrisSettings
+} from './tetris-settings';
+
+// Touch and gamepad controls; keyboard keys come from the settings
+const DEVICE_BINDINGS: Omit<InputBindings<TetrisAction>, 'keys'> = {
+  swipes: { left: 'left', right: 'right', down: 'hardDrop', up: 'hold' },
+  tap: 'rotateCW',
+  buttons: {
+    [GAMEPAD_LEFT]: 'left',
+    [GAMEPAD_RIGHT]: 'right',
+    [GAMEPAD_DOWN]: 'softDrop',
+    [GAMEPAD_UP]: 'hardDrop',
+    0: 'rotateCW',
+    1: 'rotateCCW',
+    2: 'hold',
+    4: 'hold',
+    5: 'hold',
+    8: 'back',
+    9: 'pause'
+  }
+};
+
+// Cues for commands the engine has no event for; holds, locks and clears come from its events
+const COMMAND_SOUNDS: Partial<Record<TetrisCommand, SoundName>> = {
+  left: 'move',
+  right: 'move',
+  rotateCW: 'rotate',
+  rotateCCW: 'rotate'
+};
+
+// Held actions whose release the engine needs to hear about
+const RELEASES: Partial<Record<TetrisAction, TetrisCommand>> = {
+  left: 'releaseLeft',
+  right: 'releaseRight',
+  softDrop: 'releaseSoftDrop'
+};
+
+// How long the welcome screen waits before the attract mode demo starts
+const ATTRACT_DELAY_MS = 10000;
+// How long the demo lets each piece fall before the bot places it
+const ATTRACT_MOVE_MS = 300;
 
 @Component({
   selector: 'app-tetris',
-  imports: [CommonModule],
+  imports: [
+    AudioControls,
+    CommonModule,
+    DailyCard,
+    PiecePreview,
+    ReplayControls,
+    RouterLink,
+    ScoreEntry,
+    SettingsPanel,
+    SyncStatus
+  ],
   templateUrl: './tetris.html',
   styleUrl: './tetris.css',
   standalone: true
 })
-export class Tetris implements OnInit, OnDestroy, AfterViewInit {
+export class Tetris implements OnDestroy, AfterViewInit {
   @ViewChild('gameCanvas', { static: false }) canvasRef!: ElementRef<HTMLCanvasElement>;
 
+  private readonly route = inject(ActivatedRoute);
+  private readonly scores = inject(ScoreService);
+  private readonly onlineScores = inject(OnlineScoreService);
+  private readonly audio = inject(AudioService);
+  private readonly achievements = inject(AchievementService);
+  private readonly daily = inject(DailyService);
+  private renderer: CanvasRenderer | undefined;
   private ctx!: CanvasRenderingContext2D;
   private gameLoop: any;
 
+  // Settings
+  protected readonly settings = new PersistedSettings(
+    TETRIS_SETTINGS_KEY,
+    DEFAULT_TETRIS_SETTINGS,
+    normalizeTetrisSettings
+  );
+  protected readonly actions = TETRIS_ACTIONS;
+  protected readonly settingFields = TETRIS_SETTING_FIELDS;
+  /** The controls list, generated from the current key bindings. */
+  protected readonly controls = computed(() =>
+    TETRIS_ACTIONS.map(action => ({
+      label: action.label,
+      keys: describeKeys(this.settings.value().keys[action.id])
+    }))
+  );
+  protected readonly pauseKeys = computed(() => describeKeys(this.settings.value().keys.pause));
+  private readonly input = new GameInput(this.inputBindings(), command => this.handleInput(command));
+
   // Game settings
   private readonly blockSize = 30;
   private readonly cols = 10;
@@ -32,174 +151,227 @@ export class Tetris implements OnInit, OnDestroy, AfterViewInit {
   private readonly canvasHeight = this.rows * this.blockSize;
 
   // Game state
-  private board: string[][] = [];
-  private currentPiece: Tetromino | null = null;
-  private currentPosition: Position = { x: 0, y: 0 };
-  private dropInterval = 1000; // 1 second
-  private lastDropTime = 0;
-
-  // Tetromino definitions
-  private readonly tetrominoes: { [key: string]: Tetromino } = {
-    I: {
-      shape: [
-        [0, 0, 0, 0],
-        [1, 1, 1, 1],
-        [0, 0, 0, 0],
-        [0, 0, 0, 0]
-      ],
-      color: '#00f0f0'
-    },
-    J: {
-      shape: [
-        [1, 0, 0],
-        [1, 1, 1],
-        [0, 0, 0]
-      ],
-      color: '#0000f0'
-    },
-    L: {
-      shape: [
-        [0, 0, 1],
-        [1, 1, 1],
-        [0, 0, 0]
-      ],
-      color: '#f0a000'
-    },
-    O: {
-      shape: [
-        [1, 1],
-        [1, 1]
-      ],
-      color: '#f0f000'
-    },
-    S: {
-      shape: [
-        [0, 1, 1],
-        [1, 1, 0],
-        [0, 0, 0]
-      ],
-      color: '#00f000'
-    },
-    T: {
-      shape: [
-        [0, 1, 0],
-        [1, 1, 1],
-        [0, 0, 0]
-      ],
-      color: '#a000f0'
-    },
-    Z: {
-      shape: [
-        [1, 1, 0],
-        [0, 1, 1],
-        [0, 0, 0]
-      ],
-      color: '#f00000'
-    }
-  };
+  private engine = new TetrisEngine({ seed: randomSeed(), cols: this.cols, rows: this.rows });
+  private popups: { text: string; createdAt: number }[] = [];
+  private readonly effects = new TetrisEffects();
+  private readonly popupDuration = 1200;
+
+  // Replays
+  private recorder: ReplayRecorder | null = null;
+  /** A daily challenge replayed after the day's scored attempt, which counts for nothing. */
+  private practice = false;
+  private replayPlayer: TetrisReplayPlayer | null = null;
+  private lastFrameTime = 0;
+
+  // Move hint and the attract mode demo
+  private hint: Placement | null = null;
+  private hintFor: Tetromino | null = null;
+  private attracting = false;
+  private attractTimer: ReturnType<typeof setTimeout> | undefined;
+  private lastMoveTime = 0;
 
   // Signals for UI
   protected readonly score = signal(0);
   protected readonly level = signal(1);
   protected readonly lines = signal(0);
-  protected readonly highScore = signal(0);
+  protected readonly modes = TETRIS_MODES;
+  protected readonly mode = computed(() => tetrisMode(this.settings.value().mode));
+  /** The record to beat in the selected mode: the fastest time where that wins, else the high score. */
+  protected readonly best = computed(() => {
+    const mode = this.mode().id;
+    if (isTimeRanked('tetris', mode)) {
+      const [fastest] = this.scores.table('tetris', mode)();
+      return { label: 'BEST TIME', value: fastest ? formatGameTime(fastest.durationMs, true) : '—' };
+    }
+    return { label: 'HIGH SCORE', value: `${Math.max(this.scores.highScore('tetris', mode)(), this.score())}` };
+  });
+  /** The mode's clock: time left in Ultra, time taken in the others that have one. */
+  protected readonly timer = signal('');
+  protected readonly lineGoal = signal<number | undefined>(undefined);
   protected readonly gameStarted = signal(false);
   protected readonly gameOver = signal(false);
   protected readonly isPaused = signal(false);
-
-  ngOnInit(): void {
-    // Load high score from localStorage
-    const savedHighScore = localStorage.getItem('tetrisHighScore');
-    if (savedHighScore) {
-      this.highScore.set(parseInt(savedHighScore, 10));
-    }
-
-    // Add keyboard event listener
-    document.addEventListener('keydown', this.handleKeyPress);
-
-    // Initialize board
-    this.initializeBoard();
-  }
+  protected readonly nextPieces = signal<TetrominoType[]>([]);
+  protected readonly heldPiece = signal<TetrominoType | null>(null);
+  protected readonly canHold = signal(true);
+  protected readonly lastReplay = signal<Replay | null>(null);
+  protected readonly playback = signal<ReplayPlayback | null>(null);
+  protected readonly newScore = signal<ReturnType<ScoreService['submit']>>(null);
+  protected readonly uploadId = signal<string | null>(null);
+  /** An unfinished game from an earlier visit, offered on the welcome screen. */
+  protected readonly savedGame = signal(loadSavedGame<TetrisSave>('tetris'));
 
   ngAfterViewInit(): void {
     const canvas = this.canvasRef.nativeElement;
-    canvas.width = this.canvasWidth;
-    canvas.height = this.canvasHeight;
-    this.ctx = canvas.getContext('2d')!;
+    this.renderer = new CanvasRenderer(canvas, this.canvasWidth, this.canvasHeight);
+    this.renderer.attach();
+    this.ctx = this.renderer.ctx;
+    this.input.attach(canvas);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    window.addEventListener('blur', this.autoPause);
+    window.addEventListener('pagehide', this.saveProgress);
 
     this.drawWelcomeScreen();
+
+    // Shared replay links open straight into playback
+    const code = this.route.snapshot.queryParamMap.get('replay');
+    const replay = code ? decodeReplay(code) : null;
+    if (replay?.game === 'tetris') {
+      setTimeout(() => this.watchReplay(replay));
+    }
   }
 
   ngOnDestroy(): void {
-    document.removeEventListener('keydown', this.handleKeyPress);
+    // Leaving the page keeps the game for later
+    this.saveProgress();
+    this.input.detach();
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('blur', this.autoPause);
+    window.removeEventListener('pagehide', this.saveProgress);
+    this.renderer?.detach();
+    this.stopAttract();
+    this.audio.stopMusic();
     if (this.gameLoop) {
       cancelAnimationFrame(this.gameLoop);
     }
   }
 
-  private initializeBoard(): void {
-    this.board = Array(this.rows).fill(null).map(() => Array(this.cols).fill(''));
-  }
-
-  private handleKeyPress = (event: KeyboardEvent) => {
-    if (!this.gameStarted() && !this.gameOver()) {
-      if (event.key === ' ') {
-        event.preventDefault();
-        this.startGame();
+  private handleInput({ action, pressed }: GameCommand<TetrisAction>): void {
+    // Any input ends the demo and brings the welcome screen back
+    if (this.attracting) {
+      if (pressed) {
+        this.engine = new TetrisEngine({ seed: randomSeed(), cols: this.cols, rows: this.rows });
+        this.syncSignals();
+        this.drawWelcomeScreen();
       }
       return;
     }
 
-    if (this.gameOver() && event.key === ' ') {
-      event.preventDefault();
-      this.restartGame();
+    if (!pressed) {
+      const release = RELEASES[action];
+      if (release && this.gameStarted()) {
+        this.sendCommand(release);
+      }
       return;
     }
 
-    if (!this.gameStarted() || this.gameOver()) return;
+    if (this.playback()) {
+      if (action === 'hardDrop' || action === 'pause') {
+        this.playback()!.toggle();
+      } else if (action === 'back') {
+        this.exitReplay();
+      }
+      return;
+    }
 
-    // Prevent default for game keys
-    if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', ' ', 'p'].includes(event.key)) {
-      event.preventDefault();
+    if (!this.gameStarted()) {
+      // Pause carries on a saved game; space, a tap, or A/Start on a gamepad starts a new one
+      if (action === 'pause' && this.savedGame()) {
+        this.continueGame();
+      } else if (action === 'hardDrop' || action === 'rotateCW' || action === 'pause') {
+        this.restartGame();
+      } else if (action === 'left' || action === 'right') {
+        this.chooseMode(action === 'left' ? -1 : 1);
+      }
+      return;
     }
 
-    if (event.key === 'p' || event.key === 'P') {
+    if (action === 'pause') {
       this.togglePause();
       return;
     }
-
     if (this.isPaused()) return;
+    if (action === 'back') {
+      this.endZen();
+      return;
+    }
 
-    switch (event.key) {
-      case 'ArrowLeft':
-        this.movePiece(-1, 0);
-        break;
-      case 'ArrowRight':
-        this.movePiece(1, 0);
-        break;
-      case 'ArrowDown':
-        this.movePiece(0, 1);
-        break;
-      case 'ArrowUp':
-        this.rotatePiece();
-        break;
-      case ' ':
-        this.hardDrop();
-        break;
+    this.sendCommand(action);
+    if (!this.gameOver()) {
+      this.draw();
     }
-  };
+  }
+
+  protected selectMode(id: string): void {
+    this.settings.update({ mode: id });
+    this.syncSignals();
+    this.drawWelcomeScreen();
+  }
+
+  private chooseMode(step: number): void {
+    const index = TETRIS_MODES.indexOf(this.mode());
+    this.selectMode(TETRIS_MODES[(index + step + TETRIS_MODES.length) % TETRIS_MODES.length].id);
+  }
+
+  /** Zen has no game over, so the player ends it; other modes ignore this. */
+  protected endZen(): void {
+    if (this.gameStarted() && !this.isPaused()) {
+      this.sendCommand('quit');
+    }
+  }
+
+  protected updateSetting({ id, value }: { id: string; value: number | boolean }): void {
+    this.settings.update({ [id]: value } as Partial<TetrisSettings>);
+    this.applySettings();
+  }
+
+  protected updateKeys(keys: KeyMap<string>): void {
+    this.settings.update({ keys: keys as KeyMap<TetrisAction> });
+    this.applySettings();
+  }
+
+  protected resetSettings(): void {
+    this.settings.reset();
+    this.applySettings();
+  }
+
+  private applySettings(): void {
+    // Drawing options are read every frame, so only the keys need passing on
+    this.input.bindings = this.inputBindings();
+  }
+
+  private inputBindings(): InputBindings<TetrisAction> {
+    return { ...DEVICE_BINDINGS, keys: keyBindings(this.settings.value().keys) };
+  }
 
+  /** Sends a command to the engine and logs it, stamped with its frame, for the replay. */
+  private sendCommand(command: TetrisCommand): void {
+    const events = this.engine.dispatch(command);
+    this.recorder?.record(this.engine.frameCount, command);
+    const sound = COMMAND_SOUNDS[command];
+    if (sound) {
+      this.playSound(sound);
+    }
+    this.handleEvents(events);
+  }
+
+  /** Starts a game in the selected mode; the daily challenge seeds from the date and is stamped with it. */
   protected startGame(): void {
+    this.stopAttract();
+    this.discardSavedGame();
+    const day = this.daily.today();
+    const isDaily = this.mode().id === DAILY_MODE;
+    const seed = isDaily ? dailySeed('tetris', day) : randomSeed();
+    const options: Record<string, number> = {
+      cols: this.cols,
+      rows: this.rows,
+      startLevel: this.settings.value().startLevel,
+      ...this.mode().options,
+      ...(isDaily ? { day: dayNumber(day) } : {})
+    };
+    this.engine = new TetrisEngine(tetrisEngineOptions(options, seed));
+    this.recorder = new ReplayRecorder('tetris', seed, options);
+    this.practice = isDaily && !this.daily.begin('tetris', day);
     this.gameStarted.set(true);
     this.gameOver.set(false);
+    this.newScore.set(null);
+    this.uploadId.set(null);
     this.isPaused.set(false);
-    this.score.set(0);
-    this.level.set(1);
-    this.lines.set(0);
-    this.dropInterval = 1000;
-    this.initializeBoard();
-    this.spawnPiece();
-    this.lastDropTime = Date.now();
+    this.popups = [];
+    this.effects.reset();
+    this.audio.startMusic(KOROBEINIKI, this.settings.value().volume);
+    this.handleEvents(this.engine.start());
+    if (this.gameOver()) return;
     this.gameLoop = requestAnimationFrame(this.update);
   }
 
@@ -207,11 +379,96 @@ export class Tetris implements OnInit, OnDestroy, AfterViewInit {
     this.startGame();
   }
 
+  protected playDaily(): void {
+    this.settings.update({ mode: DAILY_MODE });
+    this.startGame();
+  }
+
+  /** Picks up the saved game where it stopped, paused so the player can get ready. */
+  protected continueGame(): void {
+    const saved = this.savedGame();
+    if (!saved) return;
+
+    const { seed, options, inputs } = saved.replay;
+    const engine = new TetrisEngine(tetrisEngineOptions(options, seed));
+    try {
+      engine.restore(saved.state);
+    } catch {
+      this.discardSavedGame();
+      return;
+    }
+
+    this.stopAttract();
+    cancelAnimationFrame(this.gameLoop);
+    this.engine = engine;
+    this.recorder = new ReplayRecorder('tetris', seed, options, inputs);
+    this.settings.update({ mode: saved.mode });
+    this.practice = options['day'] !== undefined && !this.daily.inProgress('tetris', dayFromNumber(options['day']));
+    this.gameStarted.set(true);
+    this.gameOver.set(false);
+    this.newScore.set(null);
+    this.uploadId.set(null);
+    this.popups = [];
+    this.effects.reset();
+    // Keys held when the game was saved have long since been let go
+    this.releaseKeys();
+    this.syncSignals();
+
+    this.audio.startMusic(KOROBEINIKI, this.settings.value().volume);
+    this.isPaused.set(true);
+    this.engine.pause();
+    this.audio.pauseMusic();
+    this.draw();
+  }
+
+  private releaseKeys(): void {
+    Object.values(RELEASES).forEach(release => this.sendCommand(release));
+  }
+
+  /** Pauses when the player switches tab or window, and keeps the game in case they don't come back. */
+  private autoPause = (): void => {
+    if (this.gameStarted() && !this.gameOver() && !this.isPaused()) {
+      this.releaseKeys();
+      this.togglePause();
+    }
+    this.saveProgress();
+  };
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.autoPause();
+    }
+  };
+
+  private saveProgress = (): void => {
+    if (!this.recorder || !this.gameStarted() || this.gameOver()) return;
+
+    const saved: SavedGame<TetrisSave> = {
+      version: 1,
+      mode: this.mode().id,
+      assisted: false,
+      replay: this.recorder.finish(this.engine.frameCount, { score: this.engine.score, lines: this.engine.lines }),
+      state: this.engine.save(),
+      savedAt: Date.now()
+    };
+    storeSavedGame(saved);
+    this.savedGame.set(saved);
+  };
+
+  private discardSavedGame(): void {
+    clearSavedGame('tetris');
+    this.savedGame.set(null);
+  }
+
   protected togglePause(): void {
     if (!this.gameStarted() || this.gameOver()) return;
     this.isPaused.update(p => !p);
-    if (!this.isPaused()) {
-      this.lastDropTime = Date.now();
+    if (this.isPaused()) {
+      this.audio.pauseMusic();
+      this.handleEvents(this.engine.pause());
+    } else {
+      this.engine.resume();
+      this.audio.resumeMusic();
       this.gameLoop = requestAnimationFrame(this.update);
     }
   }
@@ -219,293 +476,337 @@ export class Tetris implements OnInit, OnDestroy, AfterViewInit {
   private update = (): void => {
     if (this.isPaused() || this.gameOver()) return;
 
-    const currentTime = Date.now();
-    const deltaTime = currentTime - this.lastDropTime;
-
-    if (deltaTime > this.dropInterval) {
-      this.movePiece(0, 1);
-      this.lastDropTime = currentTime;
-    }
+    this.handleEvents(this.engine.update());
+    if (this.gameOver()) return;
 
     this.draw();
     this.gameLoop = requestAnimationFrame(this.update);
   };
 
-  private spawnPiece(): void {
-    const pieces = Object.values(this.tetrominoes);
-    const randomPiece = pieces[Math.floor(Math.random() * pieces.length)];
-    this.currentPiece = JSON.parse(JSON.stringify(randomPiece));
+  protected watchReplay(replay: Replay): void {
+    this.stopAttract();
+    cancelAnimationFrame(this.gameLoop);
+    this.gameStarted.set(false);
+    this.gameOver.set(false);
+    this.newScore.set(null);
+    this.uploadId.set(null);
+    this.isPaused.set(false);
+    this.popups = [];
+    this.effects.reset();
 
-    if (this.currentPiece) {
-      this.currentPosition = { x: Math.floor(this.cols / 2) - Math.floor(this.currentPiece.shape[0].length / 2), y: 0 };
-    }
+    this.lastReplay.set(replay);
+    this.replayPlayer = new TetrisReplayPlayer(replay);
+    const playback = new ReplayPlayback(replay.length, FRAME_MS);
+    playback.playing.set(true);
+    this.playback.set(playback);
 
-    // Check if game over
-    if (!this.isValidMove(this.currentPosition.x, this.currentPosition.y)) {
-      this.endGame();
-    }
+    this.lastFrameTime = performance.now();
+    this.gameLoop = requestAnimationFrame(this.updateReplay);
   }
 
-  private movePiece(dx: number, dy: number): void {
-    if (!this.currentPiece) return;
-
-    const newX = this.currentPosition.x + dx;
-    const newY = this.currentPosition.y + dy;
-
-    if (this.isValidMove(newX, newY)) {
-      this.currentPosition.x = newX;
-      this.currentPosition.y = newY;
-    } else if (dy > 0) {
-      // Lock piece and spawn new one
-      this.lockPiece();
-      const linesCleared = this.clearLines();
-      if (linesCleared > 0) {
-        this.updateScore(linesCleared);
-      }
-      this.spawnPiece();
-    }
+  protected exitReplay(): void {
+    cancelAnimationFrame(this.gameLoop);
+    this.playback.set(null);
+    this.replayPlayer = null;
+    this.engine = new TetrisEngine({ seed: randomSeed(), cols: this.cols, rows: this.rows });
+    this.syncSignals();
+    this.drawWelcomeScreen();
   }
 
-  private rotatePiece(): void {
-    if (!this.currentPiece) return;
-
-    const rotated = this.rotate(this.currentPiece.shape);
-    const originalShape = this.currentPiece.shape;
-    this.currentPiece.shape = rotated;
+  private updateReplay = (time: number): void => {
+    const playback = this.playback();
+    if (!playback || !this.replayPlayer) return;
 
-    // Wall kick - try different positions
-    let kicked = false;
-    for (const offset of [0, 1, -1, 2, -2]) {
-      if (this.isValidMove(this.currentPosition.x + offset, this.currentPosition.y)) {
-        this.currentPosition.x += offset;
-        kicked = true;
-        break;
-      }
-    }
+    playback.advance(time - this.lastFrameTime);
+    this.lastFrameTime = time;
 
-    if (!kicked) {
-      this.currentPiece.shape = originalShape;
+    const events = this.replayPlayer.seek(playback.step);
+    this.engine = this.replayPlayer.engine;
+    this.syncSignals();
+    if (playback.playing()) {
+      this.showEffects(events);
     }
-  }
-
-  private rotate(matrix: number[][]): number[][] {
-    const n = matrix.length;
-    const rotated = Array(n).fill(null).map(() => Array(n).fill(0));
 
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < n; j++) {
-        rotated[j][n - 1 - i] = matrix[i][j];
-      }
-    }
+    this.draw();
+    this.gameLoop = requestAnimationFrame(this.updateReplay);
+  };
 
-    return rotated;
+  /** Plays a demo game on the welcome screen until the player presses something. */
+  private startAttract(): void {
+    this.attracting = true;
+    this.engine = new TetrisEngine({ seed: randomSeed(), cols: this.cols, rows: this.rows });
+    this.engine.start();
+    this.syncSignals();
+    this.lastMoveTime = performance.now();
+    this.gameLoop = requestAnimationFrame(this.stepAttract);
   }
 
-  private hardDrop(): void {
-    if (!this.currentPiece) return;
-
-    while (this.isValidMove(this.currentPosition.x, this.currentPosition.y + 1)) {
-      this.currentPosition.y++;
-      this.score.update(s => s + 2); // Bonus points for hard drop
+  private stepAttract = (time: number): void => {
+    let events = this.engine.update();
+    if (time - this.lastMoveTime >= ATTRACT_MOVE_MS) {
+      this.lastMoveTime = time;
+      events = [...events, ...playBestMove(this.engine)];
     }
-
-    this.lockPiece();
-    const linesCleared = this.clearLines();
-    if (linesCleared > 0) {
-      this.updateScore(linesCleared);
+    if (this.engine.gameOver) {
+      this.engine = new TetrisEngine({ seed: randomSeed(), cols: this.cols, rows: this.rows });
+      this.engine.start();
     }
-    this.spawnPiece();
-  }
+    this.syncSignals();
+    this.showEffects(events);
 
-  private isValidMove(x: number, y: number): boolean {
-    if (!this.currentPiece) return false;
-
-    for (let row = 0; row < this.currentPiece.shape.length; row++) {
-      for (let col = 0; col < this.currentPiece.shape[row].length; col++) {
-        if (this.currentPiece.shape[row][col]) {
-          const newX = x + col;
-          const newY = y + row;
+    this.draw();
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.font = 'bold 18px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText('DEMO', this.canvasWidth / 2, 30);
+    this.ctx.font = '16px Arial';
+    this.ctx.fillText('Press any key', this.canvasWidth / 2, this.canvasHeight - 20);
 
-          // Check boundaries
-          if (newX < 0 || newX >= this.cols || newY >= this.rows) {
-            return false;
-          }
+    this.gameLoop = requestAnimationFrame(this.stepAttract);
+  };
 
-          // Check collision with existing blocks
-          if (newY >= 0 && this.board[newY][newX]) {
-            return false;
-          }
-        }
-      }
+  private stopAttract(): void {
+    clearTimeout(this.attractTimer);
+    if (this.attracting) {
+      cancelAnimationFrame(this.gameLoop);
+      this.attracting = false;
     }
+  }
 
-    return true;
+  private syncSignals(): void {
+    this.score.set(this.engine.score);
+    this.level.set(this.engine.level);
+    this.lines.set(this.engine.lines);
+    this.nextPieces.set(this.engine.nextPieces);
+    this.heldPiece.set(this.engine.heldPiece);
+    this.canHold.set(this.engine.canHold);
+    this.lineGoal.set(this.engine.lineGoal);
+    this.timer.set(this.timerText());
   }
 
-  private lockPiece(): void {
-    if (!this.currentPiece) return;
+  private timerText(): string {
+    const { timeLimitMs, lineGoal, zen, elapsedMs } = this.engine;
+    if (timeLimitMs !== undefined) return formatGameTime(timeLimitMs - elapsedMs);
+    // Goal runs are raced, so they are timed to the millisecond
+    if (lineGoal !== undefined || zen) return formatGameTime(elapsedMs, lineGoal !== undefined);
+    return '';
+  }
 
-    for (let row = 0; row < this.currentPiece.shape.length; row++) {
-      for (let col = 0; col < this.currentPiece.shape[row].length; col++) {
-        if (this.currentPiece.shape[row][col]) {
-          const y = this.currentPosition.y + row;
-          const x = this.currentPosition.x + col;
-          if (y >= 0) {
-            this.board[y][x] = this.currentPiece.color;
-          }
-        }
+  /** Score popups and board animations for what the engine just did. */
+  private showEffects(events: TetrisEvent[]): void {
+    this.effects.capture(events, this.engine, performance.now());
+    for (const event of events) {
+      if (event.type === 'score') {
+        describeClear(event.result).forEach(text => this.popups.push({ text, createdAt: Date.now() }));
       }
     }
   }
 
-  private clearLines(): number {
-    let linesCleared = 0;
+  /** Mirrors the engine state into the UI signals after every engine call. */
+  private handleEvents(events: TetrisEvent[]): void {
+    this.syncSignals();
+    this.showEffects(events);
+    this.playSounds(events);
+    this.reportEvents(events);
 
-    for (let row = this.rows - 1; row >= 0; row--) {
-      if (this.board[row].every(cell => cell !== '')) {
-        // Remove the line
-        this.board.splice(row, 1);
-        // Add new empty line at top
-        this.board.unshift(Array(this.cols).fill(''));
-        linesCleared++;
-        row++; // Check same row again
-      }
+    const end = events.find(event => event.type === 'gameOver' || event.type === 'finish');
+    if (end) {
+      this.endGame(end.type === 'finish' ? end.reason : 'gameOver');
     }
+  }
 
-    if (linesCleared > 0) {
-      this.lines.update(l => l + linesCleared);
-
-      // Update level every 10 lines
-      const newLevel = Math.floor(this.lines() / 10) + 1;
-      if (newLevel !== this.level()) {
-        this.level.set(newLevel);
-        this.dropInterval = Math.max(100, 1000 - (newLevel - 1) * 100);
+  /** Counts pieces, clears and levels towards the lifetime stats and achievements. */
+  private reportEvents(events: TetrisEvent[]): void {
+    if (this.practice) return;
+    for (const event of events) {
+      if (event.type === 'lock') {
+        this.achievements.record({ type: 'piecePlaced' });
+      } else if (event.type === 'lineClear') {
+        this.achievements.record({ type: 'linesCleared', lines: event.lines });
+      } else if (event.type === 'levelUp') {
+        this.achievements.record({ type: 'levelUp', level: event.level });
       }
     }
-
-    return linesCleared;
   }
 
-  private updateScore(linesCleared: number): void {
-    const points = [0, 100, 300, 500, 800];
-    const baseScore = points[linesCleared] || 0;
-    const levelMultiplier = this.level();
-    this.score.update(s => s + baseScore * levelMultiplier);
-
-    // Update high score
-    if (this.score() > this.highScore()) {
-      this.highScore.set(this.score());
-      localStorage.setItem('tetrisHighScore', this.score().toString());
+  /** One sound per engine call: the biggest thing that happened drowns out the rest. */
+  private playSounds(events: TetrisEvent[]): void {
+    const types = new Set(events.map(event => event.type));
+    const lines = Math.max(0, ...events.map(event => (event.type === 'lineClear' ? event.lines : 0)));
+    if (types.has('gameOver') || types.has('finish')) return;
+
+    if (types.has('levelUp')) {
+      this.playSound('levelUp');
+    } else if (lines > 0) {
+      this.playSound(lines === 4 ? 'tetris' : 'lineClear');
+    } else if (types.has('lock')) {
+      this.playSound('lock');
+    } else if (types.has('hold')) {
+      this.playSound('hold');
     }
   }
 
-  private draw(): void {
-    // Clear canvas
-    this.ctx.fillStyle = '#1a1a2e';
-    this.ctx.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
-
-    // Draw grid
-    this.ctx.strokeStyle = '#16213e';
-    this.ctx.lineWidth = 1;
-    for (let i = 0; i <= this.cols; i++) {
-      this.ctx.beginPath();
-      this.ctx.moveTo(i * this.blockSize, 0);
-      this.ctx.lineTo(i * this.blockSize, this.canvasHeight);
-      this.ctx.stroke();
-    }
-    for (let i = 0; i <= this.rows; i++) {
-      this.ctx.beginPath();
-      this.ctx.moveTo(0, i * this.blockSize);
-      this.ctx.lineTo(this.canvasWidth, i * this.blockSize);
-      this.ctx.stroke();
-    }
+  private playSound(sound: SoundName): void {
+    this.audio.play(sound, this.settings.value().volume);
+  }
 
-    // Draw locked pieces
-    for (let row = 0; row < this.rows; row++) {
-      for (let col = 0; col < this.cols; col++) {
-        if (this.board[row][col]) {
-          this.drawBlock(col, row, this.board[row][col]);
-        }
+  private draw(): void {
+    const { ghost, gridLines, hint } = this.settings.value();
+    const now = performance.now();
+    const rowOffset = (row: number) => this.effects.rowOffset(row, now);
+    drawBoard(this.ctx, this.engine, { blockSize: this.blockSize, ghost, gridLines, rowOffset });
+    this.effects.drawOverlay(this.ctx, this.blockSize, now);
+
+    // Outline the AI's pick for this piece, worked out once when it spawns
+    const piece = this.engine.currentPiece;
+    if (piece && hint && this.gameStarted()) {
+      if (this.hintFor !== piece) {
+        this.hintFor = piece;
+        this.hint = bestPlacement(this.engine);
+      }
+      if (this.hint) {
+        this.drawHint(this.hint);
       }
     }
 
-    // Draw current piece
-    if (this.currentPiece) {
-      for (let row = 0; row < this.currentPiece.shape.length; row++) {
-        for (let col = 0; col < this.currentPiece.shape[row].length; col++) {
-          if (this.currentPiece.shape[row][col]) {
-            const x = this.currentPosition.x + col;
-            const y = this.currentPosition.y + row;
-            if (y >= 0) {
-              this.drawBlock(x, y, this.currentPiece.color);
-            }
-          }
+    drawPiece(this.ctx, this.engine, this.blockSize);
+    this.drawPopups();
+  }
+
+  /** A dashed outline of the suggested landing spot, labelled when it means holding first. */
+  private drawHint({ shape, position, hold }: Placement): void {
+    this.ctx.strokeStyle = '#ffffff';
+    this.ctx.globalAlpha = 0.7;
+    this.ctx.lineWidth = 2;
+    this.ctx.setLineDash([4, 3]);
+    shape.forEach((cells, row) =>
+      cells.forEach((cell, col) => {
+        if (cell && position.y + row >= 0) {
+          const x = (position.x + col) * this.blockSize;
+          const y = (position.y + row) * this.blockSize;
+          this.ctx.strokeRect(x + 4, y + 4, this.blockSize - 8, this.blockSize - 8);
         }
-      }
+      })
+    );
+    this.ctx.setLineDash([]);
+
+    if (hold) {
+      this.ctx.fillStyle = '#ffffff';
+      this.ctx.font = 'bold 12px Arial';
+      this.ctx.textAlign = 'center';
+      const top = Math.max(position.y, 0) * this.blockSize;
+      this.ctx.fillText('HOLD', (position.x + shape[0].length / 2) * this.blockSize, Math.max(top - 4, 12));
     }
+    this.ctx.globalAlpha = 1;
   }
 
-  private drawBlock(x: number, y: number, color: string): void {
-    const padding = 2;
-    this.ctx.fillStyle = color;
-    this.ctx.fillRect(
-      x * this.blockSize + padding,
-      y * this.blockSize + padding,
-      this.blockSize - padding * 2,
-      this.blockSize - padding * 2
-    );
+  /** Scoring popups stack in the upper third of the board, rise and fade out. */
+  private drawPopups(): void {
+    const now = Date.now();
+    this.popups = this.popups.filter(popup => now - popup.createdAt < this.popupDuration);
 
-    // Add highlight for 3D effect
-    this.ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
-    this.ctx.fillRect(
-      x * this.blockSize + padding,
-      y * this.blockSize + padding,
-      this.blockSize - padding * 2,
-      4
-    );
-    this.ctx.fillRect(
-      x * this.blockSize + padding,
-      y * this.blockSize + padding,
-      4,
-      this.blockSize - padding * 2
-    );
+    this.ctx.textAlign = 'center';
+    this.popups.forEach((popup, index) => {
+      const progress = (now - popup.createdAt) / this.popupDuration;
+      this.ctx.globalAlpha = 1 - progress;
+      this.ctx.fillStyle = popup.text.startsWith('+') ? '#f0f000' : '#ffffff';
+      this.ctx.font = 'bold 20px Arial';
+      this.ctx.fillText(popup.text, this.canvasWidth / 2, this.canvasHeight / 3 + index * 26 - progress * 30);
+    });
+    this.ctx.globalAlpha = 1;
   }
 
   private drawWelcomeScreen(): void {
+    this.stopAttract();
+    this.attractTimer = setTimeout(() => this.startAttract(), ATTRACT_DELAY_MS);
+
     this.ctx.fillStyle = '#1a1a2e';
     this.ctx.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
 
     this.ctx.fillStyle = '#00f0f0';
     this.ctx.font = 'bold 32px Arial';
     this.ctx.textAlign = 'center';
-    this.ctx.fillText('TETRIS', this.canvasWidth / 2, this.canvasHeight / 2 - 40);
+    this.ctx.fillText('TETRIS', this.canvasWidth / 2, this.canvasHeight / 2 - 110);
+
+    // The selected mode; left and right pick another
+    const mode = this.mode();
+    this.ctx.fillStyle = '#f0a000';
+    this.ctx.font = 'bold 20px Arial';
+    this.ctx.fillText(`◀ ${mode.name} ▶`, this.canvasWidth / 2, this.canvasHeight / 2 - 60);
+    this.ctx.fillStyle = '#cccccc';
+    this.ctx.font = '14px Arial';
+    this.ctx.fillText(mode.description, this.canvasWidth / 2, this.canvasHeight / 2 - 35);
 
     this.ctx.fillStyle = '#ffffff';
     this.ctx.font = '18px Arial';
     this.ctx.fillText('Press SPACE', this.canvasWidth / 2, this.canvasHeight / 2 + 20);
     this.ctx.fillText('to Start', this.canvasWidth / 2, this.canvasHeight / 2 + 45);
+    if (this.savedGame()) {
+      this.ctx.fillStyle = '#f0f000';
+      this.ctx.fillText(`Press ${this.pauseKeys()} to Continue`, this.canvasWidth / 2, this.canvasHeight / 2 + 90);
+    }
   }
 
-  private endGame(): void {
+  private endGame(reason: FinishReason | 'gameOver'): void {
     this.gameStarted.set(false);
     this.gameOver.set(true);
+    this.discardSavedGame();
+    this.audio.stopMusic();
+    this.playSound(reason === 'goal' ? 'levelUp' : 'gameOver');
+
+    const result: TetrisResult = {
+      score: this.score(),
+      level: this.level(),
+      lines: this.lines(),
+      durationMs: Math.round(this.engine.frameCount * FRAME_MS)
+    };
+    const screen = resultsScreen(this.mode(), reason, result);
+
+    if (this.recorder) {
+      const replay = this.recorder.finish(this.engine.frameCount, { score: result.score, lines: result.lines });
+      this.lastReplay.set(replay);
+      this.recorder = null;
+
+      // Daily practice counts for nothing; only the day's first try is scored
+      const day = replay.options['day'];
+      if (!this.practice) {
+        const { score, lines, durationMs } = result;
+        if (day !== undefined) {
+          this.daily.finish('tetris', dayFromNumber(day), { score, lines, durationMs, marks: tetrisDailyMarks(replay) });
+        }
+        const mode = this.mode().id;
+        if (screen.ranked) {
+          this.newScore.set(this.scores.submit('tetris', mode, result));
+        }
+        this.achievements.record({ type: 'gameEnd', game: 'tetris', score, durationMs });
+        // The online leaderboard ranks by score, which would put the slowest sprints first
+        if (score > 0 && screen.ranked && !isTimeRanked('tetris', mode)) {
+          this.uploadId.set(this.onlineScores.submit('tetris', mode, result));
+        }
+      }
+    }
+
+    this.drawResults(screen);
+  }
 
-    // Draw game over screen
+  private drawResults({ title, rows }: ResultsScreen): void {
+    const center = this.canvasWidth / 2;
+    const top = this.canvasHeight / 2 - 40 - rows.length * 15;
     this.ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
     this.ctx.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
 
-    this.ctx.fillStyle = '#f00000';
-    this.ctx.font = 'bold 36px Arial';
+    this.ctx.fillStyle = title === 'GAME OVER' ? '#f00000' : '#00f0f0';
+    this.ctx.font = `bold ${title.length > 10 ? 28 : 36}px Arial`;
     this.ctx.textAlign = 'center';
-    this.ctx.fillText('GAME OVER', this.canvasWidth / 2, this.canvasHeight / 2 - 40);
+    this.ctx.fillText(title, center, top);
 
     this.ctx.fillStyle = '#ffffff';
     this.ctx.font = '20px Arial';
-    this.ctx.fillText(`Score: ${this.score()}`, this.canvasWidth / 2, this.canvasHeight / 2 + 10);
-    this.ctx.fillText(`Lines: ${this.lines()}`, this.canvasWidth / 2, this.canvasHeight / 2 + 40);
+    rows.forEach(([label, value], i) => this.ctx.fillText(`${label}: ${value}`, center, top + 50 + i * 30));
 
+    const bottom = top + 50 + rows.length * 30;
     this.ctx.font = '16px Arial';
-    this.ctx.fillText('Press SPACE', this.canvasWidth / 2, this.canvasHeight / 2 + 80);
-    this.ctx.fillText('to Restart', this.canvasWidth / 2, this.canvasHeight / 2 + 100);
+    this.ctx.fillText('Press SPACE', center, bottom + 10);
+    this.ctx.fillText('to Restart', center, bottom + 30);
   }
 }
@@ -0,0 +1,5 @@
+/* Markdown files are bundled as text; see the loader option in angular.json. */
+declare module '*.md' {
+  const source: string;
+  export default source;
+}